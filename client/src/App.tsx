@@ -10,7 +10,9 @@ import Dashboard from "@/pages/dashboard";
 import Assessment from "@/pages/assessment";
 import FleetTrackingForm from "@/pages/fleet-tracking";
 import FleetCameraForm from "@/pages/fleet-camera";
+import ProjectPage from "@/pages/project";
 import CustomerPortal from "@/pages/customer-portal";
+import CustomerProposal from "@/pages/customer-proposal";
 import AdminDashboard from "@/pages/admin-dashboard";
 import LoginError from "@/pages/login-error";
 
@@ -22,6 +24,7 @@ function Router() {
 
   return (
     <Switch>
+      <Route path="/customer/proposal/:token" component={CustomerProposal} />
       <Route path="/customer/:token" component={CustomerPortal} />
       <Route path="/login-error" component={LoginError} />
       {isLoading || !isAuthenticated ? (
@@ -43,6 +46,7 @@ function Router() {
           <Route path="/assessment/:id?" component={Assessment} />
           <Route path="/fleet-tracking/:id?" component={FleetTrackingForm} />
           <Route path="/fleet-camera/:id?" component={FleetCameraForm} />
+          <Route path="/projects/:id" component={ProjectPage} />
           <Route component={NotFound} />
         </>
       )}
@@ -0,0 +1,170 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck, Plus, Trash2 } from "lucide-react";
+import type { ApprovalRule } from "@shared/schema";
+
+interface ApprovalRuleManagerProps {
+  enabled: boolean;
+}
+
+interface ApprovalRuleDraft {
+  ruleType: string;
+  threshold: string;
+  isActive: boolean;
+}
+
+const toDraft = (rule: ApprovalRule): ApprovalRuleDraft => ({
+  ruleType: rule.ruleType,
+  threshold: String(parseFloat(rule.threshold)),
+  isActive: rule.isActive,
+});
+
+export function ApprovalRuleManager({ enabled }: ApprovalRuleManagerProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<ApprovalRuleDraft[]>([]);
+
+  const { data: rules, isLoading } = useQuery<ApprovalRule[]>({
+    queryKey: ["/api/admin/approval-rules"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  useEffect(() => {
+    if (rules) {
+      setDrafts(rules.map(toDraft));
+    }
+  }, [rules]);
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/approval-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules: drafts }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to save approval rules');
+      }
+      return response.json();
+    },
+    onSuccess: (saved: ApprovalRule[]) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/approval-rules"] });
+      toast({
+        title: "Approval Rules Saved",
+        description: `${saved.length} rule${saved.length === 1 ? '' : 's'} will be checked the next time a quote is priced or adjusted.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save approval rules. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = <K extends keyof ApprovalRuleDraft>(index: number, field: K, value: ApprovalRuleDraft[K]) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, [field]: value } : draft)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Approval Rules
+            </CardTitle>
+            <CardDescription>
+              Quotes matching any active rule wait for admin approval before they reach the customer. Discounts are measured against the list price before adjustments.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setDrafts((prev) => [...prev, { ruleType: "discount_percent", threshold: "", isActive: true }])}
+            className="flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-4">Loading approval rules...</div>
+        ) : drafts.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No approval rules. Partners can send any quote without sign-off.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Needs approval when</TableHead>
+                <TableHead>Threshold</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map((draft, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Select value={draft.ruleType} onValueChange={(value) => updateDraft(index, 'ruleType', value)}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="discount_percent">Discount is over (% of list price)</SelectItem>
+                        <SelectItem value="discount_amount">Discount is over ($)</SelectItem>
+                        <SelectItem value="total_amount">Quote total is over ($)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step={draft.ruleType === 'discount_percent' ? '0.1' : '0.01'}
+                      className="w-32"
+                      value={draft.threshold}
+                      onChange={(e) => updateDraft(index, 'threshold', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={draft.isActive} onCheckedChange={(checked) => updateDraft(index, 'isActive', checked)} />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <div className="flex justify-end">
+          <Button onClick={() => saveRulesMutation.mutate()} disabled={isLoading || saveRulesMutation.isPending}>
+            {saveRulesMutation.isPending ? 'Saving...' : 'Save Approval Rules'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Organization } from "@shared/schema";
+
+interface GeocodedLocation {
+  latitude: number;
+  longitude: number;
+  placeName: string;
+  precision: 'city' | 'region';
+}
+
+interface BaseLocationResponse {
+  organization: Organization;
+  location: GeocodedLocation | null;
+}
+
+interface BaseLocationDialogProps {
+  organizationId: number | null;
+  onClose: () => void;
+}
+
+export function BaseLocationDialog({ organizationId, onClose }: BaseLocationDialogProps) {
+  const { toast } = useToast();
+  const [baseAddress, setBaseAddress] = useState("");
+
+  const { data, isLoading } = useQuery<BaseLocationResponse>({
+    queryKey: [`/api/admin/organizations/${organizationId}/base-location`],
+    enabled: organizationId !== null,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setBaseAddress(data.organization.baseAddress || "");
+    }
+  }, [data]);
+
+  const saveBaseLocationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/admin/organizations/${organizationId}/base-location`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseAddress: baseAddress || null }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update base location');
+      }
+      return response.json();
+    },
+    onSuccess: (result: BaseLocationResponse) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/organizations/${organizationId}/base-location`] });
+      toast({
+        title: "Base Location Updated",
+        description: result.location
+          ? `Travel for new quotes is measured from ${result.location.placeName}.`
+          : "Travel charges are no longer added for this organization.",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update base location. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={organizationId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Base Location - {data?.organization.name || 'Organization'}</DialogTitle>
+          <DialogDescription>
+            Travel charges on new quotes are based on the distance from this location to the site. Leave it blank to quote without travel.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">Loading base location...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="base-address">Base Address</Label>
+              <Input
+                id="base-address"
+                placeholder="e.g. 200 Main St, Amarillo, TX"
+                value={baseAddress}
+                onChange={(e) => setBaseAddress(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Located offline from the city and state or province, so include both.
+              </p>
+            </div>
+            {data?.location && (
+              <p className="text-sm">
+                Current location: <span className="font-medium">{data.location.placeName}</span>
+                <span className="text-gray-500"> ({data.location.latitude.toFixed(2)}, {data.location.longitude.toFixed(2)})</span>
+              </p>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveBaseLocationMutation.mutate()} disabled={isLoading || saveBaseLocationMutation.isPending}>
+            {saveBaseLocationMutation.isPending ? 'Saving...' : 'Save Location'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Organization, OrganizationPricingOverride } from "@shared/schema";
+
+const OVERRIDE_SERVICE_TYPES = [
+  { value: 'all', label: 'All Services' },
+  { value: 'site-assessment', label: 'Fixed Wireless Access' },
+  { value: 'fleet-tracking', label: 'Fleet Tracking' },
+  { value: 'fleet-camera', label: 'Fleet Camera' },
+] as const;
+
+interface OrganizationPricingResponse {
+  organization: Organization;
+  overrides: OrganizationPricingOverride[];
+}
+
+interface OverrideDraft {
+  hourlyRate: string;
+  priceMultiplier: string;
+}
+
+interface OrganizationPricingDialogProps {
+  organizationId: number | null;
+  onClose: () => void;
+}
+
+export function OrganizationPricingDialog({ organizationId, onClose }: OrganizationPricingDialogProps) {
+  const { toast } = useToast();
+  const [commission, setCommission] = useState("0.00");
+  const [partnerType, setPartnerType] = useState("installer");
+  const [overrides, setOverrides] = useState<Record<string, OverrideDraft>>({});
+
+  const { data, isLoading } = useQuery<OrganizationPricingResponse>({
+    queryKey: [`/api/admin/organizations/${organizationId}/pricing`],
+    enabled: organizationId !== null,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setCommission(data.organization.commission || "0.00");
+      setPartnerType(data.organization.partnerType);
+      setOverrides(Object.fromEntries(
+        OVERRIDE_SERVICE_TYPES.map(({ value }) => {
+          const override = data.overrides.find((o) => o.serviceType === value);
+          return [value, {
+            hourlyRate: override?.hourlyRate || "",
+            priceMultiplier: override?.priceMultiplier || "1.000",
+          }];
+        })
+      ));
+    }
+  }, [data]);
+
+  const savePricingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/admin/organizations/${organizationId}/pricing`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          commission,
+          partnerType,
+          overrides: OVERRIDE_SERVICE_TYPES.map(({ value }) => ({
+            serviceType: value,
+            hourlyRate: overrides[value]?.hourlyRate || null,
+            priceMultiplier: overrides[value]?.priceMultiplier || null,
+          })),
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update organization pricing');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/organizations/${organizationId}/pricing`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/partners"] });
+      toast({
+        title: "Pricing Updated",
+        description: "Organization pricing and commission have been saved.",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update organization pricing. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateOverride = (serviceType: string, field: keyof OverrideDraft, value: string) => {
+    setOverrides((prev) => ({
+      ...prev,
+      [serviceType]: { ...(prev[serviceType] || { hourlyRate: "", priceMultiplier: "1.000" }), [field]: value },
+    }));
+  };
+
+  return (
+    <Dialog open={organizationId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Partner Pricing - {data?.organization.name || 'Organization'}</DialogTitle>
+          <DialogDescription>
+            Custom rates apply to new quotes for this organization. Commission is calculated when a quote is approved.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">Loading pricing...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Partner Type</Label>
+                <Select value={partnerType} onValueChange={setPartnerType}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select partner type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="installer">Installer (commission on labor)</SelectItem>
+                    <SelectItem value="sales_agent">Sales Agent (commission on total)</SelectItem>
+                    <SelectItem value="reseller">Reseller (commission on total)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="organization-commission">Commission (%)</Label>
+                <Input
+                  id="organization-commission"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={commission}
+                  onChange={(e) => setCommission(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Pricing Overrides</h3>
+              <p className="text-sm text-gray-600">
+                Leave the hourly rate blank to use the rate card. Service-specific values take precedence over All Services.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Hourly Rate ($)</TableHead>
+                    <TableHead>Price Multiplier</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {OVERRIDE_SERVICE_TYPES.map(({ value, label }) => (
+                    <TableRow key={value}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="Rate card"
+                          value={overrides[value]?.hourlyRate ?? ""}
+                          onChange={(e) => updateOverride(value, 'hourlyRate', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={overrides[value]?.priceMultiplier ?? "1.000"}
+                          onChange={(e) => updateOverride(value, 'priceMultiplier', e.target.value)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => savePricingMutation.mutate()} disabled={isLoading || savePricingMutation.isPending}>
+            {savePricingMutation.isPending ? 'Saving...' : 'Save Pricing'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Package, Plus, Edit } from "lucide-react";
+import type { Product } from "@shared/schema";
+
+interface ProductCatalogManagerProps {
+  enabled: boolean;
+}
+
+interface ProductDraft {
+  sku: string;
+  name: string;
+  description: string;
+  cost: string;
+  sellPrice: string;
+  billingPeriod: string;
+  serviceTypes: string[];
+  isActive: boolean;
+}
+
+const SERVICE_TYPES = [
+  { value: 'site-assessment', label: 'Fixed Wireless Access' },
+  { value: 'fleet-tracking', label: 'Fleet Tracking' },
+  { value: 'fleet-camera', label: 'Fleet Camera' },
+];
+
+const EMPTY_DRAFT: ProductDraft = {
+  sku: "",
+  name: "",
+  description: "",
+  cost: "",
+  sellPrice: "",
+  billingPeriod: "one_time",
+  serviceTypes: [],
+  isActive: true,
+};
+
+const toDraft = (product: Product): ProductDraft => ({
+  sku: product.sku,
+  name: product.name,
+  description: product.description || "",
+  cost: String(parseFloat(product.cost)),
+  sellPrice: String(parseFloat(product.sellPrice)),
+  billingPeriod: product.billingPeriod,
+  serviceTypes: product.serviceTypes,
+  isActive: product.isActive,
+});
+
+export function ProductCatalogManager({ enabled }: ProductCatalogManagerProps) {
+  const { toast } = useToast();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ProductDraft>(EMPTY_DRAFT);
+
+  const { data: products = [], isLoading } = useQuery<Product[]>({
+    queryKey: ["/api/admin/products"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const saveProductMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number | null; data: ProductDraft }) => {
+      const response = await fetch(id ? `/api/admin/products/${id}` : '/api/admin/products', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to save product');
+      }
+      return response.json();
+    },
+    onSuccess: (product: Product, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      setShowDialog(false);
+      toast({
+        title: id ? "Product Updated" : "Product Added",
+        description: `${product.sku} is ${product.isActive ? 'available' : 'hidden'} for new quotes.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save product. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (product?: Product) => {
+    setEditingId(product?.id ?? null);
+    setDraft(product ? toDraft(product) : EMPTY_DRAFT);
+    setShowDialog(true);
+  };
+
+  const updateDraft = (field: keyof ProductDraft, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const toggleServiceType = (serviceType: string, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      serviceTypes: checked
+        ? [...prev.serviceTypes, serviceType]
+        : prev.serviceTypes.filter((type) => type !== serviceType),
+    }));
+  };
+
+  const serviceTypeLabel = (serviceType: string) =>
+    SERVICE_TYPES.find((type) => type.value === serviceType)?.label || serviceType;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Product Catalog
+            </CardTitle>
+            <CardDescription>
+              Hardware and monthly plans partners can add to quotes for the service types they are compatible with. Partners only see the sell price.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openDialog()} className="flex items-center gap-1">
+            <Plus className="h-4 w-4" />
+            New Product
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading products...</div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No products yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Cost</TableHead>
+                <TableHead>Sell Price</TableHead>
+                <TableHead>Service Types</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map((product) => (
+                <TableRow key={product.id}>
+                  <TableCell className="font-mono font-medium">{product.sku}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{product.name}</div>
+                    {product.description && <div className="text-sm text-gray-600">{product.description}</div>}
+                  </TableCell>
+                  <TableCell>${parseFloat(product.cost).toFixed(2)}</TableCell>
+                  <TableCell>${parseFloat(product.sellPrice).toFixed(2)}{product.billingPeriod === 'monthly' ? '/mo' : ''}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {product.serviceTypes.map((serviceType) => (
+                        <Badge key={serviceType} variant="outline">{serviceTypeLabel(serviceType)}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={product.isActive ? 'default' : 'secondary'}>
+                      {product.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => openDialog(product)} title="Edit">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Product' : 'New Product'}</DialogTitle>
+            <DialogDescription>
+              Price changes apply to quotes priced or re-priced from now on.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="product-sku">SKU</Label>
+                <Input
+                  id="product-sku"
+                  placeholder="RTR-5G-100"
+                  value={draft.sku}
+                  onChange={(e) => updateDraft('sku', e.target.value.toUpperCase())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-name">Name</Label>
+                <Input
+                  id="product-name"
+                  value={draft.name}
+                  onChange={(e) => updateDraft('name', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="product-description">Description</Label>
+                <Input
+                  id="product-description"
+                  value={draft.description}
+                  onChange={(e) => updateDraft('description', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-cost">Cost ($)</Label>
+                <Input
+                  id="product-cost"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.cost}
+                  onChange={(e) => updateDraft('cost', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-sell-price">{draft.billingPeriod === 'monthly' ? 'Sell Price ($/month)' : 'Sell Price ($)'}</Label>
+                <Input
+                  id="product-sell-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.sellPrice}
+                  onChange={(e) => updateDraft('sellPrice', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Billing</Label>
+              <Select value={draft.billingPeriod} onValueChange={(value) => updateDraft('billingPeriod', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="one_time">One-time</SelectItem>
+                  <SelectItem value="monthly">Monthly (platform fees, SIM and data plans)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Compatible Service Types</Label>
+              {SERVICE_TYPES.map((type) => (
+                <div key={type.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`product-service-${type.value}`}
+                    checked={draft.serviceTypes.includes(type.value)}
+                    onCheckedChange={(checked) => toggleServiceType(type.value, checked === true)}
+                  />
+                  <Label htmlFor={`product-service-${type.value}`} className="font-normal">{type.label}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="product-active"
+                checked={draft.isActive}
+                onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, isActive: checked === true }))}
+              />
+              <Label htmlFor="product-active" className="font-normal">Available for new quotes</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveProductMutation.mutate({ id: editingId, data: draft })}
+              disabled={!draft.sku || !draft.name || !draft.sellPrice || saveProductMutation.isPending}
+            >
+              {saveProductMutation.isPending ? 'Saving...' : editingId ? 'Save Product' : 'Add Product'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
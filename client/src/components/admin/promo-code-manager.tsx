@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tag, Plus } from "lucide-react";
+import type { PromoCode } from "@shared/schema";
+
+interface PromoCodeManagerProps {
+  enabled: boolean;
+}
+
+interface PromoCodeDraft {
+  code: string;
+  description: string;
+  discountType: string;
+  discountValue: string;
+  maxRedemptions: string;
+  expiresAt: string;
+}
+
+const EMPTY_DRAFT: PromoCodeDraft = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  discountValue: "",
+  maxRedemptions: "",
+  expiresAt: "",
+};
+
+const formatDiscount = (promoCode: PromoCode) =>
+  promoCode.discountType === 'percent'
+    ? `${parseFloat(promoCode.discountValue)}% off`
+    : `$${parseFloat(promoCode.discountValue).toFixed(2)} off`;
+
+const promoCodeStatus = (promoCode: PromoCode) => {
+  if (!promoCode.isActive) return 'Inactive';
+  if (promoCode.expiresAt && new Date(promoCode.expiresAt) <= new Date()) return 'Expired';
+  if (promoCode.maxRedemptions !== null && promoCode.redemptionCount >= promoCode.maxRedemptions) return 'Used Up';
+  return 'Active';
+};
+
+export function PromoCodeManager({ enabled }: PromoCodeManagerProps) {
+  const { toast } = useToast();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [draft, setDraft] = useState<PromoCodeDraft>(EMPTY_DRAFT);
+
+  const { data: promoCodes = [], isLoading } = useQuery<PromoCode[]>({
+    queryKey: ["/api/admin/promo-codes"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const savePromoCodeMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: Record<string, unknown> }) => {
+      const response = await fetch(id ? `/api/admin/promo-codes/${id}` : '/api/admin/promo-codes', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to save promo code');
+      }
+      return response.json();
+    },
+    onSuccess: (promoCode: PromoCode, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      setShowCreateDialog(false);
+      setDraft(EMPTY_DRAFT);
+      toast({
+        title: id ? "Promo Code Updated" : "Promo Code Created",
+        description: `${promoCode.code} is ${promoCodeStatus(promoCode).toLowerCase()}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save promo code. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActive = (promoCode: PromoCode) => {
+    savePromoCodeMutation.mutate({
+      id: promoCode.id,
+      data: {
+        description: promoCode.description,
+        discountType: promoCode.discountType,
+        discountValue: promoCode.discountValue,
+        maxRedemptions: promoCode.maxRedemptions,
+        expiresAt: promoCode.expiresAt,
+        isActive: !promoCode.isActive,
+      },
+    });
+  };
+
+  const updateDraft = (field: keyof PromoCodeDraft, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Tag className="h-5 w-5" />
+              Promo Codes
+            </CardTitle>
+            <CardDescription>
+              Discount codes partners can apply to pending quotes. Deactivating a code does not change quotes it was already applied to.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setShowCreateDialog(true)} className="flex items-center gap-1">
+            <Plus className="h-4 w-4" />
+            New Promo Code
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading promo codes...</div>
+        ) : promoCodes.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No promo codes yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Redemptions</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promoCodes.map((promoCode) => (
+                <TableRow key={promoCode.id}>
+                  <TableCell>
+                    <div className="font-mono font-medium">{promoCode.code}</div>
+                    {promoCode.description && <div className="text-sm text-gray-600">{promoCode.description}</div>}
+                  </TableCell>
+                  <TableCell>{formatDiscount(promoCode)}</TableCell>
+                  <TableCell>{promoCode.redemptionCount} / {promoCode.maxRedemptions ?? '∞'}</TableCell>
+                  <TableCell>{promoCode.expiresAt ? new Date(promoCode.expiresAt).toLocaleDateString() : 'Never'}</TableCell>
+                  <TableCell>
+                    <Badge variant={promoCodeStatus(promoCode) === 'Active' ? 'default' : 'secondary'}>
+                      {promoCodeStatus(promoCode)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => toggleActive(promoCode)}
+                      disabled={savePromoCodeMutation.isPending}
+                    >
+                      {promoCode.isActive ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Promo Code</DialogTitle>
+            <DialogDescription>
+              Leave the limit or expiry blank for a code that can be used any number of times or never expires.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-code-code">Code</Label>
+                <Input
+                  id="promo-code-code"
+                  placeholder="SPRING25"
+                  value={draft.code}
+                  onChange={(e) => updateDraft('code', e.target.value.toUpperCase())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-code-description">Description</Label>
+                <Input
+                  id="promo-code-description"
+                  value={draft.description}
+                  onChange={(e) => updateDraft('description', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Discount Type</Label>
+                <Select value={draft.discountType} onValueChange={(value) => updateDraft('discountType', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-code-value">{draft.discountType === 'percent' ? 'Percent Off' : 'Amount Off ($)'}</Label>
+                <Input
+                  id="promo-code-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.discountValue}
+                  onChange={(e) => updateDraft('discountValue', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-code-limit">Redemption Limit</Label>
+                <Input
+                  id="promo-code-limit"
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="Unlimited"
+                  value={draft.maxRedemptions}
+                  onChange={(e) => updateDraft('maxRedemptions', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-code-expires">Expires</Label>
+                <Input
+                  id="promo-code-expires"
+                  type="date"
+                  value={draft.expiresAt}
+                  onChange={(e) => updateDraft('expiresAt', e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => savePromoCodeMutation.mutate({
+                data: {
+                  ...draft,
+                  maxRedemptions: draft.maxRedemptions || null,
+                  // Codes stay valid through the end of the expiry date
+                  expiresAt: draft.expiresAt ? new Date(`${draft.expiresAt}T23:59:59`).toISOString() : null,
+                },
+              })}
+              disabled={!draft.code || !draft.discountValue || savePromoCodeMutation.isPending}
+            >
+              {savePromoCodeMutation.isPending ? 'Saving...' : 'Create Promo Code'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
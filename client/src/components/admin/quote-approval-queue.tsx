@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, CheckCircle, XCircle } from "lucide-react";
+import { QuoteLineItems, type QuoteLineItemData } from "@/components/quote/quote-line-items";
+import type { Assessment, Quote } from "@shared/schema";
+
+interface QuoteApprovalQueueProps {
+  enabled: boolean;
+}
+
+type QueuedQuote = Quote & {
+  assessment: Assessment;
+  organizationName: string | null;
+  lineItems: QuoteLineItemData[];
+};
+
+type Decision = 'approve' | 'reject';
+
+export function QuoteApprovalQueue({ enabled }: QuoteApprovalQueueProps) {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const { data: queue = [], isLoading } = useQuery<QueuedQuote[]>({
+    queryKey: ["/api/admin/quote-approvals"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ quoteId, decision }: { quoteId: number; decision: Decision }) => {
+      const response = await fetch(`/api/admin/quote-approvals/${quoteId}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: notes[quoteId] || null }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to record decision');
+      }
+      return response.json();
+    },
+    onSuccess: (quote: Quote, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quote-approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quotes"] });
+      setNotes((prev) => {
+        const { [quote.id]: _, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: decision === 'approve' ? "Quote Approved" : "Quote Rejected",
+        description: decision === 'approve'
+          ? `Quote ${quote.quoteNumber} can now be sent to the customer.`
+          : `Quote ${quote.quoteNumber} was returned to the partner.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Decision Failed",
+        description: error.message || "Failed to record decision. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Quotes Awaiting Approval
+        </CardTitle>
+        <CardDescription>
+          These quotes matched an approval rule. They cannot be sent to the customer until their pricing is approved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-4">Loading approval queue...</div>
+        ) : queue.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No quotes are waiting for approval.</div>
+        ) : (
+          queue.map((quote) => (
+            <div key={quote.id} className="border border-gray-200 rounded-lg p-4 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-semibold">
+                    #{quote.quoteNumber} - {quote.assessment.customerCompanyName}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {quote.organizationName || 'Unknown organization'} · {quote.assessment.salesExecutiveName}
+                  </p>
+                </div>
+                <Badge variant="secondary">Awaiting approval</Badge>
+              </div>
+              <ul className="list-disc list-inside text-sm text-amber-700">
+                {(quote.approvalReasons || []).map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+              <QuoteLineItems
+                lineItems={quote.lineItems}
+                totalCost={quote.totalCost}
+                tax={{ ...quote, taxExempt: quote.assessment.taxExempt }}
+                recurring={quote}
+                compact
+              />
+              <Textarea
+                value={notes[quote.id] || ""}
+                onChange={(e) => setNotes((prev) => ({ ...prev, [quote.id]: e.target.value }))}
+                placeholder="Note for the partner (required to reject)"
+                rows={2}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => decisionMutation.mutate({ quoteId: quote.id, decision: 'reject' })}
+                  disabled={decisionMutation.isPending}
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+                <Button
+                  onClick={() => decisionMutation.mutate({ quoteId: quote.id, decision: 'approve' })}
+                  disabled={decisionMutation.isPending}
+                >
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Approve
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
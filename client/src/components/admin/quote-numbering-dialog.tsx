@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Organization } from "@shared/schema";
+
+interface QuoteNumberingResponse {
+  organization: Organization;
+  defaults: {
+    quoteNumberPrefix: string;
+    quoteNumberFormat: string;
+  };
+  example: string;
+}
+
+interface QuoteNumberingDialogProps {
+  organizationId: number | null;
+  onClose: () => void;
+}
+
+export function QuoteNumberingDialog({ organizationId, onClose }: QuoteNumberingDialogProps) {
+  const { toast } = useToast();
+  const [prefix, setPrefix] = useState("");
+  const [format, setFormat] = useState("");
+
+  const { data, isLoading } = useQuery<QuoteNumberingResponse>({
+    queryKey: [`/api/admin/organizations/${organizationId}/quote-numbering`],
+    enabled: organizationId !== null,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setPrefix(data.organization.quoteNumberPrefix || "");
+      setFormat(data.organization.quoteNumberFormat || "");
+    }
+  }, [data]);
+
+  const saveNumberingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/admin/organizations/${organizationId}/quote-numbering`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          quoteNumberPrefix: prefix || null,
+          quoteNumberFormat: format || null,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update quote numbering');
+      }
+      return response.json();
+    },
+    onSuccess: (result: QuoteNumberingResponse) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/organizations/${organizationId}/quote-numbering`] });
+      toast({
+        title: "Quote Numbering Updated",
+        description: `New quotes will be numbered like ${result.example}.`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update quote numbering. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={organizationId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Quote Numbering - {data?.organization.name || 'Organization'}</DialogTitle>
+          <DialogDescription>
+            Applies to new quotes for this organization. Existing quote numbers are never changed.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">Loading quote numbering...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="quote-number-prefix">Prefix</Label>
+              <Input
+                id="quote-number-prefix"
+                maxLength={10}
+                placeholder={data?.defaults.quoteNumberPrefix}
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-number-format">Format</Label>
+              <Input
+                id="quote-number-format"
+                placeholder={data?.defaults.quoteNumberFormat}
+                value={format}
+                onChange={(e) => setFormat(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Tokens: {'{PREFIX}'}, {'{YYYY}'}, {'{YY}'}, {'{MM}'} and exactly one {'{SEQ:n}'} (counter padded to n digits).
+                The counter restarts whenever the rest of the number changes, e.g. each year with {'{YYYY}'}.
+              </p>
+            </div>
+            {data && (
+              <p className="text-sm">
+                Current format: <span className="font-mono">{data.example}</span>
+              </p>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveNumberingMutation.mutate()} disabled={isLoading || saveNumberingMutation.isPending}>
+            {saveNumberingMutation.isPending ? 'Saving...' : 'Save Numbering'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DollarSign, Save, RotateCcw } from "lucide-react";
+import type { RateCardEntry, RateCardVersion } from "@shared/schema";
+
+const SERVICE_TYPE_LABELS: Record<string, string> = {
+  'site-assessment': 'Fixed Wireless Access',
+  'fleet-tracking': 'Fleet Tracking',
+  'fleet-camera': 'Fleet Camera',
+};
+
+const UNIT_LABELS: Record<string, string> = {
+  usd_per_hour: '$ / hour',
+  usd_per_foot: '$ / foot',
+  hours: 'hours',
+  vehicles: 'vehicles',
+  devices: 'devices',
+  days: 'days',
+};
+
+interface RateCardResponse {
+  versions: RateCardVersion[];
+  activeVersionId: number;
+  versionId: number;
+  entries: RateCardEntry[];
+}
+
+interface RateCardManagerProps {
+  enabled: boolean;
+}
+
+// Format a date for a datetime-local input
+const toDateTimeLocal = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export function RateCardManager({ enabled }: RateCardManagerProps) {
+  const { toast } = useToast();
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null);
+  const [draftValues, setDraftValues] = useState<Record<number, string>>({});
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [versionNotes, setVersionNotes] = useState("");
+
+  const { data: rateCard, isLoading } = useQuery<RateCardResponse>({
+    queryKey: [selectedVersionId ? `/api/admin/rate-card?versionId=${selectedVersionId}` : "/api/admin/rate-card"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const entries = rateCard?.entries || [];
+  const versions = rateCard?.versions || [];
+  const currentVersion = versions.find((version) => version.id === rateCard?.versionId);
+  // Only the newest version can be edited; older versions are kept as history
+  const isLatestVersion = !!currentVersion && versions[0]?.id === currentVersion.id;
+
+  // Reset the editable values whenever the displayed version changes
+  useEffect(() => {
+    setDraftValues(Object.fromEntries(entries.map((entry) => [entry.id, entry.value])));
+  }, [rateCard]);
+
+  const changedEntries = entries.filter(
+    (entry) => draftValues[entry.id] !== undefined && parseFloat(draftValues[entry.id]) !== parseFloat(entry.value)
+  );
+
+  const createVersionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/rate-card/versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          changes: changedEntries.map((entry) => ({
+            serviceType: entry.serviceType,
+            parameterKey: entry.parameterKey,
+            value: draftValues[entry.id],
+          })),
+          effectiveFrom: effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined,
+          notes: versionNotes,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to create rate card version');
+      }
+      return response.json();
+    },
+    onSuccess: (version: RateCardVersion) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/rate-card"),
+      });
+      setSelectedVersionId(version.id);
+      setShowSaveDialog(false);
+      setVersionNotes("");
+      toast({
+        title: "Rate Card Version Created",
+        description: `Version ${version.versionNumber} is effective ${new Date(version.effectiveFrom).toLocaleString()}. Existing quotes keep their original pricing.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update rate card. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const groupedEntries = entries.reduce<Record<string, RateCardEntry[]>>((groups, entry) => {
+    (groups[entry.serviceType] = groups[entry.serviceType] || []).push(entry);
+    return groups;
+  }, {});
+
+  const versionStatus = (version: RateCardVersion) => {
+    if (version.id === rateCard?.activeVersionId) return 'Active';
+    if (new Date(version.effectiveFrom) > new Date()) return 'Scheduled';
+    return 'Superseded';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Rate Card
+            </CardTitle>
+            <CardDescription>
+              Pricing parameters used to calculate new quotes. Saving changes creates a new version; existing quotes keep the version they were priced with.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDraftValues(Object.fromEntries(entries.map((entry) => [entry.id, entry.value])))}
+              disabled={changedEntries.length === 0 || createVersionMutation.isPending}
+              className="flex items-center gap-1"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Discard
+            </Button>
+            <Button
+              onClick={() => {
+                setEffectiveFrom(toDateTimeLocal(new Date()));
+                setShowSaveDialog(true);
+              }}
+              disabled={!isLatestVersion || changedEntries.length === 0 || createVersionMutation.isPending}
+              className="flex items-center gap-1"
+            >
+              <Save className="h-4 w-4" />
+              {`Save as New Version${changedEntries.length ? ` (${changedEntries.length})` : ''}`}
+            </Button>
+          </div>
+        </div>
+        {versions.length > 0 && (
+          <div className="flex items-center gap-3 pt-4">
+            <Label>Version</Label>
+            <Select
+              value={rateCard?.versionId?.toString()}
+              onValueChange={(value) => setSelectedVersionId(parseInt(value))}
+            >
+              <SelectTrigger className="w-80">
+                <SelectValue placeholder="Select version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id.toString()}>
+                    v{version.versionNumber} - effective {new Date(version.effectiveFrom).toLocaleDateString()} ({versionStatus(version)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {currentVersion && (
+              <Badge variant={versionStatus(currentVersion) === 'Active' ? 'default' : 'secondary'}>
+                {versionStatus(currentVersion)}
+              </Badge>
+            )}
+          </div>
+        )}
+        {currentVersion?.notes && (
+          <p className="text-sm text-gray-600 pt-2">{currentVersion.notes}</p>
+        )}
+        {currentVersion && !isLatestVersion && (
+          <p className="text-sm text-gray-500 pt-2">Older versions are read-only. Select the latest version to make changes.</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="text-center py-4">Loading rate card...</div>
+        ) : (
+          Object.entries(groupedEntries).map(([serviceType, serviceEntries]) => (
+            <div key={serviceType} className="space-y-2">
+              <h3 className="font-semibold text-lg">{SERVICE_TYPE_LABELS[serviceType] || serviceType}</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Parameter</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-40">Value</TableHead>
+                    <TableHead className="w-28">Unit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {serviceEntries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">{entry.label}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{entry.description}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={draftValues[entry.id] ?? entry.value}
+                          disabled={!isLatestVersion}
+                          onChange={(e) => setDraftValues((prev) => ({ ...prev, [entry.id]: e.target.value }))}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{UNIT_LABELS[entry.unit || ''] || entry.unit}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Rate Card Version</DialogTitle>
+            <DialogDescription>
+              {changedEntries.length} parameter{changedEntries.length === 1 ? '' : 's'} changed. New quotes created on or after the effective date will use this version.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rate-card-effective-from">Effective From</Label>
+              <Input
+                id="rate-card-effective-from"
+                type="datetime-local"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-card-notes">Notes</Label>
+              <Textarea
+                id="rate-card-notes"
+                placeholder="Reason for the rate change"
+                value={versionNotes}
+                onChange={(e) => setVersionNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => createVersionMutation.mutate()} disabled={createVersionMutation.isPending}>
+              {createVersionMutation.isPending ? 'Saving...' : 'Create Version'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Receipt } from "lucide-react";
+import type { TaxRate } from "@shared/schema";
+
+interface TaxRateManagerProps {
+  enabled: boolean;
+}
+
+export function TaxRateManager({ enabled }: TaxRateManagerProps) {
+  const { toast } = useToast();
+  const [editedRates, setEditedRates] = useState<Record<string, string>>({});
+
+  const { data: taxRates = [], isLoading } = useQuery<TaxRate[]>({
+    queryKey: ["/api/admin/tax-rates"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const updateTaxRateMutation = useMutation({
+    mutationFn: async ({ region, rate, laborTaxable }: { region: string; rate: string; laborTaxable: boolean }) => {
+      const response = await fetch(`/api/admin/tax-rates/${region}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rate, laborTaxable }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update tax rate');
+      }
+      return response.json();
+    },
+    onSuccess: (taxRate: TaxRate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+      setEditedRates((prev) => {
+        const { [taxRate.region]: _saved, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Tax Rate Updated",
+        description: `${taxRate.name} is now ${parseFloat(taxRate.rate)}%. Existing quotes keep their tax until they are re-quoted.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update tax rate. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Sales Tax Rates
+        </CardTitle>
+        <CardDescription>
+          Rates are matched to the state or province in the site address. Hardware is always taxed; labor only where the region taxes installation services.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading tax rates...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Region</TableHead>
+                <TableHead>Rate (%)</TableHead>
+                <TableHead>Labor Taxable</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {taxRates.map((taxRate) => {
+                const editedRate = editedRates[taxRate.region];
+                return (
+                  <TableRow key={taxRate.region}>
+                    <TableCell>
+                      <div className="font-medium">{taxRate.name}</div>
+                      <div className="text-sm text-gray-600">{taxRate.region}, {taxRate.country}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="30"
+                        step="0.001"
+                        className="w-28"
+                        value={editedRate ?? parseFloat(taxRate.rate).toString()}
+                        onChange={(e) => setEditedRates((prev) => ({ ...prev, [taxRate.region]: e.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={taxRate.laborTaxable}
+                        onCheckedChange={(laborTaxable) => updateTaxRateMutation.mutate({
+                          region: taxRate.region,
+                          rate: taxRate.rate,
+                          laborTaxable,
+                        })}
+                        disabled={updateTaxRateMutation.isPending}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {editedRate !== undefined && (
+                        <Button
+                          size="sm"
+                          onClick={() => updateTaxRateMutation.mutate({
+                            region: taxRate.region,
+                            rate: editedRate,
+                            laborTaxable: taxRate.laborTaxable,
+                          })}
+                          disabled={!editedRate || updateTaxRateMutation.isPending}
+                        >
+                          Save
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
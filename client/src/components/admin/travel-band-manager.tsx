@@ -0,0 +1,191 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Truck, Plus, Trash2 } from "lucide-react";
+import type { TravelBand } from "@shared/schema";
+
+interface TravelBandManagerProps {
+  enabled: boolean;
+}
+
+interface TravelBandDraft {
+  minMiles: string;
+  maxMiles: string;
+  chargeType: string;
+  rate: string;
+}
+
+const toDraft = (band: TravelBand): TravelBandDraft => ({
+  minMiles: String(band.minMiles),
+  maxMiles: band.maxMiles === null ? "" : String(band.maxMiles),
+  chargeType: band.chargeType,
+  rate: String(parseFloat(band.rate)),
+});
+
+export function TravelBandManager({ enabled }: TravelBandManagerProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<TravelBandDraft[]>([]);
+
+  const { data: bands, isLoading } = useQuery<TravelBand[]>({
+    queryKey: ["/api/admin/travel-bands"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  useEffect(() => {
+    if (bands) {
+      setDrafts(bands.map(toDraft));
+    }
+  }, [bands]);
+
+  const saveBandsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/travel-bands', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bands: drafts }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to save travel bands');
+      }
+      return response.json();
+    },
+    onSuccess: (saved: TravelBand[]) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/travel-bands"] });
+      toast({
+        title: "Travel Bands Saved",
+        description: `${saved.length} travel band${saved.length === 1 ? '' : 's'} will apply to new quotes.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save travel bands. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = (index: number, field: keyof TravelBandDraft, value: string) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, [field]: value } : draft)));
+  };
+
+  // A new band starts where the last one ends
+  const addBand = () => {
+    const last = drafts[drafts.length - 1];
+    setDrafts((prev) => [...prev, { minMiles: last?.maxMiles || "0", maxMiles: "", chargeType: "trip", rate: "" }]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Travel Bands
+            </CardTitle>
+            <CardDescription>
+              Charges by estimated one-way driving distance from the partner's base location to the site. Sites outside every band have no travel charge.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={addBand} className="flex items-center gap-1">
+            <Plus className="h-4 w-4" />
+            Add Band
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-4">Loading travel bands...</div>
+        ) : drafts.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No travel bands. Quotes do not include travel charges.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From (mi)</TableHead>
+                <TableHead>To (mi)</TableHead>
+                <TableHead>Charge</TableHead>
+                <TableHead>Rate ($)</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map((draft, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className="w-24"
+                      value={draft.minMiles}
+                      onChange={(e) => updateDraft(index, 'minMiles', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      className="w-24"
+                      placeholder="No limit"
+                      value={draft.maxMiles}
+                      onChange={(e) => updateDraft(index, 'maxMiles', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select value={draft.chargeType} onValueChange={(value) => updateDraft(index, 'chargeType', value)}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="trip">Flat trip charge</SelectItem>
+                        <SelectItem value="mileage">Per round-trip mile</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-28"
+                      value={draft.rate}
+                      onChange={(e) => updateDraft(index, 'rate', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <div className="flex justify-end">
+          <Button onClick={() => saveBandsMutation.mutate()} disabled={isLoading || saveBandsMutation.isPending}>
+            {saveBandsMutation.isPending ? 'Saving...' : 'Save Travel Bands'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Truck } from "lucide-react";
+import type { VehicleClass } from "@shared/schema";
+
+interface VehicleClassManagerProps {
+  enabled: boolean;
+}
+
+type MultiplierGroup = 'installationMultipliers' | 'cameraMultipliers';
+
+// Edited multipliers of one class, as typed
+type EditedMultipliers = Record<MultiplierGroup, Record<string, string>>;
+
+const COLUMNS: { group: MultiplierGroup; key: string; label: string }[] = [
+  { group: 'installationMultipliers', key: 'obd-port', label: 'OBD Port' },
+  { group: 'installationMultipliers', key: 'hardwired', label: 'Hardwired' },
+  { group: 'installationMultipliers', key: 'magnetic', label: 'Magnetic' },
+  { group: 'cameraMultipliers', key: 'driver-facing', label: 'Driver Facing' },
+  { group: 'cameraMultipliers', key: 'front-facing', label: 'Front Facing' },
+  { group: 'cameraMultipliers', key: 'driver-front-combo', label: 'Driver/Front Combo' },
+  { group: 'cameraMultipliers', key: 'rear-facing', label: 'Rear Facing' },
+  { group: 'cameraMultipliers', key: 'trailer', label: 'Trailer' },
+  { group: 'cameraMultipliers', key: 'aux-multi-camera', label: 'Aux/Multi' },
+];
+
+const toEdited = (vehicleClass: VehicleClass): EditedMultipliers => ({
+  installationMultipliers: Object.fromEntries(Object.entries(vehicleClass.installationMultipliers).map(([key, value]) => [key, String(value)])),
+  cameraMultipliers: Object.fromEntries(Object.entries(vehicleClass.cameraMultipliers).map(([key, value]) => [key, String(value)])),
+});
+
+export function VehicleClassManager({ enabled }: VehicleClassManagerProps) {
+  const { toast } = useToast();
+  const [edited, setEdited] = useState<Record<string, EditedMultipliers>>({});
+
+  const { data: vehicleClasses = [], isLoading } = useQuery<VehicleClass[]>({
+    queryKey: ["/api/admin/vehicle-classes"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const updateVehicleClassMutation = useMutation({
+    mutationFn: async ({ code, multipliers }: { code: string; multipliers: EditedMultipliers }) => {
+      const response = await fetch(`/api/admin/vehicle-classes/${code}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(multipliers),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update vehicle class');
+      }
+      return response.json();
+    },
+    onSuccess: (vehicleClass: VehicleClass) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/vehicle-classes"] });
+      setEdited((prev) => {
+        const { [vehicleClass.code]: _saved, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Vehicle Class Updated",
+        description: `${vehicleClass.name} multipliers saved. Existing quotes keep their labor until they are re-quoted.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update vehicle class. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setMultiplier = (vehicleClass: VehicleClass, group: MultiplierGroup, key: string, value: string) => {
+    setEdited((prev) => {
+      const current = prev[vehicleClass.code] || toEdited(vehicleClass);
+      return { ...prev, [vehicleClass.code]: { ...current, [group]: { ...current[group], [key]: value } } };
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Vehicle Class Labor Multipliers
+        </CardTitle>
+        <CardDescription>
+          Each fleet vehicle's installation hours are the rate card hours times its class multiplier for the installation method (fleet tracking) or camera type (fleet camera).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {isLoading ? (
+          <div className="text-center py-4">Loading vehicle classes...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vehicle Class</TableHead>
+                {COLUMNS.map((column) => (
+                  <TableHead key={`${column.group}-${column.key}`}>
+                    <div>{column.label}</div>
+                    <div className="text-xs font-normal">{column.group === 'installationMultipliers' ? 'Tracking' : 'Camera'}</div>
+                  </TableHead>
+                ))}
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vehicleClasses.map((vehicleClass) => {
+                const editedClass = edited[vehicleClass.code];
+                const values = editedClass || toEdited(vehicleClass);
+                return (
+                  <TableRow key={vehicleClass.code}>
+                    <TableCell className="font-medium">{vehicleClass.name}</TableCell>
+                    {COLUMNS.map((column) => (
+                      <TableCell key={`${column.group}-${column.key}`}>
+                        <Input
+                          type="number"
+                          min="0.1"
+                          max="10"
+                          step="0.05"
+                          className="w-20"
+                          value={values[column.group][column.key] ?? ''}
+                          onChange={(e) => setMultiplier(vehicleClass, column.group, column.key, e.target.value)}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {editedClass && (
+                        <Button
+                          size="sm"
+                          onClick={() => updateVehicleClassMutation.mutate({ code: vehicleClass.code, multipliers: editedClass })}
+                          disabled={updateVehicleClassMutation.isPending}
+                        >
+                          Save
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Package, Plus, Trash2 } from "lucide-react";
+import { formatCurrency } from "@/components/quote/quote-line-items";
+import type { Product } from "@shared/schema";
+
+// Catalog product as returned to partners, without our cost
+type CatalogProduct = Omit<Product, 'cost'>;
+
+export interface CatalogItemSelection {
+  productId: number;
+  quantity: number;
+}
+
+interface CatalogItemPickerProps {
+  serviceType: string;
+  value: CatalogItemSelection[] | null | undefined;
+  onChange: (items: CatalogItemSelection[]) => void;
+  termMonths: number | null | undefined;
+  onTermChange: (termMonths: number) => void;
+}
+
+// Contract terms offered for monthly products; quotes use 36 months when none is chosen
+const TERM_OPTIONS = [12, 24, 36, 60];
+const DEFAULT_TERM_MONTHS = 36;
+
+const formatPrice = (product: CatalogProduct) =>
+  `${formatCurrency(product.sellPrice)}${product.billingPeriod === 'monthly' ? '/mo' : ' each'}`;
+
+export function CatalogItemPicker({ serviceType, value, onChange, termMonths, onTermChange }: CatalogItemPickerProps) {
+  const items = value || [];
+  const [selectedProductId, setSelectedProductId] = useState("");
+
+  const { data: products = [] } = useQuery<CatalogProduct[]>({
+    queryKey: [`/api/products?serviceType=${serviceType}`],
+  });
+
+  // Nothing to offer for this service type
+  if (products.length === 0 && items.length === 0) {
+    return null;
+  }
+
+  const availableProducts = products.filter((product) => !items.some((item) => item.productId === product.id));
+  const hasMonthlyItems = items.some((item) => products.find((p) => p.id === item.productId)?.billingPeriod === 'monthly');
+
+  const addItem = () => {
+    const productId = parseInt(selectedProductId);
+    if (!productId) return;
+    onChange([...items, { productId, quantity: 1 }]);
+    setSelectedProductId("");
+  };
+
+  const updateQuantity = (productId: number, quantity: string) => {
+    const parsed = parseInt(quantity);
+    onChange(items.map((item) => (item.productId === productId ? { ...item, quantity: parsed > 0 ? parsed : 1 } : item)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Package className="h-5 w-5" />
+          Products & Plans
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.map((item) => {
+          const product = products.find((p) => p.id === item.productId);
+          return (
+            <div key={item.productId} className="flex items-center gap-3">
+              <div className="flex-1">
+                <p className="font-medium">{product?.name || 'Unavailable product'}</p>
+                <p className="text-xs text-gray-500">
+                  {product
+                    ? `SKU ${product.sku} · ${formatPrice(product)}`
+                    : 'No longer offered for this service and will not be quoted'}
+                </p>
+              </div>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                className="w-20"
+                value={item.quantity}
+                onChange={(e) => updateQuantity(item.productId, e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-500 hover:text-red-700"
+                onClick={() => onChange(items.filter((other) => other.productId !== item.productId))}
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        {availableProducts.length > 0 && (
+          <div className="flex items-center gap-3">
+            <Select value={selectedProductId} onValueChange={setSelectedProductId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add a product to the quote" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableProducts.map((product) => (
+                  <SelectItem key={product.id} value={String(product.id)}>
+                    {product.name} ({product.sku}) - {formatPrice(product)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addItem} disabled={!selectedProductId} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        )}
+        {hasMonthlyItems && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-medium flex-1">Contract term for monthly charges</span>
+            <Select value={String(termMonths || DEFAULT_TERM_MONTHS)} onValueChange={(term) => onTermChange(parseInt(term))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TERM_OPTIONS.map((term) => (
+                  <SelectItem key={term} value={String(term)}>{term} months</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
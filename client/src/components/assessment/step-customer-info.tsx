@@ -5,6 +5,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Info } from "lucide-react";
+import { TaxExemptionField } from "@/components/assessment/tax-exemption-field";
 import type { Assessment } from "@shared/schema";
 
 interface StepCustomerInfoProps {
@@ -149,6 +150,14 @@ export function StepCustomerInfo({ data, onChange }: StepCustomerInfoProps) {
               Minimum 48 hours from today required for equipment confirmation
             </p>
           </div>
+
+          <div className="md:col-span-2">
+            <TaxExemptionField
+              assessmentId={data.id}
+              taxExempt={!!data.taxExempt}
+              onChange={(taxExempt) => onChange({ taxExempt })}
+            />
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -1,13 +1,28 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { FileText, Mail, Save } from "lucide-react";
+import { FileText, Mail, Save, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { calculateContractValue, formatCurrency, formatTaxLabel, type QuoteLineItemData } from "@/components/quote/quote-line-items";
+import { RequoteDialog, type RequotePreviewData } from "@/components/quote/requote-dialog";
+import { PricingTrace } from "@/components/quote/pricing-trace";
+import { VehicleLaborBreakdown } from "@/components/quote/vehicle-labor-breakdown";
+import { ChangeRequestItems } from "@/components/quote/change-request-form";
 import type { Assessment } from "@shared/schema";
 
+// apiRequest errors look like `400: {"message":"..."}`
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
 interface StepQuoteGenerationProps {
   assessmentId: number;
   data: Partial<Assessment>;
@@ -15,8 +30,9 @@ interface StepQuoteGenerationProps {
 
 export function StepQuoteGeneration({ assessmentId, data }: StepQuoteGenerationProps) {
   const { toast } = useToast();
+  const [showRequoteDialog, setShowRequoteDialog] = useState(false);
 
-  const { data: quote, isLoading: quoteLoading } = useQuery({
+  const { data: quote, isLoading: quoteLoading, error: quoteError } = useQuery({
     queryKey: ["/api/assessments", assessmentId, "quote"],
     queryFn: async () => {
       const response = await apiRequest("POST", `/api/assessments/${assessmentId}/quote`);
@@ -25,6 +41,41 @@ export function StepQuoteGeneration({ assessmentId, data }: StepQuoteGenerationP
     enabled: !!assessmentId,
   });
 
+  // Check whether assessment changes made after the quote was created affect its price
+  const { data: requotePreview } = useQuery<RequotePreviewData>({
+    queryKey: ["/api/quotes", quote?.id, "requote"],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/quotes/${quote.id}/requote/preview`);
+      return response.json();
+    },
+    enabled: !!quote?.id && (quote.status === 'pending' || quote.status === 'pending_approval' || quote.status === 'changes_requested'),
+    staleTime: 0,
+  });
+
+  const requoteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotes/${quote.id}/requote`);
+      return response.json();
+    },
+    onSuccess: (updatedQuote) => {
+      queryClient.setQueryData(["/api/assessments", assessmentId, "quote"], updatedQuote);
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes", quote.id, "requote"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      setShowRequoteDialog(false);
+      toast({
+        title: "Quote Updated",
+        description: `Quote ${updatedQuote.quoteNumber} has been re-priced and its PDF regenerated.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update quote"),
+        variant: "destructive",
+      });
+    },
+  });
+
   const generatePdfMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", `/api/quotes/${quote.id}/pdf`);
@@ -83,7 +134,7 @@ export function StepQuoteGeneration({ assessmentId, data }: StepQuoteGenerationP
     return (
       <Card>
         <CardContent className="p-8 text-center">
-          <p className="nxt-gray-500">Failed to generate quote</p>
+          <p className="nxt-gray-500">{quoteError ? getErrorMessage(quoteError, "Failed to generate quote") : "Failed to generate quote"}</p>
         </CardContent>
       </Card>
     );
@@ -98,6 +149,77 @@ export function StepQuoteGeneration({ assessmentId, data }: StepQuoteGenerationP
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
+          {/* Pricing approval status */}
+          {quote?.status === 'pending_approval' && (
+            <div className={`rounded-lg border p-4 text-sm ${quote.approvalStatus === 'rejected' ? 'border-red-200 bg-red-50 text-red-800' : 'border-yellow-200 bg-yellow-50 text-yellow-800'}`}>
+              <p className="font-medium">
+                {quote.approvalStatus === 'rejected'
+                  ? 'An admin rejected this pricing. Adjust the quote to submit it again.'
+                  : 'This quote needs admin approval before it can be sent to the customer.'}
+              </p>
+              {quote.approvalStatus === 'rejected' && quote.approvalNote && (
+                <p className="mt-1">{quote.approvalNote}</p>
+              )}
+              <ul className="mt-2 list-disc list-inside">
+                {(quote.approvalReasons || []).map((reason: string) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* The site could only be placed within its state or province, so travel was left to the partner */}
+          {quote?.travelMiles !== null && quote?.travelCost === null && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+              The site address could only be located to its state or province, so no travel was charged automatically.
+              Add travel as a manual adjustment if this site needs it.
+            </div>
+          )}
+
+          {/* Changes the customer asked for; re-quoting sends them a new revision */}
+          {quote?.status === 'changes_requested' && (
+            <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm text-blue-800">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">
+                    {quote.changeRequest?.requestedBy || 'The customer'} requested changes. Update the assessment, then issue a revised quote.
+                  </p>
+                  {quote.changeRequest && (
+                    <div className="mt-2">
+                      <ChangeRequestItems items={quote.changeRequest.items} />
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => requotePreview?.hasChanges ? setShowRequoteDialog(true) : requoteMutation.mutate()}
+                  disabled={requoteMutation.isPending}
+                  className="flex items-center gap-1 shrink-0"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  Issue Revised Quote
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Stale price warning */}
+          {requotePreview?.hasChanges && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+              <p className="text-sm text-yellow-800">
+                The assessment has changed since this quote was priced. The updated total is {formatCurrency(requotePreview.proposedTotal)}.
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => setShowRequoteDialog(true)}
+                className="flex items-center gap-1 shrink-0"
+              >
+                <RefreshCw className="h-4 w-4" />
+                Review Changes
+              </Button>
+            </div>
+          )}
+
           {/* Assessment Summary */}
           <div className="bg-nxt-gray-50 rounded-lg p-6">
             <h3 className="text-lg font-semibold nxt-gray-800 mb-4">Assessment Summary</h3>
@@ -128,115 +250,87 @@ export function StepQuoteGeneration({ assessmentId, data }: StepQuoteGenerationP
               <div className="bg-nxt-gray-50 px-6 py-3 border-b border-gray-200">
                 <div className="grid grid-cols-4 gap-4 text-sm font-medium nxt-gray-800">
                   <span>Service Item</span>
-                  <span>Hours</span>
+                  <span>Qty</span>
                   <span>Rate</span>
                   <span>Cost</span>
                 </div>
               </div>
               
               <div className="divide-y divide-gray-200">
-                {/* Survey line (only show if > 0 hours) */}
-                {parseFloat(quote.surveyHours || '0') > 0 && (
-                  <div className="px-6 py-4">
-                    <div className="grid grid-cols-4 gap-4 text-sm">
-                      <span className="nxt-gray-800">Site Survey & Planning</span>
-                      <span className="nxt-gray-500">{parseFloat(quote.surveyHours || '0')}</span>
-                      <span className="nxt-gray-500">${parseFloat(quote.hourlyRate || '190')}</span>
-                      <span className="font-medium">${parseFloat(quote.surveyCost || '0').toFixed(2)}</span>
-                    </div>
-                  </div>
-                )}
-                
-                {/* Installation line */}
-                <div className="px-6 py-4">
-                  <div className="grid grid-cols-4 gap-4 text-sm">
-                    <span className="nxt-gray-800">Installation & Setup</span>
-                    <span className="nxt-gray-500">{parseFloat(quote.installationHours || '0')}</span>
-                    <span className="nxt-gray-500">${parseFloat(quote.hourlyRate || '190')}</span>
-                    <span className="font-medium">${parseFloat(quote.installationCost || '0').toFixed(2)}</span>
-                  </div>
-                </div>
-                
-                {/* Configuration line (only show if > 0 hours and cost > 0) */}
-                {parseFloat(quote.configurationHours || '0') > 0 && parseFloat(quote.configurationCost || '0') > 0 && (
-                  <div className="px-6 py-4">
+                {(quote.lineItems || []).map((item: QuoteLineItemData, index: number) => (
+                  <div key={`${item.description}-${index}`} className="px-6 py-4">
                     <div className="grid grid-cols-4 gap-4 text-sm">
-                      <span className="nxt-gray-800">Configuration & Testing</span>
-                      <span className="nxt-gray-500">{parseFloat(quote.configurationHours || '0')}</span>
-                      <span className="nxt-gray-500">${parseFloat(quote.hourlyRate || '190')}</span>
-                      <span className="font-medium">${parseFloat(quote.configurationCost || '0').toFixed(2)}</span>
+                      <span className="nxt-gray-800">{item.description}</span>
+                      <span className="nxt-gray-500">{item.total === 0 ? '-' : `${item.quantity} ${item.unit}`}</span>
+                      <span className="nxt-gray-500">{item.total === 0 ? '-' : formatCurrency(item.unitPrice)}</span>
+                      <span className="font-medium">{item.total === 0 ? 'Included' : formatCurrency(item.total)}</span>
                     </div>
                   </div>
-                )}
-                
-                {/* Configuration included line */}
-                {parseFloat(quote.configurationHours || '0') > 0 && parseFloat(quote.configurationCost || '0') === 0 && (
-                  <div className="px-6 py-4">
+                ))}
+
+                {quote.taxAmount !== null && quote.taxAmount !== undefined && (
+                  <div className="px-6 py-4 space-y-2">
                     <div className="grid grid-cols-4 gap-4 text-sm">
-                      <span className="nxt-gray-800">Configuration & Testing</span>
-                      <span className="nxt-gray-500">-</span>
-                      <span className="nxt-gray-500">-</span>
-                      <span className="font-medium">Included</span>
+                      <span className="nxt-gray-800">Subtotal</span>
+                      <span></span>
+                      <span></span>
+                      <span className="font-medium">{formatCurrency(quote.subtotal)}</span>
                     </div>
-                  </div>
-                )}
-                
-                {/* Existing System Removal line (only for Fleet Camera with removal needed) */}
-                {parseFloat(quote.removalCost || '0') > 0 && (
-                  <div className="px-6 py-4">
                     <div className="grid grid-cols-4 gap-4 text-sm">
-                      <span className="nxt-gray-800">Existing System Removal</span>
-                      <span className="nxt-gray-500">{parseFloat(quote.removalHours || '0')}</span>
-                      <span className="nxt-gray-500">${parseFloat(quote.hourlyRate || '190')}</span>
-                      <span className="font-medium">${parseFloat(quote.removalCost || '0').toFixed(2)}</span>
-                    </div>
-                  </div>
-                )}
-                
-                {/* Labor Hold line (always show for all quotes) */}
-                {(parseFloat(quote.laborHoldHours || '0') > 0 || parseFloat(quote.laborHoldCost || '0') > 0) && (
-                  <div className="px-6 py-4">
-                    <div className="grid grid-cols-4 gap-4 text-sm">
-                      <span className="nxt-gray-800">Labor Hold, Final bill Return</span>
-                      <span className="nxt-gray-500">{parseFloat(quote.laborHoldHours || '0')}</span>
-                      <span className="nxt-gray-500">${parseFloat(quote.hourlyRate || '190')}</span>
-                      <span className="font-medium">${parseFloat(quote.laborHoldCost || '0').toFixed(2)}</span>
+                      <span className="nxt-gray-800">{formatTaxLabel({ ...quote, taxExempt: data.taxExempt })}</span>
+                      <span></span>
+                      <span></span>
+                      <span className="font-medium">{formatCurrency(quote.taxAmount)}</span>
                     </div>
                   </div>
                 )}
 
-                {/* Hardware line (cable costs) */}
-                {parseFloat(quote.hardwareCost || '0') > 0 && (
-                  <div className="px-6 py-4">
-                    <div className="grid grid-cols-4 gap-4 text-sm">
-                      <span className="nxt-gray-800">Hardware</span>
-                      <span className="nxt-gray-500">-</span>
-                      <span className="nxt-gray-500">-</span>
-                      <span className="font-medium">${parseFloat(quote.hardwareCost || '0').toFixed(2)}</span>
-                    </div>
-                  </div>
-                )}
-                
-                {/* Training line */}
-                <div className="px-6 py-4">
-                  <div className="grid grid-cols-4 gap-4 text-sm">
-                    <span className="nxt-gray-800">Documentation & Training</span>
-                    <span className="nxt-gray-500">-</span>
-                    <span className="nxt-gray-500">-</span>
-                    <span className="font-medium">Included</span>
-                  </div>
-                </div>
-                
                 <div className="px-6 py-4 bg-nxt-gray-50">
                   <div className="grid grid-cols-4 gap-4 text-lg font-semibold">
-                    <span className="nxt-gray-800">Total Project Cost</span>
+                    <span className="nxt-gray-800">{quote.recurringItems?.length ? 'One-Time Total' : 'Total Project Cost'}</span>
                     <span></span>
                     <span></span>
                     <span className="text-nxt-blue">${parseFloat(quote.totalCost || '0').toFixed(2)}</span>
                   </div>
                 </div>
+
+                {quote.recurringItems?.length > 0 && (
+                  <>
+                    <div className="px-6 py-3 text-sm font-medium nxt-gray-800">
+                      Monthly Recurring ({quote.termMonths}-month term)
+                    </div>
+                    {quote.recurringItems.map((item: QuoteLineItemData, index: number) => (
+                      <div key={`${item.description}-${index}`} className="px-6 py-4">
+                        <div className="grid grid-cols-4 gap-4 text-sm">
+                          <span className="nxt-gray-800">{item.description}</span>
+                          <span className="nxt-gray-500">{item.quantity} {item.unit}</span>
+                          <span className="nxt-gray-500">{formatCurrency(item.unitPrice)}/mo</span>
+                          <span className="font-medium">{formatCurrency(item.total)}/mo</span>
+                        </div>
+                      </div>
+                    ))}
+                    <div className="px-6 py-4 bg-nxt-gray-50 space-y-2">
+                      <div className="grid grid-cols-4 gap-4 font-semibold">
+                        <span className="nxt-gray-800">Monthly Total</span>
+                        <span></span>
+                        <span></span>
+                        <span>{formatCurrency(quote.monthlyTotal)}/mo</span>
+                      </div>
+                      <div className="grid grid-cols-4 gap-4 text-lg font-semibold">
+                        <span className="nxt-gray-800">Total Contract Value</span>
+                        <span></span>
+                        <span></span>
+                        <span className="text-nxt-blue">{formatCurrency(calculateContractValue(quote.totalCost, quote.monthlyTotal, quote.termMonths))}</span>
+                      </div>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
+            <div className="mt-4 space-y-4">
+              <VehicleLaborBreakdown lines={quote.vehicleLabor} />
+              <PricingTrace trace={quote.pricingTrace} />
+            </div>
           </div>
 
           {/* Statement of Work for Fleet Tracking */}
@@ -947,7 +1041,7 @@ export function StepQuoteGeneration({ assessmentId, data }: StepQuoteGenerationP
           <div className="flex flex-col sm:flex-row gap-4 pt-6 border-t border-gray-200">
             <Button
               onClick={() => generatePdfMutation.mutate()}
-              disabled={generatePdfMutation.isPending}
+              disabled={generatePdfMutation.isPending || quote?.status === 'pending_approval'}
               className="flex-1 bg-nxt-blue text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
             >
               <FileText className="mr-2" size={16} />
@@ -973,6 +1067,14 @@ export function StepQuoteGeneration({ assessmentId, data }: StepQuoteGenerationP
           </div>
         </div>
       </CardContent>
+
+      <RequoteDialog
+        preview={requotePreview}
+        open={showRequoteDialog}
+        onOpenChange={setShowRequoteDialog}
+        onConfirm={() => requoteMutation.mutate()}
+        isPending={requoteMutation.isPending}
+      />
     </Card>
   );
 }
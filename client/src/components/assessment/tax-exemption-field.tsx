@@ -0,0 +1,146 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { FileUpload } from "@/components/ui/file-upload";
+import { FileCheck, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { UploadedFile } from "@shared/schema";
+
+interface TaxExemptionFieldProps {
+  assessmentId?: number;
+  taxExempt: boolean;
+  onChange: (taxExempt: boolean) => void;
+}
+
+export function TaxExemptionField({ assessmentId, taxExempt, onChange }: TaxExemptionFieldProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: files = [] } = useQuery<UploadedFile[]>({
+    queryKey: ["/api/assessments", assessmentId, "files"],
+    queryFn: async () => {
+      const response = await fetch(`/api/assessments/${assessmentId}/files`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: !!assessmentId && taxExempt,
+  });
+
+  const uploadCertificateMutation = useMutation({
+    mutationFn: async (files: FileList) => {
+      // The file type has to come first so the upload filter can check it
+      const formData = new FormData();
+      formData.append('fileType', 'tax_certificate');
+      Array.from(files).forEach(file => {
+        formData.append('files', file);
+      });
+
+      const response = await fetch(`/api/assessments/${assessmentId}/files`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", assessmentId, "files"] });
+      toast({
+        title: "Success",
+        description: "Tax exemption certificate uploaded",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to upload certificate. Only PDF or image files are accepted.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCertificateMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      await apiRequest("DELETE", `/api/files/${fileId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", assessmentId, "files"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete certificate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const certificates = files.filter((file) => file.fileType === 'tax_certificate');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="tax-exempt"
+          checked={taxExempt}
+          onCheckedChange={(checked) => onChange(checked === true)}
+        />
+        <Label htmlFor="tax-exempt" className="text-sm font-medium nxt-gray-800">
+          Customer is exempt from sales tax
+        </Label>
+      </div>
+
+      {taxExempt && (
+        assessmentId ? (
+          <div className="space-y-2">
+            <FileUpload
+              onFileSelect={(files) => uploadCertificateMutation.mutate(files)}
+              accept=".pdf,image/*"
+              icon={<FileCheck className="text-4xl" />}
+              title="Upload Exemption Certificate"
+              description="Resale or exemption certificate (PDF or image), required for a tax-exempt quote"
+              disabled={uploadCertificateMutation.isPending}
+              variant="outline"
+            />
+            {certificates.length === 0 && (
+              <p className="text-xs text-amber-700">
+                The quote can't be generated without tax until a certificate is uploaded.
+              </p>
+            )}
+            {certificates.map((certificate) => (
+              <div key={certificate.id} className="flex items-center justify-between p-3 bg-nxt-gray-50 rounded-lg">
+                <div className="flex items-center space-x-3">
+                  <FileCheck className="text-green-600" size={16} />
+                  <span className="text-sm nxt-gray-800">{certificate.originalName}</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteCertificateMutation.mutate(certificate.id)}
+                  disabled={deleteCertificateMutation.isPending}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs nxt-gray-500">
+            Save the assessment to upload the customer's exemption certificate.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface VehicleClassSelectProps {
+  value: string | null | undefined;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+/**
+ * Vehicle class picker for fleet assessments. Installation labor is scaled by the class.
+ */
+export function VehicleClassSelect({ value, onChange, placeholder = "Select vehicle class" }: VehicleClassSelectProps) {
+  return (
+    <Select value={value || ''} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="light-duty">Light Duty (car, SUV, pickup)</SelectItem>
+        <SelectItem value="van">Van</SelectItem>
+        <SelectItem value="box-truck">Box Truck</SelectItem>
+        <SelectItem value="heavy-duty">Heavy Duty (Class 8)</SelectItem>
+        <SelectItem value="trailer">Trailer</SelectItem>
+        <SelectItem value="equipment">Equipment</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Assessment } from "@shared/schema";
+
+interface AddSiteDialogProps {
+  open: boolean;
+  projectId: number;
+  onClose: () => void;
+  onAdded: (site: Assessment) => void;
+}
+
+// apiRequest errors look like `400: {"message":"..."}`
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export function AddSiteDialog({ open, projectId, onClose, onAdded }: AddSiteDialogProps) {
+  const { toast } = useToast();
+  const [siteName, setSiteName] = useState("");
+  const [siteAddress, setSiteAddress] = useState("");
+
+  const handleClose = () => {
+    setSiteName("");
+    setSiteAddress("");
+    onClose();
+  };
+
+  const addSiteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/sites`, { siteName, siteAddress });
+      return response.json();
+    },
+    onSuccess: (site: Assessment) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      handleClose();
+      onAdded(site);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Add Failed",
+        description: getErrorMessage(error, "Failed to add site. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Site</DialogTitle>
+          <DialogDescription>
+            The site gets the project's customer details. You fill in its technical answers next.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="site-name">Site Name</Label>
+            <Input
+              id="site-name"
+              value={siteName}
+              onChange={(e) => setSiteName(e.target.value)}
+              placeholder="e.g. Store #104"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="site-address">Site Address *</Label>
+            <Input
+              id="site-address"
+              value={siteAddress}
+              onChange={(e) => setSiteAddress(e.target.value)}
+              placeholder="Street, city, state and ZIP"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => addSiteMutation.mutate()}
+            disabled={!siteAddress.trim() || addSiteMutation.isPending}
+          >
+            {addSiteMutation.isPending ? 'Adding...' : 'Add Site'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface ImportSitesDialogProps {
+  open: boolean;
+  projectId: number;
+  onClose: () => void;
+}
+
+interface ImportError {
+  row: number;
+  message: string;
+}
+
+const SAMPLE_CSV = `siteName,siteAddress,buildingType,coverageArea,floors,deviceCount
+Store #101,"100 Main St, Springfield, IL 62701",retail,2500,1,12`;
+
+// apiRequest errors look like `400: {"message":"...","errors":[...]}`
+const parseError = (error: Error): { message: string; errors: ImportError[] } => {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ''));
+    return { message: body.message || "Failed to import sites", errors: body.errors || [] };
+  } catch {
+    return { message: "Failed to import sites. Please try again.", errors: [] };
+  }
+};
+
+export function ImportSitesDialog({ open, projectId, onClose }: ImportSitesDialogProps) {
+  const { toast } = useToast();
+  const [csv, setCsv] = useState("");
+  const [rowErrors, setRowErrors] = useState<ImportError[]>([]);
+
+  const handleClose = () => {
+    setCsv("");
+    setRowErrors([]);
+    onClose();
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (file) {
+      setCsv(await file.text());
+      setRowErrors([]);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/sites/import`, { csv });
+      return response.json();
+    },
+    onSuccess: (result: { imported: number }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Sites Imported",
+        description: `${result.imported} site(s) were added to the project.`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      const { message, errors } = parseError(error);
+      setRowErrors(errors);
+      toast({
+        title: "Import Failed",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Sites from CSV</DialogTitle>
+          <DialogDescription>
+            One row per site with a header row. siteAddress is required; other columns use the assessment field
+            names, such as buildingType, coverageArea or deviceCount. Nothing is imported if any row has an error.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="site-import-file">CSV File</Label>
+            <Input
+              id="site-import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="site-import-csv">Or paste CSV</Label>
+            <Textarea
+              id="site-import-csv"
+              value={csv}
+              onChange={(e) => {
+                setCsv(e.target.value);
+                setRowErrors([]);
+              }}
+              placeholder={SAMPLE_CSV}
+              rows={8}
+              className="font-mono text-xs"
+            />
+          </div>
+          {rowErrors.length > 0 && (
+            <div className="max-h-40 overflow-y-auto rounded-lg border border-red-200 bg-red-50 p-3">
+              <ul className="space-y-1 text-sm text-red-700">
+                {rowErrors.map((rowError) => (
+                  <li key={rowError.row}>
+                    <span className="font-medium">Row {rowError.row}:</span> {rowError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => importMutation.mutate()} disabled={!csv.trim() || importMutation.isPending}>
+            {importMutation.isPending ? 'Importing...' : 'Import Sites'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
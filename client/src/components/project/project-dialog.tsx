@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Project } from "@shared/schema";
+
+interface ProjectDialogProps {
+  open: boolean;
+  project?: Project; // edit this project instead of creating one
+  hasSites?: boolean;
+  onClose: () => void;
+  onSaved?: (project: Project) => void;
+}
+
+type ProjectForm = {
+  name: string;
+  serviceType: string;
+  salesExecutiveName: string;
+  salesExecutiveEmail: string;
+  salesExecutivePhone: string;
+  customerCompanyName: string;
+  customerContactName: string;
+  customerEmail: string;
+  customerPhone: string;
+  industry: string;
+  taxExempt: boolean;
+};
+
+const EMPTY_FORM: ProjectForm = {
+  name: "",
+  serviceType: "site-assessment",
+  salesExecutiveName: "",
+  salesExecutiveEmail: "",
+  salesExecutivePhone: "",
+  customerCompanyName: "",
+  customerContactName: "",
+  customerEmail: "",
+  customerPhone: "",
+  industry: "",
+  taxExempt: false,
+};
+
+const toForm = (project?: Project): ProjectForm =>
+  project
+    ? {
+        name: project.name,
+        serviceType: project.serviceType,
+        salesExecutiveName: project.salesExecutiveName,
+        salesExecutiveEmail: project.salesExecutiveEmail,
+        salesExecutivePhone: project.salesExecutivePhone || "",
+        customerCompanyName: project.customerCompanyName,
+        customerContactName: project.customerContactName,
+        customerEmail: project.customerEmail,
+        customerPhone: project.customerPhone || "",
+        industry: project.industry || "",
+        taxExempt: !!project.taxExempt,
+      }
+    : EMPTY_FORM;
+
+// apiRequest errors look like `400: {"message":"..."}`
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export function ProjectDialog({ open, project, hasSites, onClose, onSaved }: ProjectDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ProjectForm>(toForm(project));
+
+  useEffect(() => {
+    if (open) {
+      setForm(toForm(project));
+    }
+  }, [open, project]);
+
+  const setField = <K extends keyof ProjectForm>(field: K, value: ProjectForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const saveProjectMutation = useMutation({
+    mutationFn: async () => {
+      const response = project
+        ? await apiRequest("PUT", `/api/projects/${project.id}`, form)
+        : await apiRequest("POST", "/api/projects", form);
+      return response.json();
+    },
+    onSuccess: (saved: Project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${saved.id}`] });
+      toast({
+        title: project ? "Project Updated" : "Project Created",
+        description: project
+          ? "The shared details were copied to every site."
+          : `Add the sites for ${saved.customerCompanyName} next.`,
+      });
+      onSaved?.(saved);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: getErrorMessage(error, "Failed to save project. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{project ? 'Edit Project' : 'New Multi-Site Project'}</DialogTitle>
+          <DialogDescription>
+            Customer and sales executive details are shared by every site in the project.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="project-name">Project Name *</Label>
+            <Input
+              id="project-name"
+              value={form.name}
+              onChange={(e) => setField('name', e.target.value)}
+              placeholder="e.g. Store rollout - West region"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Service Type *</Label>
+            <Select value={form.serviceType} onValueChange={(value) => setField('serviceType', value)} disabled={hasSites}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="site-assessment">Fixed Wireless Access Assessment</SelectItem>
+                <SelectItem value="fleet-tracking">Fleet & Asset Tracking Device</SelectItem>
+                <SelectItem value="fleet-camera">Fleet Camera Installation</SelectItem>
+              </SelectContent>
+            </Select>
+            {hasSites && (
+              <p className="text-xs text-gray-500">The service type cannot be changed once the project has sites.</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-sales-name">Sales Executive Name *</Label>
+            <Input id="project-sales-name" value={form.salesExecutiveName} onChange={(e) => setField('salesExecutiveName', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-sales-email">Sales Executive Email *</Label>
+            <Input id="project-sales-email" type="email" value={form.salesExecutiveEmail} onChange={(e) => setField('salesExecutiveEmail', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-sales-phone">Sales Executive Phone</Label>
+            <Input id="project-sales-phone" type="tel" value={form.salesExecutivePhone} onChange={(e) => setField('salesExecutivePhone', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-company">Customer Company *</Label>
+            <Input id="project-company" value={form.customerCompanyName} onChange={(e) => setField('customerCompanyName', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-contact">Customer Contact *</Label>
+            <Input id="project-contact" value={form.customerContactName} onChange={(e) => setField('customerContactName', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-email">Customer Email *</Label>
+            <Input id="project-email" type="email" value={form.customerEmail} onChange={(e) => setField('customerEmail', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-phone">Customer Phone</Label>
+            <Input id="project-phone" type="tel" value={form.customerPhone} onChange={(e) => setField('customerPhone', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Industry</Label>
+            <Select value={form.industry} onValueChange={(value) => setField('industry', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select industry" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="retail">Retail</SelectItem>
+                <SelectItem value="healthcare">Healthcare</SelectItem>
+                <SelectItem value="education">Education</SelectItem>
+                <SelectItem value="manufacturing">Manufacturing</SelectItem>
+                <SelectItem value="hospitality">Hospitality</SelectItem>
+                <SelectItem value="transportation-logistics">Transportation / Logistics</SelectItem>
+                <SelectItem value="finance">Finance</SelectItem>
+                <SelectItem value="construction">Construction</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 md:col-span-2">
+            <Checkbox
+              id="project-tax-exempt"
+              checked={form.taxExempt}
+              onCheckedChange={(checked) => setField('taxExempt', checked === true)}
+            />
+            <Label htmlFor="project-tax-exempt" className="font-normal">
+              Customer is tax exempt
+            </Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveProjectMutation.mutate()} disabled={saveProjectMutation.isPending}>
+            {saveProjectMutation.isPending ? 'Saving...' : project ? 'Save Changes' : 'Create Project'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
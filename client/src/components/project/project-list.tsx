@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Eye } from "lucide-react";
+import type { Project } from "@shared/schema";
+
+interface ProjectListProps {
+  enabled: boolean;
+}
+
+const SERVICE_LABELS: Record<string, string> = {
+  'site-assessment': 'Fixed Wireless',
+  'fleet-tracking': 'Fleet Tracking',
+  'fleet-camera': 'Fleet Camera',
+};
+
+export function ProjectList({ enabled }: ProjectListProps) {
+  const [, navigate] = useLocation();
+
+  const { data: projects = [] } = useQuery<(Project & { siteCount: number })[]>({
+    queryKey: ["/api/projects"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  if (projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold nxt-gray-800">Multi-Site Projects</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-nxt-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Service</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Sites</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {projects.map((project) => (
+                <tr key={project.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-nxt-blue">
+                    {project.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
+                    {project.customerCompanyName}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
+                    <Badge variant="outline">{SERVICE_LABELS[project.serviceType]}</Badge>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
+                    {project.siteCount}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-500">
+                    {project.createdAt ? new Date(project.createdAt).toLocaleDateString() : ''}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <Button
+                      variant="link"
+                      className="text-nxt-blue hover:text-blue-700 p-0"
+                      onClick={() => navigate(`/projects/${project.id}`)}
+                      title="Open project"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
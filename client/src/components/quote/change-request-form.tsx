@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Send } from "lucide-react";
+import type { QuoteChangeItem } from "@shared/schema";
+
+type ChangeCategory = QuoteChangeItem['category'];
+
+export const CHANGE_CATEGORY_LABELS: Record<ChangeCategory, string> = {
+  hardware: 'Hardware / Equipment',
+  installation: 'Installation',
+  scope: 'Scope of Work',
+  pricing: 'Pricing',
+  schedule: 'Schedule',
+  other: 'Other',
+};
+
+interface ChangeRequestFormProps {
+  onSubmit: (changes: QuoteChangeItem[]) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+interface ChangeDraft {
+  category: ChangeCategory | '';
+  details: string;
+}
+
+/**
+ * Structured list of changes a customer wants before approving, one category and description per change
+ */
+export function ChangeRequestForm({ onSubmit, onCancel, isSubmitting }: ChangeRequestFormProps) {
+  const [drafts, setDrafts] = useState<ChangeDraft[]>([{ category: '', details: '' }]);
+
+  const updateDraft = (index: number, draft: Partial<ChangeDraft>) => {
+    setDrafts((prev) => prev.map((current, i) => (i === index ? { ...current, ...draft } : current)));
+  };
+
+  const isComplete = drafts.every((draft) => draft.category && draft.details.trim());
+
+  return (
+    <div className="space-y-3">
+      {drafts.map((draft, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <Select value={draft.category} onValueChange={(value) => updateDraft(index, { category: value as ChangeCategory })}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="What to change" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CHANGE_CATEGORY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            className="flex-1"
+            value={draft.details}
+            onChange={(e) => updateDraft(index, { details: e.target.value })}
+            placeholder="e.g. Add one more rear-facing camera on each truck"
+            rows={2}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="text-red-500 hover:text-red-700"
+            onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+            disabled={drafts.length === 1}
+            title="Remove"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={() => setDrafts((prev) => [...prev, { category: '', details: '' }])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Another Change
+        </Button>
+        <div className="flex gap-2">
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSubmit(drafts.map((draft) => ({ category: draft.category as ChangeCategory, details: draft.details })))}
+            disabled={isSubmitting || !isComplete}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Sending...' : 'Send Change Request'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The changes listed in a customer's change request
+ */
+export function ChangeRequestItems({ items }: { items: QuoteChangeItem[] }) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {items.map((item, index) => (
+        <li key={index}>
+          <span className="font-medium">{CHANGE_CATEGORY_LABELS[item.category] || item.category}:</span> {item.details}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatCurrency } from "@/components/quote/quote-line-items";
+import type { Assessment, Quote } from "@shared/schema";
+
+type DashboardQuote = Quote & { assessment: Assessment };
+
+interface CreateProposalDialogProps {
+  open: boolean;
+  quotes: DashboardQuote[];
+  onClose: () => void;
+}
+
+const SERVICE_LABELS: Record<string, string> = {
+  'site-assessment': 'Fixed Wireless Access',
+  'fleet-tracking': 'Fleet Tracking',
+  'fleet-camera': 'Fleet Camera',
+};
+
+// apiRequest errors look like `400: {"message":"..."}`
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Pending quotes that are not already in a proposal, grouped by customer email
+const groupEligibleQuotes = (quotes: DashboardQuote[]) => {
+  const groups = new Map<string, DashboardQuote[]>();
+  quotes
+    .filter((quote) =>
+      quote.status === 'pending' &&
+      !quote.assessment?.proposalId &&
+      (!quote.expiresAt || new Date(quote.expiresAt) > new Date()))
+    .forEach((quote) => {
+      const key = quote.assessment.customerEmail.trim().toLowerCase();
+      groups.set(key, [...(groups.get(key) || []), quote]);
+    });
+  return Array.from(groups.entries()).filter(([, group]) => group.length > 1);
+};
+
+export function CreateProposalDialog({ open, quotes, onClose }: CreateProposalDialogProps) {
+  const { toast } = useToast();
+  const [customerKey, setCustomerKey] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  const customers = groupEligibleQuotes(quotes);
+  const customerQuotes = customers.find(([key]) => key === customerKey)?.[1] || [];
+
+  const handleClose = () => {
+    setCustomerKey("");
+    setSelectedIds([]);
+    onClose();
+  };
+
+  const selectCustomer = (key: string) => {
+    setCustomerKey(key);
+    setSelectedIds((customers.find(([other]) => other === key)?.[1] || []).map((quote) => quote.assessmentId));
+  };
+
+  const toggleQuote = (assessmentId: number, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, assessmentId] : prev.filter((id) => id !== assessmentId)));
+  };
+
+  const createProposalMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/proposals", { assessmentIds: selectedIds });
+      return response.json();
+    },
+    onSuccess: (proposal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({
+        title: "Proposal Created",
+        description: `Proposal ${proposal.proposalNumber} combines ${proposal.quotes.length} quotes for ${proposal.customerCompanyName}.`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Create Failed",
+        description: getErrorMessage(error, "Failed to create proposal. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Combine Quotes into a Proposal</DialogTitle>
+          <DialogDescription>
+            The customer receives one proposal and PDF covering every selected service, and approves or rejects them together.
+          </DialogDescription>
+        </DialogHeader>
+        {customers.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            You need at least two pending quotes for the same customer email that are not already in a proposal.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={customerKey} onValueChange={selectCustomer}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(([key, group]) => (
+                    <SelectItem key={key} value={key}>
+                      {group[0].assessment.customerCompanyName} ({key}) - {group.length} quotes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {customerQuotes.length > 0 && (
+              <div className="space-y-2">
+                <Label>Quotes to include</Label>
+                {customerQuotes.map((quote) => (
+                  <div key={quote.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`proposal-quote-${quote.id}`}
+                      checked={selectedIds.includes(quote.assessmentId)}
+                      onCheckedChange={(checked) => toggleQuote(quote.assessmentId, checked === true)}
+                    />
+                    <Label htmlFor={`proposal-quote-${quote.id}`} className="font-normal">
+                      #{quote.quoteNumber} - {SERVICE_LABELS[quote.assessment.serviceType || 'site-assessment']} - {formatCurrency(quote.totalCost)}
+                      {quote.monthlyTotal && <span className="text-gray-500"> + {formatCurrency(quote.monthlyTotal)}/mo</span>}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createProposalMutation.mutate()}
+            disabled={selectedIds.length < 2 || createProposalMutation.isPending}
+          >
+            {createProposalMutation.isPending ? 'Creating...' : 'Create Proposal'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calculator } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { QuoteLineItems, type QuoteLineItemData } from "@/components/quote/quote-line-items";
+
+interface PricingPreview {
+  totalCost: number;
+  subtotal: number;
+  taxRegion: string | null;
+  taxRate: number;
+  taxAmount: number;
+  lineItems: QuoteLineItemData[];
+  recurringItems?: QuoteLineItemData[];
+  monthlyTotal?: number;
+  termMonths?: number;
+  rateCardVersionNumber: number;
+}
+
+interface PricingEstimateProps {
+  data: Record<string, any>;
+}
+
+const PREVIEW_DELAY = 500;
+
+export function PricingEstimate({ data }: PricingEstimateProps) {
+  const [previewData, setPreviewData] = useState(data);
+
+  // Wait for the partner to stop typing before requesting a new estimate
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewData(data), PREVIEW_DELAY);
+    return () => clearTimeout(timeout);
+  }, [JSON.stringify(data)]);
+
+  const { data: preview, isLoading, isError } = useQuery<PricingPreview>({
+    queryKey: ["/api/pricing/preview", previewData],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/pricing/preview", previewData);
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Calculator className="h-5 w-5" />
+          Running Estimate
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Calculating estimate...</p>
+        ) : isError || !preview ? (
+          <p className="text-sm text-gray-500">An estimate will appear once the assessment details are complete.</p>
+        ) : (
+          <div className="space-y-3">
+            <QuoteLineItems
+              lineItems={preview.lineItems}
+              totalCost={preview.totalCost}
+              tax={preview}
+              recurring={preview}
+              totalLabel="Estimated Total"
+              compact
+            />
+            <p className="text-xs text-gray-500">
+              Based on rate card version {preview.rateCardVersionNumber}. Final pricing is set when the quote is generated.
+              {data.taxExempt && ' Sales tax is removed on the quote once the exemption certificate is on file.'}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { PricingTraceStep } from "@shared/schema";
+
+interface PricingTraceProps {
+  trace?: PricingTraceStep[] | null;
+}
+
+const KIND_LABELS: Record<PricingTraceStep['kind'], string> = {
+  labor: 'Labor',
+  hardware: 'Hardware',
+  multiplier: 'Partner pricing',
+  travel: 'Travel',
+  adjustment: 'Adjustment',
+  tax: 'Tax',
+  recurring: 'Monthly',
+};
+
+// routerCount -> Router count
+const formatInputName = (name: string) => {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatInputValue = (value: string | number | boolean | null) => {
+  if (value === null) return 'Not set';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+/**
+ * Expandable list of the pricing rules applied to a quote, with their inputs and results
+ */
+export function PricingTrace({ trace }: PricingTraceProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!trace?.length) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border border-gray-200 rounded-lg">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-4 py-3 text-sm font-medium nxt-gray-800 hover:bg-nxt-gray-50">
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        How this was calculated
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="divide-y divide-gray-200 border-t border-gray-200">
+          {trace.map((step, index) => (
+            <li key={`${step.rule}-${index}`} className="px-4 py-3 space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-xs">{KIND_LABELS[step.kind]}</Badge>
+                <span className="text-sm font-medium nxt-gray-800">{step.rule}</span>
+              </div>
+              <p className="text-sm nxt-gray-800">{step.result}</p>
+              <p className="text-xs nxt-gray-500">
+                {Object.entries(step.inputs)
+                  .map(([name, value]) => `${formatInputName(name)}: ${formatInputValue(value)}`)
+                  .join(' · ')}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,242 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, Link2Off, Share, Unlink } from "lucide-react";
+import { formatCurrency } from "@/components/quote/quote-line-items";
+import type { Assessment, Proposal, Quote } from "@shared/schema";
+
+interface ProposalSummary extends Proposal {
+  quotes: (Quote & { assessment: Assessment })[];
+  totalCost: number;
+  monthlyTotal: number;
+  contractValue: number;
+}
+
+interface ProposalListProps {
+  enabled: boolean;
+}
+
+const SERVICE_LABELS: Record<string, string> = {
+  'site-assessment': 'Fixed Wireless',
+  'fleet-tracking': 'Fleet Tracking',
+  'fleet-camera': 'Fleet Camera',
+};
+
+export function ProposalList({ enabled }: ProposalListProps) {
+  const { toast } = useToast();
+
+  const { data: proposals = [] } = useQuery<ProposalSummary[]>({
+    queryKey: ["/api/proposals"],
+    enabled,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const ungroupMutation = useMutation({
+    mutationFn: async (proposalId: number) => {
+      await apiRequest("DELETE", `/api/proposals/${proposalId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({
+        title: "Proposal Ungrouped",
+        description: "Its quotes can now be sent and approved on their own.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to ungroup proposal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Revoke the proposal's customer link so it stops working
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (proposalId: number) => {
+      await apiRequest("DELETE", `/api/proposals/${proposalId}/share-link`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Proposal Link Revoked",
+        description: "The customer can no longer open this proposal. Share it again to send a new link.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke proposal link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Always regenerate so the PDF reflects the latest revision of every quote
+  const handleDownload = async (proposal: ProposalSummary) => {
+    try {
+      const response = await apiRequest("POST", `/api/proposals/${proposal.id}/pdf`);
+      const data = await response.json();
+      window.open(data.pdfUrl, '_blank');
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to generate PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleShare = async (proposal: ProposalSummary) => {
+    let proposalUrl: string;
+    let expiresAt: string;
+    try {
+      const response = await apiRequest("POST", `/api/proposals/${proposal.id}/share-link`);
+      const link = await response.json();
+      proposalUrl = `${window.location.origin}/customer/proposal/${link.token}`;
+      expiresAt = new Date(link.expiresAt).toLocaleDateString();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create proposal link",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(proposalUrl);
+      toast({
+        title: "Proposal Link Copied!",
+        description: `Share with ${proposal.customerCompanyName} to review and approve every service at once. It works until ${expiresAt}.`,
+      });
+    } catch (error) {
+      prompt(`Copy this proposal link to share with ${proposal.customerCompanyName}:`, proposalUrl);
+    }
+  };
+
+  const handleRevokeLink = (proposal: ProposalSummary) => {
+    if (confirm(`Revoke the customer link for proposal #${proposal.proposalNumber}? The customer will need a new link to open it.`)) {
+      revokeLinkMutation.mutate(proposal.id);
+    }
+  };
+
+  const handleUngroup = (proposal: ProposalSummary) => {
+    if (confirm(`Ungroup proposal #${proposal.proposalNumber}? Its quotes are kept.`)) {
+      ungroupMutation.mutate(proposal.id);
+    }
+  };
+
+  if (proposals.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold nxt-gray-800">Proposals</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-nxt-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Proposal ID</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Services</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {proposals.map((proposal) => (
+                <tr key={proposal.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-nxt-blue">
+                    #{proposal.proposalNumber}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
+                    {proposal.customerCompanyName}
+                  </td>
+                  <td className="px-6 py-4 text-sm nxt-gray-800">
+                    <div className="flex flex-wrap gap-1">
+                      {proposal.quotes.map((quote) => (
+                        <Badge key={quote.id} variant="outline" title={`Quote #${quote.quoteNumber}`}>
+                          {SERVICE_LABELS[quote.assessment.serviceType || 'site-assessment']}
+                        </Badge>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
+                    {formatCurrency(proposal.totalCost)}
+                    {proposal.monthlyTotal > 0 && (
+                      <div className="text-xs nxt-gray-500">+ {formatCurrency(proposal.monthlyTotal)}/mo</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Badge
+                      variant={proposal.status === 'approved' ? 'default' : 'secondary'}
+                      className={
+                        proposal.status === 'approved'
+                          ? 'bg-nxt-green text-white'
+                          : proposal.status === 'rejected'
+                            ? 'bg-gray-200 text-gray-700'
+                            : 'bg-yellow-100 text-yellow-800'
+                      }
+                    >
+                      {proposal.status}
+                    </Badge>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <Button
+                      variant="link"
+                      className="nxt-gray-500 hover:text-nxt-gray-700 p-0 mr-3"
+                      onClick={() => handleDownload(proposal)}
+                      disabled={proposal.quotes.length === 0}
+                      title="Download combined PDF"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="link"
+                      className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                      onClick={() => handleShare(proposal)}
+                      title="Share proposal link"
+                    >
+                      <Share className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="link"
+                      className="nxt-gray-500 hover:text-nxt-gray-700 p-0 mr-3"
+                      onClick={() => handleRevokeLink(proposal)}
+                      disabled={revokeLinkMutation.isPending}
+                      title="Revoke proposal link"
+                    >
+                      <Link2Off className="h-4 w-4" />
+                    </Button>
+                    {proposal.status === 'pending' && (
+                      <Button
+                        variant="link"
+                        className="text-red-500 hover:text-red-700 p-0"
+                        onClick={() => handleUngroup(proposal)}
+                        disabled={ungroupMutation.isPending}
+                        title="Ungroup"
+                      >
+                        <Unlink className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
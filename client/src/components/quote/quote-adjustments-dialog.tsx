@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { formatCurrency } from "@/components/quote/quote-line-items";
+import type { QuoteAdjustment } from "@shared/schema";
+
+interface QuoteAdjustmentsDialogProps {
+  quote: { id: number; quoteNumber: string; totalCost: string; laborHoldCost: string | null } | null;
+  onClose: () => void;
+}
+
+type AdjustmentType = 'percent' | 'fixed' | 'manual';
+
+const TYPE_LABELS: Record<AdjustmentType, string> = {
+  percent: 'Percentage discount',
+  fixed: 'Fixed discount',
+  manual: 'Manual adjustment',
+};
+
+// apiRequest errors look like `400: {"message":"..."}`
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const formatAdjustmentValue = (adjustment: QuoteAdjustment) =>
+  adjustment.type === 'percent' ? `${parseFloat(adjustment.value)}% off` :
+  adjustment.type === 'fixed' ? `${formatCurrency(adjustment.value)} off` :
+  formatCurrency(adjustment.value);
+
+export function QuoteAdjustmentsDialog({ quote, onClose }: QuoteAdjustmentsDialogProps) {
+  const { toast } = useToast();
+  const [promoCode, setPromoCode] = useState("");
+  const [type, setType] = useState<AdjustmentType>('percent');
+  const [value, setValue] = useState("");
+  const [description, setDescription] = useState("");
+  const [reason, setReason] = useState("");
+  const [totalCost, setTotalCost] = useState<string | null>(null);
+
+  const { data: adjustments = [], isLoading } = useQuery<QuoteAdjustment[]>({
+    queryKey: [`/api/quotes/${quote?.id}/adjustments`],
+    enabled: quote !== null,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const resetForm = () => {
+    setPromoCode("");
+    setValue("");
+    setDescription("");
+    setReason("");
+  };
+
+  const handleClose = () => {
+    resetForm();
+    setTotalCost(null);
+    onClose();
+  };
+
+  const adjustmentMutation = useMutation({
+    mutationFn: async (request: { method: string; url: string; data?: unknown }) => {
+      const response = await apiRequest(request.method, request.url, request.data);
+      return response.json();
+    },
+    onSuccess: (updatedQuote) => {
+      queryClient.setQueryData([`/api/quotes/${quote?.id}/adjustments`], updatedQuote.adjustments);
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      setTotalCost(updatedQuote.totalCost);
+      resetForm();
+      toast({
+        title: "Quote Updated",
+        description: updatedQuote.status === 'pending_approval'
+          ? `Quote ${updatedQuote.quoteNumber} is now ${formatCurrency(updatedQuote.totalCost)} and needs admin approval before it can be sent.`
+          : `Quote ${updatedQuote.quoteNumber} is now ${formatCurrency(updatedQuote.totalCost)}. The PDF has been regenerated.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: getErrorMessage(error, "Failed to update quote. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const laborHoldCost = parseFloat(quote?.laborHoldCost || '0');
+
+  // Prefill a manual adjustment that removes the labor hold charge
+  const waiveLaborHold = () => {
+    setType('manual');
+    setValue((-laborHoldCost).toFixed(2));
+    setDescription('Labor Hold Waived');
+  };
+
+  return (
+    <Dialog open={quote !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Discounts & Adjustments - {quote?.quoteNumber}</DialogTitle>
+          <DialogDescription>
+            Changes create a new quote revision, regenerate the PDF and update the HubSpot deal amount.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="font-semibold">Applied</h3>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading adjustments...</p>
+            ) : adjustments.length === 0 ? (
+              <p className="text-sm text-gray-500">No discounts or adjustments on this quote.</p>
+            ) : (
+              adjustments.map((adjustment) => (
+                <div key={adjustment.id} className="flex items-start justify-between gap-4 rounded-lg border p-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{adjustment.description}</span>
+                      {adjustment.promoCodeId && <Badge variant="secondary">Promo</Badge>}
+                    </div>
+                    <p className="text-gray-600">{formatAdjustmentValue(adjustment)}</p>
+                    {adjustment.reason && <p className="text-gray-500">Reason: {adjustment.reason}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => adjustmentMutation.mutate({ method: "DELETE", url: `/api/quotes/${quote?.id}/adjustments/${adjustment.id}` })}
+                    disabled={adjustmentMutation.isPending}
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <div className="flex justify-between font-semibold text-sm">
+              <span>Quote Total</span>
+              <span>{formatCurrency(totalCost ?? quote?.totalCost ?? 0)}</span>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="promo-code">Promo Code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="promo-code"
+                placeholder="Enter code"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+              />
+              <Button
+                variant="outline"
+                onClick={() => adjustmentMutation.mutate({ method: "POST", url: `/api/quotes/${quote?.id}/promo-code`, data: { code: promoCode } })}
+                disabled={!promoCode || adjustmentMutation.isPending}
+              >
+                Apply
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Add Discount or Adjustment</h3>
+              {laborHoldCost > 0 && (
+                <Button variant="outline" size="sm" onClick={waiveLaborHold}>
+                  Waive Labor Hold
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(v) => setType(v as AdjustmentType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as AdjustmentType[]).map((key) => (
+                      <SelectItem key={key} value={key}>{TYPE_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-value">
+                  {type === 'percent' ? 'Percent Off' : type === 'fixed' ? 'Amount Off ($)' : 'Amount ($, negative for a credit)'}
+                </Label>
+                <Input
+                  id="adjustment-value"
+                  type="number"
+                  step="0.01"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-description">Description{type === 'manual' ? '' : ' (optional)'}</Label>
+              <Input
+                id="adjustment-description"
+                placeholder={type === 'manual' ? 'Shown to the customer' : 'Discount'}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-reason">Reason{type === 'manual' ? '' : ' (optional)'}</Label>
+              <Textarea
+                id="adjustment-reason"
+                placeholder="Internal note, e.g. key account"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => adjustmentMutation.mutate({
+                  method: "POST",
+                  url: `/api/quotes/${quote?.id}/adjustments`,
+                  data: { type, value, description, reason },
+                })}
+                disabled={!value || (type === 'manual' && (!description || !reason)) || adjustmentMutation.isPending}
+              >
+                {adjustmentMutation.isPending ? 'Saving...' : 'Add to Quote'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Send } from "lucide-react";
+import type { QuoteComment } from "@shared/schema";
+
+interface QuoteCommentThreadProps {
+  comments: QuoteComment[];
+  viewer: 'customer' | 'partner' | 'admin';
+  onSend?: (message: string) => Promise<unknown>; // omitted for a read-only thread
+  isSending?: boolean;
+}
+
+/**
+ * Messages between the customer and the partner on a quote, oldest first.
+ * The viewer's own side is shown on the right.
+ */
+export function QuoteCommentThread({ comments, viewer, onSend, isSending }: QuoteCommentThreadProps) {
+  const [message, setMessage] = useState("");
+
+  const handleSend = async () => {
+    if (!onSend || !message.trim()) {
+      return;
+    }
+    try {
+      await onSend(message);
+      setMessage("");
+    } catch {
+      // The caller reports the error and the draft is kept for another try
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {comments.length === 0 ? (
+        <div className="text-center py-4 text-sm text-gray-500">No comments yet.</div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {comments.map((comment) => {
+            const isOwn = comment.authorType === viewer;
+            return (
+              <div key={comment.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[80%] rounded-lg px-4 py-2 ${isOwn ? 'bg-blue-50 border border-blue-100' : 'bg-gray-50 border border-gray-200'}`}>
+                  <div className="text-xs text-gray-500 mb-1">
+                    {comment.authorName} · {comment.authorType === 'customer' ? 'Customer' : 'Partner'}
+                    {comment.createdAt && ` · ${new Date(comment.createdAt).toLocaleString()}`}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{comment.message}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {onSend && (
+        <div className="space-y-2">
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={viewer === 'customer' ? "Ask a question or leave a comment..." : "Reply to the customer..."}
+            rows={3}
+          />
+          <div className="flex justify-end">
+            <Button onClick={handleSend} disabled={isSending || !message.trim()}>
+              <Send className="w-4 h-4 mr-2" />
+              {isSending ? 'Sending...' : 'Send'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
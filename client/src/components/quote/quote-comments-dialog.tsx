@@ -0,0 +1,75 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { QuoteCommentThread } from "@/components/quote/quote-comment-thread";
+import type { QuoteComment } from "@shared/schema";
+
+interface QuoteCommentsDialogProps {
+  quote: { id: number; quoteNumber: string } | null;
+  onClose: () => void;
+}
+
+// apiRequest errors look like `400: {"message":"..."}`
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export function QuoteCommentsDialog({ quote, onClose }: QuoteCommentsDialogProps) {
+  const { toast } = useToast();
+
+  const { data: comments = [], isLoading } = useQuery<QuoteComment[]>({
+    queryKey: [`/api/quotes/${quote?.id}/comments`],
+    enabled: quote !== null,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (message: string) => {
+      const response = await apiRequest("POST", `/api/quotes/${quote?.id}/comments`, { message });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quote?.id}/comments`] });
+      toast({
+        title: "Comment Sent",
+        description: "The customer has been emailed a link to your reply.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to send comment. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={quote !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comments - {quote?.quoteNumber}</DialogTitle>
+          <DialogDescription>
+            Conversation with the customer about this quote. Customers see it in their portal.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">Loading comments...</div>
+        ) : (
+          <QuoteCommentThread
+            comments={comments}
+            viewer="partner"
+            onSend={(message) => commentMutation.mutateAsync(message)}
+            isSending={commentMutation.isPending}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
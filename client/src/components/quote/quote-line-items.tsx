@@ -0,0 +1,150 @@
+import { Separator } from "@/components/ui/separator";
+
+// Line item as returned by the quote endpoints
+export interface QuoteLineItemData {
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+  category: string;
+  taxable: boolean;
+  sku?: string | null;
+}
+
+// Sales tax fields of a quote; quotes priced before sales tax leave them null
+export interface QuoteTaxData {
+  subtotal: string | number | null;
+  taxAmount: string | number | null;
+  taxRate: string | number | null;
+  taxRegion: string | null;
+  taxExempt?: boolean | null;
+}
+
+// Monthly charges of a quote, billed for the contract term
+export interface QuoteRecurringData {
+  recurringItems?: QuoteLineItemData[] | null;
+  monthlyTotal?: string | number | null;
+  termMonths?: number | null;
+}
+
+interface QuoteLineItemsProps {
+  lineItems: QuoteLineItemData[];
+  totalCost: string | number;
+  tax?: QuoteTaxData | null;
+  recurring?: QuoteRecurringData | null;
+  totalLabel?: string;
+  compact?: boolean;
+}
+
+const UNIT_SUFFIXES: Record<string, string> = {
+  hours: 'hr',
+  ft: 'ft',
+  each: 'ea',
+};
+
+export const formatCurrency = (value: string | number) => {
+  const amount = parseFloat(String(value)) || 0;
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+};
+
+// Describe the quantity and rate of a line item, e.g. "2 hours @ $190.00/hr"
+export const formatLineItemDetail = (item: QuoteLineItemData) =>
+  `${item.quantity} ${item.unit} @ ${formatCurrency(item.unitPrice)}/${UNIT_SUFFIXES[item.unit] || item.unit}`;
+
+// One-time total plus the monthly charges over the contract term
+export const calculateContractValue = (totalCost: string | number, monthlyTotal: string | number, termMonths: number) =>
+  (parseFloat(String(totalCost)) || 0) + (parseFloat(String(monthlyTotal)) || 0) * termMonths;
+
+export const formatTaxLabel = (tax: QuoteTaxData) => {
+  if (tax.taxExempt) return 'Sales Tax (exempt)';
+  if (tax.taxRate == null) return 'Sales Tax';
+  if (!tax.taxRegion) return 'Sales Tax (region not found)';
+  return `Sales Tax (${tax.taxRegion} ${parseFloat(String(tax.taxRate)) || 0}%)`;
+};
+
+export function QuoteLineItems({ lineItems, totalCost, tax, recurring, totalLabel = "Total Project Cost", compact = false }: QuoteLineItemsProps) {
+  // Discounts and adjustments are listed after a subtotal of the priced items
+  const pricedItems = lineItems.filter((item) => item.category !== 'adjustment');
+  const adjustmentItems = lineItems.filter((item) => item.category === 'adjustment');
+  const subtotal = pricedItems.reduce((sum, item) => sum + item.total, 0);
+  const showTax = tax != null && tax.taxAmount != null;
+  const recurringItems = recurring?.recurringItems || [];
+  const termMonths = recurring?.termMonths || 0;
+
+  return (
+    <div className={compact ? "space-y-1 text-sm" : "space-y-3"}>
+      {pricedItems.map((item, index) => (
+        <div key={`${item.description}-${index}`} className="flex justify-between gap-4">
+          <span>
+            {item.description}
+            {item.sku && <span className="text-gray-500"> · SKU {item.sku}</span>}
+            {item.total !== 0 && (
+              <span className="text-gray-500"> ({formatLineItemDetail(item)})</span>
+            )}
+          </span>
+          <span className={item.total === 0 ? "text-gray-500" : undefined}>
+            {item.total === 0 ? 'Included' : formatCurrency(item.total)}
+          </span>
+        </div>
+      ))}
+      {adjustmentItems.length > 0 && (
+        <>
+          <Separator />
+          <div className="flex justify-between gap-4">
+            <span>Subtotal</span>
+            <span>{formatCurrency(subtotal)}</span>
+          </div>
+          {adjustmentItems.map((item, index) => (
+            <div key={`${item.description}-${index}`} className="flex justify-between gap-4">
+              <span>{item.description}</span>
+              <span className={item.total < 0 ? "text-green-600" : undefined}>{formatCurrency(item.total)}</span>
+            </div>
+          ))}
+        </>
+      )}
+      {showTax && (
+        <>
+          <Separator />
+          <div className="flex justify-between gap-4">
+            <span>{adjustmentItems.length > 0 ? 'Adjusted Subtotal' : 'Subtotal'}</span>
+            <span>{formatCurrency(tax.subtotal ?? subtotal)}</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span>{formatTaxLabel(tax)}</span>
+            <span>{formatCurrency(tax.taxAmount ?? 0)}</span>
+          </div>
+        </>
+      )}
+      <Separator />
+      <div className={`flex justify-between font-semibold ${compact ? "" : "text-lg"}`}>
+        <span>{recurringItems.length > 0 ? 'One-Time Total' : totalLabel}</span>
+        <span>{formatCurrency(totalCost)}</span>
+      </div>
+      {recurringItems.length > 0 && (
+        <>
+          <div className={`font-medium ${compact ? "pt-2" : "pt-4"}`}>Monthly Recurring ({termMonths}-month term)</div>
+          {recurringItems.map((item, index) => (
+            <div key={`${item.description}-${index}`} className="flex justify-between gap-4">
+              <span>
+                {item.description}
+                {item.sku && <span className="text-gray-500"> · SKU {item.sku}</span>}
+                <span className="text-gray-500"> ({item.quantity} @ {formatCurrency(item.unitPrice)}/mo)</span>
+              </span>
+              <span>{formatCurrency(item.total)}/mo</span>
+            </div>
+          ))}
+          <Separator />
+          <div className="flex justify-between font-semibold">
+            <span>Monthly Total</span>
+            <span>{formatCurrency(recurring?.monthlyTotal ?? 0)}/mo</span>
+          </div>
+          <div className={`flex justify-between font-semibold ${compact ? "" : "text-lg"}`}>
+            <span>Total Contract Value</span>
+            <span>{formatCurrency(calculateContractValue(totalCost, recurring?.monthlyTotal ?? 0, termMonths))}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, Trash2 } from "lucide-react";
+import { CatalogItemPicker } from "@/components/assessment/catalog-item-picker";
+import { formatCurrency } from "@/components/quote/quote-line-items";
+import type { Assessment, QuoteOption, QuoteOptionScope } from "@shared/schema";
+
+interface QuoteOptionsDialogProps {
+  quote: { id: number; quoteNumber: string; status: string | null; assessment: Assessment } | null;
+  onClose: () => void;
+}
+
+// apiRequest errors look like `400: {"message":"..."}`
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getAssessmentScope = (assessment: Assessment): QuoteOptionScope => ({
+  connectionUsage: assessment.connectionUsage,
+  lowSignalAntennaCable: assessment.lowSignalAntennaCable,
+  antennaType: assessment.antennaType,
+  dualWanSupport: assessment.dualWanSupport,
+  routerCount: assessment.routerCount,
+  cableFootage: assessment.cableFootage,
+  deviceCount: assessment.deviceCount,
+  cameraSolutionType: assessment.cameraSolutionType,
+  numberOfCameras: assessment.numberOfCameras,
+  trackerType: assessment.trackerType,
+  catalogItems: assessment.catalogItems,
+  termMonths: assessment.termMonths,
+});
+
+export function QuoteOptionsDialog({ quote, onClose }: QuoteOptionsDialogProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [scope, setScope] = useState<QuoteOptionScope>({});
+
+  const serviceType = quote?.assessment.serviceType || 'site-assessment';
+  const isEditable = (quote?.status === 'pending' || quote?.status === 'pending_approval' || quote?.status === 'changes_requested') && !quote?.assessment.proposalId;
+
+  const { data: options = [], isLoading } = useQuery<QuoteOption[]>({
+    queryKey: [`/api/quotes/${quote?.id}/options`],
+    enabled: quote !== null,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setScope(quote ? getAssessmentScope(quote.assessment) : {});
+  };
+
+  // New options start from the answers on the assessment
+  useEffect(() => {
+    resetForm();
+  }, [quote?.id]);
+
+  const editOption = (option: QuoteOption) => {
+    setEditingId(option.id);
+    setName(option.name);
+    setDescription(option.description || "");
+    setScope(option.scope);
+  };
+
+  const setScopeField = (field: keyof QuoteOptionScope, value: unknown) => {
+    setScope((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const optionMutation = useMutation({
+    mutationFn: async (request: { method: string; url: string; data?: unknown }) => {
+      const response = await apiRequest(request.method, request.url, request.data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quote?.id}/options`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      resetForm();
+      toast({
+        title: "Options Updated",
+        description: "The customer chooses one option when approving the quote.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: getErrorMessage(error, "Failed to save option. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveOption = () => {
+    const data = { name, description, scope };
+    optionMutation.mutate(editingId
+      ? { method: "PUT", url: `/api/quotes/${quote?.id}/options/${editingId}`, data }
+      : { method: "POST", url: `/api/quotes/${quote?.id}/options`, data });
+  };
+
+  const yesNoSelect = (field: 'lowSignalAntennaCable' | 'dualWanSupport', label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={(scope[field] as string) || ''} onValueChange={(value) => setScopeField(field, value)}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="yes">Yes</SelectItem>
+          <SelectItem value="no">No</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const numberInput = (field: 'routerCount' | 'deviceCount' | 'numberOfCameras', label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`option-${field}`}>{label}</Label>
+      <Input
+        id={`option-${field}`}
+        type="number"
+        min="0"
+        value={scope[field] ?? ''}
+        onChange={(e) => setScopeField(field, e.target.value === '' ? null : parseInt(e.target.value))}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={quote !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Options - {quote?.quoteNumber}</DialogTitle>
+          <DialogDescription>
+            Offer the customer a choice, e.g. good, better and best. Each option is priced with its own answers and
+            products, and the one the customer approves becomes the quote's scope and statement of work.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="font-semibold">Offered</h3>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading options...</p>
+            ) : options.length === 0 ? (
+              <p className="text-sm text-gray-500">No options yet. The customer approves the quote as it stands.</p>
+            ) : (
+              options.map((option) => (
+                <div key={option.id} className="flex items-start justify-between gap-4 rounded-lg border p-3 text-sm">
+                  <div className="space-y-1">
+                    <span className="font-medium">{option.name}</span>
+                    {option.selected && <span className="ml-2 text-green-700">(chosen by customer)</span>}
+                    {option.description && <p className="text-gray-600">{option.description}</p>}
+                    <p className="text-gray-600">
+                      {formatCurrency(option.totalCost)}
+                      {option.monthlyTotal && ` + ${formatCurrency(option.monthlyTotal)}/mo`}
+                    </p>
+                  </div>
+                  {isEditable && (
+                    <div className="flex">
+                      <Button variant="ghost" size="sm" onClick={() => editOption(option)} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-500 hover:text-red-700"
+                        onClick={() => optionMutation.mutate({ method: "DELETE", url: `/api/quotes/${quote?.id}/options/${option.id}` })}
+                        disabled={optionMutation.isPending}
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {isEditable ? (
+            <>
+              <Separator />
+
+              <div className="space-y-4">
+                <h3 className="font-semibold">{editingId ? 'Edit Option' : 'Add Option'}</h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="option-name">Name</Label>
+                    <Input
+                      id="option-name"
+                      placeholder="e.g. Better - internal antenna"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="option-description">Description (optional)</Label>
+                    <Textarea
+                      id="option-description"
+                      placeholder="Shown to the customer"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      rows={1}
+                    />
+                  </div>
+
+                  {serviceType === 'site-assessment' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Connection Usage</Label>
+                        <Select value={scope.connectionUsage || ''} onValueChange={(value) => setScopeField('connectionUsage', value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="primary">Primary</SelectItem>
+                            <SelectItem value="failover">Failover</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {scope.connectionUsage === 'failover' && yesNoSelect('dualWanSupport', 'Dual-WAN Failover')}
+                      {yesNoSelect('lowSignalAntennaCable', 'Antenna for Low Signal')}
+                      {scope.lowSignalAntennaCable === 'yes' && (
+                        <div className="space-y-2">
+                          <Label>Antenna Type</Label>
+                          <Select value={scope.antennaType || ''} onValueChange={(value) => setScopeField('antennaType', value)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="internal">Internal</SelectItem>
+                              <SelectItem value="external">External</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      {numberInput('routerCount', 'Routers')}
+                      <div className="space-y-2">
+                        <Label htmlFor="option-cable-footage">Cable Footage</Label>
+                        <Input
+                          id="option-cable-footage"
+                          type="number"
+                          min="0"
+                          value={scope.cableFootage || ''}
+                          onChange={(e) => setScopeField('cableFootage', e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {serviceType === 'fleet-tracking' && (
+                    <>
+                      {numberInput('deviceCount', 'Vehicles')}
+                      <div className="space-y-2">
+                        <Label>Tracker Type</Label>
+                        <Select value={scope.trackerType || ''} onValueChange={(value) => setScopeField('trackerType', value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="vehicle-tracker">Vehicle Tracker</SelectItem>
+                            <SelectItem value="asset-tracker">Asset Tracker</SelectItem>
+                            <SelectItem value="slap-track">Slap & Track</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  )}
+
+                  {serviceType === 'fleet-camera' && (
+                    <>
+                      {numberInput('deviceCount', 'Vehicles')}
+                      {numberInput('numberOfCameras', 'Cameras per Vehicle')}
+                      <div className="space-y-2">
+                        <Label>Camera Solution</Label>
+                        <Select value={scope.cameraSolutionType || ''} onValueChange={(value) => setScopeField('cameraSolutionType', value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="driver-facing">Driver Facing</SelectItem>
+                            <SelectItem value="front-facing">Front Facing</SelectItem>
+                            <SelectItem value="driver-front-combo">Driver/Front Combo</SelectItem>
+                            <SelectItem value="rear-facing">Rear Facing</SelectItem>
+                            <SelectItem value="trailer">Trailer</SelectItem>
+                            <SelectItem value="aux-multi-camera">Aux/Multi camera system</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <CatalogItemPicker
+                  serviceType={serviceType}
+                  value={scope.catalogItems}
+                  onChange={(catalogItems) => setScopeField('catalogItems', catalogItems)}
+                  termMonths={scope.termMonths}
+                  onTermChange={(termMonths) => setScopeField('termMonths', termMonths)}
+                />
+
+                <div className="flex justify-end gap-2">
+                  {editingId && (
+                    <Button variant="outline" onClick={resetForm}>
+                      Cancel Edit
+                    </Button>
+                  )}
+                  <Button onClick={saveOption} disabled={!name.trim() || optionMutation.isPending}>
+                    {optionMutation.isPending ? 'Saving...' : editingId ? 'Save Option' : 'Add Option'}
+                  </Button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Options can only be changed while the quote is pending and not part of a combined proposal.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileText } from "lucide-react";
+import { QuoteLineItems, formatCurrency } from "@/components/quote/quote-line-items";
+import type { QuoteRevision } from "@shared/schema";
+
+interface QuoteRevisionsDialogProps {
+  quoteId: number | null;
+  quoteNumber: string;
+  onClose: () => void;
+}
+
+interface RevisionColumnProps {
+  revision: QuoteRevision | undefined;
+  isLatest: boolean;
+}
+
+function RevisionColumn({ revision, isLatest }: RevisionColumnProps) {
+  if (!revision) {
+    return <div className="text-sm text-gray-500">Select a revision</div>;
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Rev {revision.revisionLetter}</h3>
+        <Badge variant={isLatest ? 'default' : 'secondary'}>
+          {isLatest ? 'Current' : 'Superseded'}
+        </Badge>
+      </div>
+      <div className="text-xs text-gray-500 space-y-1">
+        <p>{revision.createdAt ? new Date(revision.createdAt).toLocaleString() : ''}</p>
+        {revision.notes && <p>{revision.notes}</p>}
+      </div>
+      <QuoteLineItems
+        lineItems={revision.lineItems}
+        totalCost={revision.totalCost}
+        tax={revision.taxAmount === null ? null : {
+          subtotal: parseFloat(revision.totalCost) - parseFloat(revision.taxAmount),
+          taxAmount: revision.taxAmount,
+          taxRate: null,
+          taxRegion: null,
+        }}
+        compact
+      />
+      {revision.pdfUrl && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1"
+          onClick={() => window.open(`/api/files/pdf/${revision.pdfUrl!.split('/').pop()}`, '_blank')}
+        >
+          <FileText className="h-4 w-4" />
+          View PDF
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function QuoteRevisionsDialog({ quoteId, quoteNumber, onClose }: QuoteRevisionsDialogProps) {
+  const [leftId, setLeftId] = useState<number | null>(null);
+  const [rightId, setRightId] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<QuoteRevision[]>({
+    queryKey: [`/api/quotes/${quoteId}/revisions`],
+    enabled: quoteId !== null,
+    staleTime: 0,
+    refetchOnMount: true,
+  });
+  const revisions = data || [];
+
+  // Compare the latest revision with the one before it by default
+  useEffect(() => {
+    const latest = revisions[revisions.length - 1];
+    const previous = revisions[revisions.length - 2];
+    setLeftId(previous?.id ?? latest?.id ?? null);
+    setRightId(latest?.id ?? null);
+  }, [data]);
+
+  const latestId = revisions[revisions.length - 1]?.id;
+  const left = revisions.find((revision) => revision.id === leftId);
+  const right = revisions.find((revision) => revision.id === rightId);
+  const difference = left && right ? parseFloat(right.totalCost) - parseFloat(left.totalCost) : 0;
+
+  const revisionSelect = (value: number | null, onChange: (id: number) => void) => (
+    <Select value={value?.toString()} onValueChange={(id) => onChange(parseInt(id))}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.id} value={revision.id.toString()}>
+            Rev {revision.revisionLetter} - {formatCurrency(revision.totalCost)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={quoteId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revision History - {quoteNumber}</DialogTitle>
+          <DialogDescription>
+            Each revision keeps the pricing and PDF it was issued with. Customers only see the current revision.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">Loading revisions...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No revisions recorded for this quote yet.</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                {revisionSelect(leftId, setLeftId)}
+              </div>
+              <div className="space-y-2">
+                <Label>With</Label>
+                {revisionSelect(rightId, setRightId)}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <RevisionColumn revision={left} isLatest={left?.id === latestId} />
+              <RevisionColumn revision={right} isLatest={right?.id === latestId} />
+            </div>
+            {left && right && left.id !== right.id && (
+              <div className="flex justify-between font-semibold text-sm">
+                <span>Difference (Rev {right.revisionLetter} vs Rev {left.revisionLetter})</span>
+                <span>{difference > 0 ? '+' : ''}{formatCurrency(difference)}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
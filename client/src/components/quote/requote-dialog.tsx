@@ -0,0 +1,116 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatCurrency, formatLineItemDetail, type QuoteLineItemData } from "@/components/quote/quote-line-items";
+
+export interface LineItemChangeData {
+  description: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: QuoteLineItemData | null;
+  after: QuoteLineItemData | null;
+}
+
+export interface RequotePreviewData {
+  quoteId: number;
+  quoteNumber: string;
+  currentTotal: number;
+  proposedTotal: number;
+  totalChange: number;
+  hasChanges: boolean;
+  rateCardVersionNumber: number;
+  lineItems: LineItemChangeData[];
+}
+
+interface RequoteDialogProps {
+  preview: RequotePreviewData | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+  isPending: boolean;
+}
+
+const CHANGE_BADGES: Record<LineItemChangeData['change'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600' },
+};
+
+const formatItem = (item: QuoteLineItemData | null) => {
+  if (!item) return '-';
+  if (item.total === 0) return 'Included';
+  return `${formatCurrency(item.total)} (${formatLineItemDetail(item)})`;
+};
+
+export function RequoteDialog({ preview, open, onOpenChange, onConfirm, isPending }: RequoteDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Update Quote {preview?.quoteNumber}</DialogTitle>
+          <DialogDescription>
+            Review the pricing changes from the updated assessment. Confirming updates the quote, regenerates the PDF and syncs the new amount to HubSpot.
+          </DialogDescription>
+        </DialogHeader>
+        {preview && (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line Item</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="w-28"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.lineItems.map((item, index) => (
+                  <TableRow key={`${item.description}-${index}`}>
+                    <TableCell className="font-medium">{item.description}</TableCell>
+                    <TableCell className="text-sm">{formatItem(item.before)}</TableCell>
+                    <TableCell className="text-sm">{formatItem(item.after)}</TableCell>
+                    <TableCell>
+                      <Badge className={CHANGE_BADGES[item.change].className}>
+                        {CHANGE_BADGES[item.change].label}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Separator />
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Current Total</span>
+                <span>{formatCurrency(preview.currentTotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Updated Total</span>
+                <span>{formatCurrency(preview.proposedTotal)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Difference</span>
+                <span className={preview.totalChange > 0 ? 'text-red-600' : preview.totalChange < 0 ? 'text-green-600' : undefined}>
+                  {preview.totalChange > 0 ? '+' : ''}{formatCurrency(preview.totalChange)}
+                </span>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Priced with rate card version {preview.rateCardVersionNumber}.
+            </p>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!preview || isPending}>
+            {isPending ? 'Updating...' : 'Confirm & Update Quote'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
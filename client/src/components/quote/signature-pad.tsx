@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+}
+
+/**
+ * Canvas the customer draws their signature on with a mouse, pen or finger. Reports the drawing as a PNG data URL.
+ */
+export function SignaturePad({ onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (context) {
+      context.lineWidth = 2;
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      context.strokeStyle = "#111827";
+    }
+  }, []);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!drawingRef.current || !context) {
+      return;
+    }
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) {
+      return;
+    }
+    drawingRef.current = false;
+    onChange(event.currentTarget.toDataURL("image/png"));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={160}
+        className="w-full h-40 border border-gray-300 rounded-md bg-white touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={clear}>
+          <Eraser className="w-4 h-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { VehicleLaborLine } from "@shared/schema";
+
+interface VehicleLaborBreakdownProps {
+  lines?: VehicleLaborLine[] | null;
+}
+
+/**
+ * Expandable per-vehicle installation hours of a fleet quote, with each vehicle's class multiplier
+ */
+export function VehicleLaborBreakdown({ lines }: VehicleLaborBreakdownProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!lines?.length) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border border-gray-200 rounded-lg">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-4 py-3 text-sm font-medium nxt-gray-800 hover:bg-nxt-gray-50">
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        Installation by vehicle ({lines.length})
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Vehicle Class</TableHead>
+              <TableHead className="text-right">Multiplier</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line, index) => (
+              <TableRow key={`${line.vehicle}-${index}`}>
+                <TableCell>{line.vehicle}</TableCell>
+                <TableCell>{line.vehicleClass || 'Not set'}</TableCell>
+                <TableCell className="text-right">{line.multiplier}×</TableCell>
+                <TableCell className="text-right">{line.hours.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
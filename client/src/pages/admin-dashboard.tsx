@@ -12,7 +12,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Shield, Users, FileText, BarChart3, CheckCircle, XCircle, Clock, Settings, Link, Copy, Mail, Send, TrendingUp, Eye, Trash2, Download, ExternalLink } from "lucide-react";
+import { RateCardManager } from "@/components/admin/rate-card-manager";
+import { VehicleClassManager } from "@/components/admin/vehicle-class-manager";
+import { PromoCodeManager } from "@/components/admin/promo-code-manager";
+import { TaxRateManager } from "@/components/admin/tax-rate-manager";
+import { OrganizationPricingDialog } from "@/components/admin/organization-pricing-dialog";
+import { QuoteNumberingDialog } from "@/components/admin/quote-numbering-dialog";
+import { BaseLocationDialog } from "@/components/admin/base-location-dialog";
+import { TravelBandManager } from "@/components/admin/travel-band-manager";
+import { ProductCatalogManager } from "@/components/admin/product-catalog-manager";
+import { ApprovalRuleManager } from "@/components/admin/approval-rule-manager";
+import { QuoteApprovalQueue } from "@/components/admin/quote-approval-queue";
+import { QuoteLineItems } from "@/components/quote/quote-line-items";
+import { PricingTrace } from "@/components/quote/pricing-trace";
+import { VehicleLaborBreakdown } from "@/components/quote/vehicle-labor-breakdown";
+import { QuoteCommentThread } from "@/components/quote/quote-comment-thread";
+import { ChangeRequestItems } from "@/components/quote/change-request-form";
+import { Shield, Users, FileText, BarChart3, CheckCircle, XCircle, Clock, Settings, Link, Copy, Mail, Send, TrendingUp, Eye, Trash2, Download, ExternalLink, RefreshCw, DollarSign, Hash, MapPin } from "lucide-react";
 import type { User, Organization, Quote } from "@shared/schema";
 
 interface AdminStats {
@@ -20,6 +36,8 @@ interface AdminStats {
   pendingPartners: number;
   activeQuotes: number;
   totalQuotes: number;
+  monthlyRevenue: number;
+  monthlyRecurringRevenue: number;
 }
 
 export default function AdminDashboard() {
@@ -27,6 +45,9 @@ export default function AdminDashboard() {
   const { toast } = useToast();
   const [selectedQuote, setSelectedQuote] = useState<any>(null);
   const [selectedQuoteData, setSelectedQuoteData] = useState<any>(null);
+  const [pricingOrganizationId, setPricingOrganizationId] = useState<number | null>(null);
+  const [numberingOrganizationId, setNumberingOrganizationId] = useState<number | null>(null);
+  const [baseLocationOrganizationId, setBaseLocationOrganizationId] = useState<number | null>(null);
 
   // Redirect if not system admin
   useEffect(() => {
@@ -317,6 +338,35 @@ export default function AdminDashboard() {
     },
   });
 
+  // Re-price quote mutation
+  const repriceQuoteMutation = useMutation({
+    mutationFn: async (quoteId: number) => {
+      const response = await fetch(`/api/admin/quotes/${quoteId}/reprice`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to re-price quote');
+      }
+      return response.json();
+    },
+    onSuccess: (updatedQuote) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quotes"] });
+      handleViewQuoteDetails(updatedQuote);
+      toast({
+        title: "Quote Re-priced",
+        description: `Quote has been re-priced with the current rate card. New total: $${parseFloat(updatedQuote.totalCost || 0).toFixed(2)}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to re-price quote. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete quote mutation
   const deleteQuoteMutation = useMutation({
     mutationFn: async (quoteId: number) => {
@@ -415,13 +465,19 @@ export default function AdminDashboard() {
 
         {/* Admin Tabs */}
         <Tabs defaultValue="partners" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-11">
             <TabsTrigger value="partners">Partners</TabsTrigger>
             <TabsTrigger value="user-roles">User Roles</TabsTrigger>
             <TabsTrigger value="hubspot">HubSpot</TabsTrigger>
             <TabsTrigger value="invitations">Invitations</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="quotes">Quotes</TabsTrigger>
+            <TabsTrigger value="approvals">Approvals</TabsTrigger>
+            <TabsTrigger value="rate-card">Rate Card</TabsTrigger>
+            <TabsTrigger value="promo-codes">Promo Codes</TabsTrigger>
+            <TabsTrigger value="tax-rates">Tax Rates</TabsTrigger>
+            <TabsTrigger value="travel">Travel</TabsTrigger>
+            <TabsTrigger value="products">Products</TabsTrigger>
           </TabsList>
 
           <TabsContent value="partners" className="space-y-4">
@@ -548,6 +604,36 @@ export default function AdminDashboard() {
                                   Reactivate
                                 </Button>
                               )}
+                              {partner.organization && (
+                                <Button 
+                                  size="sm" 
+                                  variant="outline"
+                                  onClick={() => setPricingOrganizationId(partner.organization.id)}
+                                >
+                                  <DollarSign className="h-4 w-4 mr-1" />
+                                  Pricing
+                                </Button>
+                              )}
+                              {partner.organization && (
+                                <Button 
+                                  size="sm" 
+                                  variant="outline"
+                                  onClick={() => setNumberingOrganizationId(partner.organization.id)}
+                                >
+                                  <Hash className="h-4 w-4 mr-1" />
+                                  Numbering
+                                </Button>
+                              )}
+                              {partner.organization && (
+                                <Button 
+                                  size="sm" 
+                                  variant="outline"
+                                  onClick={() => setBaseLocationOrganizationId(partner.organization.id)}
+                                >
+                                  <MapPin className="h-4 w-4 mr-1" />
+                                  Base
+                                </Button>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -793,6 +879,20 @@ export default function AdminDashboard() {
                       </div>
                       <p className="text-sm text-green-600 dark:text-green-300">Total quotes created</p>
                     </div>
+                    <div className="bg-gradient-to-r from-purple-50 to-purple-100 dark:from-purple-900/20 dark:to-purple-800/20 p-6 rounded-lg">
+                      <h3 className="font-semibold text-purple-800 dark:text-purple-200 mb-2">One-Time Revenue</h3>
+                      <div className="text-3xl font-bold text-purple-900 dark:text-purple-100">
+                        ${(adminStats?.monthlyRevenue || 0).toFixed(2)}
+                      </div>
+                      <p className="text-sm text-purple-600 dark:text-purple-300">Approved quotes this month</p>
+                    </div>
+                    <div className="bg-gradient-to-r from-orange-50 to-orange-100 dark:from-orange-900/20 dark:to-orange-800/20 p-6 rounded-lg">
+                      <h3 className="font-semibold text-orange-800 dark:text-orange-200 mb-2">Monthly Recurring Revenue</h3>
+                      <div className="text-3xl font-bold text-orange-900 dark:text-orange-100">
+                        ${(adminStats?.monthlyRecurringRevenue || 0).toFixed(2)}
+                      </div>
+                      <p className="text-sm text-orange-600 dark:text-orange-300">MRR from all approved quotes</p>
+                    </div>
                   </div>
                 )}
               </CardContent>
@@ -832,7 +932,7 @@ export default function AdminDashboard() {
                           <TableCell>${parseFloat(quote.totalCost || 0).toFixed(2)}</TableCell>
                           <TableCell>
                             <Badge variant={quote.status === 'approved' ? 'default' : 
-                                           quote.status === 'pending' ? 'secondary' : 'destructive'}>
+                                           quote.status === 'pending' || quote.status === 'pending_approval' ? 'secondary' : 'destructive'}>
                               {quote.status || 'pending'}
                             </Badge>
                           </TableCell>
@@ -873,9 +973,50 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="approvals" className="space-y-4">
+            <QuoteApprovalQueue enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+            <ApprovalRuleManager enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+          </TabsContent>
+
+          <TabsContent value="rate-card" className="space-y-4">
+            <RateCardManager enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+            <VehicleClassManager enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+          </TabsContent>
+
+          <TabsContent value="promo-codes" className="space-y-4">
+            <PromoCodeManager enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+          </TabsContent>
+
+          <TabsContent value="tax-rates" className="space-y-4">
+            <TaxRateManager enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+          </TabsContent>
+
+          <TabsContent value="travel" className="space-y-4">
+            <TravelBandManager enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+          </TabsContent>
+
+          <TabsContent value="products" className="space-y-4">
+            <ProductCatalogManager enabled={(user as any)?.isSystemAdmin || (user as any)?.role === 'admin'} />
+          </TabsContent>
         </Tabs>
       </div>
 
+      <OrganizationPricingDialog
+        organizationId={pricingOrganizationId}
+        onClose={() => setPricingOrganizationId(null)}
+      />
+
+      <QuoteNumberingDialog
+        organizationId={numberingOrganizationId}
+        onClose={() => setNumberingOrganizationId(null)}
+      />
+
+      <BaseLocationDialog
+        organizationId={baseLocationOrganizationId}
+        onClose={() => setBaseLocationOrganizationId(null)}
+      />
+
       {/* Quote Details Modal */}
       <Dialog open={!!selectedQuote} onOpenChange={() => setSelectedQuote(null)}>
         <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
@@ -915,29 +1056,76 @@ export default function AdminDashboard() {
                   <p><strong>Total Cost:</strong> ${parseFloat(selectedQuoteData?.totalCost || 0).toFixed(2)}</p>
                   <p><strong>Status:</strong> <Badge variant={selectedQuoteData?.status === 'approved' ? 'default' : 'secondary'}>{selectedQuoteData?.status}</Badge></p>
                   <p><strong>Created:</strong> {new Date(selectedQuoteData?.createdAt || Date.now()).toLocaleString()}</p>
+                  {selectedQuoteData?.expiresAt && (
+                    <p><strong>Valid Until:</strong> {new Date(selectedQuoteData.expiresAt).toLocaleDateString()}</p>
+                  )}
+                  {selectedQuoteData?.approvalStatus && (
+                    <p><strong>Pricing Approval:</strong> {selectedQuoteData.approvalStatus}{selectedQuoteData.approvalNote ? ` - ${selectedQuoteData.approvalNote}` : ''}</p>
+                  )}
+                  {selectedQuoteData?.commissionAmount && (
+                    <p><strong>Partner Commission:</strong> ${parseFloat(selectedQuoteData.commissionAmount).toFixed(2)} ({parseFloat(selectedQuoteData.commissionRate || 0)}% of {selectedQuoteData.commissionBasis === 'labor' ? 'labor' : 'total'})</p>
+                  )}
+                  <p><strong>Rate Card:</strong> {selectedQuoteData?.rateCardVersion
+                    ? `Version ${selectedQuoteData.rateCardVersion.versionNumber} (effective ${new Date(selectedQuoteData.rateCardVersion.effectiveFrom).toLocaleDateString()})`
+                    : 'Legacy pricing'}</p>
                 </div>
               </div>
               
               <div>
                 <h3 className="font-semibold mb-2">Pricing Breakdown</h3>
-                <div className="grid grid-cols-2 gap-2 text-sm">
-                  <p>Survey Hours: {selectedQuoteData?.surveyHours || 0}</p>
-                  <p>Survey Cost: ${parseFloat(selectedQuoteData?.surveyCost || 0).toFixed(2)}</p>
-                  <p>Installation Hours: {selectedQuoteData?.installationHours || 0}</p>
-                  <p>Installation Cost: ${parseFloat(selectedQuoteData?.installationCost || 0).toFixed(2)}</p>
-                  <p>Configuration Hours: {selectedQuoteData?.configurationHours || 0}</p>
-                  <p>Configuration Cost: ${parseFloat(selectedQuoteData?.configurationCost || 0).toFixed(2)}</p>
-                  <p>Hardware Cost: ${parseFloat(selectedQuoteData?.hardwareCost || 0).toFixed(2)}</p>
-                  <p>Labor Hold: ${parseFloat(selectedQuoteData?.laborHoldCost || 0).toFixed(2)}</p>
-                  {selectedQuoteData?.removalCost && parseFloat(selectedQuoteData.removalCost) > 0 && (
-                    <>
-                      <p>Removal Hours: {selectedQuoteData.removalHours || 0}</p>
-                      <p>Removal Cost: ${parseFloat(selectedQuoteData.removalCost).toFixed(2)}</p>
-                    </>
-                  )}
+                <QuoteLineItems
+                  lineItems={selectedQuoteData?.lineItems || []}
+                  totalCost={selectedQuoteData?.totalCost || 0}
+                  tax={selectedQuoteData && { ...selectedQuoteData, taxExempt: selectedQuoteData.assessment?.taxExempt }}
+                  recurring={selectedQuoteData}
+                  compact
+                />
+                <div className="mt-3 space-y-3">
+                  <VehicleLaborBreakdown lines={selectedQuoteData?.vehicleLabor} />
+                  <PricingTrace trace={selectedQuoteData?.pricingTrace} />
                 </div>
               </div>
 
+              {/* Changes the customer asked for */}
+              {selectedQuoteData?.status === 'changes_requested' && selectedQuoteData.changeRequest && (
+                <div>
+                  <h3 className="font-semibold mb-2">Changes Requested by {selectedQuoteData.changeRequest.requestedBy}</h3>
+                  <ChangeRequestItems items={selectedQuoteData.changeRequest.items} />
+                </div>
+              )}
+
+              {/* Conversation between the customer and the partner */}
+              <div>
+                <h3 className="font-semibold mb-2">Comments</h3>
+                <QuoteCommentThread comments={selectedQuoteData?.comments || []} viewer="admin" />
+              </div>
+
+              {/* Customer signature and audit trail */}
+              {selectedQuoteData?.signature && (
+                <div>
+                  <h3 className="font-semibold mb-2">Customer Signature</h3>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <p><strong>Signed By:</strong> {selectedQuoteData.signature.signerName}, {selectedQuoteData.signature.signerTitle}</p>
+                    <p><strong>Signed:</strong> {new Date(selectedQuoteData.signature.signedAt).toLocaleString()}</p>
+                    <p><strong>Signature:</strong> {selectedQuoteData.signature.signatureType === 'drawn' ? 'Drawn' : 'Typed'}</p>
+                    <p><strong>IP Address:</strong> {selectedQuoteData.signature.ipAddress || 'Not recorded'}</p>
+                    <p className="col-span-2 break-all"><strong>User Agent:</strong> {selectedQuoteData.signature.userAgent || 'Not recorded'}</p>
+                    <p className="col-span-2 break-all"><strong>Quote PDF SHA-256:</strong> <span className="font-mono">{selectedQuoteData.signature.quotePdfHash}</span></p>
+                  </div>
+                  {selectedQuoteData.signature.signedPdfUrl && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-3"
+                      onClick={() => window.open(selectedQuoteData.signature.signedPdfUrl, '_blank')}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Signed Copy
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {/* Infrastructure Requirements */}
               <div>
                 <h3 className="font-semibold mb-3">Infrastructure Requirements</h3>
@@ -1051,6 +1239,12 @@ export default function AdminDashboard() {
                     {selectedQuoteData?.assessment?.trackerType && (
                       <p><strong>Tracker Type:</strong> {selectedQuoteData.assessment.trackerType}</p>
                     )}
+                    {selectedQuoteData?.assessment?.installationMethod && (
+                      <p><strong>Installation Method:</strong> {selectedQuoteData.assessment.installationMethod}</p>
+                    )}
+                    {selectedQuoteData?.assessment?.vehicleClass && (
+                      <p><strong>Vehicle Class:</strong> {selectedQuoteData.assessment.vehicleClass}</p>
+                    )}
                     {selectedQuoteData?.assessment?.iotTrackingPartner && (
                       <p><strong>IoT Partner:</strong> {selectedQuoteData.assessment.iotTrackingPartner}</p>
                     )}
@@ -1072,6 +1266,9 @@ export default function AdminDashboard() {
                     {selectedQuoteData?.assessment?.numberOfCameras && (
                       <p><strong>Number of Cameras:</strong> {selectedQuoteData.assessment.numberOfCameras}</p>
                     )}
+                    {selectedQuoteData?.assessment?.vehicleClass && (
+                      <p><strong>Vehicle Class:</strong> {selectedQuoteData.assessment.vehicleClass}</p>
+                    )}
                     {selectedQuoteData?.assessment?.removalNeeded && (
                       <p><strong>Removal Needed:</strong> {selectedQuoteData.assessment.removalNeeded}</p>
                     )}
@@ -1098,6 +1295,16 @@ export default function AdminDashboard() {
                 Download PDF
               </Button>
             )}
+            {(selectedQuoteData?.status === 'pending' || selectedQuoteData?.status === 'pending_approval') && (
+              <Button
+                variant="outline"
+                onClick={() => repriceQuoteMutation.mutate(selectedQuoteData?.id)}
+                disabled={repriceQuoteMutation.isPending}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                {repriceQuoteMutation.isPending ? 'Re-pricing...' : 'Re-price with Current Rates'}
+              </Button>
+            )}
             <Button
               variant="destructive"
               onClick={() => closeQuoteMutation.mutate(selectedQuoteData?.id)}
@@ -10,6 +10,8 @@ import { StepCustomerInfo } from "@/components/assessment/step-customer-info";
 import { StepSiteAssessment } from "@/components/assessment/step-site-assessment";
 import { StepFileUpload } from "@/components/assessment/step-file-upload";
 import { StepQuoteGeneration } from "@/components/assessment/step-quote-generation";
+import { PricingEstimate } from "@/components/quote/pricing-estimate";
+import { CatalogItemPicker } from "@/components/assessment/catalog-item-picker";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, ArrowRight, Check } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
@@ -83,14 +85,21 @@ export default function AssessmentPage() {
     },
   });
 
+  // Sites of a multi-site project take the sales executive and customer details from the project
+  const firstStep = assessment?.projectId ? 3 : 1;
+  const exitPath = assessment?.projectId ? `/projects/${assessment.projectId}` : "/";
+
   useEffect(() => {
     if (assessment) {
       setAssessmentData(assessment);
+      if (assessment.projectId) {
+        setCurrentStep((step) => Math.max(step, 3));
+      }
     }
   }, [assessment]);
 
   const handleBackToDashboard = () => {
-    navigate("/");
+    navigate(exitPath);
   };
 
   const handleNext = async () => {
@@ -105,12 +114,12 @@ export default function AssessmentPage() {
         title: "Success",
         description: "Assessment completed successfully!",
       });
-      navigate("/");
+      navigate(exitPath);
     }
   };
 
   const handlePrevious = () => {
-    if (currentStep > 1) {
+    if (currentStep > firstStep) {
       setCurrentStep(currentStep - 1);
     }
   };
@@ -198,12 +207,26 @@ export default function AssessmentPage() {
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {renderCurrentStep()}
 
+        {/* Running estimate while the site details are being filled in */}
+        {currentStep >= 3 && currentStep < TOTAL_STEPS && (
+          <div className="mt-8 space-y-8">
+            <CatalogItemPicker
+              serviceType="site-assessment"
+              value={assessmentData.catalogItems}
+              onChange={(catalogItems) => handleDataChange({ catalogItems })}
+              termMonths={assessmentData.termMonths}
+              onTermChange={(termMonths) => handleDataChange({ termMonths })}
+            />
+            <PricingEstimate data={assessmentData} />
+          </div>
+        )}
+
         {/* Navigation Buttons */}
         <div className="flex justify-between mt-8">
           <Button
             variant="outline"
             onClick={handlePrevious}
-            disabled={currentStep === 1}
+            disabled={currentStep === firstStep}
             className="px-6 py-3 font-medium"
           >
             <ArrowLeft className="mr-2" size={16} />
@@ -6,22 +6,73 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
-import { CheckCircle, XCircle, Clock, FileText, Download, Phone, Mail, MapPin, Calendar } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle, XCircle, Clock, FileText, Download, Phone, Mail, MapPin, Calendar, PenLine, MessageSquare, FilePen } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Quote, Assessment } from "@shared/schema";
+import { QuoteLineItems, formatCurrency, type QuoteLineItemData } from "@/components/quote/quote-line-items";
+import { VehicleLaborBreakdown } from "@/components/quote/vehicle-labor-breakdown";
+import { SignaturePad } from "@/components/quote/signature-pad";
+import { QuoteCommentThread } from "@/components/quote/quote-comment-thread";
+import { ChangeRequestForm, ChangeRequestItems } from "@/components/quote/change-request-form";
+import type { CustomerQuote, Assessment, QuoteOption, QuoteComment, QuoteChangeItem } from "@shared/schema";
 
-interface CustomerQuoteData extends Quote {
+interface CustomerQuoteData extends CustomerQuote {
   assessment: Assessment;
+  lineItems: QuoteLineItemData[];
+  recurringItems: QuoteLineItemData[];
+  options: QuoteOption[];
+  signature: {
+    signerName: string;
+    signerTitle: string;
+    signedAt: string;
+    signedPdfUrl: string | null;
+  } | null;
+  comments: QuoteComment[];
+  proposalToken: string | null;
+  revisionLetter: string | null;
+  supersededRevisions: {
+    revisionLetter: string;
+    totalCost: string;
+    createdAt: string;
+  }[];
   organization: {
     name: string;
   };
 }
 
+type SignatureType = "drawn" | "typed";
+
+type QuoteAction = "approve" | "reject" | "request-changes";
+
+const ACTION_TOASTS: Record<QuoteAction, string> = {
+  approve: "Quote Approved",
+  reject: "Quote Declined",
+  "request-changes": "Change Request Sent",
+};
+
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
 export default function CustomerPortal() {
   const [, params] = useRoute("/customer/:token");
   const token = params?.token;
   const [customerFeedback, setCustomerFeedback] = useState("");
+  const [selectedOptionId, setSelectedOptionId] = useState<number | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signerTitle, setSignerTitle] = useState("");
+  const [signatureType, setSignatureType] = useState<SignatureType>("drawn");
+  const [drawnSignature, setDrawnSignature] = useState<string | null>(null);
+  const [typedSignature, setTypedSignature] = useState("");
+  const [termsAccepted, setTermsAccepted] = useState(false);
+  const [showChangeForm, setShowChangeForm] = useState(false);
   const { toast } = useToast();
 
   // Fetch quote data using secure token
@@ -32,19 +83,47 @@ export default function CustomerPortal() {
 
   // Quote approval mutation
   const approvalMutation = useMutation({
-    mutationFn: async ({ action, feedback }: { action: "approve" | "reject"; feedback?: string }) => {
-      return apiRequest("POST", `/api/customer/quote/${token}/${action}`, { feedback });
+    mutationFn: async ({ action, feedback, changes }: { action: QuoteAction; feedback?: string; changes?: QuoteChangeItem[] }) => {
+      const signature = action === "approve" ? {
+        signerName,
+        signerTitle,
+        signatureType,
+        signatureData: signatureType === "drawn" ? drawnSignature : typedSignature,
+        termsAccepted,
+      } : undefined;
+      return apiRequest("POST", `/api/customer/quote/${token}/${action}`, { feedback, optionId: selectedOptionId, signature, changes });
     },
     onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customer/quote/${token}`] });
       toast({
-        title: variables.action === "approve" ? "Quote Approved" : "Quote Rejected",
+        title: ACTION_TOASTS[variables.action],
         description: "Your response has been sent to our team. We'll be in touch soon!",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to submit response. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (message: string) => {
+      return apiRequest("POST", `/api/customer/quote/${token}/comments`, { message });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customer/quote/${token}`] });
+      toast({
+        title: "Comment Sent",
+        description: "Your sales representative has been notified.",
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to submit response. Please try again.",
+        description: getErrorMessage(error, "Failed to send comment. Please try again."),
         variant: "destructive",
       });
     },
@@ -83,6 +162,15 @@ export default function CustomerPortal() {
   const quote = quoteData;
   const assessment = quote.assessment;
   const organization = quote.organization;
+  // The expiry job runs periodically, so also treat pending quotes past their date as expired
+  const isExpired = quote.status === "expired" ||
+    (quote.status === "pending" && !!quote.expiresAt && new Date(quote.expiresAt) <= new Date());
+  // Quotes with options are approved with the option the customer picks
+  const options = quote.options || [];
+  const chosenOption = options.find((option) => option.selected);
+  const offersOptions = options.length > 0 && !chosenOption;
+  const signatureComplete = !!signerName.trim() && !!signerTitle.trim() && termsAccepted &&
+    (signatureType === "drawn" ? !!drawnSignature : !!typedSignature.trim());
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -90,6 +178,10 @@ export default function CustomerPortal() {
         return <Badge className="bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Approved</Badge>;
       case "rejected":
         return <Badge className="bg-red-100 text-red-800"><XCircle className="w-3 h-3 mr-1" />Rejected</Badge>;
+      case "expired":
+        return <Badge className="bg-gray-100 text-gray-800"><Clock className="w-3 h-3 mr-1" />Expired</Badge>;
+      case "changes_requested":
+        return <Badge className="bg-blue-100 text-blue-800"><FilePen className="w-3 h-3 mr-1" />Changes Requested</Badge>;
       default:
         return <Badge className="bg-yellow-100 text-yellow-800"><Clock className="w-3 h-3 mr-1" />Pending Review</Badge>;
     }
@@ -112,12 +204,19 @@ export default function CustomerPortal() {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Installation Quote</h1>
-              <p className="text-gray-600">Quote #{quote.quoteNumber}</p>
+              <p className="text-gray-600">
+                Quote #{quote.quoteNumber}{quote.revisionLetter ? ` rev ${quote.revisionLetter}` : ''}
+              </p>
             </div>
             <div className="text-right">
               <div className="text-sm text-gray-500">From</div>
               <div className="font-semibold text-nxt-blue">{organization?.name || 'Organization'}</div>
-              {getStatusBadge(quote.status || 'pending')}
+              {getStatusBadge(isExpired ? 'expired' : quote.status || 'pending')}
+              {quote.expiresAt && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {isExpired ? 'Expired' : 'Valid until'} {new Date(quote.expiresAt).toLocaleDateString()}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -157,62 +256,86 @@ export default function CustomerPortal() {
           </CardContent>
         </Card>
 
+        {/* Options to choose from, each with its own pricing */}
+        {offersOptions && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Choose an Option</CardTitle>
+              <CardDescription>
+                Select the option that suits you best. The option you approve becomes the scope of your installation.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {options.map((option) => {
+                const canSelect = quote.status === "pending" && !isExpired;
+                const isSelected = selectedOptionId === option.id;
+                return (
+                  <div
+                    key={option.id}
+                    className={`rounded-lg border-2 p-4 ${isSelected ? 'border-nxt-blue bg-blue-50' : 'border-gray-200'} ${canSelect ? 'cursor-pointer' : ''}`}
+                    onClick={() => canSelect && setSelectedOptionId(option.id)}
+                  >
+                    <div className="flex items-start justify-between gap-4 mb-3">
+                      <div>
+                        <h4 className="font-semibold">{option.name}</h4>
+                        {option.description && <p className="text-sm text-gray-600">{option.description}</p>}
+                      </div>
+                      {isSelected && <Badge className="bg-nxt-blue text-white">Selected</Badge>}
+                    </div>
+                    <QuoteLineItems
+                      lineItems={option.lineItems}
+                      totalCost={option.totalCost}
+                      tax={{ ...option, taxRate: quote.taxRate, taxRegion: quote.taxRegion, taxExempt: assessment.taxExempt }}
+                      recurring={option}
+                      compact
+                    />
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Pricing Breakdown */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Pricing Breakdown</CardTitle>
-            <CardDescription>Detailed cost breakdown for your installation project</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {quote.surveyCost && parseFloat(quote.surveyCost) > 0 && (
-                <div className="flex justify-between">
-                  <span>Site Survey ({quote.surveyHours} hours)</span>
-                  <span>${quote.surveyCost}</span>
-                </div>
-              )}
-              <div className="flex justify-between">
-                <span>Installation ({quote.installationHours} hours @ ${quote.hourlyRate}/hr)</span>
-                <span>${quote.installationCost}</span>
-              </div>
-              {quote.configurationCost && parseFloat(quote.configurationCost) > 0 && (
-                <div className="flex justify-between">
-                  <span>Configuration ({quote.configurationHours} hours @ ${quote.hourlyRate}/hr)</span>
-                  <span>${quote.configurationCost}</span>
-                </div>
-              )}
-              {quote.trainingCost && parseFloat(quote.trainingCost) > 0 && (
-                <div className="flex justify-between">
-                  <span>Training & Support</span>
-                  <span>${quote.trainingCost}</span>
-                </div>
-              )}
-              {quote.hardwareCost && parseFloat(quote.hardwareCost) > 0 && (
-                <div className="flex justify-between">
-                  <span>Hardware & Materials</span>
-                  <span>${quote.hardwareCost}</span>
-                </div>
-              )}
-              {quote.removalCost && parseFloat(quote.removalCost) > 0 && (
-                <div className="flex justify-between">
-                  <span>Existing System Removal ({quote.removalHours} hours)</span>
-                  <span>${quote.removalCost}</span>
+        {!offersOptions && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Pricing Breakdown</CardTitle>
+              <CardDescription>
+                {chosenOption ? `Option: ${chosenOption.name}` : 'Detailed cost breakdown for your installation project'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QuoteLineItems
+                lineItems={quote.lineItems || []}
+                totalCost={quote.totalCost}
+                tax={{ ...quote, taxExempt: assessment.taxExempt }}
+                recurring={quote}
+              />
+              {quote.vehicleLabor && quote.vehicleLabor.length > 0 && (
+                <div className="mt-6">
+                  <VehicleLaborBreakdown lines={quote.vehicleLabor} />
                 </div>
               )}
-              {quote.laborHoldCost && parseFloat(quote.laborHoldCost) > 0 && (
-                <div className="flex justify-between">
-                  <span>Labor Hold - Final bill Return ({quote.laborHoldHours} hours)</span>
-                  <span>${quote.laborHoldCost}</span>
+              {quote.supersededRevisions?.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <h4 className="text-sm font-semibold text-gray-700">Previous Revisions</h4>
+                  {quote.supersededRevisions.map((revision) => (
+                    <div key={revision.revisionLetter} className="flex items-center justify-between text-sm text-gray-500">
+                      <span>
+                        Rev {revision.revisionLetter} - {new Date(revision.createdAt).toLocaleDateString()}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <span className="line-through">{formatCurrency(revision.totalCost)}</span>
+                        <Badge variant="secondary">Superseded</Badge>
+                      </span>
+                    </div>
+                  ))}
                 </div>
               )}
-              <Separator />
-              <div className="flex justify-between text-lg font-semibold">
-                <span>Total Project Cost</span>
-                <span>${quote.totalCost}</span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Technical Specifications & Site Details */}
         <Card>
@@ -414,6 +537,18 @@ export default function CustomerPortal() {
                         <span className="ml-2 text-gray-600">{assessment.trackerType}</span>
                       </div>
                     )}
+                    {assessment.installationMethod && (
+                      <div>
+                        <span className="font-medium text-gray-700">Installation Method:</span>
+                        <span className="ml-2 text-gray-600">{assessment.installationMethod}</span>
+                      </div>
+                    )}
+                    {assessment.vehicleClass && (
+                      <div>
+                        <span className="font-medium text-gray-700">Vehicle Class:</span>
+                        <span className="ml-2 text-gray-600">{assessment.vehicleClass}</span>
+                      </div>
+                    )}
                     {assessment.iotTrackingPartner && (
                       <div>
                         <span className="font-medium text-gray-700">IoT Partner:</span>
@@ -450,6 +585,12 @@ export default function CustomerPortal() {
                         <span className="ml-2 text-gray-600">{assessment.numberOfCameras}</span>
                       </div>
                     )}
+                    {assessment.vehicleClass && (
+                      <div>
+                        <span className="font-medium text-gray-700">Vehicle Class:</span>
+                        <span className="ml-2 text-gray-600">{assessment.vehicleClass}</span>
+                      </div>
+                    )}
                     {assessment.removalNeeded && (
                       <div>
                         <span className="font-medium text-gray-700">Removal Needed:</span>
@@ -529,8 +670,56 @@ export default function CustomerPortal() {
           </CardContent>
         </Card>
 
+        {/* Questions and answers with the sales team */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MessageSquare className="w-5 h-5 mr-2 text-nxt-blue" />
+              Comments
+            </CardTitle>
+            <CardDescription>
+              Questions or comments about this quote go straight to your sales representative.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <QuoteCommentThread
+              comments={quote.comments || []}
+              viewer="customer"
+              onSend={(message) => commentMutation.mutateAsync(message)}
+              isSending={commentMutation.isPending}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Quotes in a proposal are answered on the proposal page */}
+        {assessment.proposalId && quote.status === "pending" && !isExpired && (
+          <Card className="border-blue-200 bg-blue-50">
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <FileText className="h-16 w-16 text-nxt-blue mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Part of a Combined Proposal</h3>
+                <p className="text-gray-600 mb-4">
+                  This quote was sent together with other services for {assessment.customerCompanyName}. Please review and respond to the full proposal.
+                </p>
+                {quote.proposalToken ? (
+                  <Button
+                    className="bg-nxt-blue hover:bg-blue-700"
+                    onClick={() => window.location.href = `/customer/proposal/${quote.proposalToken}`}
+                  >
+                    View Proposal
+                  </Button>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    Please ask your sales executive for a link to the proposal.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quote Response Section */}
-        {quote.status === "pending" && (
+        {quote.status === "pending" && !isExpired && !assessment.proposalId && (
           <Card>
             <CardHeader>
               <CardTitle>Quote Response</CardTitle>
@@ -550,15 +739,73 @@ export default function CustomerPortal() {
                   rows={4}
                 />
               </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div>
+                  <h4 className="font-medium flex items-center">
+                    <PenLine className="w-4 h-4 mr-2 text-nxt-blue" />
+                    Sign to Approve
+                  </h4>
+                  <p className="text-sm text-gray-600">
+                    Your signature is recorded with the date, time and a fingerprint of this quote's PDF. You will receive a signed copy.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">Full Name</label>
+                    <Input value={signerName} onChange={(e) => setSignerName(e.target.value)} placeholder="Jane Smith" />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">Title</label>
+                    <Input value={signerTitle} onChange={(e) => setSignerTitle(e.target.value)} placeholder="Operations Manager" />
+                  </div>
+                </div>
+                <Tabs value={signatureType} onValueChange={(value) => setSignatureType(value as SignatureType)}>
+                  <TabsList>
+                    <TabsTrigger value="drawn">Draw Signature</TabsTrigger>
+                    <TabsTrigger value="typed">Type Signature</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="drawn">
+                    <SignaturePad onChange={setDrawnSignature} />
+                  </TabsContent>
+                  <TabsContent value="typed" className="space-y-2">
+                    <Input value={typedSignature} onChange={(e) => setTypedSignature(e.target.value)} placeholder="Type your full name" />
+                    {typedSignature.trim() && (
+                      <p className="text-3xl italic font-serif border-b border-gray-300 pb-2">{typedSignature}</p>
+                    )}
+                  </TabsContent>
+                </Tabs>
+                <div className="flex items-start space-x-2">
+                  <Checkbox
+                    id="accept-terms"
+                    checked={termsAccepted}
+                    onCheckedChange={(checked) => setTermsAccepted(checked === true)}
+                  />
+                  <label htmlFor="accept-terms" className="text-sm text-gray-700 leading-5">
+                    I have authority to approve this quote for {assessment.customerCompanyName} and accept its pricing, statement of work and Terms & Conditions.
+                  </label>
+                </div>
+              </div>
               
               <div className="flex space-x-3">
                 <Button
                   className="bg-green-600 hover:bg-green-700 flex-1"
                   onClick={() => approvalMutation.mutate({ action: "approve", feedback: customerFeedback })}
-                  disabled={approvalMutation.isPending}
+                  disabled={approvalMutation.isPending || !signatureComplete || (offersOptions && selectedOptionId === null)}
                 >
                   <CheckCircle className="w-4 h-4 mr-2" />
-                  Approve Quote
+                  {offersOptions ? 'Approve Selected Option' : 'Approve Quote'}
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setShowChangeForm(true)}
+                  disabled={approvalMutation.isPending || showChangeForm}
+                >
+                  <FilePen className="w-4 h-4 mr-2" />
+                  Request Changes
                 </Button>
                 <Button
                   variant="outline"
@@ -567,15 +814,72 @@ export default function CustomerPortal() {
                   disabled={approvalMutation.isPending}
                 >
                   <XCircle className="w-4 h-4 mr-2" />
-                  Request Changes
+                  Decline Quote
+                </Button>
+              </div>
+
+              {showChangeForm && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div>
+                    <h4 className="font-medium">What would you like changed?</h4>
+                    <p className="text-sm text-gray-600">
+                      List each change separately. Your sales representative will send a revised quote.
+                    </p>
+                  </div>
+                  <ChangeRequestForm
+                    onSubmit={(changes) => approvalMutation.mutate({ action: "request-changes", feedback: customerFeedback, changes })}
+                    onCancel={() => setShowChangeForm(false)}
+                    isSubmitting={approvalMutation.isPending}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Expired quotes can no longer be approved */}
+        {isExpired && (
+          <Card className="border-gray-200 bg-gray-50">
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <Clock className="h-16 w-16 text-gray-500 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">This Quote Has Expired</h3>
+                <p className="text-gray-600 mb-4">
+                  Pricing in this quote is no longer valid. Please contact your sales executive for an updated quote.
+                </p>
+                <Button 
+                  variant="outline"
+                  onClick={() => window.location.href = `mailto:${assessment.salesExecutiveEmail}`}
+                >
+                  Contact Sales Executive
                 </Button>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Changes the customer asked for, waiting on a revised quote */}
+        {quote.status === "changes_requested" && (
+          <Card className="border-blue-200 bg-blue-50">
+            <CardContent className="pt-6 space-y-4">
+              <div className="text-center">
+                <FilePen className="h-16 w-16 text-nxt-blue mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Changes Requested</h3>
+                <p className="text-gray-600">
+                  Your sales representative is preparing a revised quote. You'll be able to review and approve it here.
+                </p>
+              </div>
+              {quote.changeRequest && (
+                <div className="bg-white rounded-lg border border-blue-100 p-4">
+                  <ChangeRequestItems items={quote.changeRequest.items} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Status Message for Responded Quotes */}
-        {quote.status !== "pending" && (
+        {quote.status !== "pending" && quote.status !== "changes_requested" && !isExpired && (
           <Card className={quote.status === "approved" ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}>
             <CardContent className="pt-6">
               <div className="text-center">
@@ -593,6 +897,22 @@ export default function CustomerPortal() {
                     : "We've received your response and will follow up with revised options soon."
                   }
                 </p>
+                {quote.signature && (
+                  <div className="mb-4 space-y-3">
+                    <p className="text-sm text-gray-600">
+                      Signed by {quote.signature.signerName}, {quote.signature.signerTitle} on {new Date(quote.signature.signedAt).toLocaleString()}
+                    </p>
+                    {quote.signature.signedPdfUrl && (
+                      <Button
+                        variant="outline"
+                        onClick={() => window.open(quote.signature!.signedPdfUrl!, '_blank')}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Download Signed Quote (PDF)
+                      </Button>
+                    )}
+                  </div>
+                )}
                 <Button 
                   variant="outline"
                   onClick={() => window.location.href = `mailto:${assessment.salesExecutiveEmail}`}
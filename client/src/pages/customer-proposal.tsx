@@ -0,0 +1,446 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle, XCircle, Clock, FileText, Download, MapPin, Mail, Phone, PenLine } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { QuoteLineItems, formatCurrency, type QuoteLineItemData } from "@/components/quote/quote-line-items";
+import { SignaturePad } from "@/components/quote/signature-pad";
+import type { CustomerQuote, Assessment, Proposal } from "@shared/schema";
+
+interface ProposalQuoteData extends CustomerQuote {
+  assessment: Assessment;
+  lineItems: QuoteLineItemData[];
+  recurringItems: QuoteLineItemData[];
+}
+
+interface CustomerProposalData extends Proposal {
+  quotes: ProposalQuoteData[];
+  totalCost: number;
+  monthlyTotal: number;
+  contractValue: number;
+  isExpired: boolean;
+  signature: {
+    signerName: string;
+    signerTitle: string;
+    signedAt: string;
+    signedPdfUrl: string | null;
+  } | null;
+  organization: {
+    name: string;
+  };
+}
+
+type SignatureType = "drawn" | "typed";
+
+const getErrorMessage = (error: Error, fallback: string) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getServiceTypeDisplay = (serviceType: string) => {
+  switch (serviceType) {
+    case "site-assessment": return "Fixed Wireless Access";
+    case "fleet-tracking": return "Fleet & Asset Tracking";
+    case "fleet-camera": return "Fleet Camera Installation";
+    default: return serviceType;
+  }
+};
+
+export default function CustomerProposal() {
+  const [, params] = useRoute("/customer/proposal/:token");
+  const token = params?.token;
+  const [customerFeedback, setCustomerFeedback] = useState("");
+  const [signerName, setSignerName] = useState("");
+  const [signerTitle, setSignerTitle] = useState("");
+  const [signatureType, setSignatureType] = useState<SignatureType>("drawn");
+  const [drawnSignature, setDrawnSignature] = useState<string | null>(null);
+  const [typedSignature, setTypedSignature] = useState("");
+  const [termsAccepted, setTermsAccepted] = useState(false);
+  const { toast } = useToast();
+
+  const { data: proposal, isLoading } = useQuery<CustomerProposalData>({
+    queryKey: [`/api/customer/proposal/${token}`],
+    enabled: !!token,
+  });
+
+  const approvalMutation = useMutation({
+    mutationFn: async ({ action, feedback }: { action: "approve" | "reject"; feedback?: string }) => {
+      const signature = action === "approve" ? {
+        signerName,
+        signerTitle,
+        signatureType,
+        signatureData: signatureType === "drawn" ? drawnSignature : typedSignature,
+        termsAccepted,
+      } : undefined;
+      return apiRequest("POST", `/api/customer/proposal/${token}/${action}`, { feedback, signature });
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customer/proposal/${token}`] });
+      toast({
+        title: variables.action === "approve" ? "Proposal Approved" : "Proposal Rejected",
+        description: "Your response has been sent to our team. We'll be in touch soon!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to submit response. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-nxt-blue mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your proposal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!proposal) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 text-center">
+            <XCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Proposal Not Found</h2>
+            <p className="text-gray-600 mb-4">
+              The proposal link may be invalid or expired. Please contact our sales team for assistance.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Sales executive of the first service is the contact for the proposal
+  const salesAssessment = proposal.quotes[0]?.assessment;
+  const status = proposal.isExpired ? "expired" : proposal.status;
+  const signatureComplete = !!signerName.trim() && !!signerTitle.trim() && termsAccepted &&
+    (signatureType === "drawn" ? !!drawnSignature : !!typedSignature.trim());
+
+  const getStatusBadge = () => {
+    switch (status) {
+      case "approved":
+        return <Badge className="bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Approved</Badge>;
+      case "rejected":
+        return <Badge className="bg-red-100 text-red-800"><XCircle className="w-3 h-3 mr-1" />Rejected</Badge>;
+      case "expired":
+        return <Badge className="bg-gray-100 text-gray-800"><Clock className="w-3 h-3 mr-1" />Expired</Badge>;
+      default:
+        return <Badge className="bg-yellow-100 text-yellow-800"><Clock className="w-3 h-3 mr-1" />Pending Review</Badge>;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-4xl mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Installation Proposal</h1>
+              <p className="text-gray-600">
+                Proposal #{proposal.proposalNumber} for {proposal.customerCompanyName}
+              </p>
+            </div>
+            <div className="text-right">
+              <div className="text-sm text-gray-500">From</div>
+              <div className="font-semibold text-nxt-blue">{proposal.organization?.name || 'Organization'}</div>
+              {getStatusBadge()}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* Combined Totals */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Proposal Summary</CardTitle>
+            <CardDescription>
+              {proposal.quotes.length} services quoted together. Approving the proposal approves all of them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {proposal.quotes.map((quote, index) => (
+              <div key={quote.id} className="flex justify-between text-sm">
+                <span>
+                  {index + 1}. {getServiceTypeDisplay(quote.assessment.serviceType || 'site-assessment')}
+                  <span className="text-gray-500"> - Quote #{quote.quoteNumber}</span>
+                </span>
+                <span>
+                  {formatCurrency(quote.totalCost)}
+                  {quote.monthlyTotal && parseFloat(quote.monthlyTotal) > 0 && (
+                    <span className="text-gray-500"> + {formatCurrency(quote.monthlyTotal)}/mo</span>
+                  )}
+                </span>
+              </div>
+            ))}
+            <Separator />
+            <div className="flex justify-between font-semibold">
+              <span>{proposal.monthlyTotal > 0 ? 'Combined One-Time Total' : 'Combined Project Cost'}</span>
+              <span>{formatCurrency(proposal.totalCost)}</span>
+            </div>
+            {proposal.monthlyTotal > 0 && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span>Combined Monthly Total</span>
+                  <span>{formatCurrency(proposal.monthlyTotal)}/mo</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Total Contract Value</span>
+                  <span>{formatCurrency(proposal.contractValue)}</span>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* One section per service */}
+        {proposal.quotes.map((quote, index) => (
+          <Card key={quote.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <MapPin className="w-5 h-5 mr-2 text-nxt-blue" />
+                Service {index + 1}: {getServiceTypeDisplay(quote.assessment.serviceType || 'site-assessment')}
+              </CardTitle>
+              <CardDescription>
+                Quote #{quote.quoteNumber} - {quote.assessment.siteAddress}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QuoteLineItems
+                lineItems={quote.lineItems || []}
+                totalCost={quote.totalCost}
+                tax={{ ...quote, taxExempt: quote.assessment.taxExempt }}
+                recurring={quote}
+              />
+            </CardContent>
+          </Card>
+        ))}
+
+        {/* Sales Executive Contact */}
+        {salesAssessment && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Sales Executive</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center space-x-4">
+                <div className="w-12 h-12 bg-nxt-blue rounded-full flex items-center justify-center text-white font-semibold">
+                  {salesAssessment.salesExecutiveName.split(' ').map(n => n[0]).join('')}
+                </div>
+                <div className="flex-1">
+                  <h4 className="font-semibold">{salesAssessment.salesExecutiveName}</h4>
+                  <div className="flex items-center space-x-4 text-sm text-gray-600">
+                    <span className="flex items-center">
+                      <Mail className="w-4 h-4 mr-1" />
+                      {salesAssessment.salesExecutiveEmail}
+                    </span>
+                    {salesAssessment.salesExecutivePhone && (
+                      <span className="flex items-center">
+                        <Phone className="w-4 h-4 mr-1" />
+                        {salesAssessment.salesExecutivePhone}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* PDF Download */}
+        {proposal.pdfUrl && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <FileText className="w-5 h-5 mr-2 text-nxt-blue" />
+                Proposal Documentation
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-600 mb-4">
+                Download the combined proposal with the pricing and statement of work for each service.
+              </p>
+              <Button
+                variant="outline"
+                className="flex items-center"
+                onClick={() => window.open(`/api/files/pdf/${proposal.pdfUrl!.split('/').pop()}`, '_blank')}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download Full Proposal (PDF)
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Proposal Response Section */}
+        {status === "pending" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Proposal Response</CardTitle>
+              <CardDescription>
+                Please review every service above and let us know your decision. You can also provide additional feedback or questions.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">
+                  Additional Comments or Questions (Optional)
+                </label>
+                <Textarea
+                  placeholder="Any questions, modifications, or special requirements..."
+                  value={customerFeedback}
+                  onChange={(e) => setCustomerFeedback(e.target.value)}
+                  rows={4}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div>
+                  <h4 className="font-medium flex items-center">
+                    <PenLine className="w-4 h-4 mr-2 text-nxt-blue" />
+                    Sign to Approve
+                  </h4>
+                  <p className="text-sm text-gray-600">
+                    Your signature is recorded with the date, time and a fingerprint of this proposal's PDF and of each quote in it. You will receive a signed copy.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">Full Name</label>
+                    <Input value={signerName} onChange={(e) => setSignerName(e.target.value)} placeholder="Jane Smith" />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">Title</label>
+                    <Input value={signerTitle} onChange={(e) => setSignerTitle(e.target.value)} placeholder="Operations Manager" />
+                  </div>
+                </div>
+                <Tabs value={signatureType} onValueChange={(value) => setSignatureType(value as SignatureType)}>
+                  <TabsList>
+                    <TabsTrigger value="drawn">Draw Signature</TabsTrigger>
+                    <TabsTrigger value="typed">Type Signature</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="drawn">
+                    <SignaturePad onChange={setDrawnSignature} />
+                  </TabsContent>
+                  <TabsContent value="typed" className="space-y-2">
+                    <Input value={typedSignature} onChange={(e) => setTypedSignature(e.target.value)} placeholder="Type your full name" />
+                    {typedSignature.trim() && (
+                      <p className="text-3xl italic font-serif border-b border-gray-300 pb-2">{typedSignature}</p>
+                    )}
+                  </TabsContent>
+                </Tabs>
+                <div className="flex items-start space-x-2">
+                  <Checkbox
+                    id="accept-terms"
+                    checked={termsAccepted}
+                    onCheckedChange={(checked) => setTermsAccepted(checked === true)}
+                  />
+                  <label htmlFor="accept-terms" className="text-sm text-gray-700 leading-5">
+                    I have authority to approve this proposal for {proposal.customerCompanyName} and accept the pricing and statement of work of every service in it, and the Terms & Conditions.
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex space-x-3">
+                <Button
+                  className="bg-green-600 hover:bg-green-700 flex-1"
+                  onClick={() => approvalMutation.mutate({ action: "approve", feedback: customerFeedback })}
+                  disabled={approvalMutation.isPending || !signatureComplete}
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Approve Proposal
+                </Button>
+                <Button
+                  variant="outline"
+                  className="border-red-300 text-red-700 hover:bg-red-50 flex-1"
+                  onClick={() => approvalMutation.mutate({ action: "reject", feedback: customerFeedback })}
+                  disabled={approvalMutation.isPending}
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Request Changes
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Expired pricing can no longer be approved */}
+        {status === "expired" && (
+          <Card className="border-gray-200 bg-gray-50">
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <Clock className="h-16 w-16 text-gray-500 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">This Proposal Has Expired</h3>
+                <p className="text-gray-600 mb-4">
+                  Pricing for at least one service is no longer valid. Please contact your sales executive for an updated proposal.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Status Message for Responded Proposals */}
+        {(status === "approved" || status === "rejected") && (
+          <Card className={status === "approved" ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}>
+            <CardContent className="pt-6">
+              <div className="text-center">
+                {status === "approved" ? (
+                  <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-4" />
+                ) : (
+                  <XCircle className="h-16 w-16 text-red-600 mx-auto mb-4" />
+                )}
+                <h3 className="text-lg font-semibold mb-2">
+                  {status === "approved" ? "Proposal Approved!" : "Proposal Response Received"}
+                </h3>
+                <p className="text-gray-600">
+                  {status === "approved"
+                    ? "Thank you for approving this proposal. Our team will contact you shortly to schedule the installations."
+                    : "We've received your response and will follow up with revised options soon."
+                  }
+                </p>
+                {proposal.signature && (
+                  <div className="mt-4 space-y-3">
+                    <p className="text-sm text-gray-600">
+                      Signed by {proposal.signature.signerName}, {proposal.signature.signerTitle} on {new Date(proposal.signature.signedAt).toLocaleString()}
+                    </p>
+                    {proposal.signature.signedPdfUrl && (
+                      <Button
+                        variant="outline"
+                        onClick={() => window.open(proposal.signature!.signedPdfUrl!, '_blank')}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Download Signed Proposal (PDF)
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
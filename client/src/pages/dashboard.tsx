@@ -8,16 +8,44 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { FileText, CheckCircle, Clock, Plus, Download, LogOut, User, ChevronDown, Trash2, Share, Copy, Settings, ExternalLink, Shield, Eye } from "lucide-react";
+import { FileText, CheckCircle, Clock, Plus, Download, LogOut, User, ChevronDown, Trash2, Share, Copy, Settings, ExternalLink, Shield, Eye, History, CalendarPlus, RefreshCw, Tag, Layers, Building2, ListChecks, Link2Off, MessageSquare, FilePen } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QuoteRevisionsDialog } from "@/components/quote/quote-revisions-dialog";
+import { QuoteAdjustmentsDialog } from "@/components/quote/quote-adjustments-dialog";
+import { CreateProposalDialog } from "@/components/quote/create-proposal-dialog";
+import { ProposalList } from "@/components/quote/proposal-list";
+import { QuoteOptionsDialog } from "@/components/quote/quote-options-dialog";
+import { QuoteCommentsDialog } from "@/components/quote/quote-comments-dialog";
+import { ChangeRequestItems } from "@/components/quote/change-request-form";
+import { ProjectDialog } from "@/components/project/project-dialog";
+import { ProjectList } from "@/components/project/project-list";
+import { calculateContractValue, formatTaxLabel } from "@/components/quote/quote-line-items";
 import nxtKonektLogo from "@assets/NxtKonekt Logo_1749973360626.png";
 
+// Assessment wizard of a quote, where the partner revises it and re-quotes
+const getAssessmentPath = (assessment: { id: number; serviceType: string | null }) => {
+  switch (assessment.serviceType) {
+    case 'fleet-tracking':
+      return `/fleet-tracking/${assessment.id}`;
+    case 'fleet-camera':
+      return `/fleet-camera/${assessment.id}`;
+    default:
+      return `/assessment/${assessment.id}`;
+  }
+};
+
 export default function Dashboard() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading } = useAuth();
   const [, navigate] = useLocation();
   const [selectedQuote, setSelectedQuote] = useState<any>(null);
+  const [revisionsQuote, setRevisionsQuote] = useState<any>(null);
+  const [adjustmentsQuote, setAdjustmentsQuote] = useState<any>(null);
+  const [optionsQuote, setOptionsQuote] = useState<any>(null);
+  const [commentsQuote, setCommentsQuote] = useState<any>(null);
+  const [showProposalDialog, setShowProposalDialog] = useState(false);
+  const [showProjectDialog, setShowProjectDialog] = useState(false);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -82,6 +110,42 @@ export default function Dashboard() {
     },
   });
 
+  // Extend or re-issue an expired quote
+  const expiredQuoteMutation = useMutation({
+    mutationFn: async ({ quoteId, action }: { quoteId: number; action: 'extend' | 'reissue' }) => {
+      const response = await apiRequest("POST", `/api/quotes/${quoteId}/${action}`);
+      return response.json();
+    },
+    onSuccess: (quote, { action }) => {
+      toast({
+        title: "Success",
+        description: action === 'extend'
+          ? `Quote ${quote.quoteNumber} is valid until ${new Date(quote.expiresAt).toLocaleDateString()}`
+          : `Quote ${quote.quoteNumber} re-issued at current rates`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+    },
+    onError: (error, { action }) => {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: action === 'extend' ? "Failed to extend quote" : "Failed to re-issue quote",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleDeleteQuote = (quoteId: number, quoteNumber: string) => {
     if (confirm(`Are you sure you want to delete quote #${quoteNumber}? This action cannot be undone.`)) {
       deleteQuoteMutation.mutate(quoteId);
@@ -156,15 +220,61 @@ export default function Dashboard() {
     });
   };
 
-  const handleShareCustomerPortal = async (quoteId: number, customerName: string) => {
-    const customerPortalUrl = `${window.location.origin}/customer/${quoteId}`;
+  // Revoke a quote's customer portal link so it stops working
+  const revokeShareLinkMutation = useMutation({
+    mutationFn: async (quoteId: number) => {
+      await apiRequest("DELETE", `/api/quotes/${quoteId}/share-link`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Customer Link Revoked",
+        description: "The customer can no longer open this quote. Share it again to send a new link.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: "Failed to revoke customer link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleShareCustomerPortal = async (quoteId: number, customerName: string, reissue = false) => {
+    let customerPortalUrl: string;
+    let expiresAt: string;
+    try {
+      const response = await apiRequest("POST", `/api/quotes/${quoteId}/share-link`, { reissue });
+      const link = await response.json();
+      customerPortalUrl = `${window.location.origin}/customer/${link.token}`;
+      expiresAt = new Date(link.expiresAt).toLocaleDateString();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create customer portal link",
+        variant: "destructive",
+      });
+      return;
+    }
     
     // Try to copy to clipboard first
     try {
       await navigator.clipboard.writeText(customerPortalUrl);
       toast({
-        title: "Customer Portal Link Copied!",
-        description: `Link copied to clipboard. Share with ${customerName} to view and approve the quote.`,
+        title: reissue ? "New Customer Portal Link Copied!" : "Customer Portal Link Copied!",
+        description: `Link copied to clipboard. Share with ${customerName} to view and approve the quote. It works until ${expiresAt}.`,
       });
     } catch (error) {
       // Fallback: Show a prompt with the URL for manual copying
@@ -176,7 +286,7 @@ export default function Dashboard() {
       if (userAction !== null) {
         toast({
           title: "Customer Portal Link Ready",
-          description: `Share this link with ${customerName} to view and approve the quote`,
+          description: `Share this link with ${customerName} to view and approve the quote. It works until ${expiresAt}.`,
         });
       }
     }
@@ -385,6 +495,25 @@ export default function Dashboard() {
             <Download className="mr-2" size={20} />
             Export Reports
           </Button>
+
+          <Button 
+            variant="outline"
+            className="flex-1 sm:flex-none px-6 py-4 rounded-xl font-medium border-gray-200 hover:bg-gray-50 transition-colors"
+            onClick={() => setShowProposalDialog(true)}
+            disabled={quotes.length < 2}
+          >
+            <Layers className="mr-2" size={20} />
+            Combine Quotes
+          </Button>
+
+          <Button 
+            variant="outline"
+            className="flex-1 sm:flex-none px-6 py-4 rounded-xl font-medium border-gray-200 hover:bg-gray-50 transition-colors"
+            onClick={() => setShowProjectDialog(true)}
+          >
+            <Building2 className="mr-2" size={20} />
+            New Multi-Site Project
+          </Button>
         </div>
 
 
@@ -425,12 +554,18 @@ export default function Dashboard() {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
                           {quote.assessment?.customerCompanyName || 'N/A'}
+                          {quote.assessment?.proposalId && (
+                            <div className="text-xs nxt-gray-500">In a proposal</div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
                           {quote.assessment?.salesExecutiveName || 'N/A'}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-800">
                           ${parseFloat(quote.totalCost).toFixed(2)}
+                          {quote.monthlyTotal && (
+                            <div className="text-xs nxt-gray-500">+ ${parseFloat(quote.monthlyTotal).toFixed(2)}/mo</div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <Badge 
@@ -438,11 +573,36 @@ export default function Dashboard() {
                             className={
                               quote.status === 'approved' 
                                 ? 'bg-nxt-green text-white' 
-                                : 'bg-yellow-100 text-yellow-800'
+                                : quote.status === 'expired'
+                                  ? 'bg-gray-200 text-gray-700'
+                                  : quote.status === 'changes_requested'
+                                    ? 'bg-blue-100 text-blue-800'
+                                    : quote.approvalStatus === 'rejected'
+                                      ? 'bg-red-100 text-red-800'
+                                      : 'bg-yellow-100 text-yellow-800'
                             }
                           >
-                            {quote.status}
+                            {quote.status === 'pending_approval'
+                              ? (quote.approvalStatus === 'rejected' ? 'approval rejected' : 'awaiting approval')
+                              : quote.status === 'changes_requested'
+                                ? 'changes requested'
+                                : quote.status}
                           </Badge>
+                          {quote.status === 'changes_requested' && quote.changeRequest && (
+                            <div className="text-xs nxt-gray-500 mt-1 whitespace-normal max-w-xs">
+                              <ChangeRequestItems items={quote.changeRequest.items} />
+                            </div>
+                          )}
+                          {quote.status === 'pending_approval' && (
+                            <div className="text-xs nxt-gray-500 mt-1 whitespace-normal max-w-xs">
+                              {quote.approvalStatus === 'rejected' ? quote.approvalNote : quote.approvalReasons?.join('; ')}
+                            </div>
+                          )}
+                          {quote.status === 'pending' && quote.expiresAt && (
+                            <div className="text-xs nxt-gray-500 mt-1">
+                              Expires {new Date(quote.expiresAt).toLocaleDateString()}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm nxt-gray-500">
                           {new Date(quote.createdAt).toLocaleDateString()}
@@ -455,6 +615,7 @@ export default function Dashboard() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
+                          {quote.status !== 'pending_approval' && (
                           <Button 
                             variant="link" 
                             className="nxt-gray-500 hover:text-nxt-gray-700 p-0 mr-3"
@@ -498,14 +659,85 @@ export default function Dashboard() {
                           >
                             Download
                           </Button>
+                          )}
+                          <Button 
+                            variant="link" 
+                            className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                            onClick={() => setRevisionsQuote(quote)}
+                            title="Revision history"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button 
                             variant="link" 
                             className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
-                            onClick={() => handleShareCustomerPortal(quote.id, quote.assessment.customerCompanyName)}
-                            title="Share customer portal link"
+                            onClick={() => setCommentsQuote(quote)}
+                            title="Comments"
                           >
-                            <Share className="h-4 w-4" />
+                            <MessageSquare className="h-4 w-4" />
                           </Button>
+                          {quote.status === 'changes_requested' && (
+                            <Button 
+                              variant="link" 
+                              className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                              onClick={() => navigate(getAssessmentPath(quote.assessment))}
+                              title="Revise the quote for the requested changes"
+                            >
+                              <FilePen className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(quote.status === 'pending' || quote.status === 'pending_approval' || quote.status === 'changes_requested') && (
+                            <Button 
+                              variant="link" 
+                              className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                              onClick={() => setAdjustmentsQuote(quote)}
+                              title="Discounts & adjustments"
+                            >
+                              <Tag className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(quote.status === 'pending' || quote.status === 'pending_approval' || quote.status === 'changes_requested') && !quote.assessment?.proposalId && (
+                            <Button 
+                              variant="link" 
+                              className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                              onClick={() => setOptionsQuote(quote)}
+                              title="Good/better/best options"
+                            >
+                              <ListChecks className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {quote.status === 'expired' && (
+                            <>
+                              <Button 
+                                variant="link" 
+                                className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                                onClick={() => expiredQuoteMutation.mutate({ quoteId: quote.id, action: 'extend' })}
+                                disabled={expiredQuoteMutation.isPending}
+                                title="Extend validity at the same price"
+                              >
+                                <CalendarPlus className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="link" 
+                                className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                                onClick={() => expiredQuoteMutation.mutate({ quoteId: quote.id, action: 'reissue' })}
+                                disabled={expiredQuoteMutation.isPending}
+                                title="Re-issue at current rates"
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {quote.status !== 'pending_approval' && (
+                            <Button 
+                              variant="link" 
+                              className="text-nxt-blue hover:text-blue-700 p-0 mr-3"
+                              onClick={() => handleShareCustomerPortal(quote.id, quote.assessment.customerCompanyName)}
+                              title="Share customer portal link"
+                            >
+                              <Share className="h-4 w-4" />
+                            </Button>
+                          )}
 
                           <Button 
                             variant="link" 
@@ -525,6 +757,43 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        <ProposalList enabled={isAuthenticated} />
+
+        <ProjectList enabled={isAuthenticated} />
+
+        <CreateProposalDialog
+          open={showProposalDialog}
+          quotes={quotes}
+          onClose={() => setShowProposalDialog(false)}
+        />
+
+        <ProjectDialog
+          open={showProjectDialog}
+          onClose={() => setShowProjectDialog(false)}
+          onSaved={(project) => navigate(`/projects/${project.id}`)}
+        />
+
+        <QuoteRevisionsDialog
+          quoteId={revisionsQuote?.id ?? null}
+          quoteNumber={revisionsQuote?.quoteNumber || ''}
+          onClose={() => setRevisionsQuote(null)}
+        />
+
+        <QuoteAdjustmentsDialog
+          quote={adjustmentsQuote}
+          onClose={() => setAdjustmentsQuote(null)}
+        />
+
+        <QuoteOptionsDialog
+          quote={optionsQuote}
+          onClose={() => setOptionsQuote(null)}
+        />
+
+        <QuoteCommentsDialog
+          quote={commentsQuote}
+          onClose={() => setCommentsQuote(null)}
+        />
+
         {/* Quote View Modal */}
         <Dialog open={!!selectedQuote} onOpenChange={() => setSelectedQuote(null)}>
           <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -554,9 +823,18 @@ export default function Dashboard() {
                     <h3 className="font-semibold mb-2">Quote Summary</h3>
                     <p><strong>Quote Number:</strong> {selectedQuote.quoteNumber}</p>
                     <p><strong>Service Type:</strong> <Badge variant="outline">{selectedQuote.assessment?.serviceType?.replace('-', ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()) || 'N/A'}</Badge></p>
-                    <p><strong>Total Cost:</strong> ${parseFloat(selectedQuote.totalCost).toFixed(2)}</p>
+                    <p><strong>{selectedQuote.monthlyTotal ? 'One-Time Total' : 'Total Cost'}:</strong> ${parseFloat(selectedQuote.totalCost).toFixed(2)}</p>
+                    {selectedQuote.monthlyTotal && (
+                      <>
+                        <p><strong>Monthly Total:</strong> ${parseFloat(selectedQuote.monthlyTotal).toFixed(2)}/mo for {selectedQuote.termMonths} months</p>
+                        <p><strong>Total Contract Value:</strong> ${calculateContractValue(selectedQuote.totalCost, selectedQuote.monthlyTotal, selectedQuote.termMonths).toFixed(2)}</p>
+                      </>
+                    )}
                     <p><strong>Status:</strong> <Badge variant={selectedQuote.status === 'approved' ? 'default' : 'secondary'}>{selectedQuote.status}</Badge></p>
                     <p><strong>Created:</strong> {new Date(selectedQuote.createdAt).toLocaleString()}</p>
+                    {selectedQuote.expiresAt && (
+                      <p><strong>Valid Until:</strong> {new Date(selectedQuote.expiresAt).toLocaleDateString()}</p>
+                    )}
                   </div>
                 </div>
                 
@@ -577,6 +855,21 @@ export default function Dashboard() {
                         <p>Removal Cost: ${parseFloat(selectedQuote.removalCost).toFixed(2)}</p>
                       </>
                     )}
+                    {selectedQuote.travelCost && parseFloat(selectedQuote.travelCost) > 0 && (
+                      <>
+                        <p>Travel Distance: {selectedQuote.travelMiles} mi</p>
+                        <p>Travel Cost: ${parseFloat(selectedQuote.travelCost).toFixed(2)}</p>
+                      </>
+                    )}
+                    {selectedQuote.travelMiles !== null && selectedQuote.travelCost === null && (
+                      <p className="text-amber-700">Travel: not charged automatically (site located only to its state or province); add it as a manual adjustment</p>
+                    )}
+                    {selectedQuote.taxAmount !== null && (
+                      <>
+                        <p>Subtotal: ${parseFloat(selectedQuote.subtotal || 0).toFixed(2)}</p>
+                        <p>{formatTaxLabel({ ...selectedQuote, taxExempt: selectedQuote.assessment?.taxExempt })}: ${parseFloat(selectedQuote.taxAmount).toFixed(2)}</p>
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -693,6 +986,12 @@ export default function Dashboard() {
                       {selectedQuote.assessment?.trackerType && (
                         <p><strong>Tracker Type:</strong> {selectedQuote.assessment.trackerType}</p>
                       )}
+                      {selectedQuote.assessment?.installationMethod && (
+                        <p><strong>Installation Method:</strong> {selectedQuote.assessment.installationMethod}</p>
+                      )}
+                      {selectedQuote.assessment?.vehicleClass && (
+                        <p><strong>Vehicle Class:</strong> {selectedQuote.assessment.vehicleClass}</p>
+                      )}
                       {selectedQuote.assessment?.iotTrackingPartner && (
                         <p><strong>IoT Partner:</strong> {selectedQuote.assessment.iotTrackingPartner}</p>
                       )}
@@ -714,6 +1013,9 @@ export default function Dashboard() {
                       {selectedQuote.assessment?.numberOfCameras && (
                         <p><strong>Number of Cameras:</strong> {selectedQuote.assessment.numberOfCameras}</p>
                       )}
+                      {selectedQuote.assessment?.vehicleClass && (
+                        <p><strong>Vehicle Class:</strong> {selectedQuote.assessment.vehicleClass}</p>
+                      )}
                       {selectedQuote.assessment?.removalNeeded && (
                         <p><strong>Removal Needed:</strong> {selectedQuote.assessment.removalNeeded}</p>
                       )}
@@ -724,7 +1026,7 @@ export default function Dashboard() {
                   </div>
                 )}
 
-                <div className="flex gap-2">
+                <div className="flex flex-wrap gap-2">
                   <Button 
                     variant="outline"
                     onClick={async () => {
@@ -800,6 +1102,30 @@ export default function Dashboard() {
                     <Share className="mr-2 h-4 w-4" />
                     Share Customer Portal
                   </Button>
+                  <Button 
+                    variant="outline"
+                    onClick={() => {
+                      if (confirm("Issue a new customer portal link? The link you shared before will stop working.")) {
+                        handleShareCustomerPortal(selectedQuote.id, selectedQuote.assessment?.customerCompanyName, true);
+                      }
+                    }}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Reissue Link
+                  </Button>
+                  <Button 
+                    variant="outline"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => {
+                      if (confirm("Revoke the customer portal link? The customer will no longer be able to open this quote.")) {
+                        revokeShareLinkMutation.mutate(selectedQuote.id);
+                      }
+                    }}
+                    disabled={revokeShareLinkMutation.isPending}
+                  >
+                    <Link2Off className="mr-2 h-4 w-4" />
+                    Revoke Link
+                  </Button>
                 </div>
               </div>
             )}
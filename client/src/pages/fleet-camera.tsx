@@ -17,11 +17,15 @@ import { ArrowLeft, ArrowRight, CheckCircle, Camera } from "lucide-react";
 import { StepSalesExecutive } from "@/components/assessment/step-sales-executive";
 import { StepCustomerInfo } from "@/components/assessment/step-customer-info";
 import { StepQuoteGeneration } from "@/components/assessment/step-quote-generation";
+import { PricingEstimate } from "@/components/quote/pricing-estimate";
+import { CatalogItemPicker } from "@/components/assessment/catalog-item-picker";
+import { VehicleClassSelect } from "@/components/assessment/vehicle-class-select";
 
 interface VehicleDetail {
   year: string;
   make: string;
   model: string;
+  vehicleClass?: string;
 }
 
 export default function FleetCameraForm() {
@@ -91,10 +95,18 @@ export default function FleetCameraForm() {
     },
   });
 
+  // Sites of a multi-site project take the sales executive and customer details from the project
+  const projectId = (assessment as any)?.projectId as number | null | undefined;
+  const firstStep = projectId ? 3 : 1;
+  const exitPath = projectId ? `/projects/${projectId}` : "/";
+
   // Initialize form data ONLY ONCE
   useEffect(() => {
     if (assessment && !isInitialized) {
       setFormData(assessment);
+      if ((assessment as any).projectId) {
+        setCurrentStep(3);
+      }
       setLocalDeviceCount(assessment.deviceCount?.toString() || '');
       setLocalSiteAddress(assessment.siteAddress || '');
       setLocalSpecialRequirements(assessment.specialRequirements || '');
@@ -201,7 +213,7 @@ export default function FleetCameraForm() {
     debouncedSave(updatedData);
   }, [formData, debouncedSave]);
 
-  const updateVehicleDetail = useCallback((index: number, field: 'year' | 'make' | 'model', value: string) => {
+  const updateVehicleDetail = useCallback((index: number, field: 'year' | 'make' | 'model' | 'vehicleClass', value: string) => {
     setVehicleDetails(prev => {
       const updated = [...prev];
       if (updated[index]) {
@@ -211,7 +223,7 @@ export default function FleetCameraForm() {
       // Save vehicle details to database
       const updatedData = { 
         ...formData, 
-        vehicleDetails: JSON.stringify(updated.filter(v => v.year || v.make || v.model)) // Only save non-empty entries
+        vehicleDetails: JSON.stringify(updated.filter(v => v.year || v.make || v.model || v.vehicleClass)) // Only save non-empty entries
       };
       setFormData(updatedData);
       debouncedSave(updatedData);
@@ -227,7 +239,7 @@ export default function FleetCameraForm() {
   };
 
   const handlePrevious = () => {
-    if (currentStep > 1) {
+    if (currentStep > firstStep) {
       setCurrentStep(currentStep - 1);
     }
   };
@@ -237,7 +249,7 @@ export default function FleetCameraForm() {
       title: "Success",
       description: "Fleet camera installation assessment completed successfully!",
     });
-    navigate("/");
+    navigate(exitPath);
   };
 
   if (authLoading || isLoading) {
@@ -395,10 +407,17 @@ export default function FleetCameraForm() {
               <CardTitle>Vehicle Details</CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
+              <div>
+                <Label className="text-sm font-medium nxt-gray-800 mb-2">
+                  Default Vehicle Class
+                </Label>
+                <VehicleClassSelect value={formData.vehicleClass} onChange={(value) => handleSelectChange('vehicleClass', value)} />
+              </div>
+
               {vehicleDetails.map((vehicle, index) => (
                 <div key={index} className="border rounded-lg p-4 space-y-4">
                   <h4 className="font-medium text-nxt-gray-800">Vehicle {index + 1}</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div>
                       <Label className="text-sm font-medium nxt-gray-800 mb-2">
                         Year
@@ -432,6 +451,16 @@ export default function FleetCameraForm() {
                         className="w-full"
                       />
                     </div>
+                    <div>
+                      <Label className="text-sm font-medium nxt-gray-800 mb-2">
+                        Vehicle Class
+                      </Label>
+                      <VehicleClassSelect
+                        value={vehicle.vehicleClass}
+                        onChange={(value) => updateVehicleDetail(index, 'vehicleClass', value)}
+                        placeholder="Same as fleet"
+                      />
+                    </div>
                   </div>
                 </div>
               ))}
@@ -614,11 +643,11 @@ export default function FleetCameraForm() {
           <div className="flex items-center justify-between mb-4">
             <Button
               variant="ghost"
-              onClick={() => navigate("/")}
+              onClick={() => navigate(exitPath)}
               className="flex items-center gap-2 hover:bg-nxt-gray-100"
             >
               <ArrowLeft className="h-4 w-4" />
-              Back to Dashboard
+              {projectId ? 'Back to Project' : 'Back to Dashboard'}
             </Button>
             <Badge variant="outline" className="bg-nxt-blue-50 text-nxt-blue border-nxt-blue">
               Fleet Camera Assessment
@@ -648,12 +677,32 @@ export default function FleetCameraForm() {
           {renderStep()}
         </div>
 
+        {/* Running estimate, including the vehicle count still being typed */}
+        {currentStep >= 3 && currentStep < totalSteps && (
+          <div className="mb-8 space-y-8">
+            <CatalogItemPicker
+              serviceType="fleet-camera"
+              value={formData.catalogItems}
+              onChange={(catalogItems) => handleSelectChange('catalogItems', catalogItems)}
+              termMonths={formData.termMonths}
+              onTermChange={(termMonths) => handleSelectChange('termMonths', termMonths)}
+            />
+            <PricingEstimate
+              data={{
+                ...formData,
+                serviceType: 'fleet-camera',
+                deviceCount: localDeviceCount ? parseInt(localDeviceCount) : null,
+              }}
+            />
+          </div>
+        )}
+
         {/* Navigation */}
         <div className="flex justify-between">
           <Button
             variant="outline"
             onClick={handlePrevious}
-            disabled={currentStep === 1}
+            disabled={currentStep === firstStep}
             className="flex items-center gap-2"
           >
             <ArrowLeft className="h-4 w-4" />
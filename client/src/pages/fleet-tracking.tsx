@@ -17,6 +17,9 @@ import { ArrowLeft, ArrowRight, CheckCircle, Truck } from "lucide-react";
 import { StepSalesExecutive } from "@/components/assessment/step-sales-executive";
 import { StepCustomerInfo } from "@/components/assessment/step-customer-info";
 import { StepQuoteGeneration } from "@/components/assessment/step-quote-generation";
+import { PricingEstimate } from "@/components/quote/pricing-estimate";
+import { CatalogItemPicker } from "@/components/assessment/catalog-item-picker";
+import { VehicleClassSelect } from "@/components/assessment/vehicle-class-select";
 
 export default function FleetTrackingForm() {
   const { id } = useParams();
@@ -31,7 +34,7 @@ export default function FleetTrackingForm() {
   const [localSiteAddress, setLocalSiteAddress] = useState('');
   const [localSpecialRequirements, setLocalSpecialRequirements] = useState('');
   const [formData, setFormData] = useState<any>({});
-  const [vehicleDetails, setVehicleDetails] = useState<Array<{year: string, make: string, model: string}>>([]);
+  const [vehicleDetails, setVehicleDetails] = useState<Array<{year: string, make: string, model: string, vehicleClass?: string}>>([]);
   const [isInitialized, setIsInitialized] = useState(false);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -84,10 +87,18 @@ export default function FleetTrackingForm() {
     },
   });
 
+  // Sites of a multi-site project take the sales executive and customer details from the project
+  const projectId = (assessment as any)?.projectId as number | null | undefined;
+  const firstStep = projectId ? 3 : 1;
+  const exitPath = projectId ? `/projects/${projectId}` : "/";
+
   // Initialize form data ONLY ONCE
   useEffect(() => {
     if (assessment && !isInitialized) {
       setFormData(assessment);
+      if ((assessment as any).projectId) {
+        setCurrentStep(3);
+      }
       setLocalDeviceCount(assessment.deviceCount?.toString() || '');
       setLocalSiteAddress(assessment.siteAddress || '');
       setLocalSpecialRequirements(assessment.specialRequirements || '');
@@ -195,7 +206,7 @@ export default function FleetTrackingForm() {
     debouncedSave(updatedData);
   }, [formData, debouncedSave]);
 
-  const updateVehicleDetail = useCallback((index: number, field: 'year' | 'make' | 'model', value: string) => {
+  const updateVehicleDetail = useCallback((index: number, field: 'year' | 'make' | 'model' | 'vehicleClass', value: string) => {
     setVehicleDetails(prev => {
       const updated = [...prev];
       if (updated[index]) {
@@ -205,7 +216,7 @@ export default function FleetTrackingForm() {
       // Save vehicle details to database
       const updatedData = { 
         ...formData, 
-        vehicleDetails: JSON.stringify(updated.filter(v => v.year || v.make || v.model)) // Only save non-empty entries
+        vehicleDetails: JSON.stringify(updated.filter(v => v.year || v.make || v.model || v.vehicleClass)) // Only save non-empty entries
       };
       setFormData(updatedData);
       debouncedSave(updatedData);
@@ -221,7 +232,7 @@ export default function FleetTrackingForm() {
   };
 
   const handlePrevious = () => {
-    if (currentStep > 1) {
+    if (currentStep > firstStep) {
       setCurrentStep(currentStep - 1);
     }
   };
@@ -231,7 +242,7 @@ export default function FleetTrackingForm() {
       title: "Success",
       description: "Fleet tracking device assessment completed successfully!",
     });
-    navigate("/");
+    navigate(exitPath);
   };
 
   if (authLoading || isLoading) {
@@ -311,6 +322,13 @@ export default function FleetTrackingForm() {
                     className="w-full"
                   />
                 </div>
+
+                <div>
+                  <Label className="text-sm font-medium nxt-gray-800 mb-2">
+                    Default Vehicle Class
+                  </Label>
+                  <VehicleClassSelect value={formData.vehicleClass} onChange={(value) => handleSelectChange('vehicleClass', value)} />
+                </div>
               </div>
 
               <div>
@@ -335,7 +353,7 @@ export default function FleetTrackingForm() {
                   {vehicleDetails.map((vehicle, index) => (
                     <div key={index} className="border rounded-lg p-4 space-y-4 bg-nxt-gray-50">
                       <h5 className="font-medium text-nxt-gray-800">Vehicle {index + 1}</h5>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <div>
                           <Label className="text-sm font-medium nxt-gray-800 mb-2">
                             Year
@@ -370,6 +388,16 @@ export default function FleetTrackingForm() {
                             className="w-full"
                           />
                         </div>
+                        <div>
+                          <Label className="text-sm font-medium nxt-gray-800 mb-2">
+                            Vehicle Class
+                          </Label>
+                          <VehicleClassSelect
+                            value={vehicle.vehicleClass}
+                            onChange={(value) => updateVehicleDetail(index, 'vehicleClass', value)}
+                            placeholder="Same as fleet"
+                          />
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -412,9 +440,9 @@ export default function FleetTrackingForm() {
 
                 <div>
                   <Label className="text-sm font-medium nxt-gray-800 mb-2">
-                    Installation Type
+                    Installation Method
                   </Label>
-                  <Select value={formData.ceilingType || ''} onValueChange={(value) => handleSelectChange('ceilingType', value)}>
+                  <Select value={formData.installationMethod || ''} onValueChange={(value) => handleSelectChange('installationMethod', value)}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select installation" />
                     </SelectTrigger>
@@ -527,11 +555,11 @@ export default function FleetTrackingForm() {
           <div className="flex items-center justify-between mb-4">
             <Button
               variant="ghost"
-              onClick={() => navigate("/")}
+              onClick={() => navigate(exitPath)}
               className="flex items-center gap-2 hover:bg-nxt-gray-100"
             >
               <ArrowLeft className="h-4 w-4" />
-              Back to Dashboard
+              {projectId ? 'Back to Project' : 'Back to Dashboard'}
             </Button>
             <Badge variant="outline" className="bg-nxt-blue-50 text-nxt-blue border-nxt-blue">
               Fleet Tracking Assessment
@@ -561,12 +589,32 @@ export default function FleetTrackingForm() {
           {renderStep()}
         </div>
 
+        {/* Running estimate, including the vehicle count still being typed */}
+        {currentStep >= 3 && currentStep < totalSteps && (
+          <div className="mb-8 space-y-8">
+            <CatalogItemPicker
+              serviceType="fleet-tracking"
+              value={formData.catalogItems}
+              onChange={(catalogItems) => handleSelectChange('catalogItems', catalogItems)}
+              termMonths={formData.termMonths}
+              onTermChange={(termMonths) => handleSelectChange('termMonths', termMonths)}
+            />
+            <PricingEstimate
+              data={{
+                ...formData,
+                serviceType: 'fleet-tracking',
+                deviceCount: localDeviceCount ? parseInt(localDeviceCount) : null,
+              }}
+            />
+          </div>
+        )}
+
         {/* Navigation */}
         <div className="flex justify-between">
           <Button
             variant="outline"
             onClick={handlePrevious}
-            disabled={currentStep === 1}
+            disabled={currentStep === firstStep}
             className="flex items-center gap-2"
           >
             <ArrowLeft className="h-4 w-4" />
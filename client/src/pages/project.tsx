@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Building2, Pencil, Plus, Upload, ClipboardEdit } from "lucide-react";
+import { formatCurrency } from "@/components/quote/quote-line-items";
+import { ProjectDialog } from "@/components/project/project-dialog";
+import { AddSiteDialog } from "@/components/project/add-site-dialog";
+import { ImportSitesDialog } from "@/components/project/import-sites-dialog";
+import type { Assessment, Project } from "@shared/schema";
+
+interface ProjectSiteData {
+  assessment: Assessment;
+  quoteId: number | null;
+  quoteNumber: string | null;
+  quoteStatus: string | null;
+  totalCost: string | null;
+  monthlyTotal: string | null;
+  termMonths: number | null;
+}
+
+interface ProjectDetailsData extends Project {
+  sites: ProjectSiteData[];
+  totalCost: number;
+  monthlyTotal: number;
+  contractValue: number;
+}
+
+const SERVICE_LABELS: Record<string, string> = {
+  'site-assessment': 'Fixed Wireless Access',
+  'fleet-tracking': 'Fleet & Asset Tracking',
+  'fleet-camera': 'Fleet Camera Installation',
+};
+
+const WIZARD_PATHS: Record<string, string> = {
+  'site-assessment': '/assessment',
+  'fleet-tracking': '/fleet-tracking',
+  'fleet-camera': '/fleet-camera',
+};
+
+export default function ProjectPage() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showAddSiteDialog, setShowAddSiteDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+
+  const { data: project, isLoading } = useQuery<ProjectDetailsData>({
+    queryKey: [`/api/projects/${id}`],
+    enabled: !!id && isAuthenticated,
+    staleTime: 0,
+    refetchOnMount: true,
+    retry: false,
+  });
+
+  const openSite = (site: Assessment) => {
+    navigate(`${WIZARD_PATHS[site.serviceType || 'site-assessment']}/${site.id}`);
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-nxt-gray-50">
+        <p className="nxt-gray-500">Loading project...</p>
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-nxt-gray-50">
+        <p className="nxt-gray-500">Project not found</p>
+      </div>
+    );
+  }
+
+  const unpricedSites = project.sites.filter((site) => site.totalCost === null).length;
+
+  return (
+    <div className="min-h-screen bg-nxt-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-6xl">
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="flex items-center gap-2 hover:bg-nxt-gray-100"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+          <Badge variant="outline" className="bg-nxt-blue-50 text-nxt-blue border-nxt-blue">
+            {SERVICE_LABELS[project.serviceType]}
+          </Badge>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center gap-3 text-xl font-semibold nxt-gray-800">
+              <Building2 className="h-6 w-6 text-nxt-blue" />
+              {project.name}
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={() => setShowEditDialog(true)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit Details
+            </Button>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div className="space-y-1">
+              <p><strong>Customer:</strong> {project.customerCompanyName}</p>
+              <p><strong>Contact:</strong> {project.customerContactName}</p>
+              <p><strong>Email:</strong> {project.customerEmail}</p>
+              {project.customerPhone && <p><strong>Phone:</strong> {project.customerPhone}</p>}
+              {project.taxExempt && <Badge variant="outline">Tax exempt</Badge>}
+            </div>
+            <div className="space-y-1">
+              <p><strong>Sales Executive:</strong> {project.salesExecutiveName}</p>
+              <p><strong>Email:</strong> {project.salesExecutiveEmail}</p>
+              {project.salesExecutivePhone && <p><strong>Phone:</strong> {project.salesExecutivePhone}</p>}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col sm:flex-row gap-4 mb-8">
+          <Button
+            className="px-6 py-4 rounded-xl font-medium bg-nxt-blue text-white hover:bg-blue-700"
+            onClick={() => setShowAddSiteDialog(true)}
+          >
+            <Plus className="mr-2" size={20} />
+            Add Site
+          </Button>
+          <Button
+            variant="outline"
+            className="px-6 py-4 rounded-xl font-medium border-gray-200 hover:bg-gray-50"
+            onClick={() => setShowImportDialog(true)}
+          >
+            <Upload className="mr-2" size={20} />
+            Import Sites (CSV)
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold nxt-gray-800">Sites ({project.sites.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {project.sites.length === 0 ? (
+              <div className="p-8 text-center">
+                <p className="nxt-gray-500">No sites yet. Add a site or import a CSV of site addresses.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-nxt-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Site</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Address</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Quote</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium nxt-gray-500 uppercase tracking-wider">One-Time</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium nxt-gray-500 uppercase tracking-wider">Monthly</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium nxt-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {project.sites.map((site) => (
+                      <tr key={site.assessment.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium nxt-gray-800">
+                          {site.assessment.siteName || `Site ${site.assessment.id}`}
+                        </td>
+                        <td className="px-6 py-4 text-sm nxt-gray-800">
+                          {site.assessment.siteAddress}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {site.quoteNumber ? (
+                            <div>
+                              <span className="text-nxt-blue font-medium">#{site.quoteNumber}</span>
+                              <div className="text-xs nxt-gray-500">{site.quoteStatus}</div>
+                            </div>
+                          ) : (
+                            <span className="nxt-gray-500">Estimate</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right nxt-gray-800">
+                          {site.totalCost === null ? '—' : formatCurrency(site.totalCost)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right nxt-gray-800">
+                          {site.monthlyTotal ? `${formatCurrency(site.monthlyTotal)}/mo` : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <Button
+                            variant="link"
+                            className="text-nxt-blue hover:text-blue-700 p-0"
+                            onClick={() => openSite(site.assessment)}
+                            title="Edit site assessment"
+                          >
+                            <ClipboardEdit className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-nxt-gray-50">
+                    <tr>
+                      <td colSpan={3} className="px-6 py-4 text-sm font-semibold nxt-gray-800">
+                        Project Total
+                        {unpricedSites > 0 && (
+                          <span className="ml-2 text-xs font-normal nxt-gray-500">
+                            ({unpricedSites} site(s) not yet priced)
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold nxt-gray-800">
+                        {formatCurrency(project.totalCost)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold nxt-gray-800">
+                        {project.monthlyTotal > 0 ? `${formatCurrency(project.monthlyTotal)}/mo` : '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs nxt-gray-500">
+                        {project.monthlyTotal > 0 && `Contract value ${formatCurrency(project.contractValue)}`}
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <ProjectDialog
+          open={showEditDialog}
+          project={project}
+          hasSites={project.sites.length > 0}
+          onClose={() => setShowEditDialog(false)}
+        />
+
+        <AddSiteDialog
+          open={showAddSiteDialog}
+          projectId={project.id}
+          onClose={() => setShowAddSiteDialog(false)}
+          onAdded={openSite}
+        />
+
+        <ImportSitesDialog
+          open={showImportDialog}
+          projectId={project.id}
+          onClose={() => setShowImportDialog(false)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * A request the caller can fix, such as bad input or an action the quote's state doesn't allow.
+ * Routes answer these with a 400 and the message; any other error is a 500.
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { quoteExpiryService } from "./services/quoteExpiryService";
+import { dataMigrationService } from "./services/dataMigrationService";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +39,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await dataMigrationService.run();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -66,5 +69,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    quoteExpiryService.start();
   });
 })();
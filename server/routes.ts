@@ -1,21 +1,72 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { upload, saveFileToDatabase, deleteFileFromDisk } from "./services/fileUpload";
-import { calculatePricing } from "./services/pricingEngine";
-import { generateQuotePDF } from "./services/pdfGenerator";
+import { ValidationError } from "./errors";
+import { upload, saveFileToDatabase, deleteFileFromDisk, type UploadedFileType } from "./services/fileUpload";
 import { hubspotService } from "./services/hubspotService";
 import { webhookService } from "./services/webhookService";
-import { insertAssessmentSchema, insertOrganizationSchema } from "@shared/schema";
+import { rateCardService } from "./services/rateCardService";
+import { quoteService } from "./services/quoteService";
+import { partnerPricingService } from "./services/partnerPricingService";
+import { discountService } from "./services/discountService";
+import { taxService } from "./services/taxService";
+import { travelService } from "./services/travelService";
+import { productService } from "./services/productService";
+import { proposalService } from "./services/proposalService";
+import { projectService } from "./services/projectService";
+import { quoteOptionService } from "./services/quoteOptionService";
+import { quoteApprovalService } from "./services/quoteApprovalService";
+import { quoteAccessService } from "./services/quoteAccessService";
+import { quoteSignatureService } from "./services/quoteSignatureService";
+import { quoteCommentService } from "./services/quoteCommentService";
+import { quoteChangeRequestService } from "./services/quoteChangeRequestService";
+import { vehicleClassService } from "./services/vehicleClassService";
+import { geocodingService } from "./services/geocodingService";
+import { quoteNumberService, DEFAULT_QUOTE_NUMBER_PREFIX, DEFAULT_QUOTE_NUMBER_FORMAT } from "./services/quoteNumberService";
+import { insertAssessmentSchema, insertOrganizationSchema, type CustomerQuote, type Quote } from "@shared/schema";
 import { emailService } from "./services/emailService";
 import { randomBytes } from "crypto";
 import path from "path";
 import fs from "fs";
 import { db } from "./db";
-import { assessments, quotes, users, organizations } from "@shared/schema";
+import { assessments, quotes, users, organizations, rateCardVersions } from "@shared/schema";
 import { eq, ne, desc, or, isNull } from "drizzle-orm";
 
+// Answer a ValidationError with a 400 and its message. Any other error is left to the route, which reports a 500.
+function handleValidation(res: Response, error: unknown): boolean {
+  if (!(error instanceof ValidationError)) {
+    return false;
+  }
+  res.status(400).json({ message: error.message });
+  return true;
+}
+
+// The customer-facing fields of a quote, for the customer portal and proposal pages
+function toCustomerQuote(quote: Quote): CustomerQuote {
+  return {
+    id: quote.id,
+    assessmentId: quote.assessmentId,
+    quoteNumber: quote.quoteNumber,
+    status: quote.status,
+    totalCost: quote.totalCost,
+    subtotal: quote.subtotal,
+    taxRegion: quote.taxRegion,
+    taxRate: quote.taxRate,
+    taxAmount: quote.taxAmount,
+    monthlyTotal: quote.monthlyTotal,
+    termMonths: quote.termMonths,
+    travelMiles: quote.travelMiles,
+    travelCost: quote.travelCost,
+    vehicleLabor: quote.vehicleLabor,
+    changeRequest: quote.changeRequest,
+    pdfUrl: quote.pdfUrl,
+    expiresAt: quote.expiresAt,
+    createdAt: quote.createdAt,
+    updatedAt: quote.updatedAt,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -184,7 +235,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const assessmentId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
-      const fileType = req.body.fileType as 'photo' | 'document';
+      const fileType = req.body.fileType as UploadedFileType;
 
       // Verify assessment ownership
       const assessment = await storage.getAssessment(assessmentId);
@@ -259,32 +310,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let quote = await storage.getQuoteByAssessmentId(assessmentId);
       
       if (!quote) {
-        // Calculate pricing
-        const pricing = calculatePricing(assessment);
+        // Calculate pricing against the active rate card version
+        const { pricing, rateCardVersion, validityDays } = await quoteService.priceAssessment(assessment);
         
-        // Generate quote number
-        const quoteNumber = `Q-${new Date().getFullYear()}-${String(assessmentId).padStart(4, '0')}`;
+        // Generate quote number from the organization's numbering sequence
+        const numberingOrganization = await partnerPricingService.getOrganizationForAssessment(assessment);
+        const quoteNumber = await quoteNumberService.generate(numberingOrganization);
 
-        // Create quote
+        // Create quote pinned to the rate card version used
         quote = await storage.createQuote({
           assessmentId,
           quoteNumber,
-          surveyCost: pricing.surveyCost.toString(),
-          installationCost: pricing.installationCost.toString(),
-          configurationCost: pricing.configurationCost.toString(),
-          trainingCost: pricing.trainingCost.toString(),
-          hardwareCost: pricing.hardwareCost.toString(),
-          removalCost: pricing.removalCost ? pricing.removalCost.toString() : undefined,
-          totalCost: pricing.totalCost.toString(),
-          surveyHours: pricing.surveyHours.toString(),
-          installationHours: pricing.installationHours.toString(),
-          configurationHours: pricing.configurationHours.toString(),
-          removalHours: pricing.removalHours ? pricing.removalHours.toString() : undefined,
-          laborHoldHours: pricing.laborHoldHours.toString(),
-          laborHoldCost: pricing.laborHoldCost.toString(),
-          hourlyRate: pricing.hourlyRate.toString(),
+          ...quoteService.buildPricingFields(pricing, rateCardVersion.id),
           status: 'pending',
+          expiresAt: quoteService.calculateExpiry(validityDays),
         });
+        await quoteService.saveLineItems(quote.id, pricing.lineItems);
+        await quoteService.saveRecurringItems(quote.id, pricing.recurringItems || []);
+        await quoteService.recordRevision(quote, pricing.lineItems, 'Initial quote', userId);
+        quote = await quoteApprovalService.evaluateQuote(quote);
 
         // Update assessment with total cost
         await storage.updateAssessment(assessmentId, {
@@ -298,7 +342,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.log(`🔄 Starting automatic HubSpot sync for quote ${quote.quoteNumber}...`);
             const organization = await storage.getOrganizationByUserId(userId);
             if (organization) {
-              await hubspotService.syncQuoteToHubSpot(quote, assessment, organization);
+              await hubspotService.syncQuoteToHubSpot(quote, assessment, organization, pricing.lineItems);
               console.log(`✅ Quote ${quote.quoteNumber} synced to HubSpot successfully`);
             } else {
               console.warn('⚠️ No organization found for user, skipping HubSpot sync');
@@ -311,13 +355,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })();
       }
 
-      res.json(quote);
+      const lineItems = await quoteService.getLineItems(quote);
+      const recurringItems = await quoteService.getRecurringItems(quote.id);
+      res.json({ ...quote, lineItems, recurringItems });
     } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
       console.error("Error generating quote:", error);
       res.status(500).json({ message: "Failed to generate quote" });
     }
   });
 
+  // Catalog products partners can add to an assessment, without our cost
+  app.get('/api/products', isAuthenticated, async (req, res) => {
+    try {
+      const products = await productService.getPartnerProducts(req.query.serviceType as string | undefined);
+      res.json(products);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  // Price unsaved assessment data for the running estimate; nothing is stored
+  app.post('/api/pricing/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const cleanedData = { ...req.body };
+      delete cleanedData.organizationId;
+      if (cleanedData.preferredInstallationDate && typeof cleanedData.preferredInstallationDate === 'string') {
+        cleanedData.preferredInstallationDate = new Date(cleanedData.preferredInstallationDate);
+      }
+
+      const parsed = insertAssessmentSchema.partial().safeParse(cleanedData);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid assessment data" });
+      }
+
+      const { pricing, rateCardVersion } = await quoteService.previewPricing(parsed.data, userId);
+      res.json({
+        ...pricing,
+        rateCardVersionId: rateCardVersion.id,
+        rateCardVersionNumber: rateCardVersion.versionNumber,
+      });
+    } catch (error) {
+      console.error("Error previewing pricing:", error);
+      res.status(500).json({ message: "Failed to preview pricing" });
+    }
+  });
+
   app.post('/api/quotes/:id/pdf', isAuthenticated, async (req: any, res) => {
     try {
       const quoteId = parseInt(req.params.id);
@@ -358,24 +446,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Assessment data missing for this quote" });
       }
 
-      // Generate PDF
-      console.log('🔄 Generating PDF...');
-      const pdfPath = await generateQuotePDF({
-        assessment: quoteWithAssessment.assessment,
-        quote: quoteWithAssessment,
-        organizationName,
-      });
-
-      console.log('✅ PDF generated successfully:', pdfPath);
-
-      // Update quote with PDF URL
-      const relativePath = path.relative(process.cwd(), pdfPath);
-      await storage.updateQuote(quoteId, {
-        pdfUrl: relativePath,
-      });
+      if (quoteWithAssessment.status === 'pending_approval') {
+        return res.status(400).json({ message: "This quote needs admin approval before it can be sent to the customer" });
+      }
 
-      const pdfUrl = `/api/files/pdf/${path.basename(pdfPath)}`;
-      console.log('✅ PDF URL updated in database:', pdfUrl);
+      // Generate PDF and store its path on the quote
+      console.log('🔄 Generating PDF...');
+      const pdfUrl = await quoteService.generatePdf(quoteWithAssessment, organizationName);
+      console.log('✅ PDF generated and URL updated in database:', pdfUrl);
 
       res.json({ pdfUrl });
     } catch (error) {
@@ -389,106 +467,976 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/quotes', isAuthenticated, async (req: any, res) => {
+  // Compare an existing quote with the current price of its assessment
+  app.post('/api/quotes/:id/requote/preview', isAuthenticated, async (req: any, res) => {
     try {
+      const quoteId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
-      const quotes = await storage.getQuotesByUserId(userId);
-      res.json(quotes);
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const preview = await quoteService.previewRequote(quoteId);
+      res.json(preview);
     } catch (error) {
-      console.error("Error fetching quotes:", error);
-      res.status(500).json({ message: "Failed to fetch quotes" });
+      console.error("Error previewing re-quote:", error);
+      res.status(500).json({ message: "Failed to preview re-quote" });
     }
   });
 
-  app.delete('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+  // Apply a re-quote: update pricing, regenerate the PDF and resync HubSpot
+  app.post('/api/quotes/:id/requote', isAuthenticated, async (req: any, res) => {
     try {
       const quoteId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
 
-      // Verify quote ownership by getting user's quotes and checking if this quote exists
-      const userQuotes = await storage.getQuotesByUserId(userId);
-      const quoteExists = userQuotes.find(q => q.id === quoteId);
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (!quoteService.isOpen(quote)) {
+        return res.status(400).json({ message: "Only pending quotes can be re-quoted" });
+      }
 
-      if (!quoteExists) {
-        return res.status(404).json({ message: "Quote not found or access denied" });
+      const organization = await storage.getOrganizationByUserId(userId);
+      const { quote: updatedQuote, lineItems } = await quoteService.requoteQuote(quoteId, organization?.name || 'Unknown Organization', {
+        notes: 'Assessment updated',
+        userId,
+      });
+
+      // Resync HubSpot (async, don't block response)
+      (async () => {
+        try {
+          await hubspotService.updateDealAmount(updatedQuote, lineItems);
+          console.log(`✅ Re-quoted ${updatedQuote.quoteNumber} synced to HubSpot`);
+        } catch (hubspotError) {
+          console.error(`❌ Failed to sync re-quoted ${updatedQuote.quoteNumber} to HubSpot:`, hubspotError);
+        }
+      })();
+
+      const recurringItems = await quoteService.getRecurringItems(quoteId);
+      res.json({ ...updatedQuote, lineItems, recurringItems });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
       }
+      console.error("Error re-quoting:", error);
+      res.status(500).json({ message: "Failed to re-quote" });
+    }
+  });
 
-      await storage.deleteQuote(quoteId);
-      res.json({ success: true, message: "Quote deleted successfully" });
+  // Extend the validity of an open or expired quote
+  app.post('/api/quotes/:id/extend', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      const days = req.body?.days !== undefined ? parseInt(req.body.days) : undefined;
+      if (days !== undefined && (isNaN(days) || days <= 0)) {
+        return res.status(400).json({ message: "Validity must be a positive number of days" });
+      }
+
+      const updatedQuote = await quoteService.extendQuote(quoteId, days);
+      res.json(updatedQuote);
     } catch (error) {
-      console.error("Error deleting quote:", error);
-      res.status(500).json({ message: "Failed to delete quote" });
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error extending quote:", error);
+      res.status(500).json({ message: "Failed to extend quote" });
     }
   });
 
-  // Customer portal routes (public - no authentication required)
-  app.get('/api/customer/quote/:token', async (req, res) => {
+  // Re-issue an expired quote at current rates as a new revision
+  app.post('/api/quotes/:id/reissue', isAuthenticated, async (req: any, res) => {
     try {
-      const token = req.params.token;
-      
-      // In a real implementation, you'd decode/verify the token
-      // For this mockup, we'll use the quote ID as the token
-      const quoteId = parseInt(token);
-      
-      if (isNaN(quoteId)) {
-        return res.status(400).json({ message: "Invalid quote ID" });
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
       }
-      
+      if (quote.status !== 'expired') {
+        return res.status(400).json({ message: "Only expired quotes can be re-issued" });
+      }
+
+      const organization = await storage.getOrganizationByUserId(userId);
+      const { quote: updatedQuote, lineItems } = await quoteService.reissueQuote(quoteId, organization?.name || 'Unknown Organization', userId);
+
+      // Resync HubSpot (async, don't block response)
+      (async () => {
+        try {
+          await hubspotService.updateDealAmount(updatedQuote, lineItems);
+        } catch (hubspotError) {
+          console.error(`❌ Failed to sync re-issued ${updatedQuote.quoteNumber} to HubSpot:`, hubspotError);
+        }
+      })();
+
+      const recurringItems = await quoteService.getRecurringItems(quoteId);
+      res.json({ ...updatedQuote, lineItems, recurringItems });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error re-issuing quote:", error);
+      res.status(500).json({ message: "Failed to re-issue quote" });
+    }
+  });
+
+  // Customer portal link for a quote; reissuing revokes the previous link
+  app.post('/api/quotes/:id/share-link', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
       const quote = await storage.getQuote(quoteId);
-      
-      if (!quote) {
+      if (!quote || quote.assessment.userId !== userId) {
         return res.status(404).json({ message: "Quote not found" });
       }
 
-      // Get organization info
-      const organization = await storage.getOrganizationByUserId(quote.assessment.userId);
-      
-      const response = {
-        ...quote,
-        organization: organization || { name: "NXTKonekt" }
-      };
-      
-      res.json(response);
+      const accessToken = await quoteAccessService.getShareToken(quoteId, userId, req.body?.reissue === true);
+      res.json({ token: accessToken.token, expiresAt: accessToken.expiresAt });
     } catch (error) {
-      console.error("Error fetching customer quote:", error);
-      res.status(500).json({ message: "Failed to fetch quote" });
+      console.error("Error creating customer link:", error);
+      res.status(500).json({ message: "Failed to create customer link" });
     }
   });
 
-  app.post('/api/customer/quote/:token/:action', async (req, res) => {
+  app.delete('/api/quotes/:id/share-link', isAuthenticated, async (req: any, res) => {
     try {
-      const token = req.params.token;
-      const action = req.params.action;
-      const { feedback } = req.body;
-      
-      // Validate action
-      if (!['approve', 'reject'].includes(action)) {
-        return res.status(400).json({ message: "Invalid action" });
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
       }
-      
-      // In a real implementation, you'd decode/verify the token
-      const quoteId = parseInt(token);
-      
-      if (isNaN(quoteId)) {
-        return res.status(400).json({ message: "Invalid quote ID" });
+
+      await quoteAccessService.revokeTokens(quoteId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking customer link:", error);
+      res.status(500).json({ message: "Failed to revoke customer link" });
+    }
+  });
+
+  // Comment thread between the partner and the customer
+  app.get('/api/quotes/:id/comments', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
       }
-      
+
+      const comments = await quoteCommentService.getComments(quoteId);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching quote comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post('/api/quotes/:id/comments', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
       const quote = await storage.getQuote(quoteId);
-      
-      if (!quote) {
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const user = await storage.getUser(userId);
+      const authorName = `${user?.firstName || ''} ${user?.lastName || ''}`.trim() || user?.email || quote.assessment.salesExecutiveName;
+
+      const comment = await quoteCommentService.addComment(quote, {
+        type: 'partner',
+        name: authorName,
+        userId,
+      }, req.body.message, `${req.protocol}://${req.get('host')}`);
+
+      res.json(comment);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error adding quote comment:", error);
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // Revision history of a quote, oldest first
+  app.get('/api/quotes/:id/revisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const revisions = await quoteService.getRevisions(quoteId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching quote revisions:", error);
+      res.status(500).json({ message: "Failed to fetch quote revisions" });
+    }
+  });
+
+  // Good/better/best options offered on a quote
+  app.get('/api/quotes/:id/options', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const options = await quoteOptionService.getOptions(quoteId);
+      res.json(options);
+    } catch (error) {
+      console.error("Error fetching quote options:", error);
+      res.status(500).json({ message: "Failed to fetch quote options" });
+    }
+  });
+
+  app.post('/api/quotes/:id/options', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const option = await quoteOptionService.createOption(quote, req.body);
+
+      res.json(option);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error creating quote option:", error);
+      res.status(500).json({ message: "Failed to create quote option" });
+    }
+  });
+
+  app.put('/api/quotes/:id/options/:optionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const option = await storage.getQuoteOption(parseInt(req.params.optionId));
+      if (!option || option.quoteId !== quoteId) {
+        return res.status(404).json({ message: "Option not found" });
+      }
+
+      const updatedOption = await quoteOptionService.updateOption(quote, option, req.body);
+
+      res.json(updatedOption);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating quote option:", error);
+      res.status(500).json({ message: "Failed to update quote option" });
+    }
+  });
+
+  app.delete('/api/quotes/:id/options/:optionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
         return res.status(404).json({ message: "Quote not found" });
       }
 
-      // Update quote status
-      const updatedQuote = await storage.updateQuote(quote.id, {
-        status: action === 'approve' ? 'approved' : 'rejected',
-        // In a real implementation, you'd store customer feedback in a separate field
-      });
-
+      const option = await storage.getQuoteOption(parseInt(req.params.optionId));
+      if (!option || option.quoteId !== quoteId) {
+        return res.status(404).json({ message: "Option not found" });
+      }
+
+      await quoteOptionService.deleteOption(quote, option);
+
+      res.json({ success: true, message: "Option deleted successfully" });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error deleting quote option:", error);
+      res.status(500).json({ message: "Failed to delete quote option" });
+    }
+  });
+
+  // Quote discounts and adjustments
+  app.get('/api/quotes/:id/adjustments', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const adjustments = await quoteService.getAdjustments(quoteId);
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Error fetching quote adjustments:", error);
+      res.status(500).json({ message: "Failed to fetch quote adjustments" });
+    }
+  });
+
+  // Add a discount or manual adjustment to a pending quote
+  app.post('/api/quotes/:id/adjustments', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const adjustment = await discountService.addAdjustment(quoteId, req.body, userId);
+
+      const organization = await storage.getOrganizationByUserId(userId);
+      let repriced;
+      try {
+        repriced = await quoteService.applyQuoteAdjustments(quoteId, organization?.name || 'Unknown Organization', {
+          notes: `Added ${adjustment.description}`,
+          userId,
+        });
+      } catch (repriceError) {
+        // A quote that cannot be re-priced keeps its previous price, without the new adjustment
+        await discountService.discardAdjustment(adjustment);
+        throw repriceError;
+      }
+      const { quote: updatedQuote, lineItems } = repriced;
+
+      // Resync HubSpot (async, don't block response)
+      (async () => {
+        try {
+          await hubspotService.updateDealAmount(updatedQuote, lineItems);
+          console.log(`✅ Adjusted quote ${updatedQuote.quoteNumber} synced to HubSpot`);
+        } catch (hubspotError) {
+          console.error(`❌ Failed to sync adjusted quote ${updatedQuote.quoteNumber} to HubSpot:`, hubspotError);
+        }
+      })();
+
+      const adjustments = await quoteService.getAdjustments(quoteId);
+      res.json({ ...updatedQuote, lineItems, adjustments });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error adjusting quote:", error);
+      res.status(500).json({ message: "Failed to adjust quote" });
+    }
+  });
+
+  // Redeem a promo code against a pending quote
+  app.post('/api/quotes/:id/promo-code', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const adjustment = await discountService.applyPromoCode(quoteId, req.body.code, userId);
+
+      const organization = await storage.getOrganizationByUserId(userId);
+      let repriced;
+      try {
+        repriced = await quoteService.applyQuoteAdjustments(quoteId, organization?.name || 'Unknown Organization', {
+          notes: `Applied ${adjustment.description}`,
+          userId,
+        });
+      } catch (repriceError) {
+        // A quote that cannot be re-priced keeps its previous price, without the new promo code
+        await discountService.discardAdjustment(adjustment);
+        throw repriceError;
+      }
+      const { quote: updatedQuote, lineItems } = repriced;
+
+      // Resync HubSpot (async, don't block response)
+      (async () => {
+        try {
+          await hubspotService.updateDealAmount(updatedQuote, lineItems);
+          console.log(`✅ Adjusted quote ${updatedQuote.quoteNumber} synced to HubSpot`);
+        } catch (hubspotError) {
+          console.error(`❌ Failed to sync adjusted quote ${updatedQuote.quoteNumber} to HubSpot:`, hubspotError);
+        }
+      })();
+
+      const adjustments = await quoteService.getAdjustments(quoteId);
+      res.json({ ...updatedQuote, lineItems, adjustments });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error applying promo code:", error);
+      res.status(500).json({ message: "Failed to apply promo code" });
+    }
+  });
+
+  // Remove a discount or adjustment from a pending quote
+  app.delete('/api/quotes/:id/adjustments/:adjustmentId', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const quote = await storage.getQuote(quoteId);
+      if (!quote || quote.assessment.userId !== userId) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const adjustment = await discountService.removeAdjustment(quoteId, parseInt(req.params.adjustmentId));
+
+      const organization = await storage.getOrganizationByUserId(userId);
+      const { quote: updatedQuote, lineItems } = await quoteService.applyQuoteAdjustments(quoteId, organization?.name || 'Unknown Organization', {
+        notes: `Removed ${adjustment.description}`,
+        userId,
+      });
+
+      // Resync HubSpot (async, don't block response)
+      (async () => {
+        try {
+          await hubspotService.updateDealAmount(updatedQuote, lineItems);
+          console.log(`✅ Adjusted quote ${updatedQuote.quoteNumber} synced to HubSpot`);
+        } catch (hubspotError) {
+          console.error(`❌ Failed to sync adjusted quote ${updatedQuote.quoteNumber} to HubSpot:`, hubspotError);
+        }
+      })();
+
+      const adjustments = await quoteService.getAdjustments(quoteId);
+      res.json({ ...updatedQuote, lineItems, adjustments });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error removing quote adjustment:", error);
+      res.status(500).json({ message: "Failed to remove adjustment" });
+    }
+  });
+
+  app.get('/api/quotes', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const quotes = await storage.getQuotesByUserId(userId);
+      res.json(quotes);
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+
+  app.delete('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      // Verify quote ownership by getting user's quotes and checking if this quote exists
+      const userQuotes = await storage.getQuotesByUserId(userId);
+      const quoteExists = userQuotes.find(q => q.id === quoteId);
+
+      if (!quoteExists) {
+        return res.status(404).json({ message: "Quote not found or access denied" });
+      }
+
+      await storage.deleteQuote(quoteId);
+      res.json({ success: true, message: "Quote deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting quote:", error);
+      res.status(500).json({ message: "Failed to delete quote" });
+    }
+  });
+
+  // Proposals combining several quotes for one customer
+  app.get('/api/proposals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposals = await proposalService.getProposalsForUser(userId);
+      res.json(proposals);
+    } catch (error) {
+      console.error("Error fetching proposals:", error);
+      res.status(500).json({ message: "Failed to fetch proposals" });
+    }
+  });
+
+  app.post('/api/proposals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const proposal = await proposalService.createProposal(userId, req.body.assessmentIds);
+
+      const details = await proposalService.getProposalDetails(proposal);
+      const organization = await storage.getOrganizationByUserId(userId);
+      try {
+        await proposalService.generatePdf(details, organization?.name || 'Unknown Organization');
+      } catch (pdfError) {
+        console.error(`❌ Failed to generate PDF for proposal ${proposal.proposalNumber}:`, pdfError);
+      }
+
+      res.json(await proposalService.getProposalDetails((await storage.getProposal(proposal.id)) || proposal));
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error creating proposal:", error);
+      res.status(500).json({ message: "Failed to create proposal" });
+    }
+  });
+
+  app.get('/api/proposals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposal = await proposalService.getProposalForUser(parseInt(req.params.id), userId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      res.json(await proposalService.getProposalDetails(proposal));
+    } catch (error) {
+      console.error("Error fetching proposal:", error);
+      res.status(500).json({ message: "Failed to fetch proposal" });
+    }
+  });
+
+  // Regenerate the combined PDF with the latest revision of every quote
+  app.post('/api/proposals/:id/pdf', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposal = await proposalService.getProposalForUser(parseInt(req.params.id), userId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const details = await proposalService.getProposalDetails(proposal);
+      if (details.quotes.length === 0) {
+        return res.status(400).json({ message: "This proposal has no quotes left" });
+      }
+
+      const organization = await storage.getOrganizationByUserId(userId);
+      const pdfUrl = await proposalService.generatePdf(details, organization?.name || 'Unknown Organization');
+      res.json({ pdfUrl });
+    } catch (error) {
+      console.error("Error generating proposal PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  // Customer link for a proposal; reissuing revokes the previous link
+  app.post('/api/proposals/:id/share-link', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposal = await proposalService.getProposalForUser(parseInt(req.params.id), userId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const accessToken = await quoteAccessService.getProposalShareToken(proposal.id, userId, req.body?.reissue === true);
+      res.json({ token: accessToken.token, expiresAt: accessToken.expiresAt });
+    } catch (error) {
+      console.error("Error creating proposal link:", error);
+      res.status(500).json({ message: "Failed to create proposal link" });
+    }
+  });
+
+  app.delete('/api/proposals/:id/share-link', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposal = await proposalService.getProposalForUser(parseInt(req.params.id), userId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      await quoteAccessService.revokeProposalTokens(proposal.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking proposal link:", error);
+      res.status(500).json({ message: "Failed to revoke proposal link" });
+    }
+  });
+
+  // Ungroup a pending proposal; its quotes go back to being sent on their own
+  app.delete('/api/proposals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposal = await proposalService.getProposalForUser(parseInt(req.params.id), userId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+      if (proposal.status !== 'pending') {
+        return res.status(400).json({ message: "Only pending proposals can be ungrouped" });
+      }
+
+      await storage.deleteProposal(proposal.id);
+      res.json({ success: true, message: "Proposal ungrouped successfully" });
+    } catch (error) {
+      console.error("Error deleting proposal:", error);
+      res.status(500).json({ message: "Failed to ungroup proposal" });
+    }
+  });
+
+  // Multi-site projects: shared customer details with one assessment per site
+  app.get('/api/projects', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const projects = await storage.getProjectsByUserId(userId);
+      res.json(projects);
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  app.post('/api/projects', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const project = await projectService.createProject(userId, req.body);
+
+      res.json(project);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error creating project:", error);
+      res.status(500).json({ message: "Failed to create project" });
+    }
+  });
+
+  app.get('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await projectService.getProjectForUser(parseInt(req.params.id), userId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(await projectService.getProjectDetails(project));
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      res.status(500).json({ message: "Failed to fetch project" });
+    }
+  });
+
+  // Shared details are copied to every site of the project
+  app.put('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await projectService.getProjectForUser(parseInt(req.params.id), userId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const updated = await projectService.updateProject(project, req.body);
+
+      res.json(updated);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating project:", error);
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  app.post('/api/projects/:id/sites', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await projectService.getProjectForUser(parseInt(req.params.id), userId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const site = await projectService.addSite(project, req.body);
+
+      res.json(site);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error adding project site:", error);
+      res.status(500).json({ message: "Failed to add site" });
+    }
+  });
+
+  // Bulk site import from CSV; rejected as a whole with per-row errors if any row is invalid
+  app.post('/api/projects/:id/sites/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await projectService.getProjectForUser(parseInt(req.params.id), userId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const result = await projectService.importSites(project, req.body.csv);
+
+      if (result.errors.length > 0) {
+        return res.status(400).json({
+          message: `${result.errors.length} row(s) could not be imported. No sites were added.`,
+          errors: result.errors,
+        });
+      }
+      res.json({ imported: result.sites.length, sites: result.sites });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error importing project sites:", error);
+      res.status(500).json({ message: "Failed to import sites" });
+    }
+  });
+
+  // Customer portal routes (public - no authentication required)
+  const INVALID_ACCESS_LINK_MESSAGE = "This link is invalid or has expired. Please ask your sales representative for a new link.";
+
+  app.get('/api/customer/quote/:token', async (req, res) => {
+    try {
+      const quoteId = await quoteAccessService.resolveToken(req.params.token);
+      const quote = quoteId !== undefined ? await storage.getQuote(quoteId) : undefined;
+      
+      if (!quote) {
+        return res.status(404).json({ message: INVALID_ACCESS_LINK_MESSAGE });
+      }
+
+      // Quotes waiting for internal sign-off are not shown to the customer yet
+      if (quote.status === 'pending_approval') {
+        return res.status(403).json({ message: "This quote is being finalized. Please check back soon." });
+      }
+
+      // Get organization info
+      const organization = await storage.getOrganizationByUserId(quote.assessment.userId);
+      
+      const lineItems = await quoteService.getLineItems(quote);
+      const recurringItems = await quoteService.getRecurringItems(quote.id);
+      // An option's stored pricing fields include its pricing trace, so only its customer-facing parts are sent
+      const options = (await quoteOptionService.getOptions(quote.id)).map(({ pricingFields, ...option }) => option);
+      const signature = await quoteSignatureService.getSignature(quote.id);
+      const comments = await quoteCommentService.getComments(quote.id);
+
+      // Quotes in a proposal link to it with the proposal's active access token. None is issued here, so a
+      // proposal link the partner revoked or let expire stays closed until the partner shares it again.
+      const proposalAccessToken = quote.assessment.proposalId
+        ? await storage.getActiveProposalAccessToken(quote.assessment.proposalId, new Date())
+        : undefined;
+      const proposalToken = proposalAccessToken?.token ?? null;
+
+      // Customers only see the latest revision; older ones are listed as superseded
+      const revisions = await quoteService.getRevisions(quote.id);
+      const latestRevision = revisions[revisions.length - 1];
+      
+      const response = {
+        ...toCustomerQuote(quote),
+        assessment: quote.assessment,
+        lineItems,
+        recurringItems,
+        options,
+        signature: signature ? {
+          signerName: signature.signerName,
+          signerTitle: signature.signerTitle,
+          signedAt: signature.signedAt,
+          signedPdfUrl: signature.signedPdfUrl,
+        } : null,
+        comments,
+        proposalToken,
+        revisionLetter: latestRevision?.revisionLetter || null,
+        supersededRevisions: revisions.slice(0, -1).reverse().map((revision) => ({
+          revisionLetter: revision.revisionLetter,
+          totalCost: revision.totalCost,
+          createdAt: revision.createdAt,
+        })),
+        organization: organization || { name: "NXTKonekt" }
+      };
+      
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching customer quote:", error);
+      res.status(500).json({ message: "Failed to fetch quote" });
+    }
+  });
+
+  app.post('/api/customer/quote/:token/comments', async (req, res) => {
+    try {
+      const quoteId = await quoteAccessService.resolveToken(req.params.token);
+      const quote = quoteId !== undefined ? await storage.getQuote(quoteId) : undefined;
+
+      if (!quote) {
+        return res.status(404).json({ message: INVALID_ACCESS_LINK_MESSAGE });
+      }
+      if (quote.status === 'pending_approval') {
+        return res.status(403).json({ message: "This quote is being finalized. Please check back soon." });
+      }
+
+      const comment = await quoteCommentService.addComment(quote, {
+        type: 'customer',
+        name: quote.assessment.customerContactName || 'Customer',
+      }, req.body.message, `${req.protocol}://${req.get('host')}`);
+
+      res.json(comment);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error adding customer comment:", error);
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  app.post('/api/customer/quote/:token/:action', async (req, res) => {
+    try {
+      const token = req.params.token;
+      const action = req.params.action;
+      const { feedback } = req.body;
+      
+      // Validate action
+      if (!['approve', 'reject', 'request-changes'].includes(action)) {
+        return res.status(400).json({ message: "Invalid action" });
+      }
+      
+      const quoteId = await quoteAccessService.resolveToken(token);
+      const quote = quoteId !== undefined ? await storage.getQuote(quoteId) : undefined;
+      
+      if (!quote) {
+        return res.status(404).json({ message: INVALID_ACCESS_LINK_MESSAGE });
+      }
+      if (quote.status === 'pending_approval') {
+        return res.status(403).json({ message: "This quote is being finalized. Please check back soon." });
+      }
+
+      // Quotes in a proposal are approved or rejected together
+      if (quote.assessment.proposalId) {
+        return res.status(400).json({ message: "This quote is part of a combined proposal. Please respond to the proposal instead." });
+      }
+
+      // Only quotes still waiting on the customer can be answered; approved, rejected and expired ones are final
+      if (quote.status !== 'pending' && quote.status !== 'changes_requested') {
+        return res.status(400).json({ message: `This quote has already been ${quote.status}` });
+      }
+      if (quoteService.isExpired(quote)) {
+        return res.status(400).json({ message: "This quote has expired. Please contact us for an updated quote." });
+      }
+
+      const origin = `${req.protocol}://${req.get('host')}`;
+
+      // A request for changes keeps the deal open and sends the quote back to the partner to revise
+      if (action === 'request-changes') {
+        const requestedBy = quote.assessment.customerContactName || 'Customer';
+        const items = quoteChangeRequestService.validate(req.body.changes);
+        const updatedQuote = await quoteChangeRequestService.requestChanges(quote, items, requestedBy, origin);
+
+        if (feedback?.trim()) {
+          try {
+            await quoteCommentService.addComment(quote, { type: 'customer', name: requestedBy }, feedback, origin);
+          } catch (commentError) {
+            console.error(`❌ Failed to save feedback for quote ${quote.quoteNumber}:`, commentError);
+          }
+        }
+
+        (async () => {
+          try {
+            await hubspotService.updateDealStatus(quote.id, 'changes_requested');
+          } catch (hubspotError) {
+            console.error(`Failed to update HubSpot deal status for quote ${quote.quoteNumber}:`, hubspotError);
+          }
+        })();
+
+        return res.json({
+          success: true,
+          message: "Change request sent successfully",
+          quote: updatedQuote,
+        });
+      }
+
+      // Approval needs the signer's details, a signature and acceptance of the terms
+      let signature;
+      if (action === 'approve') {
+        signature = quoteSignatureService.validate(req.body.signature);
+      }
+
+      // Quotes with options are approved with the option the customer chose, which becomes the quote's scope.
+      // The quote PDF is signed and the quote approved with the chosen option's pricing and statement of work.
+      const options = await quoteOptionService.getOptions(quote.id);
+      const organization = await storage.getOrganizationByUserId(quote.assessment.userId);
+      let updatedQuote: Quote;
+      if (signature) {
+        const option = options.length > 0 ? await quoteOptionService.getChosenOption(quote, req.body.optionId) : undefined;
+        const approval = await quoteSignatureService.approveQuote(quote, signature, {
+          option,
+          audit: {
+            ipAddress: req.ip || null,
+            userAgent: req.get('user-agent') || null,
+          },
+          organizationName: organization?.name || 'Unknown Organization',
+        });
+        updatedQuote = approval.quote;
+      } else {
+        updatedQuote = await storage.updateQuote(quote.id, { status: 'rejected' });
+      }
+
+      // The customer's feedback joins the quote's comment thread
+      if (feedback?.trim()) {
+        try {
+          await quoteCommentService.addComment(quote, {
+            type: 'customer',
+            name: signature?.signerName || quote.assessment.customerContactName || 'Customer',
+          }, feedback, origin);
+        } catch (commentError) {
+          console.error(`❌ Failed to save feedback for quote ${quote.quoteNumber}:`, commentError);
+        }
+      }
+
+      // Record the partner commission on approval
+      if (action === 'approve') {
+        try {
+          updatedQuote = (await quoteService.recordCommission(quote.id)) || updatedQuote;
+        } catch (commissionError) {
+          console.error(`❌ Failed to record commission for quote ${quote.quoteNumber}:`, commissionError);
+        }
+      }
+
+      // Sync the chosen option's pricing to HubSpot
+      if (action === 'approve' && options.length > 0) {
+        try {
+          const approvedQuote = await storage.getQuote(quote.id);
+          if (approvedQuote) {
+            await hubspotService.updateDealAmount(approvedQuote, await quoteService.getLineItems(approvedQuote));
+          }
+        } catch (hubspotError) {
+          console.error(`❌ Failed to update quote ${quote.quoteNumber} for the chosen option:`, hubspotError);
+        }
+      }
+
       // Update HubSpot deal status (async, don't block response)
       (async () => {
         try {
-          await hubspotService.updateDealStatus(quote.id, action as 'approved' | 'rejected');
+          await hubspotService.updateDealStatus(quote.id, action === 'approve' ? 'approved' : 'rejected');
           console.log(`HubSpot deal status updated for quote ${quote.quoteNumber}`);
         } catch (hubspotError) {
           console.error(`Failed to update HubSpot deal status for quote ${quote.quoteNumber}:`, hubspotError);
@@ -502,11 +1450,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
         quote: updatedQuote 
       });
     } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
       console.error("Error updating quote status:", error);
       res.status(500).json({ message: "Failed to update quote" });
     }
   });
 
+  app.get('/api/customer/proposal/:token', async (req, res) => {
+    try {
+      const proposalId = await quoteAccessService.resolveProposalToken(req.params.token);
+      const proposal = proposalId !== undefined ? await storage.getProposal(proposalId) : undefined;
+
+      if (!proposal) {
+        return res.status(404).json({ message: INVALID_ACCESS_LINK_MESSAGE });
+      }
+
+      const details = await proposalService.getProposalDetails(proposal);
+      if (details.quotes.some((quote) => quote.status === 'pending_approval')) {
+        return res.status(403).json({ message: "This proposal is being finalized. Please check back soon." });
+      }
+
+      const organization = await storage.getOrganizationByUserId(proposal.userId);
+      const signature = await proposalService.getSignature(proposal.id);
+      res.json({
+        ...details,
+        quotes: details.quotes.map((quote) => ({
+          ...toCustomerQuote(quote),
+          assessment: quote.assessment,
+          lineItems: quote.lineItems,
+          recurringItems: quote.recurringItems,
+        })),
+        isExpired: proposal.status === 'pending' && proposalService.isExpired(details),
+        signature: signature ? {
+          signerName: signature.signerName,
+          signerTitle: signature.signerTitle,
+          signedAt: signature.signedAt,
+          signedPdfUrl: signature.signedPdfUrl,
+        } : null,
+        organization: organization || { name: "NXTKonekt" },
+      });
+    } catch (error) {
+      console.error("Error fetching customer proposal:", error);
+      res.status(500).json({ message: "Failed to fetch proposal" });
+    }
+  });
+
+  app.post('/api/customer/proposal/:token/:action', async (req, res) => {
+    try {
+      const action = req.params.action;
+      if (!['approve', 'reject'].includes(action)) {
+        return res.status(400).json({ message: "Invalid action" });
+      }
+
+      const proposalId = await quoteAccessService.resolveProposalToken(req.params.token);
+      const proposal = proposalId !== undefined ? await storage.getProposal(proposalId) : undefined;
+
+      if (!proposal) {
+        return res.status(404).json({ message: INVALID_ACCESS_LINK_MESSAGE });
+      }
+      if (proposal.status !== 'pending') {
+        return res.status(400).json({ message: `This proposal has already been ${proposal.status}.` });
+      }
+
+      const details = await proposalService.getProposalDetails(proposal);
+      if (details.quotes.some((quote) => quote.status === 'pending_approval')) {
+        return res.status(403).json({ message: "This proposal is being finalized. Please check back soon." });
+      }
+      if (action === 'approve' && proposalService.isExpired(details)) {
+        return res.status(400).json({ message: "Pricing in this proposal has expired. Please contact us for an updated proposal." });
+      }
+
+      // Approval is signed as for a single quote: every quote in the proposal and the proposal PDF itself
+      let signature;
+      if (action === 'approve') {
+        signature = quoteSignatureService.validate(req.body.signature);
+
+        const organization = await storage.getOrganizationByUserId(proposal.userId);
+        await proposalService.signProposal(details, signature, {
+          ipAddress: req.ip || null,
+          userAgent: req.get('user-agent') || null,
+        }, organization?.name || 'Unknown Organization');
+      }
+
+      const updatedProposal = await proposalService.respondToProposal(details, action as 'approve' | 'reject');
+
+      // The customer's feedback joins the comment thread of every quote in the proposal
+      const feedback = req.body.feedback;
+      if (feedback?.trim()) {
+        const origin = `${req.protocol}://${req.get('host')}`;
+        for (const quote of details.quotes) {
+          try {
+            await quoteCommentService.addComment(quote, {
+              type: 'customer',
+              name: signature?.signerName || proposal.customerContactName || 'Customer',
+            }, feedback, origin);
+          } catch (commentError) {
+            console.error(`❌ Failed to save feedback for quote ${quote.quoteNumber}:`, commentError);
+          }
+        }
+      }
+
+      // Update the HubSpot deal of every quote that was pending (async, don't block response)
+      const status = action === 'approve' ? 'approved' : 'rejected';
+      (async () => {
+        for (const quote of details.quotes.filter((q) => q.status === 'pending')) {
+          try {
+            await hubspotService.updateDealStatus(quote.id, status);
+            console.log(`HubSpot deal status updated for quote ${quote.quoteNumber}`);
+          } catch (hubspotError) {
+            console.error(`Failed to update HubSpot deal status for quote ${quote.quoteNumber}:`, hubspotError);
+          }
+        }
+      })();
+
+      res.json({
+        success: true,
+        message: `Proposal ${action}d successfully`,
+        proposal: updatedProposal,
+      });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating proposal status:", error);
+      res.status(500).json({ message: "Failed to update proposal" });
+    }
+  });
+
   // File serving routes
   app.get('/api/files/pdf/:filename', (req, res) => {
     const filename = req.params.filename;
@@ -618,7 +1690,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Organization not found" });
       }
 
-      const result = await hubspotService.syncQuoteToHubSpot(quote, quote.assessment, organization);
+      const result = await hubspotService.syncQuoteToHubSpot(quote, quote.assessment, organization, await quoteService.getLineItems(quote));
       
       res.json({
         success: true,
@@ -791,9 +1863,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         laborHoldHours: quotes.laborHoldHours,
         laborHoldCost: quotes.laborHoldCost,
         hourlyRate: quotes.hourlyRate,
+        subtotal: quotes.subtotal,
+        taxRegion: quotes.taxRegion,
+        taxRate: quotes.taxRate,
+        taxAmount: quotes.taxAmount,
+        travelMiles: quotes.travelMiles,
+        travelCost: quotes.travelCost,
+        monthlyTotal: quotes.monthlyTotal,
+        termMonths: quotes.termMonths,
         status: quotes.status,
         pdfUrl: quotes.pdfUrl,
         emailSent: quotes.emailSent,
+        expiresAt: quotes.expiresAt,
+        rateCardVersionId: quotes.rateCardVersionId,
+        approvalStatus: quotes.approvalStatus,
+        approvalReasons: quotes.approvalReasons,
+        approvalNote: quotes.approvalNote,
+        changeRequest: quotes.changeRequest,
+        commissionRate: quotes.commissionRate,
+        commissionBasis: quotes.commissionBasis,
+        commissionAmount: quotes.commissionAmount,
         createdAt: quotes.createdAt,
         updatedAt: quotes.updatedAt,
         serviceType: assessments.serviceType,
@@ -808,12 +1897,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userFirstName: users.firstName,
         userLastName: users.lastName,
         organizationName: organizations.name,
+        rateCardVersionNumber: rateCardVersions.versionNumber,
         assessment: assessments,
       })
       .from(quotes)
       .leftJoin(assessments, eq(quotes.assessmentId, assessments.id))
       .leftJoin(users, eq(assessments.userId, users.id))
       .leftJoin(organizations, eq(assessments.organizationId, organizations.id))
+      .leftJoin(rateCardVersions, eq(quotes.rateCardVersionId, rateCardVersions.id))
       .orderBy(desc(quotes.createdAt));
       
 
@@ -892,19 +1983,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         laborHoldHours: quotes.laborHoldHours,
         laborHoldCost: quotes.laborHoldCost,
         hourlyRate: quotes.hourlyRate,
+        subtotal: quotes.subtotal,
+        taxRegion: quotes.taxRegion,
+        taxRate: quotes.taxRate,
+        taxAmount: quotes.taxAmount,
+        travelMiles: quotes.travelMiles,
+        travelCost: quotes.travelCost,
+        monthlyTotal: quotes.monthlyTotal,
+        termMonths: quotes.termMonths,
+        pricingTrace: quotes.pricingTrace,
+        vehicleLabor: quotes.vehicleLabor,
         status: quotes.status,
         pdfUrl: quotes.pdfUrl,
         emailSent: quotes.emailSent,
+        expiresAt: quotes.expiresAt,
+        rateCardVersionId: quotes.rateCardVersionId,
+        approvalStatus: quotes.approvalStatus,
+        approvalReasons: quotes.approvalReasons,
+        approvalNote: quotes.approvalNote,
+        changeRequest: quotes.changeRequest,
+        commissionRate: quotes.commissionRate,
+        commissionBasis: quotes.commissionBasis,
+        commissionAmount: quotes.commissionAmount,
         createdAt: quotes.createdAt,
         updatedAt: quotes.updatedAt,
         assessment: assessments,
         user: users,
         organization: organizations,
+        rateCardVersion: rateCardVersions,
       })
       .from(quotes)
       .leftJoin(assessments, eq(quotes.assessmentId, assessments.id))
       .leftJoin(users, eq(assessments.userId, users.id))
       .leftJoin(organizations, eq(assessments.organizationId, organizations.id))
+      .leftJoin(rateCardVersions, eq(quotes.rateCardVersionId, rateCardVersions.id))
       .where(eq(quotes.id, parseInt(id)))
       .limit(1);
       
@@ -912,13 +2024,413 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Quote not found" });
       }
       
-      res.json(quoteDetails[0]);
+      const lineItems = await quoteService.getLineItems(quoteDetails[0]);
+      const recurringItems = await quoteService.getRecurringItems(quoteDetails[0].id);
+      const signature = await quoteSignatureService.getSignature(quoteDetails[0].id);
+      const comments = await quoteCommentService.getComments(quoteDetails[0].id);
+      res.json({ ...quoteDetails[0], lineItems, recurringItems, signature: signature || null, comments });
     } catch (error) {
       console.error("Error fetching quote details:", error);
       res.status(500).json({ message: "Failed to fetch quote details" });
     }
   });
 
+  // Admin organization pricing routes
+  app.get('/api/admin/organizations/:id/pricing', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const organization = await storage.getOrganization(organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const overrides = await storage.getOrganizationPricingOverrides(organizationId);
+      res.json({ organization, overrides });
+    } catch (error) {
+      console.error("Error fetching organization pricing:", error);
+      res.status(500).json({ message: "Failed to fetch organization pricing" });
+    }
+  });
+
+  app.put('/api/admin/organizations/:id/pricing', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const { commission, partnerType, overrides } = req.body;
+      const userId = req.user.claims.sub;
+
+      await partnerPricingService.updateOrganizationPricing(organizationId, { commission, partnerType, overrides }, userId);
+
+      const organization = await storage.getOrganization(organizationId);
+      const updatedOverrides = await storage.getOrganizationPricingOverrides(organizationId);
+      res.json({ organization, overrides: updatedOverrides });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating organization pricing:", error);
+      res.status(500).json({ message: "Failed to update organization pricing" });
+    }
+  });
+
+  // Admin organization quote numbering routes
+  app.get('/api/admin/organizations/:id/quote-numbering', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const organization = await storage.getOrganization(organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      res.json({
+        organization,
+        defaults: { quoteNumberPrefix: DEFAULT_QUOTE_NUMBER_PREFIX, quoteNumberFormat: DEFAULT_QUOTE_NUMBER_FORMAT },
+        example: quoteNumberService.preview(organization),
+      });
+    } catch (error) {
+      console.error("Error fetching organization quote numbering:", error);
+      res.status(500).json({ message: "Failed to fetch quote numbering" });
+    }
+  });
+
+  app.put('/api/admin/organizations/:id/quote-numbering', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const { quoteNumberPrefix, quoteNumberFormat } = req.body;
+
+      const organization = await quoteNumberService.updateOrganizationNumbering(organizationId, { quoteNumberPrefix, quoteNumberFormat });
+
+      res.json({
+        organization,
+        defaults: { quoteNumberPrefix: DEFAULT_QUOTE_NUMBER_PREFIX, quoteNumberFormat: DEFAULT_QUOTE_NUMBER_FORMAT },
+        example: quoteNumberService.preview(organization),
+      });
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating organization quote numbering:", error);
+      res.status(500).json({ message: "Failed to update quote numbering" });
+    }
+  });
+
+  // Admin organization base location routes
+  app.get('/api/admin/organizations/:id/base-location', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const organization = await storage.getOrganization(organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const location = await geocodingService.geocode(organization.baseAddress);
+      res.json({ organization, location: location ?? null });
+    } catch (error) {
+      console.error("Error fetching organization base location:", error);
+      res.status(500).json({ message: "Failed to fetch base location" });
+    }
+  });
+
+  app.put('/api/admin/organizations/:id/base-location', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+
+      const result = await travelService.updateBaseLocation(organizationId, req.body.baseAddress);
+
+      res.json(result);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating organization base location:", error);
+      res.status(500).json({ message: "Failed to update base location" });
+    }
+  });
+
+  // Admin promo code routes
+  app.get('/api/admin/promo-codes', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const promoCodes = await storage.getPromoCodes();
+      res.json(promoCodes);
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+      res.status(500).json({ message: "Failed to fetch promo codes" });
+    }
+  });
+
+  app.post('/api/admin/promo-codes', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const promoCode = await discountService.createPromoCode(req.body, userId);
+
+      res.json(promoCode);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ message: "Failed to create promo code" });
+    }
+  });
+
+  app.put('/api/admin/promo-codes/:id', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const promoCodeId = parseInt(req.params.id);
+
+      const promoCode = await discountService.updatePromoCode(promoCodeId, req.body);
+
+      res.json(promoCode);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating promo code:", error);
+      res.status(500).json({ message: "Failed to update promo code" });
+    }
+  });
+
+  // Admin tax rate routes
+  app.get('/api/admin/tax-rates', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const rates = await taxService.getRates();
+      res.json(rates);
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+      res.status(500).json({ message: "Failed to fetch tax rates" });
+    }
+  });
+
+  app.put('/api/admin/tax-rates/:region', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { rate, laborTaxable } = req.body;
+
+      const taxRate = await taxService.updateRate(req.params.region, { rate, laborTaxable });
+
+      res.json(taxRate);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating tax rate:", error);
+      res.status(500).json({ message: "Failed to update tax rate" });
+    }
+  });
+
+  // Admin travel band routes
+  app.get('/api/admin/travel-bands', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const bands = await travelService.getBands();
+      res.json(bands);
+    } catch (error) {
+      console.error("Error fetching travel bands:", error);
+      res.status(500).json({ message: "Failed to fetch travel bands" });
+    }
+  });
+
+  app.put('/api/admin/travel-bands', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const bands = await travelService.replaceBands(req.body.bands);
+
+      res.json(bands);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating travel bands:", error);
+      res.status(500).json({ message: "Failed to update travel bands" });
+    }
+  });
+
+  // Admin vehicle class routes
+  app.get('/api/admin/vehicle-classes', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const classes = await vehicleClassService.getClasses();
+      res.json(classes);
+    } catch (error) {
+      console.error("Error fetching vehicle classes:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle classes" });
+    }
+  });
+
+  app.put('/api/admin/vehicle-classes/:code', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { installationMultipliers, cameraMultipliers } = req.body;
+
+      const vehicleClass = await vehicleClassService.updateClass(req.params.code, { installationMultipliers, cameraMultipliers });
+
+      res.json(vehicleClass);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating vehicle class:", error);
+      res.status(500).json({ message: "Failed to update vehicle class" });
+    }
+  });
+
+  // Admin quote approval routes
+  app.get('/api/admin/approval-rules', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const rules = await quoteApprovalService.getRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching approval rules:", error);
+      res.status(500).json({ message: "Failed to fetch approval rules" });
+    }
+  });
+
+  app.put('/api/admin/approval-rules', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const rules = await quoteApprovalService.replaceRules(req.body.rules);
+
+      res.json(rules);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating approval rules:", error);
+      res.status(500).json({ message: "Failed to update approval rules" });
+    }
+  });
+
+  app.get('/api/admin/quote-approvals', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const queue = await quoteApprovalService.getQueue();
+      const lineItems = await quoteService.getLineItemsForQuotes(queue);
+      res.json(queue.map((quote) => ({ ...quote, lineItems: lineItems.get(quote.id) || [] })));
+    } catch (error) {
+      console.error("Error fetching quote approval queue:", error);
+      res.status(500).json({ message: "Failed to fetch quotes awaiting approval" });
+    }
+  });
+
+  app.post('/api/admin/quote-approvals/:id/:decision', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const decision = req.params.decision;
+      const userId = req.user.claims.sub;
+
+      if (!['approve', 'reject'].includes(decision)) {
+        return res.status(400).json({ message: "Invalid decision" });
+      }
+
+      const quote = decision === 'approve'
+        ? await quoteApprovalService.approveQuote(quoteId, userId, req.body.note)
+        : await quoteApprovalService.rejectQuote(quoteId, userId, req.body.note);
+
+      res.json(quote);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error recording quote approval decision:", error);
+      res.status(500).json({ message: "Failed to record approval decision" });
+    }
+  });
+
+  // Admin product catalog routes
+  app.get('/api/admin/products', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const products = await productService.getProducts();
+      res.json(products);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.post('/api/admin/products', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const product = await productService.createProduct(req.body);
+
+      res.json(product);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error creating product:", error);
+      res.status(500).json({ message: "Failed to create product" });
+    }
+  });
+
+  app.put('/api/admin/products/:id', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+
+      const product = await productService.updateProduct(productId, req.body);
+
+      res.json(product);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error updating product:", error);
+      res.status(500).json({ message: "Failed to update product" });
+    }
+  });
+
+  // Admin rate card routes
+  app.get('/api/admin/rate-card', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const versions = await rateCardService.getVersions();
+      const activeVersion = await rateCardService.getActiveVersion();
+      const versionId = req.query.versionId ? parseInt(req.query.versionId as string) : activeVersion.id;
+      const entries = await rateCardService.getEntries(versionId);
+      res.json({ versions, activeVersionId: activeVersion.id, versionId, entries });
+    } catch (error) {
+      console.error("Error fetching rate card:", error);
+      res.status(500).json({ message: "Failed to fetch rate card" });
+    }
+  });
+
+  app.post('/api/admin/rate-card/versions', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { changes, effectiveFrom, notes } = req.body;
+      const userId = req.user.claims.sub;
+
+      if (!Array.isArray(changes) || changes.length === 0) {
+        return res.status(400).json({ message: "Rate card changes are required" });
+      }
+
+      const version = await rateCardService.createVersion({ changes, effectiveFrom, notes }, userId);
+
+      res.json(version);
+    } catch (error) {
+      if (handleValidation(res, error)) {
+        return;
+      }
+      console.error("Error creating rate card version:", error);
+      res.status(500).json({ message: "Failed to create rate card version" });
+    }
+  });
+
+  // Admin re-price a pending quote against the current rate card version
+  app.post('/api/admin/quotes/:id/reprice', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const quote = await storage.getQuote(quoteId);
+
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (!quoteService.isOpen(quote)) {
+        return res.status(400).json({ message: "Only pending quotes can be re-priced" });
+      }
+
+      const updatedQuote = await quoteService.repriceQuote(quoteId, {
+        notes: 'Re-priced with current rate card',
+        userId: req.user.claims.sub,
+      });
+      res.json(updatedQuote);
+    } catch (error) {
+      console.error("Error re-pricing quote:", error);
+      res.status(500).json({ message: "Failed to re-price quote" });
+    }
+  });
+
   // Admin assessment download as PDF
   app.get('/api/admin/assessments/:id/download', isAuthenticated, isAdmin, async (req, res) => {
     try {
@@ -982,6 +2494,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get all quotes for mapping
       const allQuotes = await db.select().from(quotes);
       const quotesMap = new Map(allQuotes.map(q => [q.assessmentId, q]));
+      const lineItemsMap = await quoteService.getLineItemsForQuotes(allQuotes);
       
       // Transform data for CSV export
       const csvData = allAssessments.map(row => {
@@ -989,6 +2502,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const user = row.users;
         const organization = row.organizations;
         const quote = quotesMap.get(assessment.id);
+        const lineItems = quote ? lineItemsMap.get(quote.id) || [] : [];
         
         return {
           // Assessment Info
@@ -1066,6 +2580,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           'Vehicle Make': assessment.vehicleMake,
           'Vehicle Model': assessment.vehicleModel,
           'Tracker Type': assessment.trackerType,
+          'Installation Method': assessment.installationMethod,
+          'Vehicle Class': assessment.vehicleClass,
           'IoT Tracking Partner': assessment.iotTrackingPartner,
           'Carrier SIM': assessment.carrierSim,
           
@@ -1085,6 +2601,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           'Labor Hold Hours': quote?.laborHoldHours,
           'Labor Hold Cost': quote?.laborHoldCost,
           'Hourly Rate': quote?.hourlyRate,
+          'Line Items': lineItems
+            .map(item => `${item.description}: ${item.quantity} ${item.unit} x $${item.unitPrice.toFixed(2)} = $${item.total.toFixed(2)}`)
+            .join('; '),
           'Quote Status': quote?.status,
           'PDF URL': quote?.pdfUrl,
           'Email Sent': quote?.emailSent,
@@ -226,6 +226,8 @@ function addFleetTrackingDetails(doc: PDFKit.PDFDocument, assessment: Assessment
   addField(doc, 'Total Fleet Size', assessment.totalFleetSize?.toString());
   addField(doc, 'Vehicles for Installation', assessment.deviceCount?.toString());
   addField(doc, 'Tracker Type', assessment.trackerType);
+  addField(doc, 'Installation Method', assessment.installationMethod);
+  addField(doc, 'Vehicle Class', assessment.vehicleClass);
   addField(doc, 'IoT Tracking Partner', assessment.iotTrackingPartner);
   addField(doc, 'Carrier SIM', assessment.carrierSim);
   
@@ -246,6 +248,7 @@ function addFleetCameraDetails(doc: PDFKit.PDFDocument, assessment: Assessment)
   addField(doc, 'Camera Solution Type', assessment.cameraSolutionType);
   addField(doc, 'Number of Cameras', assessment.numberOfCameras?.toString());
   addField(doc, 'Vehicles for Installation', assessment.deviceCount?.toString());
+  addField(doc, 'Vehicle Class', assessment.vehicleClass);
   addField(doc, 'Carrier SIM', assessment.carrierSim);
   
   // Existing System Information
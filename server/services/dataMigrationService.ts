@@ -0,0 +1,28 @@
+import { storage } from '../storage';
+
+export class DataMigrationService {
+  /**
+   * Fleet tracking assessments used to keep their installation method in ceilingType, a
+   * Fixed Wireless field. Move it to installationMethod; rows already moved are skipped.
+   */
+  async migrateFleetInstallationMethods(): Promise<number> {
+    const moved = await storage.moveFleetInstallationMethods();
+    if (moved.length > 0) {
+      console.log(`🚚 Moved the installation method of ${moved.length} fleet tracking assessment(s) out of ceilingType`);
+    }
+    return moved.length;
+  }
+
+  /**
+   * Run every data migration. Each is safe to run again, so this runs on every start.
+   */
+  async run(): Promise<void> {
+    try {
+      await this.migrateFleetInstallationMethods();
+    } catch (error) {
+      console.error('❌ Data migration failed:', error);
+    }
+  }
+}
+
+export const dataMigrationService = new DataMigrationService();
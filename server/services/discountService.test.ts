@@ -0,0 +1,114 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PromoCode, QuoteAdjustment } from '@shared/schema';
+import { storage } from '../storage';
+import { ValidationError } from '../errors';
+import { discountService } from './discountService';
+
+const promoCode = {
+  id: 7,
+  code: 'SPRING10',
+  discountType: 'percent',
+  discountValue: '10.00',
+  maxRedemptions: 2,
+  redemptionCount: 1,
+  expiresAt: null,
+  isActive: true,
+} as PromoCode;
+
+const adjustment = { id: 3, quoteId: 1, promoCodeId: 7, type: 'percent', description: 'Promo SPRING10 (10%)', value: '10.00' } as QuoteAdjustment;
+
+function mockQuote(status = 'pending') {
+  mock.method(storage, 'getQuote', async () => ({ id: 1, status, expiresAt: null }));
+}
+
+describe('discountService.validatePromoCode', () => {
+  it('accepts a positive whole redemption limit', () => {
+    const validated = discountService.validatePromoCode({ code: 'spring10', discountType: 'percent', discountValue: 10, maxRedemptions: '5' });
+    assert.equal(validated.code, 'SPRING10');
+    assert.equal(validated.maxRedemptions, 5);
+  });
+
+  it('treats a blank redemption limit as unlimited', () => {
+    const validated = discountService.validatePromoCode({ code: 'SPRING10', discountType: 'fixed', discountValue: 50, maxRedemptions: '' });
+    assert.equal(validated.maxRedemptions, null);
+  });
+
+  it('rejects a redemption limit that is not a positive number', () => {
+    for (const maxRedemptions of [0, '-1', 'ten']) {
+      assert.throws(
+        () => discountService.validatePromoCode({ code: 'SPRING10', discountType: 'percent', discountValue: 10, maxRedemptions }),
+        ValidationError
+      );
+    }
+  });
+});
+
+describe('discountService.applyPromoCode', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('redeems a code under its limit as a quote adjustment', async () => {
+    mockQuote();
+    mock.method(storage, 'getPromoCodeByCode', async () => promoCode);
+    const redeem = mock.method(storage, 'redeemPromoCodeOnQuote', async () => ({
+      status: 'redeemed',
+      promoCode: { ...promoCode, redemptionCount: 2 },
+      adjustment,
+    }));
+
+    assert.equal(await discountService.applyPromoCode(1, ' spring10 ', 'user-1'), adjustment);
+    assert.equal(redeem.mock.calls[0].arguments[0], promoCode.id);
+  });
+
+  it('refuses a code that has reached its redemption limit', async () => {
+    mockQuote();
+    mock.method(storage, 'getPromoCodeByCode', async () => promoCode);
+    mock.method(storage, 'redeemPromoCodeOnQuote', async () => ({ status: 'limit_reached' }));
+
+    await assert.rejects(discountService.applyPromoCode(1, 'SPRING10', 'user-1'), {
+      name: 'ValidationError',
+      message: 'Promo code SPRING10 has reached its redemption limit',
+    });
+  });
+
+  it('refuses a second promo code on the same quote', async () => {
+    mockQuote();
+    mock.method(storage, 'getPromoCodeByCode', async () => promoCode);
+    mock.method(storage, 'redeemPromoCodeOnQuote', async () => ({ status: 'already_applied' }));
+
+    await assert.rejects(discountService.applyPromoCode(1, 'SPRING10', 'user-1'), {
+      message: 'A promo code has already been applied to this quote',
+    });
+  });
+
+  it('refuses an expired code without redeeming it', async () => {
+    mockQuote();
+    mock.method(storage, 'getPromoCodeByCode', async () => ({ ...promoCode, expiresAt: new Date(Date.now() - 1000) }));
+    const redeem = mock.method(storage, 'redeemPromoCodeOnQuote', async () => ({ status: 'limit_reached' }));
+
+    await assert.rejects(discountService.applyPromoCode(1, 'SPRING10', 'user-1'), {
+      message: 'Promo code SPRING10 has expired',
+    });
+    assert.equal(redeem.mock.callCount(), 0);
+  });
+
+  it('refuses quotes that are no longer open', async () => {
+    mockQuote('approved');
+
+    await assert.rejects(discountService.applyPromoCode(1, 'SPRING10', 'user-1'), {
+      message: 'Only pending quotes can be discounted or adjusted',
+    });
+  });
+});
+
+describe('discountService.discardAdjustment', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('releases the promo code redemption of the adjustment', async () => {
+    mock.method(storage, 'deleteQuoteAdjustment', async () => {});
+    const release = mock.method(storage, 'releasePromoCode', async () => {});
+
+    await discountService.discardAdjustment(adjustment);
+    assert.deepEqual(release.mock.calls.map((call) => call.arguments), [[7]]);
+  });
+});
@@ -0,0 +1,213 @@
+import type { InsertPromoCode, PromoCode, QuoteAdjustment } from '@shared/schema';
+import { storage } from '../storage';
+import { quoteService } from './quoteService';
+import { ValidationError } from '../errors';
+
+export interface PromoCodeInput {
+  code?: string;
+  description?: string | null;
+  discountType?: string;
+  discountValue?: string | number;
+  maxRedemptions?: string | number | null;
+  expiresAt?: string | null;
+  isActive?: boolean;
+}
+
+export interface AdjustmentInput {
+  type?: string;
+  value?: string | number;
+  description?: string;
+  reason?: string;
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export class DiscountService {
+  /**
+   * Validate and normalize promo code settings
+   */
+  validatePromoCode(input: PromoCodeInput): InsertPromoCode {
+    const code = (input.code || '').trim().toUpperCase();
+    if (!CODE_PATTERN.test(code)) {
+      throw new ValidationError('Code must be 3-32 letters, digits, dashes or underscores');
+    }
+
+    if (input.discountType !== 'percent' && input.discountType !== 'fixed') {
+      throw new ValidationError('Discount type must be percent or fixed');
+    }
+
+    const discountValue = parseFloat(String(input.discountValue));
+    validateDiscount(input.discountType, discountValue);
+
+    let maxRedemptions: number | null = null;
+    if (input.maxRedemptions !== undefined && input.maxRedemptions !== null && input.maxRedemptions !== '') {
+      maxRedemptions = parseInt(String(input.maxRedemptions));
+      if (!Number.isInteger(maxRedemptions) || maxRedemptions <= 0) {
+        throw new ValidationError('Redemption limit must be a positive whole number');
+      }
+    }
+
+    let expiresAt: Date | null = null;
+    if (input.expiresAt) {
+      expiresAt = new Date(input.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        throw new ValidationError('Expiry must be a valid date');
+      }
+    }
+
+    return {
+      code,
+      description: input.description?.trim() || null,
+      discountType: input.discountType,
+      discountValue: discountValue.toFixed(2),
+      maxRedemptions,
+      expiresAt,
+      isActive: input.isActive ?? true,
+    };
+  }
+
+  /**
+   * Create a promo code
+   */
+  async createPromoCode(input: PromoCodeInput, userId: string): Promise<PromoCode> {
+    const promoCode = this.validatePromoCode(input);
+    if (await storage.getPromoCodeByCode(promoCode.code)) {
+      throw new ValidationError(`Promo code ${promoCode.code} already exists`);
+    }
+
+    const created = await storage.createPromoCode({ ...promoCode, createdBy: userId });
+    console.log(`🏷️ Promo code ${created.code} created`);
+    return created;
+  }
+
+  /**
+   * Update a promo code. Quotes it was already applied to keep their discount.
+   */
+  async updatePromoCode(id: number, input: PromoCodeInput): Promise<PromoCode> {
+    const existing = await storage.getPromoCode(id);
+    if (!existing) {
+      throw new ValidationError('Promo code not found');
+    }
+
+    const promoCode = this.validatePromoCode({ ...input, code: existing.code });
+    return await storage.updatePromoCode(id, promoCode);
+  }
+
+  /**
+   * Add a percentage discount, fixed discount or manual adjustment to a pending quote
+   */
+  async addAdjustment(quoteId: number, input: AdjustmentInput, userId: string): Promise<QuoteAdjustment> {
+    await this.getPendingQuote(quoteId);
+
+    const value = parseFloat(String(input.value));
+    const reason = input.reason?.trim() || null;
+    let description = input.description?.trim();
+
+    if (input.type === 'percent' || input.type === 'fixed') {
+      validateDiscount(input.type, value);
+      description = description || (input.type === 'percent' ? `Discount (${value}%)` : 'Discount');
+    } else if (input.type === 'manual') {
+      if (!Number.isFinite(value) || value === 0) {
+        throw new ValidationError('Adjustment amount must be a non-zero number');
+      }
+      if (!description) {
+        throw new ValidationError('A description is required for manual adjustments');
+      }
+      if (!reason) {
+        throw new ValidationError('A reason is required for manual adjustments');
+      }
+    } else {
+      throw new ValidationError('Adjustment type must be percent, fixed or manual');
+    }
+
+    return await storage.createQuoteAdjustment({
+      quoteId,
+      type: input.type,
+      description,
+      value: value.toFixed(2),
+      reason,
+      createdBy: userId,
+    });
+  }
+
+  /**
+   * Redeem a promo code against a pending quote. A quote can carry one promo code.
+   */
+  async applyPromoCode(quoteId: number, code: string, userId: string): Promise<QuoteAdjustment> {
+    await this.getPendingQuote(quoteId);
+
+    const promoCode = await storage.getPromoCodeByCode((code || '').trim().toUpperCase());
+    if (!promoCode || !promoCode.isActive) {
+      throw new ValidationError('Promo code not found');
+    }
+    if (promoCode.expiresAt && new Date(promoCode.expiresAt) <= new Date()) {
+      throw new ValidationError(`Promo code ${promoCode.code} has expired`);
+    }
+
+    const value = parseFloat(promoCode.discountValue);
+    const redemption = await storage.redeemPromoCodeOnQuote(promoCode.id, {
+      quoteId,
+      type: promoCode.discountType,
+      description: `Promo ${promoCode.code}` + (promoCode.discountType === 'percent' ? ` (${value}%)` : ''),
+      value: promoCode.discountValue,
+      createdBy: userId,
+    }, new Date());
+    if (redemption.status !== 'redeemed') {
+      throw new ValidationError(redemption.status === 'already_applied'
+        ? 'A promo code has already been applied to this quote'
+        : `Promo code ${promoCode.code} has reached its redemption limit`);
+    }
+
+    const { promoCode: redeemed } = redemption;
+    console.log(`🏷️ Promo code ${redeemed.code} redeemed (${redeemed.redemptionCount}/${redeemed.maxRedemptions ?? 'unlimited'})`);
+    return redemption.adjustment;
+  }
+
+  /**
+   * Remove a discount or adjustment from a pending quote, releasing its promo code redemption
+   */
+  async removeAdjustment(quoteId: number, adjustmentId: number): Promise<QuoteAdjustment> {
+    await this.getPendingQuote(quoteId);
+
+    const adjustments = await storage.getQuoteAdjustments(quoteId);
+    const adjustment = adjustments.find((a) => a.id === adjustmentId);
+    if (!adjustment) {
+      throw new ValidationError('Adjustment not found');
+    }
+
+    await this.discardAdjustment(adjustment);
+    return adjustment;
+  }
+
+  /**
+   * Delete an adjustment and release its promo code redemption, e.g. when the quote could not be re-priced with it
+   */
+  async discardAdjustment(adjustment: QuoteAdjustment): Promise<void> {
+    await storage.deleteQuoteAdjustment(adjustment.id);
+    if (adjustment.promoCodeId) {
+      await storage.releasePromoCode(adjustment.promoCodeId);
+    }
+  }
+
+  private async getPendingQuote(quoteId: number) {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+    if (!quoteService.isOpen(quote) || quoteService.isExpired(quote)) {
+      throw new ValidationError('Only pending quotes can be discounted or adjusted');
+    }
+    return quote;
+  }
+}
+
+function validateDiscount(type: 'percent' | 'fixed', value: number): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new ValidationError('Discount must be greater than zero');
+  }
+  if (type === 'percent' && value > 100) {
+    throw new ValidationError('Percentage discount cannot exceed 100%');
+  }
+}
+
+export const discountService = new DiscountService();
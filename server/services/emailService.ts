@@ -10,6 +10,87 @@ interface InvitationEmailData {
   companyName?: string;
 }
 
+interface QuoteCommentEmailData {
+  recipientEmail: string;
+  recipientName?: string;
+  authorName: string;
+  quoteNumber: string;
+  message: string;
+  link: string;
+}
+
+interface ChangeRequestEmailData {
+  recipientEmail: string;
+  recipientName?: string;
+  customerName: string;
+  quoteNumber: string;
+  changes: { label: string; details: string }[];
+  link: string;
+}
+
+// Comments are typed by customers and partners, so they are escaped before going into the HTML
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const generateQuoteCommentHTML = (data: QuoteCommentEmailData): string => {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>New comment on quote ${escapeHtml(data.quoteNumber)}</title>
+</head>
+<body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f8f9fa;">
+    <div style="background-color: white; border-radius: 12px; padding: 32px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+        <h2 style="color: #1e40af; margin-top: 0;">New comment on quote #${escapeHtml(data.quoteNumber)}</h2>
+        <p>Hello${data.recipientName ? ' ' + escapeHtml(data.recipientName) : ''},</p>
+        <p>${escapeHtml(data.authorName)} wrote:</p>
+        <blockquote style="border-left: 4px solid #1e40af; margin: 16px 0; padding: 8px 16px; background-color: #f1f5f9; white-space: pre-wrap;">${escapeHtml(data.message)}</blockquote>
+        <p style="text-align: center; margin: 24px 0;">
+            <a href="${data.link}" style="display: inline-block; background-color: #1e40af; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">View Quote &amp; Reply</a>
+        </p>
+        <p style="font-size: 12px; color: #6b7280;">You are receiving this email because you are part of the conversation on this quote.</p>
+    </div>
+</body>
+</html>
+  `;
+};
+
+const generateChangeRequestHTML = (data: ChangeRequestEmailData): string => {
+  const rows = data.changes
+    .map((change) => `<tr><td style="padding: 8px; border-bottom: 1px solid #e5e7eb; font-weight: 600; vertical-align: top;">${escapeHtml(change.label)}</td><td style="padding: 8px; border-bottom: 1px solid #e5e7eb; white-space: pre-wrap;">${escapeHtml(change.details)}</td></tr>`)
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Changes requested on quote ${escapeHtml(data.quoteNumber)}</title>
+</head>
+<body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f8f9fa;">
+    <div style="background-color: white; border-radius: 12px; padding: 32px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+        <h2 style="color: #1e40af; margin-top: 0;">Changes requested on quote #${escapeHtml(data.quoteNumber)}</h2>
+        <p>Hello${data.recipientName ? ' ' + escapeHtml(data.recipientName) : ''},</p>
+        <p>${escapeHtml(data.customerName)} would like the following changes before approving:</p>
+        <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">${rows}</table>
+        <p style="text-align: center; margin: 24px 0;">
+            <a href="${data.link}" style="display: inline-block; background-color: #1e40af; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">Revise the Quote</a>
+        </p>
+        <p style="font-size: 12px; color: #6b7280;">Update the assessment and re-quote to send the customer a new revision.</p>
+    </div>
+</body>
+</html>
+  `;
+};
+
 // Email template with NXTKonekt branding
 const generateInvitationHTML = (data: InvitationEmailData): string => {
   return `
@@ -321,6 +402,82 @@ For support: support@nxtkonekt.com
     }
   }
 
+  async sendQuoteCommentNotification(data: QuoteCommentEmailData): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    if (!this.transporter) {
+      return {
+        success: false,
+        error: 'Email service not configured. Please set SMTP environment variables.',
+      };
+    }
+
+    try {
+      const result = await this.transporter.sendMail({
+        from: `"NXTKonekt Platform" <${process.env.SMTP_USER}>`,
+        to: data.recipientEmail,
+        subject: `New comment on quote #${data.quoteNumber}`,
+        html: generateQuoteCommentHTML(data),
+        text: `
+Hello${data.recipientName ? ' ' + data.recipientName : ''},
+
+${data.authorName} commented on quote #${data.quoteNumber}:
+
+${data.message}
+
+View the quote and reply: ${data.link}
+        `,
+      });
+
+      return {
+        success: true,
+        messageId: result.messageId,
+      };
+    } catch (error) {
+      console.error('Email sending error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown email error',
+      };
+    }
+  }
+
+  async sendChangeRequestNotification(data: ChangeRequestEmailData): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    if (!this.transporter) {
+      return {
+        success: false,
+        error: 'Email service not configured. Please set SMTP environment variables.',
+      };
+    }
+
+    try {
+      const result = await this.transporter.sendMail({
+        from: `"NXTKonekt Platform" <${process.env.SMTP_USER}>`,
+        to: data.recipientEmail,
+        subject: `Changes requested on quote #${data.quoteNumber}`,
+        html: generateChangeRequestHTML(data),
+        text: `
+Hello${data.recipientName ? ' ' + data.recipientName : ''},
+
+${data.customerName} would like the following changes to quote #${data.quoteNumber} before approving:
+
+${data.changes.map((change) => `- ${change.label}: ${change.details}`).join('\n')}
+
+Revise the quote: ${data.link}
+        `,
+      });
+
+      return {
+        success: true,
+        messageId: result.messageId,
+      };
+    } catch (error) {
+      console.error('Email sending error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown email error',
+      };
+    }
+  }
+
   // Test email configuration
   async testConnection(): Promise<{ success: boolean; error?: string }> {
     console.log("🧪 Testing email connection...");
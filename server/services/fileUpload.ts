@@ -46,6 +46,13 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
     } else {
       cb(new Error('Only image files are allowed for photos'));
     }
+  } else if (fileType === 'tax_certificate') {
+    // Allow scanned or PDF tax exemption certificates
+    if (file.mimetype === 'application/pdf' || file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF or image files are allowed for tax exemption certificates'));
+    }
   } else {
     // Allow document files
     const allowedMimeTypes = [
@@ -75,10 +82,12 @@ export const upload = multer({
   },
 });
 
+export type UploadedFileType = 'photo' | 'document' | 'tax_certificate';
+
 export async function saveFileToDatabase(
   assessmentId: number,
   file: Express.Multer.File,
-  fileType: 'photo' | 'document'
+  fileType: UploadedFileType
 ) {
   return await storage.createUploadedFile({
     assessmentId,
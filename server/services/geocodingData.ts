@@ -0,0 +1,303 @@
+// Offline geocoding dataset: approximate coordinates of US and Canadian cities and towns,
+// plus a central point for each state and province used when no listed place matches.
+// Rows are [name, region, latitude, longitude].
+
+export type PlaceRow = [string, string, number, number];
+
+export const REGION_CENTERS: PlaceRow[] = [
+  ['Alabama', 'AL', 32.81, -86.79], ['Alaska', 'AK', 61.37, -152.40], ['Arizona', 'AZ', 33.73, -111.43],
+  ['Arkansas', 'AR', 34.97, -92.37], ['California', 'CA', 36.78, -119.42], ['Colorado', 'CO', 39.06, -105.31],
+  ['Connecticut', 'CT', 41.60, -72.76], ['Delaware', 'DE', 39.32, -75.51], ['District of Columbia', 'DC', 38.90, -77.03],
+  ['Florida', 'FL', 27.77, -81.69], ['Georgia', 'GA', 33.04, -83.64], ['Hawaii', 'HI', 21.09, -157.50],
+  ['Idaho', 'ID', 44.24, -114.48], ['Illinois', 'IL', 40.35, -88.99], ['Indiana', 'IN', 39.85, -86.26],
+  ['Iowa', 'IA', 42.01, -93.21], ['Kansas', 'KS', 38.53, -96.73], ['Kentucky', 'KY', 37.67, -84.67],
+  ['Louisiana', 'LA', 31.17, -91.87], ['Maine', 'ME', 44.69, -69.38], ['Maryland', 'MD', 39.06, -76.80],
+  ['Massachusetts', 'MA', 42.23, -71.53], ['Michigan', 'MI', 43.33, -84.54], ['Minnesota', 'MN', 45.69, -93.90],
+  ['Mississippi', 'MS', 32.74, -89.68], ['Missouri', 'MO', 38.46, -92.29], ['Montana', 'MT', 46.92, -110.45],
+  ['Nebraska', 'NE', 41.13, -98.27], ['Nevada', 'NV', 38.31, -117.06], ['New Hampshire', 'NH', 43.45, -71.56],
+  ['New Jersey', 'NJ', 40.30, -74.52], ['New Mexico', 'NM', 34.84, -106.25], ['New York', 'NY', 42.17, -74.95],
+  ['North Carolina', 'NC', 35.63, -79.81], ['North Dakota', 'ND', 47.53, -99.78], ['Ohio', 'OH', 40.39, -82.76],
+  ['Oklahoma', 'OK', 35.57, -96.93], ['Oregon', 'OR', 44.57, -122.07], ['Pennsylvania', 'PA', 40.59, -77.21],
+  ['Rhode Island', 'RI', 41.68, -71.51], ['South Carolina', 'SC', 33.86, -80.95], ['South Dakota', 'SD', 44.30, -99.44],
+  ['Tennessee', 'TN', 35.75, -86.69], ['Texas', 'TX', 31.05, -97.56], ['Utah', 'UT', 40.15, -111.86],
+  ['Vermont', 'VT', 44.05, -72.71], ['Virginia', 'VA', 37.77, -78.17], ['Washington', 'WA', 47.40, -121.49],
+  ['West Virginia', 'WV', 38.49, -80.95], ['Wisconsin', 'WI', 44.27, -89.62], ['Wyoming', 'WY', 42.76, -107.30],
+  ['Alberta', 'AB', 53.93, -116.58], ['British Columbia', 'BC', 53.73, -127.65], ['Manitoba', 'MB', 53.76, -98.81],
+  ['New Brunswick', 'NB', 46.57, -66.46], ['Newfoundland and Labrador', 'NL', 53.14, -57.66], ['Nova Scotia', 'NS', 44.68, -63.74],
+  ['Northwest Territories', 'NT', 64.83, -124.85], ['Nunavut', 'NU', 70.30, -83.11], ['Ontario', 'ON', 51.25, -85.32],
+  ['Prince Edward Island', 'PE', 46.51, -63.42], ['Quebec', 'QC', 52.94, -73.55], ['Saskatchewan', 'SK', 52.94, -106.45],
+  ['Yukon', 'YT', 64.28, -135.00],
+];
+
+export const PLACES: PlaceRow[] = [
+  // Alabama
+  ['Birmingham', 'AL', 33.52, -86.80], ['Montgomery', 'AL', 32.37, -86.30], ['Mobile', 'AL', 30.69, -88.04],
+  ['Huntsville', 'AL', 34.73, -86.59], ['Tuscaloosa', 'AL', 33.21, -87.57], ['Dothan', 'AL', 31.22, -85.39],
+  ['Auburn', 'AL', 32.61, -85.48], ['Florence', 'AL', 34.80, -87.68],
+  // Alaska
+  ['Anchorage', 'AK', 61.22, -149.90], ['Fairbanks', 'AK', 64.84, -147.72], ['Juneau', 'AK', 58.30, -134.42],
+  ['Wasilla', 'AK', 61.58, -149.44], ['Kenai', 'AK', 60.55, -151.26],
+  // Arizona
+  ['Phoenix', 'AZ', 33.45, -112.07], ['Tucson', 'AZ', 32.22, -110.97], ['Mesa', 'AZ', 33.42, -111.83],
+  ['Scottsdale', 'AZ', 33.49, -111.93], ['Flagstaff', 'AZ', 35.20, -111.65], ['Yuma', 'AZ', 32.69, -114.63],
+  ['Prescott', 'AZ', 34.54, -112.47], ['Lake Havasu City', 'AZ', 34.48, -114.32], ['Sierra Vista', 'AZ', 31.55, -110.30],
+  // Arkansas
+  ['Little Rock', 'AR', 34.75, -92.29], ['Fayetteville', 'AR', 36.06, -94.16], ['Fort Smith', 'AR', 35.39, -94.40],
+  ['Jonesboro', 'AR', 35.84, -90.70], ['Texarkana', 'AR', 33.44, -94.04], ['Hot Springs', 'AR', 34.50, -93.06],
+  // California
+  ['Los Angeles', 'CA', 34.05, -118.24], ['San Diego', 'CA', 32.72, -117.16], ['San Francisco', 'CA', 37.77, -122.42],
+  ['San Jose', 'CA', 37.34, -121.89], ['Sacramento', 'CA', 38.58, -121.49], ['Fresno', 'CA', 36.74, -119.79],
+  ['Bakersfield', 'CA', 35.37, -119.02], ['Oakland', 'CA', 37.80, -122.27], ['Riverside', 'CA', 33.95, -117.40],
+  ['San Bernardino', 'CA', 34.11, -117.29], ['Stockton', 'CA', 37.96, -121.29], ['Modesto', 'CA', 37.64, -121.00],
+  ['Santa Barbara', 'CA', 34.42, -119.70], ['Redding', 'CA', 40.59, -122.39], ['Eureka', 'CA', 40.80, -124.16],
+  ['Chico', 'CA', 39.73, -121.84], ['Palm Springs', 'CA', 33.83, -116.55], ['El Centro', 'CA', 32.79, -115.56],
+  ['Salinas', 'CA', 36.68, -121.66], ['San Luis Obispo', 'CA', 35.28, -120.66], ['Barstow', 'CA', 34.90, -117.02],
+  ['Irvine', 'CA', 33.68, -117.83], ['Anaheim', 'CA', 33.84, -117.91], ['Santa Rosa', 'CA', 38.44, -122.71],
+  ['Visalia', 'CA', 36.33, -119.29], ['Merced', 'CA', 37.30, -120.48], ['South Lake Tahoe', 'CA', 38.93, -119.98],
+  // Colorado
+  ['Denver', 'CO', 39.74, -104.99], ['Colorado Springs', 'CO', 38.83, -104.82], ['Aurora', 'CO', 39.73, -104.83],
+  ['Fort Collins', 'CO', 40.59, -105.08], ['Boulder', 'CO', 40.01, -105.27], ['Pueblo', 'CO', 38.25, -104.61],
+  ['Grand Junction', 'CO', 39.06, -108.55], ['Durango', 'CO', 37.28, -107.88], ['Greeley', 'CO', 40.42, -104.71],
+  ['Steamboat Springs', 'CO', 40.48, -106.83], ['Alamosa', 'CO', 37.47, -105.87],
+  // Connecticut
+  ['Hartford', 'CT', 41.76, -72.68], ['New Haven', 'CT', 41.31, -72.92], ['Bridgeport', 'CT', 41.19, -73.20],
+  ['Stamford', 'CT', 41.05, -73.54], ['Waterbury', 'CT', 41.56, -73.05], ['New London', 'CT', 41.36, -72.10],
+  // Delaware
+  ['Wilmington', 'DE', 39.74, -75.55], ['Dover', 'DE', 39.16, -75.52], ['Newark', 'DE', 39.68, -75.75],
+  ['Georgetown', 'DE', 38.69, -75.39],
+  // District of Columbia
+  ['Washington', 'DC', 38.90, -77.04],
+  // Florida
+  ['Miami', 'FL', 25.76, -80.19], ['Orlando', 'FL', 28.54, -81.38], ['Tampa', 'FL', 27.95, -82.46],
+  ['Jacksonville', 'FL', 30.33, -81.66], ['Tallahassee', 'FL', 30.44, -84.28], ['Fort Lauderdale', 'FL', 26.12, -80.14],
+  ['West Palm Beach', 'FL', 26.72, -80.05], ['Fort Myers', 'FL', 26.64, -81.87], ['Naples', 'FL', 26.14, -81.79],
+  ['Gainesville', 'FL', 29.65, -82.32], ['Pensacola', 'FL', 30.42, -87.22], ['Panama City', 'FL', 30.16, -85.66],
+  ['Sarasota', 'FL', 27.34, -82.53], ['Ocala', 'FL', 29.19, -82.14], ['Daytona Beach', 'FL', 29.21, -81.02],
+  ['Key West', 'FL', 24.56, -81.78], ['Lakeland', 'FL', 28.04, -81.95], ['St. Petersburg', 'FL', 27.77, -82.64],
+  // Georgia
+  ['Atlanta', 'GA', 33.75, -84.39], ['Savannah', 'GA', 32.08, -81.09], ['Augusta', 'GA', 33.47, -81.97],
+  ['Columbus', 'GA', 32.46, -84.99], ['Macon', 'GA', 32.84, -83.63], ['Athens', 'GA', 33.96, -83.38],
+  ['Albany', 'GA', 31.58, -84.16], ['Valdosta', 'GA', 30.83, -83.28], ['Brunswick', 'GA', 31.15, -81.49],
+  ['Dalton', 'GA', 34.77, -84.97],
+  // Hawaii
+  ['Honolulu', 'HI', 21.31, -157.86], ['Hilo', 'HI', 19.72, -155.09], ['Kahului', 'HI', 20.89, -156.47],
+  ['Kailua-Kona', 'HI', 19.64, -155.99], ['Lihue', 'HI', 21.98, -159.37],
+  // Idaho
+  ['Boise', 'ID', 43.62, -116.20], ['Idaho Falls', 'ID', 43.49, -112.03], ['Pocatello', 'ID', 42.87, -112.45],
+  ['Coeur d\'Alene', 'ID', 47.68, -116.78], ['Twin Falls', 'ID', 42.56, -114.46], ['Lewiston', 'ID', 46.42, -117.02],
+  ['Nampa', 'ID', 43.54, -116.56],
+  // Illinois
+  ['Chicago', 'IL', 41.88, -87.63], ['Springfield', 'IL', 39.80, -89.64], ['Peoria', 'IL', 40.69, -89.59],
+  ['Rockford', 'IL', 42.27, -89.09], ['Champaign', 'IL', 40.12, -88.24], ['Naperville', 'IL', 41.79, -88.15],
+  ['Joliet', 'IL', 41.53, -88.08], ['Bloomington', 'IL', 40.48, -88.99], ['Carbondale', 'IL', 37.73, -89.22],
+  ['Quincy', 'IL', 39.94, -91.41], ['Decatur', 'IL', 39.84, -88.95],
+  // Indiana
+  ['Indianapolis', 'IN', 39.77, -86.16], ['Fort Wayne', 'IN', 41.08, -85.14], ['Evansville', 'IN', 37.97, -87.57],
+  ['South Bend', 'IN', 41.68, -86.25], ['Lafayette', 'IN', 40.42, -86.88], ['Bloomington', 'IN', 39.17, -86.53],
+  ['Terre Haute', 'IN', 39.47, -87.41], ['Muncie', 'IN', 40.19, -85.39], ['Gary', 'IN', 41.59, -87.35],
+  // Iowa
+  ['Des Moines', 'IA', 41.59, -93.62], ['Cedar Rapids', 'IA', 41.98, -91.67], ['Davenport', 'IA', 41.52, -90.58],
+  ['Sioux City', 'IA', 42.50, -96.40], ['Iowa City', 'IA', 41.66, -91.53], ['Waterloo', 'IA', 42.49, -92.34],
+  ['Dubuque', 'IA', 42.50, -90.66], ['Ames', 'IA', 42.03, -93.62], ['Council Bluffs', 'IA', 41.26, -95.86],
+  ['Mason City', 'IA', 43.15, -93.20],
+  // Kansas
+  ['Wichita', 'KS', 37.69, -97.34], ['Topeka', 'KS', 39.05, -95.68], ['Kansas City', 'KS', 39.11, -94.63],
+  ['Overland Park', 'KS', 38.98, -94.67], ['Lawrence', 'KS', 38.97, -95.24], ['Salina', 'KS', 38.84, -97.61],
+  ['Manhattan', 'KS', 39.18, -96.57], ['Hays', 'KS', 38.88, -99.33], ['Dodge City', 'KS', 37.75, -100.02],
+  ['Garden City', 'KS', 37.97, -100.87], ['Hutchinson', 'KS', 38.06, -97.93],
+  // Kentucky
+  ['Louisville', 'KY', 38.25, -85.76], ['Lexington', 'KY', 38.04, -84.50], ['Bowling Green', 'KY', 36.99, -86.44],
+  ['Owensboro', 'KY', 37.77, -87.11], ['Frankfort', 'KY', 38.20, -84.87], ['Paducah', 'KY', 37.08, -88.60],
+  ['Pikeville', 'KY', 37.48, -82.52], ['London', 'KY', 37.13, -84.08],
+  // Louisiana
+  ['New Orleans', 'LA', 29.95, -90.07], ['Baton Rouge', 'LA', 30.45, -91.19], ['Shreveport', 'LA', 32.53, -93.75],
+  ['Lafayette', 'LA', 30.22, -92.02], ['Lake Charles', 'LA', 30.23, -93.22], ['Monroe', 'LA', 32.51, -92.12],
+  ['Alexandria', 'LA', 31.31, -92.45], ['Houma', 'LA', 29.60, -90.72],
+  // Maine
+  ['Portland', 'ME', 43.66, -70.26], ['Bangor', 'ME', 44.80, -68.77], ['Augusta', 'ME', 44.31, -69.78],
+  ['Lewiston', 'ME', 44.10, -70.21], ['Presque Isle', 'ME', 46.68, -68.02], ['Ellsworth', 'ME', 44.54, -68.42],
+  // Maryland
+  ['Baltimore', 'MD', 39.29, -76.61], ['Annapolis', 'MD', 38.98, -76.49], ['Frederick', 'MD', 39.41, -77.41],
+  ['Hagerstown', 'MD', 39.64, -77.72], ['Salisbury', 'MD', 38.36, -75.60], ['Rockville', 'MD', 39.08, -77.15],
+  ['Cumberland', 'MD', 39.65, -78.76],
+  // Massachusetts
+  ['Boston', 'MA', 42.36, -71.06], ['Worcester', 'MA', 42.26, -71.80], ['Springfield', 'MA', 42.10, -72.59],
+  ['Lowell', 'MA', 42.63, -71.32], ['New Bedford', 'MA', 41.64, -70.93], ['Pittsfield', 'MA', 42.45, -73.25],
+  ['Hyannis', 'MA', 41.65, -70.29],
+  // Michigan
+  ['Detroit', 'MI', 42.33, -83.05], ['Grand Rapids', 'MI', 42.96, -85.67], ['Lansing', 'MI', 42.73, -84.56],
+  ['Ann Arbor', 'MI', 42.28, -83.74], ['Flint', 'MI', 43.01, -83.69], ['Kalamazoo', 'MI', 42.29, -85.59],
+  ['Traverse City', 'MI', 44.76, -85.62], ['Marquette', 'MI', 46.54, -87.40], ['Saginaw', 'MI', 43.42, -83.95],
+  ['Sault Ste. Marie', 'MI', 46.50, -84.35], ['Alpena', 'MI', 45.06, -83.43],
+  // Minnesota
+  ['Minneapolis', 'MN', 44.98, -93.27], ['Saint Paul', 'MN', 44.95, -93.09], ['Duluth', 'MN', 46.79, -92.10],
+  ['Rochester', 'MN', 44.02, -92.47], ['St. Cloud', 'MN', 45.56, -94.16], ['Mankato', 'MN', 44.16, -94.00],
+  ['Bemidji', 'MN', 47.47, -94.88], ['Moorhead', 'MN', 46.87, -96.77], ['Brainerd', 'MN', 46.36, -94.20],
+  // Mississippi
+  ['Jackson', 'MS', 32.30, -90.18], ['Gulfport', 'MS', 30.37, -89.09], ['Hattiesburg', 'MS', 31.33, -89.29],
+  ['Tupelo', 'MS', 34.26, -88.70], ['Meridian', 'MS', 32.36, -88.70], ['Oxford', 'MS', 34.37, -89.52],
+  ['Greenville', 'MS', 33.41, -91.06],
+  // Missouri
+  ['Kansas City', 'MO', 39.10, -94.58], ['St. Louis', 'MO', 38.63, -90.20], ['Springfield', 'MO', 37.21, -93.29],
+  ['Columbia', 'MO', 38.95, -92.33], ['Jefferson City', 'MO', 38.58, -92.17], ['Joplin', 'MO', 37.08, -94.51],
+  ['Cape Girardeau', 'MO', 37.31, -89.52], ['St. Joseph', 'MO', 39.77, -94.85], ['Rolla', 'MO', 37.95, -91.77],
+  // Montana
+  ['Billings', 'MT', 45.78, -108.50], ['Missoula', 'MT', 46.87, -113.99], ['Great Falls', 'MT', 47.50, -111.30],
+  ['Bozeman', 'MT', 45.68, -111.04], ['Helena', 'MT', 46.59, -112.04], ['Butte', 'MT', 46.00, -112.53],
+  ['Kalispell', 'MT', 48.20, -114.31], ['Miles City', 'MT', 46.41, -105.84], ['Havre', 'MT', 48.55, -109.68],
+  // Nebraska
+  ['Omaha', 'NE', 41.26, -95.93], ['Lincoln', 'NE', 40.81, -96.70], ['Grand Island', 'NE', 40.93, -98.34],
+  ['Kearney', 'NE', 40.70, -99.08], ['North Platte', 'NE', 41.12, -100.77], ['Scottsbluff', 'NE', 41.87, -103.67],
+  ['Norfolk', 'NE', 42.03, -97.42],
+  // Nevada
+  ['Las Vegas', 'NV', 36.17, -115.14], ['Reno', 'NV', 39.53, -119.81], ['Henderson', 'NV', 36.04, -114.98],
+  ['Carson City', 'NV', 39.16, -119.77], ['Elko', 'NV', 40.83, -115.76], ['Winnemucca', 'NV', 40.97, -117.74],
+  ['Ely', 'NV', 39.25, -114.89],
+  // New Hampshire
+  ['Manchester', 'NH', 42.99, -71.46], ['Concord', 'NH', 43.21, -71.54], ['Nashua', 'NH', 42.77, -71.47],
+  ['Portsmouth', 'NH', 43.07, -70.76], ['Keene', 'NH', 42.93, -72.28], ['Berlin', 'NH', 44.47, -71.19],
+  // New Jersey
+  ['Newark', 'NJ', 40.74, -74.17], ['Jersey City', 'NJ', 40.73, -74.08], ['Trenton', 'NJ', 40.22, -74.76],
+  ['Atlantic City', 'NJ', 39.36, -74.42], ['Camden', 'NJ', 39.93, -75.12], ['Paterson', 'NJ', 40.92, -74.17],
+  ['New Brunswick', 'NJ', 40.49, -74.45], ['Toms River', 'NJ', 39.95, -74.20],
+  // New Mexico
+  ['Albuquerque', 'NM', 35.08, -106.65], ['Santa Fe', 'NM', 35.69, -105.94], ['Las Cruces', 'NM', 32.32, -106.76],
+  ['Roswell', 'NM', 33.39, -104.52], ['Farmington', 'NM', 36.73, -108.22], ['Gallup', 'NM', 35.53, -108.74],
+  ['Clovis', 'NM', 34.40, -103.21], ['Hobbs', 'NM', 32.70, -103.14],
+  // New York
+  ['New York', 'NY', 40.71, -74.01], ['Brooklyn', 'NY', 40.68, -73.94], ['Buffalo', 'NY', 42.89, -78.88],
+  ['Rochester', 'NY', 43.16, -77.61], ['Syracuse', 'NY', 43.05, -76.15], ['Albany', 'NY', 42.65, -73.76],
+  ['Binghamton', 'NY', 42.10, -75.92], ['Ithaca', 'NY', 42.44, -76.50], ['Utica', 'NY', 43.10, -75.23],
+  ['Plattsburgh', 'NY', 44.70, -73.45], ['Watertown', 'NY', 43.97, -75.91], ['Poughkeepsie', 'NY', 41.70, -73.92],
+  ['White Plains', 'NY', 41.03, -73.76], ['Elmira', 'NY', 42.09, -76.81], ['Jamestown', 'NY', 42.10, -79.24],
+  ['Hempstead', 'NY', 40.71, -73.62],
+  // North Carolina
+  ['Charlotte', 'NC', 35.23, -80.84], ['Raleigh', 'NC', 35.78, -78.64], ['Greensboro', 'NC', 36.07, -79.79],
+  ['Durham', 'NC', 35.99, -78.90], ['Winston-Salem', 'NC', 36.10, -80.24], ['Fayetteville', 'NC', 35.05, -78.88],
+  ['Wilmington', 'NC', 34.23, -77.94], ['Asheville', 'NC', 35.60, -82.55], ['Greenville', 'NC', 35.61, -77.37],
+  ['Boone', 'NC', 36.22, -81.67], ['Elizabeth City', 'NC', 36.29, -76.25],
+  // North Dakota
+  ['Fargo', 'ND', 46.88, -96.79], ['Bismarck', 'ND', 46.81, -100.78], ['Grand Forks', 'ND', 47.93, -97.03],
+  ['Minot', 'ND', 48.23, -101.30], ['Williston', 'ND', 48.15, -103.62], ['Dickinson', 'ND', 46.88, -102.79],
+  ['Jamestown', 'ND', 46.91, -98.71],
+  // Ohio
+  ['Columbus', 'OH', 39.96, -83.00], ['Cleveland', 'OH', 41.50, -81.69], ['Cincinnati', 'OH', 39.10, -84.51],
+  ['Toledo', 'OH', 41.65, -83.54], ['Akron', 'OH', 41.08, -81.52], ['Dayton', 'OH', 39.76, -84.19],
+  ['Youngstown', 'OH', 41.10, -80.65], ['Canton', 'OH', 40.80, -81.38], ['Athens', 'OH', 39.33, -82.10],
+  ['Lima', 'OH', 40.74, -84.11], ['Zanesville', 'OH', 39.94, -82.01], ['Sandusky', 'OH', 41.45, -82.71],
+  // Oklahoma
+  ['Oklahoma City', 'OK', 35.47, -97.52], ['Tulsa', 'OK', 36.15, -95.99], ['Norman', 'OK', 35.22, -97.44],
+  ['Lawton', 'OK', 34.60, -98.39], ['Enid', 'OK', 36.40, -97.88], ['Stillwater', 'OK', 36.12, -97.06],
+  ['Muskogee', 'OK', 35.75, -95.37], ['Ardmore', 'OK', 34.17, -97.14], ['Woodward', 'OK', 36.43, -99.39],
+  ['Guymon', 'OK', 36.68, -101.48],
+  // Oregon
+  ['Portland', 'OR', 45.52, -122.68], ['Salem', 'OR', 44.94, -123.04], ['Eugene', 'OR', 44.05, -123.09],
+  ['Bend', 'OR', 44.06, -121.32], ['Medford', 'OR', 42.33, -122.87], ['Corvallis', 'OR', 44.56, -123.26],
+  ['Klamath Falls', 'OR', 42.22, -121.78], ['Pendleton', 'OR', 45.67, -118.79], ['Coos Bay', 'OR', 43.37, -124.22],
+  ['Astoria', 'OR', 46.19, -123.83], ['Burns', 'OR', 43.59, -119.05],
+  // Pennsylvania
+  ['Philadelphia', 'PA', 39.95, -75.17], ['Pittsburgh', 'PA', 40.44, -80.00], ['Harrisburg', 'PA', 40.27, -76.88],
+  ['Allentown', 'PA', 40.60, -75.49], ['Erie', 'PA', 42.13, -80.09], ['Scranton', 'PA', 41.41, -75.66],
+  ['Lancaster', 'PA', 40.04, -76.31], ['Reading', 'PA', 40.34, -75.93], ['State College', 'PA', 40.79, -77.86],
+  ['Williamsport', 'PA', 41.24, -77.00], ['Altoona', 'PA', 40.52, -78.39], ['Johnstown', 'PA', 40.33, -78.92],
+  // Rhode Island
+  ['Providence', 'RI', 41.82, -71.41], ['Warwick', 'RI', 41.70, -71.42], ['Newport', 'RI', 41.49, -71.31],
+  ['Westerly', 'RI', 41.38, -71.83],
+  // South Carolina
+  ['Columbia', 'SC', 34.00, -81.03], ['Charleston', 'SC', 32.78, -79.93], ['Greenville', 'SC', 34.85, -82.40],
+  ['Myrtle Beach', 'SC', 33.69, -78.89], ['Spartanburg', 'SC', 34.95, -81.93], ['Florence', 'SC', 34.20, -79.76],
+  ['Rock Hill', 'SC', 34.92, -81.03], ['Beaufort', 'SC', 32.43, -80.67], ['Aiken', 'SC', 33.56, -81.72],
+  // South Dakota
+  ['Sioux Falls', 'SD', 43.54, -96.73], ['Rapid City', 'SD', 44.08, -103.23], ['Pierre', 'SD', 44.37, -100.35],
+  ['Aberdeen', 'SD', 45.46, -98.49], ['Brookings', 'SD', 44.31, -96.80], ['Watertown', 'SD', 44.90, -97.12],
+  ['Mitchell', 'SD', 43.71, -98.03],
+  // Tennessee
+  ['Nashville', 'TN', 36.16, -86.78], ['Memphis', 'TN', 35.15, -90.05], ['Knoxville', 'TN', 35.96, -83.92],
+  ['Chattanooga', 'TN', 35.05, -85.31], ['Clarksville', 'TN', 36.53, -87.36], ['Jackson', 'TN', 35.61, -88.81],
+  ['Johnson City', 'TN', 36.31, -82.35], ['Murfreesboro', 'TN', 35.85, -86.39], ['Cookeville', 'TN', 36.16, -85.50],
+  // Texas
+  ['Houston', 'TX', 29.76, -95.37], ['San Antonio', 'TX', 29.42, -98.49], ['Dallas', 'TX', 32.78, -96.80],
+  ['Austin', 'TX', 30.27, -97.74], ['Fort Worth', 'TX', 32.76, -97.33], ['El Paso', 'TX', 31.76, -106.49],
+  ['Arlington', 'TX', 32.74, -97.11], ['Corpus Christi', 'TX', 27.80, -97.40], ['Plano', 'TX', 33.02, -96.70],
+  ['Lubbock', 'TX', 33.58, -101.86], ['Amarillo', 'TX', 35.22, -101.83], ['Laredo', 'TX', 27.51, -99.51],
+  ['Brownsville', 'TX', 25.90, -97.50], ['McAllen', 'TX', 26.20, -98.23], ['Midland', 'TX', 32.00, -102.08],
+  ['Odessa', 'TX', 31.85, -102.37], ['Abilene', 'TX', 32.45, -99.73], ['Waco', 'TX', 31.55, -97.15],
+  ['Tyler', 'TX', 32.35, -95.30], ['Beaumont', 'TX', 30.08, -94.13], ['San Angelo', 'TX', 31.46, -100.44],
+  ['Wichita Falls', 'TX', 33.91, -98.49], ['College Station', 'TX', 30.63, -96.33], ['Killeen', 'TX', 31.12, -97.73],
+  ['Victoria', 'TX', 28.81, -97.00], ['Texarkana', 'TX', 33.43, -94.05], ['Longview', 'TX', 32.50, -94.74],
+  ['Del Rio', 'TX', 29.36, -100.90], ['Alpine', 'TX', 30.36, -103.66], ['Pecos', 'TX', 31.42, -103.49],
+  ['Galveston', 'TX', 29.30, -94.80], ['Sherman', 'TX', 33.64, -96.61], ['Nacogdoches', 'TX', 31.60, -94.66],
+  // Utah
+  ['Salt Lake City', 'UT', 40.76, -111.89], ['Provo', 'UT', 40.23, -111.66], ['Ogden', 'UT', 41.22, -111.97],
+  ['St. George', 'UT', 37.10, -113.58], ['Logan', 'UT', 41.74, -111.83], ['Moab', 'UT', 38.57, -109.55],
+  ['Cedar City', 'UT', 37.68, -113.06], ['Vernal', 'UT', 40.46, -109.53], ['Price', 'UT', 39.60, -110.81],
+  // Vermont
+  ['Burlington', 'VT', 44.48, -73.21], ['Montpelier', 'VT', 44.26, -72.58], ['Rutland', 'VT', 43.61, -72.97],
+  ['Brattleboro', 'VT', 42.85, -72.56], ['St. Johnsbury', 'VT', 44.42, -72.02],
+  // Virginia
+  ['Richmond', 'VA', 37.54, -77.44], ['Virginia Beach', 'VA', 36.85, -75.98], ['Norfolk', 'VA', 36.85, -76.29],
+  ['Arlington', 'VA', 38.88, -77.10], ['Alexandria', 'VA', 38.80, -77.05], ['Roanoke', 'VA', 37.27, -79.94],
+  ['Charlottesville', 'VA', 38.03, -78.48], ['Lynchburg', 'VA', 37.41, -79.14], ['Harrisonburg', 'VA', 38.45, -78.87],
+  ['Blacksburg', 'VA', 37.23, -80.41], ['Winchester', 'VA', 39.19, -78.16], ['Bristol', 'VA', 36.60, -82.19],
+  ['Fredericksburg', 'VA', 38.30, -77.46],
+  // Washington
+  ['Seattle', 'WA', 47.61, -122.33], ['Spokane', 'WA', 47.66, -117.43], ['Tacoma', 'WA', 47.25, -122.44],
+  ['Vancouver', 'WA', 45.64, -122.66], ['Bellevue', 'WA', 47.61, -122.20], ['Olympia', 'WA', 47.04, -122.90],
+  ['Yakima', 'WA', 46.60, -120.51], ['Bellingham', 'WA', 48.75, -122.48], ['Wenatchee', 'WA', 47.42, -120.31],
+  ['Kennewick', 'WA', 46.21, -119.14], ['Walla Walla', 'WA', 46.06, -118.34], ['Port Angeles', 'WA', 48.12, -123.43],
+  ['Moses Lake', 'WA', 47.13, -119.28],
+  // West Virginia
+  ['Charleston', 'WV', 38.35, -81.63], ['Huntington', 'WV', 38.42, -82.45], ['Morgantown', 'WV', 39.63, -79.96],
+  ['Wheeling', 'WV', 40.06, -80.72], ['Parkersburg', 'WV', 39.27, -81.56], ['Beckley', 'WV', 37.78, -81.19],
+  ['Martinsburg', 'WV', 39.46, -77.96], ['Elkins', 'WV', 38.93, -79.85],
+  // Wisconsin
+  ['Milwaukee', 'WI', 43.04, -87.91], ['Madison', 'WI', 43.07, -89.40], ['Green Bay', 'WI', 44.51, -88.01],
+  ['Eau Claire', 'WI', 44.81, -91.50], ['La Crosse', 'WI', 43.80, -91.24], ['Wausau', 'WI', 44.96, -89.63],
+  ['Appleton', 'WI', 44.26, -88.42], ['Oshkosh', 'WI', 44.02, -88.54], ['Superior', 'WI', 46.72, -92.10],
+  ['Rhinelander', 'WI', 45.64, -89.41], ['Kenosha', 'WI', 42.58, -87.82],
+  // Wyoming
+  ['Cheyenne', 'WY', 41.14, -104.82], ['Casper', 'WY', 42.87, -106.31], ['Laramie', 'WY', 41.31, -105.59],
+  ['Gillette', 'WY', 44.29, -105.50], ['Rock Springs', 'WY', 41.59, -109.20], ['Sheridan', 'WY', 44.80, -106.96],
+  ['Jackson', 'WY', 43.48, -110.76], ['Cody', 'WY', 44.53, -109.06], ['Riverton', 'WY', 43.02, -108.38],
+  // Alberta
+  ['Calgary', 'AB', 51.05, -114.07], ['Edmonton', 'AB', 53.55, -113.49], ['Red Deer', 'AB', 52.27, -113.81],
+  ['Lethbridge', 'AB', 49.69, -112.84], ['Medicine Hat', 'AB', 50.04, -110.68], ['Grande Prairie', 'AB', 55.17, -118.80],
+  ['Fort McMurray', 'AB', 56.73, -111.38], ['Lloydminster', 'AB', 53.28, -110.01],
+  // British Columbia
+  ['Vancouver', 'BC', 49.28, -123.12], ['Victoria', 'BC', 48.43, -123.37], ['Surrey', 'BC', 49.19, -122.85],
+  ['Kelowna', 'BC', 49.89, -119.50], ['Kamloops', 'BC', 50.67, -120.33], ['Prince George', 'BC', 53.92, -122.75],
+  ['Nanaimo', 'BC', 49.17, -123.94], ['Fort St. John', 'BC', 56.25, -120.85], ['Prince Rupert', 'BC', 54.32, -130.32],
+  ['Cranbrook', 'BC', 49.51, -115.77],
+  // Manitoba
+  ['Winnipeg', 'MB', 49.90, -97.14], ['Brandon', 'MB', 49.85, -99.95], ['Thompson', 'MB', 55.74, -97.86],
+  ['Steinbach', 'MB', 49.53, -96.68], ['Dauphin', 'MB', 51.15, -100.05],
+  // New Brunswick
+  ['Moncton', 'NB', 46.09, -64.77], ['Saint John', 'NB', 45.27, -66.06], ['Fredericton', 'NB', 45.96, -66.64],
+  ['Bathurst', 'NB', 47.62, -65.65], ['Edmundston', 'NB', 47.37, -68.33],
+  // Newfoundland and Labrador
+  ['St. John\'s', 'NL', 47.56, -52.71], ['Corner Brook', 'NL', 48.95, -57.95], ['Gander', 'NL', 48.95, -54.61],
+  ['Happy Valley-Goose Bay', 'NL', 53.30, -60.33],
+  // Nova Scotia
+  ['Halifax', 'NS', 44.65, -63.58], ['Sydney', 'NS', 46.14, -60.19], ['Truro', 'NS', 45.36, -63.28],
+  ['Yarmouth', 'NS', 43.84, -66.12],
+  // Northwest Territories, Nunavut and Yukon
+  ['Yellowknife', 'NT', 62.45, -114.37], ['Iqaluit', 'NU', 63.75, -68.52], ['Whitehorse', 'YT', 60.72, -135.06],
+  // Ontario
+  ['Toronto', 'ON', 43.65, -79.38], ['Ottawa', 'ON', 45.42, -75.70], ['Hamilton', 'ON', 43.26, -79.87],
+  ['London', 'ON', 42.98, -81.25], ['Kitchener', 'ON', 43.45, -80.49], ['Windsor', 'ON', 42.31, -83.04],
+  ['Mississauga', 'ON', 43.59, -79.64], ['Kingston', 'ON', 44.23, -76.49], ['Sudbury', 'ON', 46.49, -80.99],
+  ['Thunder Bay', 'ON', 48.38, -89.25], ['Barrie', 'ON', 44.39, -79.69], ['Sault Ste. Marie', 'ON', 46.52, -84.33],
+  ['North Bay', 'ON', 46.31, -79.46], ['Timmins', 'ON', 48.48, -81.33], ['Peterborough', 'ON', 44.30, -78.32],
+  ['Kenora', 'ON', 49.77, -94.49],
+  // Prince Edward Island
+  ['Charlottetown', 'PE', 46.24, -63.13], ['Summerside', 'PE', 46.39, -63.79],
+  // Quebec
+  ['Montreal', 'QC', 45.50, -73.57], ['Quebec City', 'QC', 46.81, -71.21], ['Laval', 'QC', 45.61, -73.71],
+  ['Gatineau', 'QC', 45.48, -75.70], ['Sherbrooke', 'QC', 45.40, -71.89], ['Trois-Rivieres', 'QC', 46.34, -72.54],
+  ['Saguenay', 'QC', 48.43, -71.07], ['Rimouski', 'QC', 48.45, -68.52], ['Rouyn-Noranda', 'QC', 48.24, -79.02],
+  ['Sept-Iles', 'QC', 50.22, -66.38],
+  // Saskatchewan
+  ['Saskatoon', 'SK', 52.13, -106.67], ['Regina', 'SK', 50.45, -104.61], ['Prince Albert', 'SK', 53.20, -105.75],
+  ['Moose Jaw', 'SK', 50.39, -105.53], ['Swift Current', 'SK', 50.29, -107.80], ['Yorkton', 'SK', 51.21, -102.46],
+  ['North Battleford', 'SK', 52.76, -108.29],
+];
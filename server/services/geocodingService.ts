@@ -0,0 +1,85 @@
+import { PLACES, REGION_CENTERS, type PlaceRow } from './geocodingData';
+import { taxService } from './taxService';
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  placeName: string; // e.g. "Austin, TX"
+  precision: 'city' | 'region'; // region results use the middle of the state or province
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Roads are rarely straight; scale straight-line distance to estimate driving distance
+const ROAD_DISTANCE_FACTOR = 1.25;
+
+export class GeocodingService {
+  /**
+   * Locate an address using the bundled place list, without calling an online service.
+   * Returns undefined when neither a listed place nor a state or province is found.
+   */
+  async geocode(address: string | null | undefined): Promise<GeocodeResult | undefined> {
+    if (!address) {
+      return undefined;
+    }
+
+    const region = taxService.resolveRegion(address, await taxService.getRates())?.region;
+    const candidates = region ? PLACES.filter((place) => place[1] === region) : PLACES;
+    const place = findPlace(address, candidates);
+    if (place) {
+      return toResult(place, 'city');
+    }
+
+    const center = region ? REGION_CENTERS.find((row) => row[1] === region) : undefined;
+    return center ? toResult(center, 'region') : undefined;
+  }
+
+  /**
+   * Estimated one-way driving distance in whole miles between two points
+   */
+  drivingDistance(from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }): number {
+    const radians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = radians(to.latitude - from.latitude);
+    const dLng = radians(to.longitude - from.longitude);
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(radians(from.latitude)) * Math.cos(radians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+    const straightLine = 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+    return Math.round(straightLine * ROAD_DISTANCE_FACTOR);
+  }
+}
+
+// The place name ending last in the address wins, and the longer name on a tie, so the city
+// in "100 Portland Ave, Minneapolis, MN" is Minneapolis and "West Springfield" beats "Springfield"
+function findPlace(address: string, candidates: PlaceRow[]): PlaceRow | undefined {
+  const lowerAddress = address.toLowerCase();
+  let match: PlaceRow | undefined;
+  let matchEnd = -1;
+
+  for (const place of candidates) {
+    const name = place[0].toLowerCase();
+    const pattern = new RegExp(`(^|[^a-z])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![a-z])`, 'g');
+    let end = -1;
+    let result: RegExpExecArray | null;
+    while ((result = pattern.exec(lowerAddress)) !== null) {
+      end = result.index + result[0].length;
+    }
+    if (end >= 0 && (end > matchEnd || (end === matchEnd && name.length > (match?.[0].length || 0)))) {
+      match = place;
+      matchEnd = end;
+    }
+  }
+
+  return match;
+}
+
+function toResult(row: PlaceRow, precision: GeocodeResult['precision']): GeocodeResult {
+  const [name, region, latitude, longitude] = row;
+  return {
+    latitude,
+    longitude,
+    placeName: precision === 'city' ? `${name}, ${region}` : name,
+    precision,
+  };
+}
+
+export const geocodingService = new GeocodingService();
@@ -1,5 +1,6 @@
 import { Client } from '@hubspot/api-client';
 import type { Assessment, Quote, Organization } from '@shared/schema';
+import type { PricingLineItem } from './pricingEngine';
 
 export interface HubSpotContact {
   id: string;
@@ -327,30 +328,46 @@ export class HubSpotService {
     }
   }
 
+  /**
+   * Find the HubSpot deal created for a quote
+   */
+  private async findDealIdByQuoteId(quoteId: number): Promise<string | undefined> {
+    const searchResponse = await this.client.crm.deals.searchApi.doSearch({
+      filterGroups: [
+        {
+          filters: [
+            {
+              propertyName: 'nxtkonekt_quote_id',
+              operator: 'EQ',
+              value: quoteId.toString()
+            }
+          ]
+        }
+      ],
+      properties: ['dealname', 'dealstage'],
+      limit: 1
+    });
+
+    return searchResponse.results?.[0]?.id;
+  }
+
   /**
    * Update deal status when quote is approved/rejected
    */
-  async updateDealStatus(quoteId: number, status: 'approved' | 'rejected'): Promise<void> {
+  async updateDealStatus(quoteId: number, status: 'approved' | 'rejected' | 'changes_requested'): Promise<void> {
     try {
-      // Find deal by quote ID
-      const searchResponse = await this.client.crm.deals.searchApi.doSearch({
-        filterGroups: [
-          {
-            filters: [
-              {
-                propertyName: 'nxtkonekt_quote_id',
-                operator: 'EQ',
-                value: quoteId.toString()
-              }
-            ]
+      const dealId = await this.findDealIdByQuoteId(quoteId);
+
+      // A request for changes keeps the deal open in its current stage; only the quote status is updated
+      if (dealId && status === 'changes_requested') {
+        await this.client.crm.deals.basicApi.update(dealId, {
+          properties: {
+            quote_status: status,
           }
-        ],
-        properties: ['dealname', 'dealstage'],
-        limit: 1
-      });
+        });
 
-      if (searchResponse.results && searchResponse.results.length > 0) {
-        const dealId = searchResponse.results[0].id;
+        console.log(`Updated HubSpot deal ${dealId} quote status to ${status}`);
+      } else if (dealId) {
         const newStage = status === 'approved' ? 'closedwon' : 'closedlost';
         
         await this.client.crm.deals.basicApi.update(dealId, {
@@ -369,10 +386,66 @@ export class HubSpotService {
     }
   }
 
+  /**
+   * Replace the catalog product line items on a deal with those of the quote
+   */
+  async syncDealLineItems(dealId: string, lineItems: PricingLineItem[]): Promise<void> {
+    const existing = await this.client.crm.associations.v4.basicApi.getPage('deals', dealId, 'line_items');
+    for (const association of existing.results) {
+      await this.client.crm.lineItems.basicApi.archive(association.toObjectId);
+    }
+
+    const productItems = lineItems.filter((item) => item.sku);
+    for (const item of productItems) {
+      const created = await this.client.crm.lineItems.basicApi.create({
+        properties: {
+          name: item.description,
+          hs_sku: item.sku || '',
+          quantity: item.quantity.toString(),
+          price: item.unitPrice.toString(),
+        },
+      });
+      // HubSpot's default line item to deal association
+      await this.client.crm.associations.v4.basicApi.createDefault('line_items', created.id, 'deals', dealId);
+    }
+
+    console.log(`Synced ${productItems.length} product line items to HubSpot deal ${dealId}`);
+  }
+
+  /**
+   * Update the deal amount after a quote has been re-priced, replacing its product line items when given
+   */
+  async updateDealAmount(quote: Quote, lineItems?: PricingLineItem[]): Promise<void> {
+    try {
+      const dealId = await this.findDealIdByQuoteId(quote.id);
+
+      if (!dealId) {
+        console.warn(`No HubSpot deal found for quote ${quote.quoteNumber}, skipping amount update`);
+        return;
+      }
+
+      await this.client.crm.deals.basicApi.update(dealId, {
+        properties: {
+          amount: quote.totalCost,
+          quote_status: quote.status || 'pending'
+        }
+      });
+
+      console.log(`Updated HubSpot deal ${dealId} amount to ${quote.totalCost}`);
+
+      if (lineItems) {
+        await this.syncDealLineItems(dealId, lineItems);
+      }
+    } catch (error) {
+      console.error('Error updating HubSpot deal amount:', error);
+      throw new Error(`Failed to update HubSpot deal amount: ${error}`);
+    }
+  }
+
   /**
    * Complete HubSpot sync for new quote
    */
-  async syncQuoteToHubSpot(quote: Quote, assessment: Assessment, organization: Organization): Promise<{
+  async syncQuoteToHubSpot(quote: Quote, assessment: Assessment, organization: Organization, lineItems: PricingLineItem[] = []): Promise<{
     contact: HubSpotContact;
     deal: HubSpotDeal;
     ticket: HubSpotTicket;
@@ -387,6 +460,13 @@ export class HubSpotService {
       // 2. Create deal
       const deal = await this.createDeal(quote, assessment, organization, contact.id);
       console.log(`Deal created: ${deal.id}`);
+
+      // Add catalog products to the deal (graceful fallback for missing scopes)
+      try {
+        await this.syncDealLineItems(deal.id, lineItems);
+      } catch (lineItemError) {
+        console.warn('Deal line item sync failed (missing scopes), continuing without line items:', lineItemError);
+      }
       
       // 3. Create follow-up ticket (with graceful fallback for missing scopes)
       const ticket = await this.createTicket(quote, assessment, contact.id, deal.id);
@@ -486,6 +566,8 @@ export class HubSpotService {
       lines.push(`- Total Fleet Size: ${assessment.totalFleetSize || 'N/A'}`);
       lines.push(`- Vehicles for Installation: ${assessment.deviceCount || 'N/A'}`);
       lines.push(`- Tracker Type: ${assessment.trackerType || 'N/A'}`);
+      lines.push(`- Installation Method: ${assessment.installationMethod || 'N/A'}`);
+      lines.push(`- Vehicle Class: ${assessment.vehicleClass || 'N/A'}`);
       lines.push(`- IoT Tracking Partner: ${assessment.iotTrackingPartner || 'N/A'}`);
       lines.push(`- Carrier SIM: ${assessment.carrierSim || 'N/A'}`);
       lines.push('');
@@ -524,6 +606,7 @@ export class HubSpotService {
       lines.push(`- Camera Solution Type: ${assessment.cameraSolutionType || 'N/A'}`);
       lines.push(`- Number of Cameras: ${assessment.numberOfCameras || 'N/A'}`);
       lines.push(`- Vehicles for Installation: ${assessment.deviceCount || 'N/A'}`);
+      lines.push(`- Vehicle Class: ${assessment.vehicleClass || 'N/A'}`);
       lines.push(`- Carrier SIM: ${assessment.carrierSim || 'N/A'}`);
       lines.push('');
       
@@ -741,6 +824,7 @@ export class HubSpotService {
           { label: 'Pending', value: 'pending' },
           { label: 'Sent', value: 'sent' },
           { label: 'In Progress', value: 'in_progress' },
+          { label: 'Changes Requested', value: 'changes_requested' },
           { label: 'Approved', value: 'approved' },
           { label: 'Rejected', value: 'rejected' }
         ]
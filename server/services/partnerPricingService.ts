@@ -0,0 +1,149 @@
+import type { Organization, OrganizationPricingOverride, Quote } from '@shared/schema';
+import { storage } from '../storage';
+import { ValidationError } from '../errors';
+
+export interface PricingOverride {
+  hourlyRate: number | null;
+  priceMultiplier: number;
+}
+
+export interface OrganizationPricingUpdate {
+  commission?: number | string;
+  partnerType?: string;
+  overrides?: {
+    serviceType: OrganizationPricingOverride['serviceType'];
+    hourlyRate?: number | string | null;
+    priceMultiplier?: number | string | null;
+  }[];
+}
+
+export interface CommissionResult {
+  commissionRate: number;
+  commissionBasis: 'labor' | 'total';
+  commissionAmount: number;
+}
+
+export const PARTNER_TYPES = ['installer', 'sales_agent', 'reseller'] as const;
+
+// Installers are paid on the labor they perform; sales agents and resellers on the full sale
+const COMMISSION_BASIS: Record<string, 'labor' | 'total'> = {
+  installer: 'labor',
+  sales_agent: 'total',
+  reseller: 'total',
+};
+
+export class PartnerPricingService {
+  /**
+   * Resolve the organization that owns an assessment
+   */
+  async getOrganizationForAssessment(assessment: { organizationId: number | null; userId: string }): Promise<Organization | undefined> {
+    if (assessment.organizationId) {
+      const organization = await storage.getOrganization(assessment.organizationId);
+      if (organization) {
+        return organization;
+      }
+    }
+    return await storage.getOrganizationByUserId(assessment.userId);
+  }
+
+  /**
+   * Get the pricing override for an organization and service type.
+   * Service-specific values take precedence over the "all services" row.
+   */
+  async getPricingOverride(organizationId: number, serviceType: string): Promise<PricingOverride> {
+    const overrides = await storage.getOrganizationPricingOverrides(organizationId);
+    const general = overrides.find((override) => override.serviceType === 'all');
+    const specific = overrides.find((override) => override.serviceType === serviceType);
+
+    const hourlyRate = specific?.hourlyRate ?? general?.hourlyRate ?? null;
+    const priceMultiplier = specific?.priceMultiplier ?? general?.priceMultiplier ?? '1';
+
+    return {
+      hourlyRate: hourlyRate !== null ? parseFloat(hourlyRate) : null,
+      priceMultiplier: parseFloat(priceMultiplier) || 1,
+    };
+  }
+
+  /**
+   * Update an organization's commission, partner type and pricing overrides
+   */
+  async updateOrganizationPricing(organizationId: number, data: OrganizationPricingUpdate, userId: string): Promise<void> {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization) {
+      throw new ValidationError('Organization not found');
+    }
+
+    const commission = data.commission !== undefined ? parseFloat(String(data.commission)) : parseFloat(organization.commission || '0');
+    if (!Number.isFinite(commission) || commission < 0 || commission > 100) {
+      throw new ValidationError('Commission must be between 0 and 100 percent');
+    }
+
+    const partnerType = data.partnerType || organization.partnerType;
+    if (!(PARTNER_TYPES as readonly string[]).includes(partnerType)) {
+      throw new ValidationError(`Invalid partner type: ${partnerType}`);
+    }
+
+    const overrides = (data.overrides || []).map((override) => {
+      const hourlyRate = override.hourlyRate === null || override.hourlyRate === undefined || override.hourlyRate === ''
+        ? null
+        : parseFloat(String(override.hourlyRate));
+      const priceMultiplier = override.priceMultiplier === null || override.priceMultiplier === undefined || override.priceMultiplier === ''
+        ? 1
+        : parseFloat(String(override.priceMultiplier));
+
+      if (hourlyRate !== null && (!Number.isFinite(hourlyRate) || hourlyRate < 0)) {
+        throw new ValidationError(`Invalid hourly rate for ${override.serviceType}`);
+      }
+      if (!Number.isFinite(priceMultiplier) || priceMultiplier <= 0) {
+        throw new ValidationError(`Invalid price multiplier for ${override.serviceType}`);
+      }
+
+      return { serviceType: override.serviceType, hourlyRate, priceMultiplier };
+    });
+
+    await storage.updateOrganizationPricing(organizationId, {
+      commission: commission.toFixed(2),
+      partnerType,
+    });
+
+    for (const override of overrides) {
+      // An override with no custom rate and a neutral multiplier is removed
+      if (override.hourlyRate === null && override.priceMultiplier === 1) {
+        await storage.deleteOrganizationPricingOverride(organizationId, override.serviceType);
+        continue;
+      }
+      await storage.upsertOrganizationPricingOverride({
+        organizationId,
+        serviceType: override.serviceType,
+        hourlyRate: override.hourlyRate !== null ? override.hourlyRate.toFixed(2) : null,
+        priceMultiplier: override.priceMultiplier.toFixed(3),
+        updatedBy: userId,
+      });
+    }
+
+    console.log(`💼 Pricing updated for organization ${organization.name} by ${userId}`);
+  }
+
+  /**
+   * Calculate the partner commission for a quote based on the organization's partner type
+   */
+  calculateCommission(quote: Quote, organization: Organization): CommissionResult {
+    const commissionRate = parseFloat(organization.commission || '0') || 0;
+    const commissionBasis = COMMISSION_BASIS[organization.partnerType] || 'total';
+
+    // Commission is paid on the pre-tax amount
+    const totalCost = parseFloat(quote.subtotal ?? quote.totalCost) || 0;
+    const hardwareCost = parseFloat(quote.hardwareCost || '0') || 0;
+    // Travel charges cover the drive to the site and are not labor
+    const travelCost = parseFloat(quote.travelCost || '0') || 0;
+    const base = commissionBasis === 'labor' ? totalCost - hardwareCost - travelCost : totalCost;
+
+    return {
+      commissionRate,
+      commissionBasis,
+      commissionAmount: Math.round(base * commissionRate) / 100,
+    };
+  }
+}
+
+export const partnerPricingService = new PartnerPricingService();
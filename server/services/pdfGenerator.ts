@@ -1,11 +1,32 @@
 import PDFDocument from 'pdfkit';
 import fs from 'fs';
 import path from 'path';
-import { Assessment, Quote } from '@shared/schema';
+import { Assessment, Proposal, Quote, QuoteOption, type ProposalSignature, type QuoteSignature, type VehicleLaborLine } from '@shared/schema';
+import { calculateCombinedTotals, calculateContractValue, type PricingLineItem } from './pricingEngine';
 
 export interface QuoteData {
   assessment: Assessment;
   quote: Quote;
+  lineItems: PricingLineItem[];
+  recurringItems?: PricingLineItem[];
+  options?: QuoteOption[]; // good/better/best options offered on the quote
+  organizationName: string;
+  revisionLetter?: string;
+  signature?: QuoteSignature; // renders the signed copy, with the signature page and audit certificate
+}
+
+export interface ProposalData {
+  proposal: Proposal;
+  sections: QuoteData[]; // one per quote in the proposal
+  organizationName: string;
+  signature?: ProposalSignature; // renders the signed copy, with the signature page and audit certificate
+}
+
+// The quote or proposal a signature page is added to
+interface SignedDocument {
+  kind: 'quote' | 'proposal';
+  number: string;
+  customerCompanyName: string | null;
   organizationName: string;
 }
 
@@ -20,8 +41,30 @@ function getServiceTitle(serviceType?: string): string {
   }
 }
 
+function getInstallationMethodTitle(installationMethod?: string | null): string {
+  switch (installationMethod) {
+    case 'hardwired':
+      return 'Hardwired';
+    case 'magnetic':
+      return 'Magnetic Mount';
+    default:
+      return 'OBD-II';
+  }
+}
+
+function formatTaxLabel(quote: Quote, taxExempt: boolean | null): string {
+  if (taxExempt) {
+    return 'Sales Tax (exempt)';
+  }
+  if (!quote.taxRegion) {
+    return 'Sales Tax';
+  }
+  return `Sales Tax (${quote.taxRegion} ${parseFloat(quote.taxRate || '0')}%)`;
+}
+
 export async function generateQuotePDF(quoteData: QuoteData): Promise<string> {
-  const { assessment, quote, organizationName } = quoteData;
+  const { assessment, quote, revisionLetter, signature, options = [] } = quoteData;
+  const selectedOption = options.find((option) => option.selected);
   
   console.log('📄 PDF Generation started for:', {
     quoteNumber: quote.quoteNumber,
@@ -40,6 +83,207 @@ export async function generateQuotePDF(quoteData: QuoteData): Promise<string> {
     throw new Error('Quote number is missing');
   }
 
+  // Each revision keeps its own PDF, and the signed copy never overwrites the PDF that was signed
+  const baseName = revisionLetter ? `quote-${quote.quoteNumber}-rev${revisionLetter}` : `quote-${quote.quoteNumber}`;
+  const fileName = signature ? `${baseName}-signed.pdf` : `${baseName}.pdf`;
+
+  return writePdf(fileName, (doc) => {
+    addHeader(doc, `Quote #${quote.quoteNumber}${revisionLetter ? ` rev ${revisionLetter}` : ''}`);
+
+    // Customer & Service Information - Single line format
+    let currentY = 70;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('Customer: ', 50, currentY);
+    doc.fontSize(8).font('Helvetica')
+       .text(`${assessment.customerCompanyName || 'N/A'} | ${assessment.customerContactName || 'N/A'}`, 100, currentY);
+    
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text(`${assessment.customerPhone || 'N/A'} | ${assessment.customerEmail || 'N/A'}`, 100, currentY);
+
+    currentY += 12;
+    const serviceTitle = getServiceTitle(assessment.serviceType ?? undefined);
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('Service: ', 50, currentY);
+    doc.fontSize(8).font('Helvetica')
+       .text(`${serviceTitle} | ${assessment.siteAddress || 'N/A'}`, 100, currentY);
+
+    // The chosen option is the approved scope; the assessment already holds its answers
+    if (selectedOption) {
+      currentY += 12;
+      doc.fontSize(9).font('Helvetica-Bold')
+         .text('Option: ', 50, currentY);
+      doc.fontSize(8).font('Helvetica')
+         .text(selectedOption.name, 100, currentY);
+    }
+
+    // Until the customer chooses, the quote lists the pricing of every option instead of its own
+    if (options.length > 0 && !selectedOption) {
+      currentY = addOptionsSummary(doc, options, currentY);
+      currentY = addTerms(doc, currentY);
+      currentY += 20;
+      doc.fontSize(7).font('Helvetica')
+         .text('Choose one option when approving this quote. The statement of work for the chosen option is included with your approved quote.', 50, currentY, { width: 500 });
+
+      options.forEach((option, index) => {
+        doc.addPage();
+
+        let optionY = 50;
+        doc.fontSize(11).font('Helvetica-Bold')
+           .text(`Option ${index + 1} of ${options.length}: ${option.name}`, 50, optionY);
+        if (option.description) {
+          optionY += 16;
+          doc.fontSize(8).font('Helvetica')
+             .text(option.description, 50, optionY, { width: 500 });
+        }
+
+        addPricing(doc, {
+          assessment,
+          quote: {
+            ...quote,
+            subtotal: option.subtotal,
+            taxAmount: option.taxAmount,
+            totalCost: option.totalCost,
+            monthlyTotal: option.monthlyTotal,
+            termMonths: option.termMonths,
+          },
+          lineItems: option.lineItems,
+          recurringItems: option.recurringItems,
+        }, optionY);
+      });
+      if (signature) {
+        addSignature(doc, getSignedQuote(quoteData), signature);
+      }
+      return;
+    }
+
+    currentY = addPricing(doc, quoteData, currentY);
+    currentY = addTerms(doc, currentY);
+    addStatementOfWork(doc, assessment, currentY);
+    addVehicleLabor(doc, quote.vehicleLabor);
+    if (signature) {
+      addSignature(doc, getSignedQuote(quoteData), signature);
+    }
+  });
+}
+
+/**
+ * Combined PDF for a proposal: a summary of every service with the combined totals, then one
+ * section per quote with its own pricing and statement of work
+ */
+export async function generateProposalPDF(proposalData: ProposalData): Promise<string> {
+  const { proposal, sections, organizationName, signature } = proposalData;
+
+  console.log('📄 Proposal PDF generation started for:', {
+    proposalNumber: proposal.proposalNumber,
+    sections: sections.length,
+    customerName: proposal.customerContactName
+  });
+
+  if (sections.length === 0) {
+    throw new Error('Proposal has no quotes to include');
+  }
+
+  // The signed copy never overwrites the PDF that was signed
+  const fileName = signature ? `proposal-${proposal.proposalNumber}-signed.pdf` : `proposal-${proposal.proposalNumber}.pdf`;
+
+  return writePdf(fileName, (doc) => {
+    addHeader(doc, `Proposal #${proposal.proposalNumber}`);
+
+    let currentY = 70;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('Customer: ', 50, currentY);
+    doc.fontSize(8).font('Helvetica')
+       .text(`${proposal.customerCompanyName} | ${proposal.customerContactName}`, 100, currentY);
+
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text(proposal.customerEmail, 100, currentY);
+
+    // One summary row per service
+    currentY += 26;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('Services Included', 50, currentY);
+
+    const lineY = currentY + 10;
+    doc.fontSize(7).font('Helvetica')
+       .text('Service', 50, lineY)
+       .text('Quote', 280, lineY)
+       .text('Monthly', 370, lineY)
+       .text('One-Time', 450, lineY);
+    doc.moveTo(50, lineY + 8)
+       .lineTo(550, lineY + 8)
+       .stroke();
+
+    currentY = lineY + 12;
+    sections.forEach(({ assessment, quote }, index) => {
+      const monthlyTotal = parseFloat(quote.monthlyTotal || '0');
+      doc.fontSize(7).font('Helvetica')
+         .text(`${index + 1}. ${getServiceTitle(assessment.serviceType ?? undefined)}`, 50, currentY)
+         .text(`#${quote.quoteNumber}`, 280, currentY)
+         .text(monthlyTotal > 0 ? `$${monthlyTotal.toFixed(2)}/mo` : '-', 370, currentY)
+         .text(`$${parseFloat(quote.totalCost || '0').toFixed(2)}`, 450, currentY);
+      currentY += 10;
+    });
+
+    // Combined totals
+    const totals = calculateCombinedTotals(sections.map(({ quote }) => quote));
+    currentY += 2;
+    doc.moveTo(50, currentY)
+       .lineTo(550, currentY)
+       .stroke();
+
+    currentY += 6;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text(totals.monthlyTotal > 0 ? 'Combined One-Time Total' : 'Combined Project Cost', 50, currentY)
+       .text(`$${totals.totalCost.toFixed(2)}`, 450, currentY);
+    if (totals.monthlyTotal > 0) {
+      currentY += 12;
+      doc.fontSize(8).font('Helvetica-Bold')
+         .text('Combined Monthly Total', 50, currentY)
+         .text(`$${totals.monthlyTotal.toFixed(2)}/mo`, 450, currentY);
+      currentY += 12;
+      doc.fontSize(9).font('Helvetica-Bold')
+         .text('Total Contract Value', 50, currentY)
+         .text(`$${totals.contractValue.toFixed(2)}`, 450, currentY);
+    }
+
+    currentY = addTerms(doc, currentY);
+    currentY += 20;
+    doc.fontSize(7).font('Helvetica')
+       .text('Approving this proposal approves every service listed above. Each service is detailed on the following pages.', 50, currentY, { width: 500 });
+
+    // Each service keeps its own pricing and statement of work
+    sections.forEach((section, index) => {
+      const { assessment, quote, revisionLetter } = section;
+      doc.addPage();
+
+      let sectionY = 50;
+      doc.fontSize(11).font('Helvetica-Bold')
+         .text(`Service ${index + 1} of ${sections.length}: ${getServiceTitle(assessment.serviceType ?? undefined)}`, 50, sectionY);
+
+      sectionY += 16;
+      doc.fontSize(8).font('Helvetica')
+         .text(`Quote #${quote.quoteNumber}${revisionLetter ? ` rev ${revisionLetter}` : ''} | ${assessment.siteAddress || 'N/A'}`, 50, sectionY);
+
+      sectionY = addPricing(doc, section, sectionY);
+      addStatementOfWork(doc, assessment, sectionY);
+      addVehicleLabor(doc, quote.vehicleLabor);
+    });
+
+    if (signature) {
+      addSignature(doc, {
+        kind: 'proposal',
+        number: proposal.proposalNumber,
+        customerCompanyName: proposal.customerCompanyName,
+        organizationName,
+      }, signature);
+    }
+  });
+}
+
+// Render a document into uploads/pdfs and resolve with the file path
+function writePdf(fileName: string, render: (doc: PDFKit.PDFDocument) => void): Promise<string> {
   // Create PDFs directory if it doesn't exist
   const pdfsDir = path.join(process.cwd(), 'uploads', 'pdfs');
   if (!fs.existsSync(pdfsDir)) {
@@ -47,7 +291,6 @@ export async function generateQuotePDF(quoteData: QuoteData): Promise<string> {
     fs.mkdirSync(pdfsDir, { recursive: true });
   }
 
-  const fileName = `quote-${quote.quoteNumber}.pdf`;
   const filePath = path.join(pdfsDir, fileName);
 
   console.log('📁 PDF will be saved to:', filePath);
@@ -65,1039 +308,1181 @@ export async function generateQuotePDF(quoteData: QuoteData): Promise<string> {
       
       doc.pipe(writeStream);
 
-      // Header with logo
-      const logoPath = path.join(process.cwd(), 'attached_assets', 'NxtKonekt Astro 5_1749972215768.png');
-      
-      console.log('🖼️ Checking logo at:', logoPath);
-      
-      // Check if logo exists and add it
-      if (fs.existsSync(logoPath)) {
-        try {
-          console.log('✅ Logo file found, adding to PDF');
-          doc.image(logoPath, 50, 30, { width: 50, height: 50 });
-        } catch (logoError) {
-          console.warn('⚠️ Could not load logo for PDF:', logoError);
-          // Continue without logo instead of failing
-        }
+      render(doc);
+
+      doc.end();
+
+      doc.on('end', () => {
+        console.log('✅ PDF generation completed successfully:', filePath);
+        resolve(filePath);
+      });
+
+      doc.on('error', (docError) => {
+        console.error('❌ PDFKit document error:', docError);
+        reject(new Error(`PDF document error: ${docError.message}`));
+      });
+
+    } catch (error) {
+      console.error('❌ PDF generation caught error:', error);
+      if (error instanceof Error) {
+        reject(new Error(`PDF generation failed: ${error.message}`));
       } else {
-        console.warn('⚠️ Logo file not found at:', logoPath);
-        // Continue without logo instead of failing
+        reject(new Error(`PDF generation failed: ${String(error)}`));
       }
+    }
+  });
+}
 
-      // Company header - Ultra compact
-      doc.fontSize(16).font('Helvetica-Bold')
-         .text('NXTKonekt', 110, 30)
-         .fontSize(10).font('Helvetica')
-         .text('Professional Installation Services', 110, 48)
-         .fontSize(9).font('Helvetica-Bold')
-         .text(`Quote #${quote.quoteNumber}`, 450, 30)
-         .fontSize(8).font('Helvetica')
-         .text(`Date: ${new Date().toLocaleDateString()}`, 450, 42);
-
-      // Customer & Service Information - Single line format
-      let currentY = 70;
-      doc.fontSize(9).font('Helvetica-Bold')
-         .text('Customer: ', 50, currentY);
-      doc.fontSize(8).font('Helvetica')
-         .text(`${assessment.customerCompanyName || 'N/A'} | ${assessment.customerContactName || 'N/A'}`, 100, currentY);
-      
-      currentY += 12;
-      doc.fontSize(8).font('Helvetica')
-         .text(`${assessment.customerPhone || 'N/A'} | ${assessment.customerEmail || 'N/A'}`, 100, currentY);
+// Logo and company header, with the quote or proposal number on the right
+function addHeader(doc: PDFKit.PDFDocument, documentLabel: string) {
+  // Header with logo
+  const logoPath = path.join(process.cwd(), 'attached_assets', 'NxtKonekt Astro 5_1749972215768.png');
+  
+  console.log('🖼️ Checking logo at:', logoPath);
+  
+  // Check if logo exists and add it
+  if (fs.existsSync(logoPath)) {
+    try {
+      console.log('✅ Logo file found, adding to PDF');
+      doc.image(logoPath, 50, 30, { width: 50, height: 50 });
+    } catch (logoError) {
+      console.warn('⚠️ Could not load logo for PDF:', logoError);
+      // Continue without logo instead of failing
+    }
+  } else {
+    console.warn('⚠️ Logo file not found at:', logoPath);
+    // Continue without logo instead of failing
+  }
 
-      currentY += 12;
-      const serviceTitle = getServiceTitle(assessment.serviceType ?? undefined);
-      doc.fontSize(9).font('Helvetica-Bold')
-         .text('Service: ', 50, currentY);
-      doc.fontSize(8).font('Helvetica')
-         .text(`${serviceTitle} | ${assessment.siteAddress || 'N/A'}`, 100, currentY);
+  // Company header - Ultra compact
+  doc.fontSize(16).font('Helvetica-Bold')
+     .text('NXTKonekt', 110, 30)
+     .fontSize(10).font('Helvetica')
+     .text('Professional Installation Services', 110, 48)
+     .fontSize(9).font('Helvetica-Bold')
+     .text(documentLabel, 450, 30)
+     .fontSize(8).font('Helvetica')
+     .text(`Date: ${new Date().toLocaleDateString()}`, 450, 42);
+}
 
-      // Pricing breakdown header - Maximum Compact
-      currentY += 14;
-      doc.fontSize(9).font('Helvetica-Bold')
-         .text('Pricing Breakdown', 50, currentY);
+// Line items, sales tax, totals and any monthly charges of a quote. Returns the next free y position.
+function addPricing(doc: PDFKit.PDFDocument, { assessment, quote, lineItems, recurringItems = [] }: Pick<QuoteData, 'assessment' | 'quote' | 'lineItems' | 'recurringItems'>, startY: number): number {
+  let currentY = startY;
 
-      const lineY = currentY + 10;
-      
-      // Table headers - smaller
-      doc.fontSize(7).font('Helvetica')
-         .text('Service Item', 50, lineY)
-         .text('Hrs', 300, lineY)
-         .text('Rate', 350, lineY)
-         .text('Cost', 450, lineY);
+  // Pricing breakdown header - Maximum Compact
+  currentY += 14;
+  doc.fontSize(9).font('Helvetica-Bold')
+     .text('Pricing Breakdown', 50, currentY);
 
-      // Draw line
-      doc.moveTo(50, lineY + 8)
-         .lineTo(550, lineY + 8)
-         .stroke();
+  const lineY = currentY + 10;
+  
+  // Table headers - smaller
+  doc.fontSize(7).font('Helvetica')
+     .text('Service Item', 50, lineY)
+     .text('Qty', 300, lineY)
+     .text('Rate', 350, lineY)
+     .text('Cost', 450, lineY);
 
-      currentY = lineY + 12;
-      
-      // Parse numeric values from quote (handle string/decimal conversion)
-      const surveyHours = parseFloat(quote.surveyHours?.toString() || '0');
-      const installationHours = parseFloat(quote.installationHours?.toString() || '0');
-      const configurationHours = parseFloat(quote.configurationHours?.toString() || '0');
-      const laborHoldHours = parseFloat(quote.laborHoldHours?.toString() || '0');
-      const hourlyRate = parseFloat(quote.hourlyRate?.toString() || '190');
-      const hardwareCost = parseFloat(quote.hardwareCost?.toString() || '0');
-      const surveyCost = parseFloat(quote.surveyCost?.toString() || '0');
-      const installationCost = parseFloat(quote.installationCost?.toString() || '0');
-      const configurationCost = parseFloat(quote.configurationCost?.toString() || '0');
-      const laborHoldCost = parseFloat(quote.laborHoldCost?.toString() || '0');
-      const removalHours = parseFloat(quote.removalHours?.toString() || '0');
-      const removalCost = parseFloat(quote.removalCost?.toString() || '0');
-      
-      console.log('PDF Labor Hold Debug:', { laborHoldHours, laborHoldCost, quote });
-      console.log('PDF Removal Debug:', { removalHours, removalCost, quote: { removalHours: quote.removalHours, removalCost: quote.removalCost } });
-      
-      // Survey line (only show if > 0 hours) - Maximum Compact
-      if (surveyHours > 0) {
-        doc.fontSize(7).font('Helvetica')
-           .text('Site Survey & Planning', 50, currentY)
-           .text(`${surveyHours}`, 300, currentY)
-           .text(`$${hourlyRate}`, 350, currentY)
-           .text(`$${surveyCost.toFixed(2)}`, 450, currentY);
-        currentY += 10;
-      }
-      
-      // Installation line - Maximum Compact
-      doc.fontSize(7).font('Helvetica')
-         .text('Installation & Setup', 50, currentY)
-         .text(`${installationHours}`, 300, currentY)
-         .text(`$${hourlyRate}`, 350, currentY)
-         .text(`$${installationCost.toFixed(2)}`, 450, currentY);
-      
+  // Draw line
+  doc.moveTo(50, lineY + 8)
+     .lineTo(550, lineY + 8)
+     .stroke();
+
+  currentY = lineY + 12;
+  
+  // One row per line item - zero-cost items are shown as included, and discounts
+  // and adjustments follow a subtotal of the priced items
+  const firstAdjustment = lineItems.find((item) => item.category === 'adjustment');
+  for (const item of lineItems) {
+    if (item === firstAdjustment) {
+      const subtotal = lineItems
+        .filter((priced) => priced.category !== 'adjustment')
+        .reduce((sum, priced) => sum + priced.total, 0);
+      doc.fontSize(7).font('Helvetica-Bold')
+         .text('Subtotal', 50, currentY)
+         .text(`$${subtotal.toFixed(2)}`, 450, currentY);
       currentY += 10;
-      
-      // Configuration line (only show if > 0 hours and cost > 0) - Maximum Compact
-      if (configurationHours > 0 && configurationCost > 0) {
-        doc.fontSize(7).font('Helvetica')
-           .text('Configuration & Testing', 50, currentY)
-           .text(`${configurationHours}`, 300, currentY)
-           .text(`$${hourlyRate}`, 350, currentY)
-           .text(`$${configurationCost.toFixed(2)}`, 450, currentY);
-        currentY += 10;
-      } else if (configurationHours > 0) {
-        doc.fontSize(7).font('Helvetica')
-           .text('Configuration & Testing', 50, currentY)
-           .text('Included', 450, currentY);
-        currentY += 10;
-      }
-      
-      // Existing System Removal line (only for Fleet Camera with removal needed) - Maximum Compact
-      if (removalHours > 0 && removalCost > 0) {
-        doc.fontSize(7).font('Helvetica')
-           .text('Existing System Removal', 50, currentY)
-           .text(`${removalHours}`, 300, currentY)
-           .text(`$${hourlyRate}`, 350, currentY)
-           .text(`$${removalCost.toFixed(2)}`, 450, currentY);
-        currentY += 10;
-      }
-      
-      // Labor Hold line - ALWAYS show if we have labor hold data - Maximum Compact
-      if (laborHoldHours > 0 || laborHoldCost > 0) {
-        doc.fontSize(7).font('Helvetica')
-           .text('Labor Hold, Final bill Return', 50, currentY)
-           .text(`${laborHoldHours}`, 300, currentY)
-           .text(`$${hourlyRate}`, 350, currentY)
-           .text(`$${laborHoldCost.toFixed(2)}`, 450, currentY);
-        currentY += 10;
-      }
-      
-      // Hardware line (cable costs) - Maximum Compact
-      if (hardwareCost > 0) {
-        doc.fontSize(7).font('Helvetica')
-           .text('Hardware & Materials', 50, currentY)
-           .text('', 300, currentY)
-           .text('', 350, currentY)
-           .text(`$${hardwareCost.toFixed(2)}`, 450, currentY);
-        currentY += 10;
-      }
-      
-      // Training line - Maximum Compact
-      doc.fontSize(7).font('Helvetica')
-         .text('Documentation & Training', 50, currentY)
-         .text('Included', 450, currentY);
+    }
+    doc.fontSize(7).font('Helvetica')
+       .text(item.sku ? `${item.description} (SKU ${item.sku})` : item.description, 50, currentY, { width: 240 });
+    if (item.total === 0) {
+      doc.text('Included', 450, currentY);
+    } else if (item.category === 'adjustment') {
+      doc.text(`${item.total < 0 ? '-' : ''}$${Math.abs(item.total).toFixed(2)}`, 450, currentY);
+    } else {
+      doc.text(`${item.quantity} ${item.unit === 'hours' ? 'hrs' : item.unit}`, 300, currentY)
+         .text(`$${item.unitPrice.toFixed(2)}`, 350, currentY)
+         .text(`$${item.total.toFixed(2)}`, 450, currentY);
+    }
+    currentY += 10;
+  }
 
-      // Total line - Maximum Compact
-      currentY += 12;
-      doc.moveTo(50, currentY)
-         .lineTo(550, currentY)
-         .stroke();
+  // Subtotal and sales tax, for quotes priced with tax
+  if (quote.taxAmount !== null && quote.taxAmount !== undefined) {
+    currentY += 2;
+    doc.moveTo(50, currentY)
+       .lineTo(550, currentY)
+       .stroke();
+    currentY += 4;
+    doc.fontSize(7).font('Helvetica')
+       .text(firstAdjustment ? 'Adjusted Subtotal' : 'Subtotal', 50, currentY)
+       .text(`$${parseFloat(quote.subtotal || '0').toFixed(2)}`, 450, currentY);
+    currentY += 10;
+    doc.text(formatTaxLabel(quote, assessment.taxExempt), 50, currentY)
+       .text(`$${parseFloat(quote.taxAmount).toFixed(2)}`, 450, currentY);
+    currentY += 10;
+  }
 
-      currentY += 6;
-      const totalCost = parseFloat(quote.totalCost?.toString() || '0');
-      doc.fontSize(9).font('Helvetica-Bold')
-         .text('Total Project Cost', 50, currentY)
-         .text(`$${totalCost.toFixed(2)}`, 450, currentY);
+  // Total line - Maximum Compact
+  currentY += 2;
+  doc.moveTo(50, currentY)
+     .lineTo(550, currentY)
+     .stroke();
 
-      // Terms and conditions - Maximum Compact
-      currentY += 16;
-      doc.fontSize(8).font('Helvetica-Bold')
-         .text('Terms & Conditions:', 50, currentY);
-      currentY += 10;
+  currentY += 6;
+  const totalCost = parseFloat(quote.totalCost?.toString() || '0');
+  doc.fontSize(9).font('Helvetica-Bold')
+     .text(recurringItems.length > 0 ? 'One-Time Total' : 'Total Project Cost', 50, currentY)
+     .text(`$${totalCost.toFixed(2)}`, 450, currentY);
+
+  // Monthly charges for the contract term and the total contract value
+  if (recurringItems.length > 0) {
+    const monthlyTotal = parseFloat(quote.monthlyTotal || '0');
+    const termMonths = quote.termMonths || 0;
+
+    currentY += 16;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text(`Monthly Recurring Charges (${termMonths}-month term)`, 50, currentY);
+    currentY += 12;
+    for (const item of recurringItems) {
       doc.fontSize(7).font('Helvetica')
-         .text('• Quote valid for 30 days • Labor hold returned if unused • Installation subject to site assessment approval • Contact sales representative for questions', 50, currentY, { width: 500, lineGap: 1 });
+         .text(item.sku ? `${item.description} (SKU ${item.sku})` : item.description, 50, currentY, { width: 240 })
+         .text(`${item.quantity} ${item.unit}`, 300, currentY)
+         .text(`$${item.unitPrice.toFixed(2)}/mo`, 350, currentY)
+         .text(`$${item.total.toFixed(2)}/mo`, 450, currentY);
+      currentY += 10;
+    }
 
-      // Statement of Work for Fleet Tracking - optimized for space
-      if (assessment.serviceType === 'fleet-tracking') {
-        // Always start on new page for SOW to keep it organized
-        doc.addPage();
-        currentY = 50;
-        
-        doc.fontSize(11)
-           .text('Statement of Work: Fleet Tracker Equipment Installation (OBD-II)', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(8)
-           .text('This document outlines the scope of work for the professional installation of fleet tracker equipment into your individual vehicle(s) through its Smart Data II (OBD-II) port. This service ensures proper device connection and initial functionality testing, enabling you to effectively monitor your fleet. All hardware will be provided by your designated Wireless Vendor. All installation materials (zip-ties, mounting tape) will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500 });
-        
-        currentY += 35;
-        doc.fontSize(9)
-           .text('Summary of Services', 50, currentY);
-        
-        currentY += 14;
-        doc.fontSize(8)
-           .text('Our technician will install fleet tracker equipment in each vehicle by performing: • Vehicle Preparation: Identifying OBD-II port and ensuring safe installation environment. • Device Connection: Securely plugging tracker into OBD-II port. • Cable Management: Neatly securing device and cabling. • Device Verification: Confirming power and communication.', 50, currentY, { width: 500 });
-        
-        currentY += 30;
-        doc.fontSize(9)
-           .text('Installation Process', 50, currentY);
-        
-        currentY += 14;
-        doc.fontSize(8)
-           .text('1. Pre-Installation: Vehicle identification, access vehicle, locate OBD-II port (typically within 3 feet of steering wheel, under dashboard), assess installation area for secure and discrete placement.', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.text('2. Device Installation: Connect tracker directly to OBD-II port, verify initial power through indicator lights to ensure proper power from vehicle port.', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.text('3. Cable Management: Secure device and cables using mounting materials (zip ties, mounting tape) without interfering with vehicle operations, preventing tampering, achieving discreet installation. Conceal device and cables when possible without obstructing vehicle controls.', 50, currentY, { width: 500 });
-        
-        currentY += 25;
-        doc.text('4. Functionality Verification: Confirm device power and light pattern detection, check cellular/GPS signal indicators if available (full transmission verification by cellular provider), ensure no interference with vehicle systems.', 50, currentY, { width: 500 });
-        
-        currentY += 30;
-        doc.fontSize(9)
-           .text('Time Estimate', 50, currentY);
-        
-        currentY += 14;
-        doc.fontSize(8)
-           .text('Estimated installation time: 20 minutes per vehicle, depending on vehicle size and OBD-II port access. Final charge reflects actual time on-site including minimum service fee plus additional time for completion. Preliminary labor hold of $190.00 for unforeseen challenges or delays.', 50, currentY, { width: 500 });
-      }
+    currentY += 2;
+    doc.moveTo(50, currentY)
+       .lineTo(550, currentY)
+       .stroke();
+    currentY += 6;
+    doc.fontSize(8).font('Helvetica-Bold')
+       .text('Monthly Total', 50, currentY)
+       .text(`$${monthlyTotal.toFixed(2)}/mo`, 450, currentY);
+    currentY += 12;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('Total Contract Value', 50, currentY)
+       .text(`$${calculateContractValue(totalCost, monthlyTotal, termMonths).toFixed(2)}`, 450, currentY);
+  }
 
-      // Statement of Work for Fleet Camera - optimized for readability with proper spacing
-      if (assessment.serviceType === 'fleet-camera') {
-        // Always start on new page for SOW to keep it organized
-        doc.addPage();
-        currentY = 50;
-        
-        doc.fontSize(11)
-           .text('Statement of Work: Fleet Camera Dashcam and Optional External Camera Installation', 50, currentY);
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('This document outlines the scope of work for the professional installation of fleet camera equipment into your individual vehicle(s) including dashcams, external cameras, and optional existing system removal. This service ensures proper device connection and initial functionality testing, enabling you to effectively monitor your fleet.', 50, currentY, { width: 500 });
-        
-        currentY += 28;
-        doc.fontSize(9)
-           .text('Summary of Services', 50, currentY);
-        
-        currentY += 16;
-        doc.fontSize(8)
-           .text('• Vehicle Preparation: Pre-installation check and planning', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('• Fleet Camera Dashcam Installation: Professional installation for optimal performance', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('• Optional External Camera Installation (if selected): Additional camera points for comprehensive coverage', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('• Optional Fleet Tracker Installation (if selected): Integration with existing fleet management systems', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(9)
-           .text('Our Process', 50, currentY);
-        
-        currentY += 16;
-        doc.fontSize(8)
-           .text('Pre-Installation Check and Planning: Vehicle identification to confirm details and access requirements, power assessment to verify adequate supply and identify optimal connection points, camera positioning to determine optimal placement for maximum coverage while maintaining driver visibility, wiring route planning for efficient and secure cable routing.', 50, currentY, { width: 500 });
-        
-        currentY += 30;
-        doc.text('Fleet Camera Dashcam Installation: Securely mount dashcam in optimal position for clear forward view, connect to vehicle power system with proper voltage protection, route and secure all cables to prevent interference with vehicle operation, configure basic camera settings and verify proper operation.', 50, currentY, { width: 500 });
-        
-        currentY += 30;
-        doc.text('Optional External Camera Installation (if selected): Install external cameras at specified locations (rear, side, etc.), ensure all external connections are properly sealed and weatherproofed, connect external cameras to main dashcam unit or recording system, verify all camera feeds are properly integrated and functioning.', 50, currentY, { width: 500 });
-        
-        currentY += 30;
-        doc.text('Optional Fleet Tracker Installation (if selected): Connect fleet tracker to vehicle\'s diagnostic port, confirm tracker receives adequate power and signal, verify tracker communicates properly with fleet management system, ensure accurate location and vehicle data reporting.', 50, currentY, { width: 500 });
-        
-        currentY += 25;
-        doc.fontSize(9)
-           .text('Functionality Verification', 50, currentY);
-        
-        currentY += 16;
-        doc.fontSize(8)
-           .text('Power Test: Verify all devices receive proper power and show correct status indicators.', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('Recording Test: Confirm all cameras are recording properly with clear image quality.', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('Storage Verification: Ensure adequate storage capacity and proper file management.', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('System Integration: Verify all components work together seamlessly.', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('Final Inspection: Complete system check to ensure professional installation quality.', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(9)
-           .text('Post-Installation Clean-up', 50, currentY);
-        
-        currentY += 16;
-        doc.fontSize(8)
-           .text('Remove all installation materials and packaging. Ensure vehicle interior is clean and professional. Provide basic operation instructions and contact information for support.', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(9)
-           .text('Estimated Time Per Vehicle', 50, currentY);
-        
-        currentY += 16;
-        doc.fontSize(8)
-           .text('Fleet Camera Dashcam Only: Approximately 45-60 minutes per vehicle.', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('Fleet Camera Dashcam + Optional External Cameras: Approximately 60-90 minutes per vehicle.', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('Fleet Camera Dashcam + Optional Fleet Tracker: Approximately 60-75 minutes per vehicle.', 50, currentY, { width: 500 });
-        currentY += 12;
-        doc.text('Complete Installation (All Components): Approximately 75-120 minutes per vehicle.', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.text('Work will be completed within a typical timeframe, the final charge will accurately reflect the actual time our team spends on-site. This includes the minimum service fee plus any additional time for completion. Any on-site challenges or unexpected extra work or unforeseen delay. A preliminary labor hold of $190.00 in total hold.', 50, currentY, { width: 500 });
-      }
+  return currentY;
+}
 
-      // Statement of Work for Fixed Wireless (Primary + Antenna) - Properly formatted for 4 pages
-      if (assessment.serviceType === 'site-assessment' && 
-          assessment.connectionUsage === 'primary' && 
-          assessment.lowSignalAntennaCable === 'yes') {
-        // Start new page for SOW
-        doc.addPage();
-        currentY = 50;
-        
-        doc.fontSize(12).font('Helvetica-Bold')
-           .text('Scope of Work: Primary Cellular Wireless Router Installation with Antenna Installation', 50, currentY);
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica')
-           .text('This document outlines the scope of work for the installation of a cellular wireless router to serve as your primary internet service provider (ISP) at the designated location. This comprehensive service includes a detailed site survey, preparation and installation of the wireless router, and, if necessary, the running of up to 200 feet of coaxial cable for the installation of an internal antenna to optimize signal strength.', 50, currentY, { width: 500, lineGap: 4 });
-        
-        currentY += 40;
-        doc.text('Hardware for this project will be provided by your Wireless Vendor. All necessary materials will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500, lineGap: 4 });
-        
-        currentY += 30;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Summary of Services', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
-        
-        currentY += 15;
-        doc.text('• Site Survey: Assessment of location for optimal router/antenna placement', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Router Preparation: Unboxing and component verification', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Installation: Secure mounting of router/antenna with component connections', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Coaxial Cable Installation: Up to 200ft cable run for antenna connection', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Configuration: Cellular connection setup and connectivity testing', 50, currentY, { width: 500, lineGap: 2 });
-        
-        currentY += 20;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Our Process', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('1. Preparation and Planning', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Location Determination: Site contact collaboration to identify optimal router placement', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Wireless Survey: Cellular device assessment for best antenna positioning', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Route Planning: Cable path design minimizing bends and interference sources', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('2. Coaxial Cable Installation (If Required)', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Drilling: Careful hole creation through walls, avoiding structural members', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Cable Routing: Fish tape/rod guidance through walls and conduits', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Cable Pulling: Smooth installation adhering to bend radius specifications', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Interference Avoidance: Clear of power lines and electromagnetic sources', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Securing & Labeling: Cable ties for support, unique ID labels for troubleshooting', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('3. Cable Termination (If Required)', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Cable Preparation: Precision stripping to expose conductor and shielding', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Connector Installation: F-type connector attachment per manufacturer specs', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Crimping & Testing: Compression tool securing and cable tester verification', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('4. Installation and Configuration', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Wall Plate Installation: F-type jacks connected to terminated cables', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• SIM Card Installation: Proper orientation and secure placement', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Router Mounting: Wall mounting with appropriate hardware (if requested)', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Power Connection: Adapter connection and boot-up verification', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Router Configuration: Password setup, APN configuration, and connectivity testing', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Final Testing: Speed test confirmation of primary ISP functionality', 50, currentY, { width: 500 });
-      }
+// One row per option with its one-time and monthly totals. Returns the next free y position.
+function addOptionsSummary(doc: PDFKit.PDFDocument, options: QuoteOption[], startY: number): number {
+  let currentY = startY + 14;
+  doc.fontSize(9).font('Helvetica-Bold')
+     .text('Options', 50, currentY);
 
-      // Statement of Work for Fixed Wireless (Primary Only - No Antenna) - Properly formatted for 4 pages
-      if (assessment.serviceType === 'site-assessment' && 
-          assessment.connectionUsage === 'primary' && 
-          assessment.lowSignalAntennaCable !== 'yes') {
-        // Start new page for SOW
-        doc.addPage();
-        currentY = 50;
-        
-        doc.fontSize(12).font('Helvetica-Bold')
-           .text('Scope of Work: Cellular Wireless Router Installation', 50, currentY);
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica')
-           .text('This document outlines the scope of work for the installation of a cellular wireless router at your designated location. This service includes a comprehensive site survey, preparation and installation of the router, and basic configuration to ensure your devices are connected. Please note that this service does not include network cabling.', 50, currentY, { width: 500, lineGap: 4 });
-        
-        currentY += 35;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Summary of Services', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
-        
-        currentY += 15;
-        doc.text('• Site Survey: Assessment of location for optimal router placement', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Router Preparation: Unboxing and component verification', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Mounting and Installation: Secure mounting with component connections', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Basic Router Configuration: Cellular connection and Wi-Fi setup', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Device Configuration Support: Connect up to 5 devices to wireless network', 50, currentY, { width: 500, lineGap: 2 });
-        
-        currentY += 20;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Our Process', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('1. Preparation and Planning', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Location Determination: Site contact collaboration for optimal router placement within 5 feet of power outlet', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Documentation Review: Manufacturer installation guide review', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('2. SIM Card Installation', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Power Off: Complete router shutdown before SIM insertion', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• SIM Card Slot Location: Locate slot typically on side or back of router', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• SIM Card Insertion: Careful insertion with correct orientation using provided tool', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Secure Cover: Replace SIM card cover securely', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('3. Mounting (Optional)', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Wall Mounting: Secure wall mounting if desired with appropriate hardware and neat cable routing', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('4. Antenna Connection', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Antenna Attachment: Secure attachment of detachable antennas with proper alignment', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('5. Power Connection', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Power Adapter Connection: Connect adapter to router power input and suitable outlet', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Power On: Router startup and indicator light observation for boot confirmation', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('6. Network Connection', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Wireless Connection (Wi-Fi): Device connection using provided SSID and password', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('7. Router Configuration', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Configuration Interface Access: Web browser access via router IP address', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Login and Password Change: Default credentials entry and immediate password change for security', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Cellular Connection Configuration: APN configuration from cellular carrier', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Network Settings (Optional): DHCP, DNS, and firewall configuration as needed', 50, currentY, { width: 500 });
-        currentY += 14;
-        doc.text('• Connection Test: Internet speed test verification via browser', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(8)
-           .text('8. Device Configuration (Up to 5 Devices)', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(7)
-           .text('• Device Connection Support: Hands-on assistance connecting up to 5 existing devices to wireless network', 50, currentY, { width: 500 });
-        
-        currentY += 25;
-        doc.fontSize(9)
-           .text('Estimated Time On-Site', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(8)
-           .text('The estimated time on-site for this installation is 1 hour.', 50, currentY);
-        
-        currentY += 25;
-        doc.fontSize(9)
-           .text('Additional Labor Hold', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(8)
-           .text('Price: $380.00', 50, currentY);
-        
-        currentY += 16;
-        doc.fontSize(7)
-           .text('While we aim for completion within a typical timeframe, the final charge will accurately reflect the actual time our team spends on-site. This includes the minimum service fee plus any additional time (billed at $190 per hour in 15-minute increments) needed for extra work or unforeseen issues. A preliminary Credit Hold of $380.00 in total Hold Amount. This will cover most external penetrations, or ceiling issues.', 50, currentY, { width: 500, lineGap: 3 });
-      }
+  const lineY = currentY + 10;
+  doc.fontSize(7).font('Helvetica')
+     .text('Option', 50, lineY)
+     .text('Monthly', 370, lineY)
+     .text('One-Time', 450, lineY);
+  doc.moveTo(50, lineY + 8)
+     .lineTo(550, lineY + 8)
+     .stroke();
 
-      // Statement of Work for Fixed Wireless (Failover + Antenna) - Properly formatted for 4 pages
-      if (assessment.serviceType === 'site-assessment' && 
-          assessment.connectionUsage === 'failover' && 
-          assessment.lowSignalAntennaCable === 'yes') {
-        // Start new page for SOW
-        doc.addPage();
-        currentY = 50;
-        
-        doc.fontSize(12).font('Helvetica-Bold')
-           .text('Scope of Work: Failover Cellular Router with Antenna Installation', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(9).font('Helvetica')
-           .text('This document outlines the scope of work for the installation of a cellular wireless router to serve as a failover internet service provider (ISP) at your designated location. This service includes antenna installation and network cabling to server/rack when required. Hardware provided by Wireless Vendor, materials by NXTKonekt.', 50, currentY, { width: 500, lineGap: 3 });
-        
-        currentY += 28;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Services Included', 50, currentY);
-        
-        currentY += 12;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Site Survey: Assessment of location for optimal router/antenna placement', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Router Preparation: Unboxing and component verification', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Installation: Secure mounting of router/antenna with component connections', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Network Integration: Cabling to server/rack for seamless failover operation', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Configuration: Cellular connection setup and failover testing', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Our Process', 50, currentY);
-        
-        currentY += 12;
-        doc.fontSize(9).font('Helvetica')
-           .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
-        
-        currentY += 16;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('1. Preparation and Planning', 50, currentY);
-        
-        currentY += 12;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Location Determination: Site contact collaboration to identify optimal router placement', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Signal Assessment: Cellular device evaluation for failover reliability', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Network Integration Planning: Existing infrastructure assessment for seamless integration', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
-        
-        currentY += 16;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('2. Installation and Setup', 50, currentY);
-        
-        currentY += 12;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Router Installation: Professional mounting and power connection', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Network Cabling: Professional cable routing to server/rack location', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• SIM Installation: Cellular network activation and initial testing', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Failover Configuration: Network integration for automatic switchover', 50, currentY, { width: 500 });
-        
-        currentY += 16;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('3. Testing and Documentation', 50, currentY);
-        
-        currentY += 12;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Connectivity Testing: Verify cellular connection and speed performance', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Failover Testing: Simulate primary ISP outage to confirm automatic switching', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Documentation: Provide installation summary and contact information', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Important Notes', 50, currentY);
-        
-        currentY += 12;
-        doc.fontSize(8).font('Helvetica')
-           .text('• External penetration permits are client responsibility when required', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Up to 200 feet of coaxial cable included for antenna installations', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Installation timeframe varies based on site complexity and existing infrastructure', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Professional cleanup and documentation provided upon completion', 50, currentY, { width: 500 });
-        
-        // Step 2
-        doc.fontSize(8).font('Helvetica-Bold')
-           .text('2. Antenna Installation', 50, currentY, { width: 500 });
-        currentY += 12;
-        
-        doc.fontSize(7).font('Helvetica')
-           .text('External: Survey location, controlled wall penetration, secure mounting, weatherproof cable routing.', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 10;
-        
-        doc.text('Internal: Indoor location survey, secure mounting, ceiling/conduit cable routing.', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 16;
-        
-        // Step 3
-        doc.fontSize(8).font('Helvetica-Bold')
-           .text('3. Cable Installation', 50, currentY, { width: 500 });
-        currentY += 12;
-        
-        doc.fontSize(7).font('Helvetica')
-           .text('Coaxial: Careful routing, drilling as needed, secure with ties, F-type termination, integrity testing.', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 10;
-        
-        doc.text('Network: Route to server/rack through walls/ceilings, RJ45 termination, performance testing.', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 16;
-        
-        // Step 4
-        doc.fontSize(8).font('Helvetica-Bold')
-           .text('4. Router Setup & Configuration', 50, currentY, { width: 500 });
-        currentY += 12;
-        
-        doc.fontSize(7).font('Helvetica')
-           .text('SIM installation, secure mounting, power connection, web interface access, password change, cellular APN configuration, network settings (IP/DHCP/DNS), routing rules, speed testing.', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 16;
-        
-        // Step 5
-        doc.fontSize(8).font('Helvetica-Bold')
-           .text('5. Final Testing', 50, currentY, { width: 500 });
-        currentY += 12;
-        
-        doc.fontSize(7).font('Helvetica')
-           .text('Comprehensive testing of cellular connection, antenna signal strength, network cable connectivity, and system integration.', 50, currentY, { width: 500, lineGap: 2 });
-      }
+  currentY = lineY + 12;
+  options.forEach((option, index) => {
+    const monthlyTotal = parseFloat(option.monthlyTotal || '0');
+    doc.fontSize(7).font('Helvetica')
+       .text(`${index + 1}. ${option.name}`, 50, currentY, { width: 300 })
+       .text(monthlyTotal > 0 ? `$${monthlyTotal.toFixed(2)}/mo` : '-', 370, currentY)
+       .text(`$${parseFloat(option.totalCost).toFixed(2)}`, 450, currentY);
+    currentY += 10;
+  });
 
-      // Statement of Work for Fixed Wireless (Failover Only - No Antenna) - Properly formatted for 4 pages
-      if (assessment.serviceType === 'site-assessment' && 
-          assessment.connectionUsage === 'failover' && 
-          assessment.lowSignalAntennaCable !== 'yes') {
-        // Start new page for SOW
-        doc.addPage();
-        currentY = 50;
-        
-        doc.fontSize(12).font('Helvetica-Bold')
-           .text('Scope of Work: Failover Cellular Wireless Router Installation', 50, currentY);
-        
-        currentY += 18;
-        doc.fontSize(9).font('Helvetica')
-           .text('This document outlines the scope of work for the installation of a cellular wireless router to serve as a failover internet service provider (ISP) at your designated location. This service ensures business continuity by providing an alternative internet connection in the event of an outage with your primary ISP.', 50, currentY, { width: 500, lineGap: 3 });
-        
-        currentY += 30;
-        doc.text('The installation includes a site survey, preparation and installation of the wireless router, and basic configuration to integrate it into your existing network for seamless failover operation.', 50, currentY, { width: 500, lineGap: 3 });
-        
-        currentY += 25;
-        doc.text('Hardware for this project will be provided by your Wireless Vendor. All necessary materials will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500, lineGap: 3 });
-        
-        currentY += 25;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Summary of Services', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
-        
-        currentY += 12;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Site Survey: Assessment of optimal router placement for cellular signal and network proximity', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Router Preparation: Unboxing, verification, and documentation review', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Mounting and Installation: Secure mounting and power connection', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Basic Router Configuration: Cellular connection, Wi-Fi setup, and failover integration', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Failover Testing: Verification of smooth transition during primary ISP outage', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Our Process', 50, currentY);
-        
-        currentY += 13;
-        doc.fontSize(9).font('Helvetica')
-           .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('1. Preparation and Planning', 50, currentY);
-        
-        currentY += 13;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Location Determination: Site contact collaboration for optimal router placement within 5 feet of power outlet', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Network Assessment: Evaluation of existing network infrastructure for failover integration', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Signal Evaluation: Cellular signal strength testing for reliable failover performance', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
-        
-        currentY += 16;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('2. Router Installation', 50, currentY);
-        
-        currentY += 13;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Physical Installation: Professional mounting and secure placement of cellular router', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Power Connection: Electrical connection and initial power-on verification', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• SIM Card Installation: Cellular service activation and initial connectivity testing', 50, currentY, { width: 500 });
-        
-        currentY += 16;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('3. Network Configuration', 50, currentY);
-        
-        currentY += 13;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Router Configuration: Cellular connection setup and performance optimization', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Failover Integration: Network configuration for automatic failover activation', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Testing and Verification: Comprehensive testing of failover functionality', 50, currentY, { width: 500 });
-        
-        currentY += 16;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('4. Quality Assurance', 50, currentY);
-        
-        currentY += 13;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Connection Speed Testing: Verification of cellular internet speed and reliability', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Failover Simulation: Testing automatic switching during primary connection failure', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Network Integration Testing: Ensuring seamless integration with existing systems', 50, currentY, { width: 500 });
-        
-        currentY += 18;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Important Notes', 50, currentY);
-        
-        currentY += 13;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Router must be placed within 5 feet of available power outlet', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Existing network infrastructure required for failover integration', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Installation timeframe: Approximately 60-90 minutes depending on site complexity', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Professional cleanup and documentation provided upon completion', 50, currentY, { width: 500 });
-        currentY += 11;
-        doc.text('• Client training on failover monitoring and basic troubleshooting included', 50, currentY, { width: 500 });
-      }
+  return currentY;
+}
 
-      // Default Statement of Work for Fixed Wireless when specific type not determined
-      if (assessment.serviceType === 'site-assessment' && 
-          !assessment.connectionUsage && 
-          !assessment.lowSignalAntennaCable) {
-        // Start new page for SOW
-        doc.addPage();
-        currentY = 50;
-        
-        doc.fontSize(12).font('Helvetica-Bold')
-           .text('Scope of Work: Cellular Wireless Router Installation', 50, currentY);
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica')
-           .text('This document outlines the scope of work for the installation of a cellular wireless router at your designated location. This comprehensive service includes a detailed site survey, preparation and installation of the wireless router, and configuration to meet your connectivity requirements.', 50, currentY, { width: 500, lineGap: 4 });
-        
-        currentY += 35;
-        doc.text('Hardware for this project will be provided by your Wireless Vendor. All necessary materials will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500, lineGap: 4 });
-        
-        currentY += 30;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Summary of Services', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
-        
-        currentY += 15;
-        doc.text('• Site Survey: Assessment of location for optimal router placement and signal strength', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Router Preparation: Unboxing, verification, and documentation review', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Installation: Secure mounting and professional installation of router equipment', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Configuration: Cellular connection setup, network configuration, and testing', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Antenna Installation: External antenna installation if required for signal optimization', 50, currentY, { width: 500, lineGap: 2 });
-        
-        currentY += 20;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Installation Process', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('Our comprehensive installation process ensures optimal performance:', 50, currentY, { width: 500 });
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('1. Site Assessment & Planning', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Signal strength evaluation and optimal placement determination', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Infrastructure assessment for power and mounting requirements', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Cable path planning and interference source identification', 50, currentY, { width: 500, lineGap: 3 });
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('2. Equipment Installation', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(8).font('Helvetica')
-           .text('• Professional mounting of router in optimal location', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Power connection and initial equipment verification', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Antenna installation and coaxial cable routing if required', 50, currentY, { width: 500, lineGap: 3 });
-        
-        currentY += 20;
-        doc.fontSize(9).font('Helvetica-Bold')
-           .text('3. Configuration & Testing', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(8).font('Helvetica')
-           .text('• SIM card installation and cellular network activation', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Router configuration for optimal performance settings', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Comprehensive connectivity testing and speed verification', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        doc.text('• Network integration and device connection assistance', 50, currentY, { width: 500, lineGap: 3 });
-        
-        currentY += 25;
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Important Notes', 50, currentY);
-        
-        currentY += 15;
-        doc.fontSize(9).font('Helvetica')
-           .text('• Installation timeframe varies based on site complexity and requirements', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• External penetration permits are client responsibility when required', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Up to 200 feet of coaxial cable included for antenna installations', 50, currentY, { width: 500, lineGap: 2 });
-        currentY += 14;
-        doc.text('• Professional cleanup and documentation provided upon completion', 50, currentY, { width: 500, lineGap: 2 });
-        
-        // Our Process
-        doc.fontSize(11).font('Helvetica-Bold')
-           .text('Our Process', 50, currentY, { width: 500 });
-        currentY += 18;
-        
-        doc.fontSize(9).font('Helvetica')
-           .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500, lineGap: 4 });
-        currentY += 18;
-        
-        // Preparation and Planning
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Preparation and Planning', 50, currentY, { width: 500 });
-        currentY += 16;
-        
-        doc.fontSize(8).font('Helvetica')
-           .text('• Site survey for optimal router placement within 5 feet of power and network equipment', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 16;
-        
-        doc.text('• Network topology assessment and failover integration planning', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Hardware verification and component check', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Installation guide and documentation review', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 18;
-        
-        // SIM Card Installation
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('SIM Card Installation', 50, currentY, { width: 500 });
-        currentY += 16;
-        
-        doc.fontSize(8).font('Helvetica')
-           .text('• Power off router, locate SIM slot, insert card with proper orientation, secure cover', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 18;
-        
-        // Mounting & Power
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Mounting & Power Connection', 50, currentY, { width: 500 });
-        currentY += 16;
-        
-        doc.fontSize(8).font('Helvetica')
-           .text('• Secure wall mounting (if desired) with neat cable routing', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Connect power adapter and power on router, observe boot-up indicators', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 18;
-        
-        // Network Connection
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Network Connection', 50, currentY, { width: 500 });
-        currentY += 16;
-        
-        doc.fontSize(8).font('Helvetica')
-           .text('• Connect via Ethernet to existing network equipment (firewall/router)', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Configure Wi-Fi SSID and password (if desired for failover connection)', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 18;
-        
-        // Router Configuration
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Router Configuration', 50, currentY, { width: 500 });
-        currentY += 16;
-        
-        doc.fontSize(8).font('Helvetica')
-           .text('• Access web interface via IP address and change default password', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Configure cellular connection with carrier APN settings', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Set network settings (IP, DHCP, DNS) for network integration', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Configure failover settings and routing rules with network admin', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Perform speed test to confirm cellular connection reliability', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 18;
-        
-        // Failover Testing
-        doc.fontSize(10).font('Helvetica-Bold')
-           .text('Failover Testing', 50, currentY, { width: 500 });
-        currentY += 16;
-        
-        doc.fontSize(8).font('Helvetica')
-           .text('• Temporarily disable primary connection to verify seamless failover transition', 50, currentY, { width: 500, lineGap: 3 });
-        currentY += 14;
-        
-        doc.text('• Re-enable primary connection once failover functionality is confirmed', 50, currentY, { width: 500, lineGap: 3 });
-      }
+// Installation hours for each vehicle of a fleet quote, on its own page(s)
+function addVehicleLabor(doc: PDFKit.PDFDocument, lines: VehicleLaborLine[] | null | undefined) {
+  if (!lines?.length) {
+    return;
+  }
 
-      // Additional notes - if any
-      if (assessment.additionalNotes) {
-        currentY += 35;
-        // Check if we need a new page for additional notes
-        if (currentY > 750) {
-          doc.addPage();
-          currentY = 50;
-        }
-        doc.fontSize(10)
-           .text('Additional Notes:', 50, currentY)
-           .text(assessment.additionalNotes, 50, currentY + 12, { width: 500 });
-      }
+  const addTableHeader = () => {
+    doc.addPage();
+    doc.fontSize(11).font('Helvetica-Bold')
+       .text('Installation by Vehicle', 50, 50);
+    doc.fontSize(7).font('Helvetica')
+       .text('Vehicle', 50, 70)
+       .text('Vehicle Class', 300, 70)
+       .text('Multiplier', 400, 70)
+       .text('Hours', 480, 70);
+    doc.moveTo(50, 78)
+       .lineTo(550, 78)
+       .stroke();
+    return 82;
+  };
 
-      doc.end();
+  let currentY = addTableHeader();
+  for (const line of lines) {
+    if (currentY > 720) {
+      currentY = addTableHeader();
+    }
+    doc.fontSize(7).font('Helvetica')
+       .text(line.vehicle, 50, currentY, { width: 240 })
+       .text(line.vehicleClass || 'Not set', 300, currentY)
+       .text(`${line.multiplier}×`, 400, currentY)
+       .text(line.hours.toFixed(2), 480, currentY);
+    currentY += 10;
+  }
 
-      doc.on('end', () => {
-        console.log('✅ PDF generation completed successfully:', filePath);
-        resolve(filePath);
-      });
+  currentY += 4;
+  doc.fontSize(7).font('Helvetica')
+     .text('Hours are each vehicle\'s share of the installation labor, adjusted for its vehicle class.', 50, currentY, { width: 500 });
+}
 
-      doc.on('error', (docError) => {
-        console.error('❌ PDFKit document error:', docError);
-        reject(new Error(`PDF document error: ${docError.message}`));
-      });
+function getSignedQuote({ assessment, quote, organizationName }: QuoteData): SignedDocument {
+  return { kind: 'quote', number: quote.quoteNumber, customerCompanyName: assessment.customerCompanyName, organizationName };
+}
 
-    } catch (error) {
-      console.error('❌ PDF generation caught error:', error);
-      if (error instanceof Error) {
-        reject(new Error(`PDF generation failed: ${error.message}`));
-      } else {
-        reject(new Error(`PDF generation failed: ${String(error)}`));
-      }
+// Signature page with the customer's acceptance, followed by the audit certificate of the signing
+function addSignature(doc: PDFKit.PDFDocument, document: SignedDocument, signature: QuoteSignature | ProposalSignature) {
+  const documentLabel = `${document.kind === 'quote' ? 'Quote' : 'Proposal'} #${document.number}`;
+  const pdfHash = 'quotePdfHash' in signature ? signature.quotePdfHash : signature.proposalPdfHash;
+
+  doc.addPage();
+  addHeader(doc, documentLabel);
+
+  let currentY = 100;
+  doc.fontSize(14).font('Helvetica-Bold')
+     .text('Customer Acceptance', 50, currentY);
+  currentY += 24;
+  const scope = document.kind === 'quote'
+    ? 'including its pricing, statement of work and Terms & Conditions'
+    : 'including every service in it with its pricing and statement of work, and the Terms & Conditions';
+  doc.fontSize(9).font('Helvetica')
+     .text(`${document.customerCompanyName || 'The customer'} accepts this ${document.kind} from ${document.organizationName}, ${scope}.`, 50, currentY, { width: 500 });
+
+  currentY += 40;
+  if (signature.signatureType === 'drawn') {
+    try {
+      const image = Buffer.from(signature.signatureData.replace(/^data:image\/png;base64,/, ''), 'base64');
+      doc.image(image, 50, currentY, { fit: [250, 80] });
+    } catch (imageError) {
+      console.warn('⚠️ Could not render drawn signature:', imageError);
     }
-  });
-}
\ No newline at end of file
+  } else {
+    doc.fontSize(24).font('Times-Italic')
+       .text(signature.signatureData, 50, currentY + 30, { width: 400 });
+  }
+
+  currentY += 90;
+  doc.moveTo(50, currentY)
+     .lineTo(300, currentY)
+     .stroke();
+  currentY += 6;
+  doc.fontSize(9).font('Helvetica-Bold')
+     .text(signature.signerName, 50, currentY);
+  currentY += 12;
+  doc.fontSize(9).font('Helvetica')
+     .text(signature.signerTitle, 50, currentY);
+  currentY += 12;
+  doc.text(`Signed ${signature.signedAt.toUTCString()}`, 50, currentY);
+
+  doc.addPage();
+  addHeader(doc, documentLabel);
+
+  currentY = 100;
+  doc.fontSize(14).font('Helvetica-Bold')
+     .text('Audit Certificate', 50, currentY);
+  currentY += 28;
+
+  const rows: [string, string][] = [
+    [document.kind === 'quote' ? 'Quote' : 'Proposal', `#${document.number}`],
+    ['Signer', `${signature.signerName}, ${signature.signerTitle}`],
+    ['Signature', signature.signatureType === 'drawn' ? 'Drawn' : 'Typed'],
+    ['Terms accepted', signature.termsAcceptedAt.toUTCString()],
+    ['Signed', signature.signedAt.toUTCString()],
+    ['IP address', signature.ipAddress || 'Not recorded'],
+    ['User agent', signature.userAgent || 'Not recorded'],
+    ['Signed document SHA-256', pdfHash],
+  ];
+  for (const [label, value] of rows) {
+    doc.fontSize(8).font('Helvetica-Bold')
+       .text(label, 50, currentY, { width: 140 });
+    doc.fontSize(8).font('Helvetica')
+       .text(value, 200, currentY, { width: 350 });
+    currentY = Math.max(doc.y, currentY + 12) + 4;
+  }
+
+  currentY += 12;
+  doc.fontSize(7).font('Helvetica')
+     .text(`The SHA-256 hash identifies the exact ${document.kind} PDF presented to the signer. It can be checked against the unsigned ${document.kind} PDF to confirm the signed terms were not changed.`, 50, currentY, { width: 500 });
+}
+
+function addTerms(doc: PDFKit.PDFDocument, startY: number): number {
+  let currentY = startY;
+
+  // Terms and conditions - Maximum Compact
+  currentY += 16;
+  doc.fontSize(8).font('Helvetica-Bold')
+     .text('Terms & Conditions:', 50, currentY);
+  currentY += 10;
+  doc.fontSize(7).font('Helvetica')
+     .text('• Quote valid for 30 days • Labor hold returned if unused • Installation subject to site assessment approval • Contact sales representative for questions', 50, currentY, { width: 500, lineGap: 1 });
+
+  return currentY;
+}
+
+// Statement of work for the service type on its own page(s), followed by the assessment notes
+function addStatementOfWork(doc: PDFKit.PDFDocument, assessment: Assessment, startY: number): number {
+  let currentY = startY;
+
+  // Statement of Work for Fleet Tracking - optimized for space
+  if (assessment.serviceType === 'fleet-tracking') {
+    // Always start on new page for SOW to keep it organized
+    doc.addPage();
+    currentY = 50;
+    
+    doc.fontSize(11)
+       .text(`Statement of Work: Fleet Tracker Equipment Installation (${getInstallationMethodTitle(assessment.installationMethod)})`, 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(8)
+       .text('This document outlines the scope of work for the professional installation of fleet tracker equipment into your individual vehicle(s) through its Smart Data II (OBD-II) port. This service ensures proper device connection and initial functionality testing, enabling you to effectively monitor your fleet. All hardware will be provided by your designated Wireless Vendor. All installation materials (zip-ties, mounting tape) will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500 });
+    
+    currentY += 35;
+    doc.fontSize(9)
+       .text('Summary of Services', 50, currentY);
+    
+    currentY += 14;
+    doc.fontSize(8)
+       .text('Our technician will install fleet tracker equipment in each vehicle by performing: • Vehicle Preparation: Identifying OBD-II port and ensuring safe installation environment. • Device Connection: Securely plugging tracker into OBD-II port. • Cable Management: Neatly securing device and cabling. • Device Verification: Confirming power and communication.', 50, currentY, { width: 500 });
+    
+    currentY += 30;
+    doc.fontSize(9)
+       .text('Installation Process', 50, currentY);
+    
+    currentY += 14;
+    doc.fontSize(8)
+       .text('1. Pre-Installation: Vehicle identification, access vehicle, locate OBD-II port (typically within 3 feet of steering wheel, under dashboard), assess installation area for secure and discrete placement.', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.text('2. Device Installation: Connect tracker directly to OBD-II port, verify initial power through indicator lights to ensure proper power from vehicle port.', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.text('3. Cable Management: Secure device and cables using mounting materials (zip ties, mounting tape) without interfering with vehicle operations, preventing tampering, achieving discreet installation. Conceal device and cables when possible without obstructing vehicle controls.', 50, currentY, { width: 500 });
+    
+    currentY += 25;
+    doc.text('4. Functionality Verification: Confirm device power and light pattern detection, check cellular/GPS signal indicators if available (full transmission verification by cellular provider), ensure no interference with vehicle systems.', 50, currentY, { width: 500 });
+    
+    currentY += 30;
+    doc.fontSize(9)
+       .text('Time Estimate', 50, currentY);
+    
+    currentY += 14;
+    doc.fontSize(8)
+       .text('Estimated installation time: 20 minutes per vehicle, depending on vehicle size and OBD-II port access. Final charge reflects actual time on-site including minimum service fee plus additional time for completion. Preliminary labor hold of $190.00 for unforeseen challenges or delays.', 50, currentY, { width: 500 });
+  }
+
+  // Statement of Work for Fleet Camera - optimized for readability with proper spacing
+  if (assessment.serviceType === 'fleet-camera') {
+    // Always start on new page for SOW to keep it organized
+    doc.addPage();
+    currentY = 50;
+    
+    doc.fontSize(11)
+       .text('Statement of Work: Fleet Camera Dashcam and Optional External Camera Installation', 50, currentY);
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('This document outlines the scope of work for the professional installation of fleet camera equipment into your individual vehicle(s) including dashcams, external cameras, and optional existing system removal. This service ensures proper device connection and initial functionality testing, enabling you to effectively monitor your fleet.', 50, currentY, { width: 500 });
+    
+    currentY += 28;
+    doc.fontSize(9)
+       .text('Summary of Services', 50, currentY);
+    
+    currentY += 16;
+    doc.fontSize(8)
+       .text('• Vehicle Preparation: Pre-installation check and planning', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('• Fleet Camera Dashcam Installation: Professional installation for optimal performance', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('• Optional External Camera Installation (if selected): Additional camera points for comprehensive coverage', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('• Optional Fleet Tracker Installation (if selected): Integration with existing fleet management systems', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(9)
+       .text('Our Process', 50, currentY);
+    
+    currentY += 16;
+    doc.fontSize(8)
+       .text('Pre-Installation Check and Planning: Vehicle identification to confirm details and access requirements, power assessment to verify adequate supply and identify optimal connection points, camera positioning to determine optimal placement for maximum coverage while maintaining driver visibility, wiring route planning for efficient and secure cable routing.', 50, currentY, { width: 500 });
+    
+    currentY += 30;
+    doc.text('Fleet Camera Dashcam Installation: Securely mount dashcam in optimal position for clear forward view, connect to vehicle power system with proper voltage protection, route and secure all cables to prevent interference with vehicle operation, configure basic camera settings and verify proper operation.', 50, currentY, { width: 500 });
+    
+    currentY += 30;
+    doc.text('Optional External Camera Installation (if selected): Install external cameras at specified locations (rear, side, etc.), ensure all external connections are properly sealed and weatherproofed, connect external cameras to main dashcam unit or recording system, verify all camera feeds are properly integrated and functioning.', 50, currentY, { width: 500 });
+    
+    currentY += 30;
+    doc.text('Optional Fleet Tracker Installation (if selected): Connect fleet tracker to vehicle\'s diagnostic port, confirm tracker receives adequate power and signal, verify tracker communicates properly with fleet management system, ensure accurate location and vehicle data reporting.', 50, currentY, { width: 500 });
+    
+    currentY += 25;
+    doc.fontSize(9)
+       .text('Functionality Verification', 50, currentY);
+    
+    currentY += 16;
+    doc.fontSize(8)
+       .text('Power Test: Verify all devices receive proper power and show correct status indicators.', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('Recording Test: Confirm all cameras are recording properly with clear image quality.', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('Storage Verification: Ensure adequate storage capacity and proper file management.', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('System Integration: Verify all components work together seamlessly.', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('Final Inspection: Complete system check to ensure professional installation quality.', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(9)
+       .text('Post-Installation Clean-up', 50, currentY);
+    
+    currentY += 16;
+    doc.fontSize(8)
+       .text('Remove all installation materials and packaging. Ensure vehicle interior is clean and professional. Provide basic operation instructions and contact information for support.', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(9)
+       .text('Estimated Time Per Vehicle', 50, currentY);
+    
+    currentY += 16;
+    doc.fontSize(8)
+       .text('Fleet Camera Dashcam Only: Approximately 45-60 minutes per vehicle.', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('Fleet Camera Dashcam + Optional External Cameras: Approximately 60-90 minutes per vehicle.', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('Fleet Camera Dashcam + Optional Fleet Tracker: Approximately 60-75 minutes per vehicle.', 50, currentY, { width: 500 });
+    currentY += 12;
+    doc.text('Complete Installation (All Components): Approximately 75-120 minutes per vehicle.', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.text('Work will be completed within a typical timeframe, the final charge will accurately reflect the actual time our team spends on-site. This includes the minimum service fee plus any additional time for completion. Any on-site challenges or unexpected extra work or unforeseen delay. A preliminary labor hold of $190.00 in total hold.', 50, currentY, { width: 500 });
+  }
+
+  // Statement of Work for Fixed Wireless (Primary + Antenna) - Properly formatted for 4 pages
+  if (assessment.serviceType === 'site-assessment' && 
+      assessment.connectionUsage === 'primary' && 
+      assessment.lowSignalAntennaCable === 'yes') {
+    // Start new page for SOW
+    doc.addPage();
+    currentY = 50;
+    
+    doc.fontSize(12).font('Helvetica-Bold')
+       .text('Scope of Work: Primary Cellular Wireless Router Installation with Antenna Installation', 50, currentY);
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica')
+       .text('This document outlines the scope of work for the installation of a cellular wireless router to serve as your primary internet service provider (ISP) at the designated location. This comprehensive service includes a detailed site survey, preparation and installation of the wireless router, and, if necessary, the running of up to 200 feet of coaxial cable for the installation of an internal antenna to optimize signal strength.', 50, currentY, { width: 500, lineGap: 4 });
+    
+    currentY += 40;
+    doc.text('Hardware for this project will be provided by your Wireless Vendor. All necessary materials will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500, lineGap: 4 });
+    
+    currentY += 30;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Summary of Services', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
+    
+    currentY += 15;
+    doc.text('• Site Survey: Assessment of location for optimal router/antenna placement', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Router Preparation: Unboxing and component verification', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Installation: Secure mounting of router/antenna with component connections', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Coaxial Cable Installation: Up to 200ft cable run for antenna connection', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Configuration: Cellular connection setup and connectivity testing', 50, currentY, { width: 500, lineGap: 2 });
+    
+    currentY += 20;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Our Process', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('1. Preparation and Planning', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Location Determination: Site contact collaboration to identify optimal router placement', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Wireless Survey: Cellular device assessment for best antenna positioning', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Route Planning: Cable path design minimizing bends and interference sources', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('2. Coaxial Cable Installation (If Required)', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Drilling: Careful hole creation through walls, avoiding structural members', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Cable Routing: Fish tape/rod guidance through walls and conduits', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Cable Pulling: Smooth installation adhering to bend radius specifications', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Interference Avoidance: Clear of power lines and electromagnetic sources', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Securing & Labeling: Cable ties for support, unique ID labels for troubleshooting', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('3. Cable Termination (If Required)', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Cable Preparation: Precision stripping to expose conductor and shielding', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Connector Installation: F-type connector attachment per manufacturer specs', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Crimping & Testing: Compression tool securing and cable tester verification', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('4. Installation and Configuration', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Wall Plate Installation: F-type jacks connected to terminated cables', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• SIM Card Installation: Proper orientation and secure placement', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Router Mounting: Wall mounting with appropriate hardware (if requested)', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Power Connection: Adapter connection and boot-up verification', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Router Configuration: Password setup, APN configuration, and connectivity testing', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Final Testing: Speed test confirmation of primary ISP functionality', 50, currentY, { width: 500 });
+  }
+
+  // Statement of Work for Fixed Wireless (Primary Only - No Antenna) - Properly formatted for 4 pages
+  if (assessment.serviceType === 'site-assessment' && 
+      assessment.connectionUsage === 'primary' && 
+      assessment.lowSignalAntennaCable !== 'yes') {
+    // Start new page for SOW
+    doc.addPage();
+    currentY = 50;
+    
+    doc.fontSize(12).font('Helvetica-Bold')
+       .text('Scope of Work: Cellular Wireless Router Installation', 50, currentY);
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica')
+       .text('This document outlines the scope of work for the installation of a cellular wireless router at your designated location. This service includes a comprehensive site survey, preparation and installation of the router, and basic configuration to ensure your devices are connected. Please note that this service does not include network cabling.', 50, currentY, { width: 500, lineGap: 4 });
+    
+    currentY += 35;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Summary of Services', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
+    
+    currentY += 15;
+    doc.text('• Site Survey: Assessment of location for optimal router placement', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Router Preparation: Unboxing and component verification', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Mounting and Installation: Secure mounting with component connections', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Basic Router Configuration: Cellular connection and Wi-Fi setup', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Device Configuration Support: Connect up to 5 devices to wireless network', 50, currentY, { width: 500, lineGap: 2 });
+    
+    currentY += 20;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Our Process', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('1. Preparation and Planning', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Location Determination: Site contact collaboration for optimal router placement within 5 feet of power outlet', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Documentation Review: Manufacturer installation guide review', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('2. SIM Card Installation', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Power Off: Complete router shutdown before SIM insertion', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• SIM Card Slot Location: Locate slot typically on side or back of router', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• SIM Card Insertion: Careful insertion with correct orientation using provided tool', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Secure Cover: Replace SIM card cover securely', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('3. Mounting (Optional)', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Wall Mounting: Secure wall mounting if desired with appropriate hardware and neat cable routing', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('4. Antenna Connection', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Antenna Attachment: Secure attachment of detachable antennas with proper alignment', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('5. Power Connection', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Power Adapter Connection: Connect adapter to router power input and suitable outlet', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Power On: Router startup and indicator light observation for boot confirmation', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('6. Network Connection', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Wireless Connection (Wi-Fi): Device connection using provided SSID and password', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('7. Router Configuration', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Configuration Interface Access: Web browser access via router IP address', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Login and Password Change: Default credentials entry and immediate password change for security', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Cellular Connection Configuration: APN configuration from cellular carrier', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Network Settings (Optional): DHCP, DNS, and firewall configuration as needed', 50, currentY, { width: 500 });
+    currentY += 14;
+    doc.text('• Connection Test: Internet speed test verification via browser', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(8)
+       .text('8. Device Configuration (Up to 5 Devices)', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(7)
+       .text('• Device Connection Support: Hands-on assistance connecting up to 5 existing devices to wireless network', 50, currentY, { width: 500 });
+    
+    currentY += 25;
+    doc.fontSize(9)
+       .text('Estimated Time On-Site', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(8)
+       .text('The estimated time on-site for this installation is 1 hour.', 50, currentY);
+    
+    currentY += 25;
+    doc.fontSize(9)
+       .text('Additional Labor Hold', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(8)
+       .text('Price: $380.00', 50, currentY);
+    
+    currentY += 16;
+    doc.fontSize(7)
+       .text('While we aim for completion within a typical timeframe, the final charge will accurately reflect the actual time our team spends on-site. This includes the minimum service fee plus any additional time (billed at $190 per hour in 15-minute increments) needed for extra work or unforeseen issues. A preliminary Credit Hold of $380.00 in total Hold Amount. This will cover most external penetrations, or ceiling issues.', 50, currentY, { width: 500, lineGap: 3 });
+  }
+
+  // Statement of Work for Fixed Wireless (Failover + Antenna) - Properly formatted for 4 pages
+  if (assessment.serviceType === 'site-assessment' && 
+      assessment.connectionUsage === 'failover' && 
+      assessment.lowSignalAntennaCable === 'yes') {
+    // Start new page for SOW
+    doc.addPage();
+    currentY = 50;
+    
+    doc.fontSize(12).font('Helvetica-Bold')
+       .text('Scope of Work: Failover Cellular Router with Antenna Installation', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(9).font('Helvetica')
+       .text('This document outlines the scope of work for the installation of a cellular wireless router to serve as a failover internet service provider (ISP) at your designated location. This service includes antenna installation and network cabling to server/rack when required. Hardware provided by Wireless Vendor, materials by NXTKonekt.', 50, currentY, { width: 500, lineGap: 3 });
+    
+    currentY += 28;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Services Included', 50, currentY);
+    
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Site Survey: Assessment of location for optimal router/antenna placement', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Router Preparation: Unboxing and component verification', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Installation: Secure mounting of router/antenna with component connections', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Network Integration: Cabling to server/rack for seamless failover operation', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Configuration: Cellular connection setup and failover testing', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Our Process', 50, currentY);
+    
+    currentY += 12;
+    doc.fontSize(9).font('Helvetica')
+       .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
+    
+    currentY += 16;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('1. Preparation and Planning', 50, currentY);
+    
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Location Determination: Site contact collaboration to identify optimal router placement', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Signal Assessment: Cellular device evaluation for failover reliability', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Network Integration Planning: Existing infrastructure assessment for seamless integration', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
+    
+    currentY += 16;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('2. Installation and Setup', 50, currentY);
+    
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Router Installation: Professional mounting and power connection', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Network Cabling: Professional cable routing to server/rack location', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• SIM Installation: Cellular network activation and initial testing', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Failover Configuration: Network integration for automatic switchover', 50, currentY, { width: 500 });
+    
+    currentY += 16;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('3. Testing and Documentation', 50, currentY);
+    
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Connectivity Testing: Verify cellular connection and speed performance', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Failover Testing: Simulate primary ISP outage to confirm automatic switching', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Documentation: Provide installation summary and contact information', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Important Notes', 50, currentY);
+    
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text('• External penetration permits are client responsibility when required', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Up to 200 feet of coaxial cable included for antenna installations', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Installation timeframe varies based on site complexity and existing infrastructure', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Professional cleanup and documentation provided upon completion', 50, currentY, { width: 500 });
+    
+    // Step 2
+    doc.fontSize(8).font('Helvetica-Bold')
+       .text('2. Antenna Installation', 50, currentY, { width: 500 });
+    currentY += 12;
+    
+    doc.fontSize(7).font('Helvetica')
+       .text('External: Survey location, controlled wall penetration, secure mounting, weatherproof cable routing.', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 10;
+    
+    doc.text('Internal: Indoor location survey, secure mounting, ceiling/conduit cable routing.', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 16;
+    
+    // Step 3
+    doc.fontSize(8).font('Helvetica-Bold')
+       .text('3. Cable Installation', 50, currentY, { width: 500 });
+    currentY += 12;
+    
+    doc.fontSize(7).font('Helvetica')
+       .text('Coaxial: Careful routing, drilling as needed, secure with ties, F-type termination, integrity testing.', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 10;
+    
+    doc.text('Network: Route to server/rack through walls/ceilings, RJ45 termination, performance testing.', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 16;
+    
+    // Step 4
+    doc.fontSize(8).font('Helvetica-Bold')
+       .text('4. Router Setup & Configuration', 50, currentY, { width: 500 });
+    currentY += 12;
+    
+    doc.fontSize(7).font('Helvetica')
+       .text('SIM installation, secure mounting, power connection, web interface access, password change, cellular APN configuration, network settings (IP/DHCP/DNS), routing rules, speed testing.', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 16;
+    
+    // Step 5
+    doc.fontSize(8).font('Helvetica-Bold')
+       .text('5. Final Testing', 50, currentY, { width: 500 });
+    currentY += 12;
+    
+    doc.fontSize(7).font('Helvetica')
+       .text('Comprehensive testing of cellular connection, antenna signal strength, network cable connectivity, and system integration.', 50, currentY, { width: 500, lineGap: 2 });
+  }
+
+  // Statement of Work for Fixed Wireless (Failover Only - No Antenna) - Properly formatted for 4 pages
+  if (assessment.serviceType === 'site-assessment' && 
+      assessment.connectionUsage === 'failover' && 
+      assessment.lowSignalAntennaCable !== 'yes') {
+    // Start new page for SOW
+    doc.addPage();
+    currentY = 50;
+    
+    doc.fontSize(12).font('Helvetica-Bold')
+       .text('Scope of Work: Failover Cellular Wireless Router Installation', 50, currentY);
+    
+    currentY += 18;
+    doc.fontSize(9).font('Helvetica')
+       .text('This document outlines the scope of work for the installation of a cellular wireless router to serve as a failover internet service provider (ISP) at your designated location. This service ensures business continuity by providing an alternative internet connection in the event of an outage with your primary ISP.', 50, currentY, { width: 500, lineGap: 3 });
+    
+    currentY += 30;
+    doc.text('The installation includes a site survey, preparation and installation of the wireless router, and basic configuration to integrate it into your existing network for seamless failover operation.', 50, currentY, { width: 500, lineGap: 3 });
+    
+    currentY += 25;
+    doc.text('Hardware for this project will be provided by your Wireless Vendor. All necessary materials will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500, lineGap: 3 });
+    
+    currentY += 25;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Summary of Services', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
+    
+    currentY += 12;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Site Survey: Assessment of optimal router placement for cellular signal and network proximity', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Router Preparation: Unboxing, verification, and documentation review', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Mounting and Installation: Secure mounting and power connection', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Basic Router Configuration: Cellular connection, Wi-Fi setup, and failover integration', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Failover Testing: Verification of smooth transition during primary ISP outage', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Our Process', 50, currentY);
+    
+    currentY += 13;
+    doc.fontSize(9).font('Helvetica')
+       .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('1. Preparation and Planning', 50, currentY);
+    
+    currentY += 13;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Location Determination: Site contact collaboration for optimal router placement within 5 feet of power outlet', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Network Assessment: Evaluation of existing network infrastructure for failover integration', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Signal Evaluation: Cellular signal strength testing for reliable failover performance', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Hardware Verification: Component check and documentation review', 50, currentY, { width: 500 });
+    
+    currentY += 16;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('2. Router Installation', 50, currentY);
+    
+    currentY += 13;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Physical Installation: Professional mounting and secure placement of cellular router', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Power Connection: Electrical connection and initial power-on verification', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• SIM Card Installation: Cellular service activation and initial connectivity testing', 50, currentY, { width: 500 });
+    
+    currentY += 16;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('3. Network Configuration', 50, currentY);
+    
+    currentY += 13;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Router Configuration: Cellular connection setup and performance optimization', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Failover Integration: Network configuration for automatic failover activation', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Testing and Verification: Comprehensive testing of failover functionality', 50, currentY, { width: 500 });
+    
+    currentY += 16;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('4. Quality Assurance', 50, currentY);
+    
+    currentY += 13;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Connection Speed Testing: Verification of cellular internet speed and reliability', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Failover Simulation: Testing automatic switching during primary connection failure', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Network Integration Testing: Ensuring seamless integration with existing systems', 50, currentY, { width: 500 });
+    
+    currentY += 18;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Important Notes', 50, currentY);
+    
+    currentY += 13;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Router must be placed within 5 feet of available power outlet', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Existing network infrastructure required for failover integration', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Installation timeframe: Approximately 60-90 minutes depending on site complexity', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Professional cleanup and documentation provided upon completion', 50, currentY, { width: 500 });
+    currentY += 11;
+    doc.text('• Client training on failover monitoring and basic troubleshooting included', 50, currentY, { width: 500 });
+  }
+
+  // Default Statement of Work for Fixed Wireless when specific type not determined
+  if (assessment.serviceType === 'site-assessment' && 
+      !assessment.connectionUsage && 
+      !assessment.lowSignalAntennaCable) {
+    // Start new page for SOW
+    doc.addPage();
+    currentY = 50;
+    
+    doc.fontSize(12).font('Helvetica-Bold')
+       .text('Scope of Work: Cellular Wireless Router Installation', 50, currentY);
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica')
+       .text('This document outlines the scope of work for the installation of a cellular wireless router at your designated location. This comprehensive service includes a detailed site survey, preparation and installation of the wireless router, and configuration to meet your connectivity requirements.', 50, currentY, { width: 500, lineGap: 4 });
+    
+    currentY += 35;
+    doc.text('Hardware for this project will be provided by your Wireless Vendor. All necessary materials will be provided by NXTKonekt/Tekumo.', 50, currentY, { width: 500, lineGap: 4 });
+    
+    currentY += 30;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Summary of Services', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('Our team will install a cellular wireless router, performing the following key steps:', 50, currentY, { width: 500 });
+    
+    currentY += 15;
+    doc.text('• Site Survey: Assessment of location for optimal router placement and signal strength', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Router Preparation: Unboxing, verification, and documentation review', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Installation: Secure mounting and professional installation of router equipment', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Configuration: Cellular connection setup, network configuration, and testing', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Antenna Installation: External antenna installation if required for signal optimization', 50, currentY, { width: 500, lineGap: 2 });
+    
+    currentY += 20;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Installation Process', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('Our comprehensive installation process ensures optimal performance:', 50, currentY, { width: 500 });
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('1. Site Assessment & Planning', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Signal strength evaluation and optimal placement determination', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Infrastructure assessment for power and mounting requirements', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Cable path planning and interference source identification', 50, currentY, { width: 500, lineGap: 3 });
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('2. Equipment Installation', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(8).font('Helvetica')
+       .text('• Professional mounting of router in optimal location', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Power connection and initial equipment verification', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Antenna installation and coaxial cable routing if required', 50, currentY, { width: 500, lineGap: 3 });
+    
+    currentY += 20;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('3. Configuration & Testing', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(8).font('Helvetica')
+       .text('• SIM card installation and cellular network activation', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Router configuration for optimal performance settings', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Comprehensive connectivity testing and speed verification', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    doc.text('• Network integration and device connection assistance', 50, currentY, { width: 500, lineGap: 3 });
+    
+    currentY += 25;
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Important Notes', 50, currentY);
+    
+    currentY += 15;
+    doc.fontSize(9).font('Helvetica')
+       .text('• Installation timeframe varies based on site complexity and requirements', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• External penetration permits are client responsibility when required', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Up to 200 feet of coaxial cable included for antenna installations', 50, currentY, { width: 500, lineGap: 2 });
+    currentY += 14;
+    doc.text('• Professional cleanup and documentation provided upon completion', 50, currentY, { width: 500, lineGap: 2 });
+    
+    // Our Process
+    doc.fontSize(11).font('Helvetica-Bold')
+       .text('Our Process', 50, currentY, { width: 500 });
+    currentY += 18;
+    
+    doc.fontSize(9).font('Helvetica')
+       .text('Detailed breakdown of installation steps:', 50, currentY, { width: 500, lineGap: 4 });
+    currentY += 18;
+    
+    // Preparation and Planning
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Preparation and Planning', 50, currentY, { width: 500 });
+    currentY += 16;
+    
+    doc.fontSize(8).font('Helvetica')
+       .text('• Site survey for optimal router placement within 5 feet of power and network equipment', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 16;
+    
+    doc.text('• Network topology assessment and failover integration planning', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Hardware verification and component check', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Installation guide and documentation review', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 18;
+    
+    // SIM Card Installation
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('SIM Card Installation', 50, currentY, { width: 500 });
+    currentY += 16;
+    
+    doc.fontSize(8).font('Helvetica')
+       .text('• Power off router, locate SIM slot, insert card with proper orientation, secure cover', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 18;
+    
+    // Mounting & Power
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Mounting & Power Connection', 50, currentY, { width: 500 });
+    currentY += 16;
+    
+    doc.fontSize(8).font('Helvetica')
+       .text('• Secure wall mounting (if desired) with neat cable routing', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Connect power adapter and power on router, observe boot-up indicators', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 18;
+    
+    // Network Connection
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Network Connection', 50, currentY, { width: 500 });
+    currentY += 16;
+    
+    doc.fontSize(8).font('Helvetica')
+       .text('• Connect via Ethernet to existing network equipment (firewall/router)', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Configure Wi-Fi SSID and password (if desired for failover connection)', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 18;
+    
+    // Router Configuration
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Router Configuration', 50, currentY, { width: 500 });
+    currentY += 16;
+    
+    doc.fontSize(8).font('Helvetica')
+       .text('• Access web interface via IP address and change default password', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Configure cellular connection with carrier APN settings', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Set network settings (IP, DHCP, DNS) for network integration', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Configure failover settings and routing rules with network admin', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Perform speed test to confirm cellular connection reliability', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 18;
+    
+    // Failover Testing
+    doc.fontSize(10).font('Helvetica-Bold')
+       .text('Failover Testing', 50, currentY, { width: 500 });
+    currentY += 16;
+    
+    doc.fontSize(8).font('Helvetica')
+       .text('• Temporarily disable primary connection to verify seamless failover transition', 50, currentY, { width: 500, lineGap: 3 });
+    currentY += 14;
+    
+    doc.text('• Re-enable primary connection once failover functionality is confirmed', 50, currentY, { width: 500, lineGap: 3 });
+  }
+
+  // Additional notes - if any
+  if (assessment.additionalNotes) {
+    currentY += 35;
+    // Check if we need a new page for additional notes
+    if (currentY > 750) {
+      doc.addPage();
+      currentY = 50;
+    }
+    doc.fontSize(10)
+       .text('Additional Notes:', 50, currentY)
+       .text(assessment.additionalNotes, 50, currentY + 12, { width: 500 });
+  }
+
+  return currentY;
+}
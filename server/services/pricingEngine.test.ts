@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyAdjustments, applyTax, calculatePricing, type PricingAssessment, type PricingBreakdown, type PricingLineItem, type TaxRule, type VehicleClassRule } from './pricingEngine';
+
+function lineItem(category: string, total: number, taxable = false): PricingLineItem {
+  return { description: category, quantity: 1, unit: 'each', unitPrice: total, total, category, taxable };
+}
+
+// A priced quote with $600 of labor and $400 of taxable hardware
+function breakdown(lineItems: PricingLineItem[] = [lineItem('labor', 600), lineItem('hardware', 400, true)]): PricingBreakdown {
+  return {
+    surveyCost: 0,
+    installationCost: 600,
+    configurationCost: 0,
+    trainingCost: 0,
+    hardwareCost: 400,
+    totalCost: lineItems.reduce((sum, item) => sum + item.total, 0),
+    surveyHours: 0,
+    installationHours: 4,
+    configurationHours: 0,
+    laborHoldHours: 0,
+    laborHoldCost: 0,
+    hourlyRate: 150,
+    lineItems,
+  };
+}
+
+describe('applyAdjustments', () => {
+  it('applies percentage discounts to the subtotal of the priced items', () => {
+    const pricing = applyAdjustments(breakdown(), [{ type: 'percent', description: 'Partner discount', value: 10 }]);
+
+    assert.equal(pricing.totalCost, 900);
+    assert.deepEqual(pricing.lineItems.at(-1), { ...lineItem('adjustment', -100), description: 'Partner discount' });
+  });
+
+  it('applies fixed discounts and signed manual adjustments in order', () => {
+    const pricing = applyAdjustments(breakdown(), [
+      { type: 'fixed', description: 'Loyalty', value: 50 },
+      { type: 'manual', description: 'Extra cabling', value: 25.5 },
+    ]);
+
+    assert.equal(pricing.totalCost, 975.5);
+    assert.deepEqual(pricing.lineItems.filter((item) => item.category === 'adjustment').map((item) => item.total), [-50, 25.5]);
+  });
+
+  it('never takes the total below zero', () => {
+    const pricing = applyAdjustments(breakdown(), [
+      { type: 'fixed', description: 'Goodwill', value: 800 },
+      { type: 'percent', description: 'Promo', value: 50 },
+    ]);
+
+    assert.equal(pricing.totalCost, 0);
+    assert.deepEqual(pricing.lineItems.filter((item) => item.category === 'adjustment').map((item) => item.total), [-800, -200]);
+  });
+
+  it('replaces the adjustments of an earlier pricing instead of stacking them', () => {
+    const adjusted = applyAdjustments(breakdown(), [{ type: 'fixed', description: 'Loyalty', value: 50 }]);
+    const readjusted = applyAdjustments(adjusted, [{ type: 'fixed', description: 'Loyalty', value: 100 }]);
+
+    assert.equal(readjusted.totalCost, 900);
+    assert.equal(readjusted.lineItems.filter((item) => item.category === 'adjustment').length, 1);
+  });
+
+  it('removes every adjustment when none are left', () => {
+    const adjusted = applyAdjustments(breakdown(), [{ type: 'fixed', description: 'Loyalty', value: 50 }]);
+    const cleared = applyAdjustments(adjusted, []);
+
+    assert.equal(cleared.lineItems.some((item) => item.category === 'adjustment'), false);
+  });
+});
+
+describe('applyTax', () => {
+  const rule: TaxRule = { region: 'TX', rate: 8, laborTaxable: false, exempt: false };
+
+  it('taxes hardware only where labor is not taxable', () => {
+    const pricing = applyTax(breakdown(), rule);
+
+    assert.equal(pricing.subtotal, 1000);
+    assert.equal(pricing.taxAmount, 32);
+    assert.equal(pricing.totalCost, 1032);
+    assert.equal(pricing.taxRegion, 'TX');
+  });
+
+  it('taxes labor too where the region taxes it', () => {
+    const pricing = applyTax(breakdown(), { ...rule, laborTaxable: true });
+
+    assert.equal(pricing.taxAmount, 80);
+    assert.equal(pricing.totalCost, 1080);
+  });
+
+  it('charges no tax to exempt customers', () => {
+    const pricing = applyTax(breakdown(), { ...rule, exempt: true });
+
+    assert.equal(pricing.taxRate, 0);
+    assert.equal(pricing.taxAmount, 0);
+    assert.equal(pricing.totalCost, 1000);
+  });
+
+  it('reduces the taxable amount in proportion to discounts', () => {
+    const discounted = applyAdjustments(breakdown(), [{ type: 'percent', description: 'Partner discount', value: 10 }]);
+    const pricing = applyTax(discounted, rule);
+
+    assert.equal(pricing.subtotal, 900);
+    assert.equal(pricing.taxAmount, 28.8);
+    assert.equal(pricing.totalCost, 928.8);
+  });
+});
+
+describe('calculatePricing vehicle labor', () => {
+  const vehicleClasses: VehicleClassRule[] = [
+    { code: 'heavy', name: 'Heavy Duty', installationMultipliers: { 'obd-port': 1.5, hardwired: 1.5 }, cameraMultipliers: { 'road-facing': 1.25 } },
+  ];
+
+  function fleet(answers: Partial<PricingAssessment>): PricingAssessment {
+    return {
+      serviceType: 'fleet-tracking',
+      routerCount: null,
+      cableFootage: null,
+      connectionUsage: null,
+      deviceCount: null,
+      installationMethod: null,
+      vehicleClass: null,
+      vehicleDetails: null,
+      removalNeeded: null,
+      removalVehicleCount: null,
+      numberOfCameras: null,
+      cameraSolutionType: null,
+      ...answers,
+    };
+  }
+
+  const totalHours = (pricing: PricingBreakdown) =>
+    Math.round((pricing.vehicleLabor || []).reduce((sum, line) => sum + line.hours, 0) * 100) / 100;
+
+  it('spreads the rounded-up OBD hours across the vehicles', () => {
+    const pricing = calculatePricing(fleet({ deviceCount: 7, installationMethod: 'obd-port' }), { obdVehiclesPerHour: 3 }, [], vehicleClasses);
+
+    assert.equal(pricing.installationHours, 3);
+    assert.equal(pricing.vehicleLabor?.length, 7);
+    assert.equal(totalHours(pricing), 3);
+  });
+
+  it('weights each vehicle by its class multiplier', () => {
+    const vehicleDetails = JSON.stringify([{ vehicleClass: 'heavy' }, {}]);
+    const pricing = calculatePricing(fleet({ deviceCount: 2, installationMethod: 'hardwired', vehicleDetails }), { installHoursPerVehicle: 1 }, [], vehicleClasses);
+
+    assert.equal(pricing.installationHours, 2.5);
+    assert.deepEqual(pricing.vehicleLabor?.map((line) => [line.vehicleClass, line.multiplier, line.hours]), [
+      ['Heavy Duty', 1.5, 1.5],
+      [null, 1, 1],
+    ]);
+  });
+
+  it('keeps extra cameras out of the per-vehicle lines', () => {
+    const pricing = calculatePricing(
+      fleet({ serviceType: 'fleet-camera', deviceCount: 3, numberOfCameras: 5, cameraSolutionType: 'road-facing', vehicleClass: 'heavy' }),
+      { installHoursPerVehicle: 1, extraCameraHours: 0.5 },
+      [],
+      vehicleClasses
+    );
+
+    assert.equal(pricing.installationHours, 4.75);
+    assert.equal(totalHours(pricing), 3.75);
+  });
+});
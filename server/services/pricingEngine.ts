@@ -1,4 +1,16 @@
-import { Assessment } from '@shared/schema';
+import { Assessment, type PricingTraceStep, type VehicleLaborLine } from '@shared/schema';
+
+export interface PricingLineItem {
+  description: string;
+  quantity: number;
+  unit: string; // hours, ft, each, mi
+  unitPrice: number;
+  total: number;
+  category: string; // labor, labor_hold, hardware, travel, adjustment, recurring
+  taxable: boolean;
+  sku?: string | null; // set for catalog products
+  productId?: number | null;
+}
 
 export interface PricingBreakdown {
   surveyCost: number;
@@ -16,21 +28,292 @@ export interface PricingBreakdown {
   laborHoldHours: number;
   laborHoldCost: number;
   hourlyRate: number;
+  // Travel from the organization base, set when a travel band applies
+  travelMiles?: number;
+  travelCost?: number;
+  // Itemized charges making up the subtotal
+  lineItems: PricingLineItem[];
+  // Sales tax, set once tax has been applied. The total cost is then the subtotal plus tax.
+  subtotal?: number;
+  taxRegion?: string | null;
+  taxRate?: number;
+  taxAmount?: number;
+  // Monthly charges for the contract term, set when monthly products are quoted. They are
+  // not part of the total cost, which is the one-time total.
+  recurringItems?: PricingLineItem[];
+  monthlyTotal?: number;
+  termMonths?: number;
+  // Rules applied to reach the price, in the order they were applied
+  trace?: PricingTraceStep[];
+  // Installation hours per vehicle, set for fleet services
+  vehicleLabor?: VehicleLaborLine[];
+}
+
+// A discount or manual adjustment applied on top of the priced line items
+export interface PricingAdjustment {
+  type: 'percent' | 'fixed' | 'manual';
+  description: string;
+  value: number; // percent off, amount off, or signed amount for manual adjustments
+}
+
+// Travel charge for a site, from the travel band its distance falls in
+export type TravelCharge =
+  | {
+      manual: false;
+      miles: number; // estimated one-way driving distance
+      chargeType: 'trip' | 'mileage'; // flat charge per trip, or a rate per round-trip mile
+      rate: number;
+    }
+  | {
+      manual: true; // the site could only be placed within its state or province, so the partner enters travel
+      miles: number; // distance to the state or province center, for reference only
+    };
+
+// A catalog product added to an assessment, priced at its sell price
+export interface CatalogItem {
+  productId: number;
+  sku: string;
+  name: string;
+  quantity: number;
+  unitPrice: number; // per month for monthly products
+  billingPeriod: 'one_time' | 'monthly';
+}
+
+// Contract term used when monthly products are quoted without one
+export const DEFAULT_TERM_MONTHS = 36;
+
+// Sales tax for a site. Region is null when it could not be determined from the address.
+export interface TaxRule {
+  region: string | null;
+  rate: number; // percent
+  laborTaxable: boolean;
+  exempt: boolean;
+}
+
+// Labor multipliers of a vehicle class, keyed by installation method and by camera solution type
+export interface VehicleClassRule {
+  code: string;
+  name: string;
+  installationMultipliers: Record<string, number>;
+  cameraMultipliers: Record<string, number>;
+}
+
+export type RateCardServiceType = 'site-assessment' | 'fleet-tracking' | 'fleet-camera';
+
+export interface RateCardParameter {
+  key: string;
+  label: string;
+  unit: string;
+  description: string;
+  defaultValue: number;
+}
+
+// Active rate card values for a single service type, keyed by parameter key
+export type RateCardValues = Record<string, number>;
+
+// The assessment answers the pricing rules read
+export type PricingAssessment = Pick<Assessment,
+  'serviceType' | 'routerCount' | 'cableFootage' | 'connectionUsage' | 'deviceCount' | 'installationMethod' | 'vehicleClass' |
+  'vehicleDetails' | 'removalNeeded' | 'removalVehicleCount' | 'numberOfCameras' | 'cameraSolutionType'>;
+
+// Pricing parameters per service type. These defaults seed the rate card table
+// and are used for any parameter that has not been stored yet.
+export const RATE_CARD_PARAMETERS: Record<RateCardServiceType, RateCardParameter[]> = {
+  'site-assessment': [
+    { key: 'hourlyRate', label: 'Hourly Rate', unit: 'usd_per_hour', description: 'Base labor rate for all billable hours, before sales tax', defaultValue: 190 },
+    { key: 'laborHoldHours', label: 'Labor Hold Hours', unit: 'hours', description: 'Additional labor hold hours added to every quote', defaultValue: 1 },
+    { key: 'installHoursPerRouter', label: 'Installation Hours per Router', unit: 'hours', description: 'Installation labor for each router', defaultValue: 1 },
+    { key: 'configurationHours', label: 'Configuration Hours', unit: 'hours', description: 'Billable configuration hours when the device threshold is reached', defaultValue: 1 },
+    { key: 'failoverDeviceThreshold', label: 'Failover Free Device Count', unit: 'devices', description: 'Failover connections with more devices than this are billed for configuration', defaultValue: 1 },
+    { key: 'primaryDeviceThreshold', label: 'Primary Billable Device Count', unit: 'devices', description: 'Primary connections with at least this many devices are billed for configuration', defaultValue: 5 },
+    { key: 'cablePricePerFoot', label: 'Ethernet Cable Price', unit: 'usd_per_foot', description: 'Price per foot of ethernet cable', defaultValue: 14.5 },
+    { key: 'quoteValidityDays', label: 'Quote Validity', unit: 'days', description: 'Number of days a new quote can be approved before it expires', defaultValue: 30 },
+  ],
+  'fleet-tracking': [
+    { key: 'hourlyRate', label: 'Hourly Rate', unit: 'usd_per_hour', description: 'Base labor rate for all billable hours, before sales tax', defaultValue: 190 },
+    { key: 'laborHoldHours', label: 'Labor Hold Hours', unit: 'hours', description: 'Additional labor hold hours added to every quote', defaultValue: 1 },
+    { key: 'installHoursPerVehicle', label: 'Installation Hours per Vehicle', unit: 'hours', description: 'Hardwired and other non-OBD installation labor per vehicle', defaultValue: 1 },
+    { key: 'obdVehiclesPerHour', label: 'OBD Vehicles per Hour', unit: 'vehicles', description: 'Number of OBD port installations covered by one labor hour', defaultValue: 3 },
+    { key: 'quoteValidityDays', label: 'Quote Validity', unit: 'days', description: 'Number of days a new quote can be approved before it expires', defaultValue: 30 },
+  ],
+  'fleet-camera': [
+    { key: 'hourlyRate', label: 'Hourly Rate', unit: 'usd_per_hour', description: 'Base labor rate for all billable hours, before sales tax', defaultValue: 190 },
+    { key: 'laborHoldHours', label: 'Labor Hold Hours', unit: 'hours', description: 'Additional labor hold hours added to every quote', defaultValue: 1 },
+    { key: 'installHoursPerVehicle', label: 'Installation Hours per Vehicle', unit: 'hours', description: 'Installation labor per vehicle, including one camera', defaultValue: 1 },
+    { key: 'extraCameraHours', label: 'Hours per Additional Camera', unit: 'hours', description: 'Installation labor for each camera beyond one per vehicle', defaultValue: 0.5 },
+    { key: 'removalHoursPerVehicle', label: 'Removal Hours per Vehicle', unit: 'hours', description: 'Labor to remove an existing camera solution per vehicle', defaultValue: 0.5 },
+    { key: 'quoteValidityDays', label: 'Quote Validity', unit: 'days', description: 'Number of days a new quote can be approved before it expires', defaultValue: 30 },
+  ],
+};
+
+export function getDefaultRateCard(serviceType: RateCardServiceType): RateCardValues {
+  return Object.fromEntries(
+    RATE_CARD_PARAMETERS[serviceType].map((param) => [param.key, param.defaultValue])
+  );
+}
+
+// Read a rate card value, falling back to the default when it is missing
+function rate(rateCard: RateCardValues, serviceType: RateCardServiceType, key: string): number {
+  const value = rateCard[key];
+  if (typeof value === 'number' && !isNaN(value)) {
+    return value;
+  }
+  return getDefaultRateCard(serviceType)[key] ?? 0;
+}
+
+const formatAmount = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Trace step for a labor charge: how the hours were reached, then hours times the hourly rate
+function laborTrace(rule: string, inputs: PricingTraceStep['inputs'], basis: string, hours: number, hourlyRate: number, cost: number): PricingTraceStep {
+  return {
+    kind: 'labor',
+    rule,
+    inputs: { ...inputs, hourlyRate },
+    result: hours > 0
+      ? `${basis} = ${plural(hours, 'hour')} × ${formatAmount(hourlyRate)} = ${formatAmount(cost)}`
+      : `${basis}: no charge`,
+  };
+}
+
+function laborLineItem(description: string, hours: number, hourlyRate: number, cost: number, category = 'labor'): PricingLineItem {
+  return { description, quantity: hours, unit: 'hours', unitPrice: hourlyRate, total: cost, category, taxable: false };
 }
 
-// Base hourly rate (including taxes)
-const HOURLY_RATE = 190;
+// Build the line items for a breakdown from its hour and cost buckets
+export function buildLineItems(pricing: Omit<PricingBreakdown, 'lineItems'>, hardwareItems: PricingLineItem[] = []): PricingLineItem[] {
+  const items: PricingLineItem[] = [];
 
-export function calculatePricing(assessment: Assessment): PricingBreakdown {
+  if (pricing.surveyHours > 0) {
+    items.push(laborLineItem('Site Survey & Planning', pricing.surveyHours, pricing.hourlyRate, pricing.surveyCost));
+  }
+  items.push(laborLineItem('Installation & Setup', pricing.installationHours, pricing.hourlyRate, pricing.installationCost));
+  if (pricing.configurationHours > 0) {
+    items.push(laborLineItem('Configuration & Testing', pricing.configurationHours, pricing.hourlyRate, pricing.configurationCost));
+  }
+  if (pricing.removalHours && pricing.removalCost) {
+    items.push(laborLineItem('Existing System Removal', pricing.removalHours, pricing.hourlyRate, pricing.removalCost));
+  }
+  if (pricing.laborHoldHours > 0 || pricing.laborHoldCost > 0) {
+    items.push(laborLineItem('Labor Hold, Final bill Return', pricing.laborHoldHours, pricing.hourlyRate, pricing.laborHoldCost, 'labor_hold'));
+  }
+  items.push(...hardwareItems);
+  items.push({ description: 'Documentation & Training', quantity: 1, unit: 'each', unitPrice: 0, total: 0, category: 'labor', taxable: false });
+
+  return items;
+}
+
+// Hardware line items for catalog products, with their combined cost
+function catalogLineItems(catalogItems: CatalogItem[]): { items: PricingLineItem[]; cost: number; trace: PricingTraceStep[] } {
+  const items = catalogItems
+    .filter((item) => item.quantity > 0 && item.billingPeriod === 'one_time')
+    .map((item) => ({
+      description: item.name,
+      quantity: item.quantity,
+      unit: 'each',
+      unitPrice: item.unitPrice,
+      total: Math.round(item.quantity * item.unitPrice * 100) / 100,
+      category: 'hardware',
+      taxable: true,
+      sku: item.sku,
+      productId: item.productId,
+    }));
+  const cost = Math.round(items.reduce((sum, item) => sum + item.total, 0) * 100) / 100;
+  const trace: PricingTraceStep[] = items.length > 0
+    ? [{ kind: 'hardware', rule: 'Catalog products', inputs: { products: items.length }, result: `${plural(items.length, 'product')} at the catalog sell price = ${formatAmount(cost)}` }]
+    : [];
+  return { items, cost, trace };
+}
+
+// A vehicle being installed, with the labor multiplier of its class
+interface FleetVehicle {
+  label: string;
+  vehicleClass: VehicleClassRule | undefined;
+  multiplier: number;
+}
+
+// The vehicles of a fleet assessment, each with its class multiplier for the installation method or
+// camera type. Vehicles without details, or without their own class, use the fleet's vehicle class.
+function fleetVehicles(
+  assessment: PricingAssessment,
+  count: number,
+  vehicleClasses: VehicleClassRule[],
+  multiplierFor: (vehicleClass: VehicleClassRule) => number | undefined
+): FleetVehicle[] {
+  let details: { year?: string; make?: string; model?: string; vehicleClass?: string }[] = [];
+  try {
+    const parsed = assessment.vehicleDetails ? JSON.parse(assessment.vehicleDetails) : [];
+    details = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    details = [];
+  }
+
+  const byCode = new Map(vehicleClasses.map((vehicleClass) => [vehicleClass.code, vehicleClass]));
+  return Array.from({ length: count }, (_, index) => {
+    const detail = details[index] || {};
+    const description = [detail.year, detail.make, detail.model].filter(Boolean).join(' ');
+    const vehicleClass = byCode.get(detail.vehicleClass || assessment.vehicleClass || '');
+    return {
+      label: description ? `Vehicle ${index + 1}: ${description}` : `Vehicle ${index + 1}`,
+      vehicleClass,
+      multiplier: (vehicleClass && multiplierFor(vehicleClass)) ?? 1,
+    };
+  });
+}
+
+// Per-vehicle labor lines sharing the installation hours by multiplier. Hours are split in hundredths and the
+// hundredths left over by rounding go to the vehicles with the largest remainders, so the lines add up to the total.
+function vehicleLaborLines(vehicles: FleetVehicle[], totalHours: number): VehicleLaborLine[] {
+  const totalHundredths = Math.round(totalHours * 100);
+  const totalMultiplier = vehicles.reduce((sum, vehicle) => sum + vehicle.multiplier, 0);
+  const shares = vehicles.map((vehicle) => totalMultiplier > 0 ? totalHundredths * vehicle.multiplier / totalMultiplier : 0);
+  const hundredths = shares.map(Math.floor);
+
+  let remaining = totalHundredths - hundredths.reduce((sum, value) => sum + value, 0);
+  const byRemainder = shares.map((share, index) => index).sort((a, b) => (shares[b] - hundredths[b]) - (shares[a] - hundredths[a]));
+  for (const index of byRemainder) {
+    if (remaining <= 0) {
+      break;
+    }
+    hundredths[index] += 1;
+    remaining -= 1;
+  }
+
+  return vehicles.map((vehicle, index) => ({
+    vehicle: vehicle.label,
+    vehicleClass: vehicle.vehicleClass?.name ?? null,
+    multiplier: vehicle.multiplier,
+    hours: hundredths[index] / 100,
+  }));
+}
+
+// "3 Light Duty at 1×, 2 Heavy Duty at 1.5×", for the trace
+function describeVehicleClasses(vehicles: FleetVehicle[]): string {
+  const counts = new Map<string, number>();
+  for (const vehicle of vehicles) {
+    const key = `${vehicle.vehicleClass?.name ?? 'No class'} at ${vehicle.multiplier}×`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return Array.from(counts.entries()).map(([key, count]) => `${count} ${key}`).join(', ');
+}
+
+// Total of the vehicle multipliers, the number of standard vehicles the fleet's labor is worth
+function weightedVehicleCount(vehicles: FleetVehicle[]): number {
+  return Math.round(vehicles.reduce((sum, vehicle) => sum + vehicle.multiplier, 0) * 100) / 100;
+}
+
+export function calculatePricing(assessment: PricingAssessment, rateCard: RateCardValues, catalogItems: CatalogItem[] = [], vehicleClasses: VehicleClassRule[] = []): PricingBreakdown {
   const serviceType = assessment.serviceType || 'site-assessment';
   
   // Service-specific pricing calculations
   if (serviceType === 'fleet-tracking') {
-    return calculateFleetTrackingPricing(assessment);
+    return calculateFleetTrackingPricing(assessment, rateCard, catalogItems, vehicleClasses);
   } else if (serviceType === 'fleet-camera') {
-    return calculateFleetCameraPricing(assessment);
+    return calculateFleetCameraPricing(assessment, rateCard, catalogItems, vehicleClasses);
   }
 
+  const hourlyRate = rate(rateCard, 'site-assessment', 'hourlyRate');
+
   // Fixed Wireless Access pricing - based on router count with +1 labor hold hour
   let surveyHours = 0;
   let configurationHours = 0;
@@ -40,133 +323,249 @@ export function calculatePricing(assessment: Assessment): PricingBreakdown {
   const connectionUsage = assessment.connectionUsage;
   
   // Configuration pricing logic based on connection usage and device count
+  let configurationBasis = 'Connection usage not set';
+  let threshold: number | null = null;
   if (connectionUsage === 'failover') {
-    // Failover: $0 for 1 device, billable hours for >1 device
-    configurationHours = deviceCount > 1 ? 1 : 0;
+    // Failover: $0 up to the free device count, billable hours above it
+    threshold = rate(rateCard, 'site-assessment', 'failoverDeviceThreshold');
+    configurationHours = deviceCount > threshold ? rate(rateCard, 'site-assessment', 'configurationHours') : 0;
+    configurationBasis = deviceCount > threshold
+      ? `${plural(deviceCount, 'device')} is more than the ${threshold} included with failover`
+      : `${plural(deviceCount, 'device')} is within the ${threshold} included with failover`;
   } else if (connectionUsage === 'primary') {
-    // Primary: $0 for <5 devices, billable hours for >=5 devices
-    configurationHours = deviceCount >= 5 ? 1 : 0;
+    // Primary: $0 below the billable device count, billable hours at or above it
+    threshold = rate(rateCard, 'site-assessment', 'primaryDeviceThreshold');
+    configurationHours = deviceCount >= threshold ? rate(rateCard, 'site-assessment', 'configurationHours') : 0;
+    configurationBasis = deviceCount >= threshold
+      ? `${plural(deviceCount, 'device')} reaches the ${threshold} billable on a primary connection`
+      : `${plural(deviceCount, 'device')} is below the ${threshold} billable on a primary connection`;
   }
   
   // Installation hours based on number of routers to be installed
-  let installationHours = routerCount * 1; // 1 hour per router
+  const installHoursPerRouter = rate(rateCard, 'site-assessment', 'installHoursPerRouter');
+  let installationHours = routerCount * installHoursPerRouter;
   
-  // Add exactly 1 additional labor hold hour
-  const laborHoldHours = 1;
+  // Add the rate card labor hold hours
+  const laborHoldHours = rate(rateCard, 'site-assessment', 'laborHoldHours');
 
   // Calculate costs
-  const surveyCost = Math.round(surveyHours * HOURLY_RATE * 100) / 100;
-  const installationCost = Math.round(installationHours * HOURLY_RATE * 100) / 100;
-  const configurationCost = Math.round(configurationHours * HOURLY_RATE * 100) / 100;
-  const laborHoldCost = Math.round(laborHoldHours * HOURLY_RATE * 100) / 100;
+  const surveyCost = Math.round(surveyHours * hourlyRate * 100) / 100;
+  const installationCost = Math.round(installationHours * hourlyRate * 100) / 100;
+  const configurationCost = Math.round(configurationHours * hourlyRate * 100) / 100;
+  const laborHoldCost = Math.round(laborHoldHours * hourlyRate * 100) / 100;
   const trainingCost = 0; // Training included
   
-  // Ethernet cable pricing - $14.50 per foot
+  const trace: PricingTraceStep[] = [
+    laborTrace('Router installation', { routerCount, installHoursPerRouter }, `${plural(routerCount, 'router')} × ${plural(installHoursPerRouter, 'hour')}`, installationHours, hourlyRate, installationCost),
+    laborTrace('Configuration', { connectionUsage: connectionUsage || null, deviceCount, deviceThreshold: threshold }, configurationBasis, configurationHours, hourlyRate, configurationCost),
+    laborTrace('Labor hold', { laborHoldHours }, 'Rate card labor hold', laborHoldHours, hourlyRate, laborHoldCost),
+  ];
+  
+  // Ethernet cable pricing - rate card price per foot
   let cableCost = 0;
+  const hardwareItems: PricingLineItem[] = [];
   if (assessment.cableFootage) {
     const footage = parseFloat(assessment.cableFootage) || 0;
-    cableCost = footage * 14.50;
+    const cablePricePerFoot = rate(rateCard, 'site-assessment', 'cablePricePerFoot');
+    cableCost = footage * cablePricePerFoot;
+    if (cableCost > 0) {
+      hardwareItems.push({
+        description: 'Ethernet Cable',
+        quantity: footage,
+        unit: 'ft',
+        unitPrice: cablePricePerFoot,
+        total: Math.round(cableCost * 100) / 100,
+        category: 'hardware',
+        taxable: true,
+      });
+      trace.push({
+        kind: 'hardware',
+        rule: 'Ethernet cable',
+        inputs: { cableFootage: footage, cablePricePerFoot },
+        result: `${footage} ft × ${formatAmount(cablePricePerFoot)} = ${formatAmount(cableCost)}`,
+      });
+    }
   }
   
-  const totalCost = Math.round((surveyCost + installationCost + configurationCost + laborHoldCost + cableCost) * 100) / 100;
+  const catalog = catalogLineItems(catalogItems);
+  hardwareItems.push(...catalog.items);
+  trace.push(...catalog.trace);
+  const hardwareCost = Math.round((cableCost + catalog.cost) * 100) / 100;
+  
+  const totalCost = Math.round((surveyCost + installationCost + configurationCost + laborHoldCost + hardwareCost) * 100) / 100;
 
-  return {
+  const breakdown = {
     surveyCost,
     installationCost,
     configurationCost,
     trainingCost,
-    hardwareCost: cableCost,
+    hardwareCost,
     totalCost,
     surveyHours,
     installationHours,
     configurationHours,
     laborHoldHours,
     laborHoldCost,
-    hourlyRate: HOURLY_RATE,
+    hourlyRate,
   };
+
+  return { ...breakdown, lineItems: buildLineItems(breakdown, hardwareItems), trace };
 }
 
-function calculateFleetTrackingPricing(assessment: Assessment): PricingBreakdown {
+function calculateFleetTrackingPricing(assessment: PricingAssessment, rateCard: RateCardValues, catalogItems: CatalogItem[], vehicleClasses: VehicleClassRule[]): PricingBreakdown {
+  const hourlyRate = rate(rateCard, 'fleet-tracking', 'hourlyRate');
   let surveyHours = 0;
   
-  // Use deviceCount (number of vehicles for installation) to determine base hours
+  // Use deviceCount (number of vehicles for installation) to determine base hours, with each
+  // vehicle weighted by its class multiplier for the installation method
   const deviceCount = assessment.deviceCount || 1;
+  const installationMethod = assessment.installationMethod;
+  const vehicles = fleetVehicles(assessment, deviceCount, vehicleClasses, (vehicleClass) =>
+    installationMethod ? vehicleClass.installationMultipliers[installationMethod] : undefined
+  );
+  const weightedVehicles = weightedVehicleCount(vehicles);
+  const vehicleBasis = weightedVehicles === deviceCount
+    ? plural(deviceCount, 'vehicle')
+    : `${plural(deviceCount, 'vehicle')} weighted by class to ${weightedVehicles}`;
   let installationHours = 1; // Default to 1 hour
+  let vehicleLabor: VehicleLaborLine[];
+  let installationRule: Pick<PricingTraceStep, 'rule' | 'inputs'> & { basis: string };
   
   // Check if OBD Port Installation is selected for special pricing
-  if (assessment.ceilingType === 'obd-port') {
-    // For OBD Port Installation: 1 base hour covers up to 3 vehicles
-    installationHours = Math.ceil(deviceCount / 3);
+  if (installationMethod === 'obd-port') {
+    // For OBD Port Installation: 1 base hour covers several vehicles
+    const vehiclesPerHour = rate(rateCard, 'fleet-tracking', 'obdVehiclesPerHour') || 1;
+    installationHours = Math.ceil(weightedVehicles / vehiclesPerHour);
+    vehicleLabor = vehicleLaborLines(vehicles, installationHours);
+    installationRule = {
+      rule: 'OBD port installation',
+      inputs: { installationMethod: 'obd-port', vehicles: deviceCount, vehicleMix: describeVehicleClasses(vehicles), obdVehiclesPerHour: vehiclesPerHour },
+      basis: `${vehicleBasis} at ${vehiclesPerHour} per hour, rounded up`,
+    };
   } else {
-    // For other installation types: 1 hour per vehicle
-    installationHours = deviceCount;
+    // For other installation types: rate card hours per vehicle
+    const installHoursPerVehicle = rate(rateCard, 'fleet-tracking', 'installHoursPerVehicle');
+    installationHours = Math.round(weightedVehicles * installHoursPerVehicle * 100) / 100;
+    vehicleLabor = vehicleLaborLines(vehicles, installationHours);
+    installationRule = {
+      rule: 'Vehicle installation',
+      inputs: { installationMethod: installationMethod || null, vehicles: deviceCount, vehicleMix: describeVehicleClasses(vehicles), installHoursPerVehicle },
+      basis: `${vehicleBasis} × ${plural(installHoursPerVehicle, 'hour')}`,
+    };
   }
   
-  // Add exactly 1 additional labor hold hour
-  const laborHoldHours = 1;
+  // Add the rate card labor hold hours
+  const laborHoldHours = rate(rateCard, 'fleet-tracking', 'laborHoldHours');
   
-  const surveyCost = Math.round(surveyHours * HOURLY_RATE * 100) / 100;
-  const installationCost = Math.round(installationHours * HOURLY_RATE * 100) / 100;
-  const laborHoldCost = Math.round(laborHoldHours * HOURLY_RATE * 100) / 100;
+  const surveyCost = Math.round(surveyHours * hourlyRate * 100) / 100;
+  const installationCost = Math.round(installationHours * hourlyRate * 100) / 100;
+  const laborHoldCost = Math.round(laborHoldHours * hourlyRate * 100) / 100;
   const configurationCost = 0; // Included in service
   const trainingCost = 0; // Included in service
-  const totalCost = Math.round((surveyCost + installationCost + laborHoldCost) * 100) / 100;
+  const catalog = catalogLineItems(catalogItems);
+  const totalCost = Math.round((surveyCost + installationCost + laborHoldCost + catalog.cost) * 100) / 100;
+  const trace: PricingTraceStep[] = [
+    laborTrace(installationRule.rule, installationRule.inputs, installationRule.basis, installationHours, hourlyRate, installationCost),
+    laborTrace('Labor hold', { laborHoldHours }, 'Rate card labor hold', laborHoldHours, hourlyRate, laborHoldCost),
+    ...catalog.trace,
+  ];
 
-  return {
+  const breakdown = {
     surveyCost,
     installationCost,
     configurationCost,
     trainingCost,
-    hardwareCost: 0,
+    hardwareCost: catalog.cost,
     totalCost,
     surveyHours,
     installationHours,
     configurationHours: 0,
     laborHoldHours,
     laborHoldCost,
-    hourlyRate: HOURLY_RATE,
+    hourlyRate,
   };
+
+  return { ...breakdown, lineItems: buildLineItems(breakdown, catalog.items), trace, vehicleLabor };
 }
 
-function calculateFleetCameraPricing(assessment: Assessment): PricingBreakdown {
+function calculateFleetCameraPricing(assessment: PricingAssessment, rateCard: RateCardValues, catalogItems: CatalogItem[], vehicleClasses: VehicleClassRule[]): PricingBreakdown {
+  const hourlyRate = rate(rateCard, 'fleet-camera', 'hourlyRate');
   let surveyHours = 0;
   
-  // Base calculation: 1 hour per vehicle (includes 1 camera per vehicle)
+  // Base calculation: hours per vehicle (includes 1 camera per vehicle), with each vehicle
+  // weighted by its class multiplier for the camera solution type
   const vehicleCount = assessment.deviceCount || 1;
-  let installationHours = vehicleCount;
+  const cameraSolutionType = assessment.cameraSolutionType;
+  const vehicles = fleetVehicles(assessment, vehicleCount, vehicleClasses, (vehicleClass) =>
+    cameraSolutionType ? vehicleClass.cameraMultipliers[cameraSolutionType] : undefined
+  );
+  const weightedVehicles = weightedVehicleCount(vehicles);
+  const installHoursPerVehicle = rate(rateCard, 'fleet-camera', 'installHoursPerVehicle');
+  let installationHours = Math.round(weightedVehicles * installHoursPerVehicle * 100) / 100;
+  // Extra cameras below are labor for the fleet as a whole, not for a vehicle
+  const vehicleLabor = vehicleLaborLines(vehicles, installationHours);
+  let installationBasis = weightedVehicles === vehicleCount
+    ? `${plural(vehicleCount, 'vehicle')} × ${plural(installHoursPerVehicle, 'hour')}`
+    : `${plural(vehicleCount, 'vehicle')} weighted by class to ${weightedVehicles} × ${plural(installHoursPerVehicle, 'hour')}`;
   
   // Additional labor for extra cameras beyond 1 per vehicle
   const numberOfCameras = assessment.numberOfCameras || vehicleCount;
+  const extraCameraHoursEach = rate(rateCard, 'fleet-camera', 'extraCameraHours');
   if (numberOfCameras > vehicleCount) {
     const extraCameras = numberOfCameras - vehicleCount;
-    const extraCameraHours = extraCameras * 0.5; // 0.5 hours per additional camera
+    const extraCameraHours = extraCameras * extraCameraHoursEach;
     installationHours += extraCameraHours;
+    installationBasis += ` + ${plural(extraCameras, 'additional camera')} × ${plural(extraCameraHoursEach, 'hour')}`;
   }
   
   // Removal costs if existing solution needs removal
   let removalHours = 0;
   let removalCost = 0;
+  let removalTrace: PricingTraceStep | null = null;
   if (assessment.removalNeeded === 'yes' && assessment.removalVehicleCount) {
-    removalHours = assessment.removalVehicleCount * 0.5; // 0.5 hours per vehicle for removal
-    removalCost = Math.round(removalHours * HOURLY_RATE * 100) / 100;
+    const removalHoursPerVehicle = rate(rateCard, 'fleet-camera', 'removalHoursPerVehicle');
+    removalHours = assessment.removalVehicleCount * removalHoursPerVehicle;
+    removalCost = Math.round(removalHours * hourlyRate * 100) / 100;
+    removalTrace = laborTrace(
+      'Existing system removal',
+      { removalVehicleCount: assessment.removalVehicleCount, removalHoursPerVehicle },
+      `${plural(assessment.removalVehicleCount, 'vehicle')} × ${plural(removalHoursPerVehicle, 'hour')}`,
+      removalHours,
+      hourlyRate,
+      removalCost
+    );
   }
   
-  // Add exactly 1 additional labor hold hour
-  const laborHoldHours = 1;
+  // Add the rate card labor hold hours
+  const laborHoldHours = rate(rateCard, 'fleet-camera', 'laborHoldHours');
   
-  const surveyCost = Math.round(surveyHours * HOURLY_RATE * 100) / 100;
-  const installationCost = Math.round(installationHours * HOURLY_RATE * 100) / 100;
-  const laborHoldCost = Math.round(laborHoldHours * HOURLY_RATE * 100) / 100;
+  const surveyCost = Math.round(surveyHours * hourlyRate * 100) / 100;
+  const installationCost = Math.round(installationHours * hourlyRate * 100) / 100;
+  const laborHoldCost = Math.round(laborHoldHours * hourlyRate * 100) / 100;
   const configurationCost = 0; // Included in service
   const trainingCost = 0; // Included in service
-  const totalCost = Math.round((surveyCost + installationCost + removalCost + laborHoldCost) * 100) / 100;
+  const catalog = catalogLineItems(catalogItems);
+  const totalCost = Math.round((surveyCost + installationCost + removalCost + laborHoldCost + catalog.cost) * 100) / 100;
+  const trace: PricingTraceStep[] = [
+    laborTrace(
+      'Camera installation',
+      { vehicles: vehicleCount, cameraSolutionType: cameraSolutionType || null, vehicleMix: describeVehicleClasses(vehicles), installHoursPerVehicle, numberOfCameras, extraCameraHours: extraCameraHoursEach },
+      installationBasis,
+      installationHours,
+      hourlyRate,
+      installationCost
+    ),
+    ...(removalTrace ? [removalTrace] : []),
+    laborTrace('Labor hold', { laborHoldHours }, 'Rate card labor hold', laborHoldHours, hourlyRate, laborHoldCost),
+    ...catalog.trace,
+  ];
 
-  return {
+  const breakdown = {
     surveyCost,
     installationCost,
     configurationCost,
     trainingCost,
-    hardwareCost: 0,
+    hardwareCost: catalog.cost,
     removalCost: removalCost > 0 ? removalCost : undefined,
     totalCost,
     surveyHours,
@@ -175,6 +574,234 @@ function calculateFleetCameraPricing(assessment: Assessment): PricingBreakdown {
     removalHours: removalHours > 0 ? removalHours : undefined,
     laborHoldHours,
     laborHoldCost,
-    hourlyRate: HOURLY_RATE,
+    hourlyRate,
+  };
+
+  return { ...breakdown, lineItems: buildLineItems(breakdown, catalog.items), trace, vehicleLabor };
+}
+
+// Scale every cost in a breakdown by an organization price multiplier
+export function applyPriceMultiplier(pricing: PricingBreakdown, multiplier: number): PricingBreakdown {
+  if (multiplier === 1) {
+    return pricing;
+  }
+
+  const scale = (value: number) => Math.round(value * multiplier * 100) / 100;
+  const surveyCost = scale(pricing.surveyCost);
+  const installationCost = scale(pricing.installationCost);
+  const configurationCost = scale(pricing.configurationCost);
+  const trainingCost = scale(pricing.trainingCost);
+  const hardwareCost = scale(pricing.hardwareCost);
+  const removalCost = pricing.removalCost !== undefined ? scale(pricing.removalCost) : undefined;
+  const laborHoldCost = scale(pricing.laborHoldCost);
+  const totalCost = Math.round((surveyCost + installationCost + configurationCost + trainingCost + hardwareCost + (removalCost || 0) + laborHoldCost) * 100) / 100;
+
+  return {
+    ...pricing,
+    surveyCost,
+    installationCost,
+    configurationCost,
+    trainingCost,
+    hardwareCost,
+    removalCost,
+    laborHoldCost,
+    totalCost,
+    hourlyRate: scale(pricing.hourlyRate),
+    lineItems: pricing.lineItems.map((item) => ({
+      ...item,
+      unitPrice: scale(item.unitPrice),
+      total: scale(item.total),
+    })),
+    trace: [...(pricing.trace || []), {
+      kind: 'multiplier',
+      rule: 'Partner price multiplier',
+      inputs: { priceMultiplier: multiplier },
+      result: `${formatAmount(pricing.totalCost)} × ${multiplier} = ${formatAmount(totalCost)}`,
+    }],
+  };
+}
+
+// Add the monthly catalog products as recurring charges for the contract term. Recurring charges
+// are priced at the catalog sell price and are not discounted or taxed.
+export function applyRecurring(pricing: PricingBreakdown, catalogItems: CatalogItem[], termMonths: number | null | undefined): PricingBreakdown {
+  const recurringItems: PricingLineItem[] = catalogItems
+    .filter((item) => item.quantity > 0 && item.billingPeriod === 'monthly')
+    .map((item) => ({
+      description: item.name,
+      quantity: item.quantity,
+      unit: 'each',
+      unitPrice: item.unitPrice,
+      total: Math.round(item.quantity * item.unitPrice * 100) / 100,
+      category: 'recurring',
+      taxable: false,
+      sku: item.sku,
+      productId: item.productId,
+    }));
+  if (recurringItems.length === 0) {
+    return pricing;
+  }
+
+  const monthlyTotal = Math.round(recurringItems.reduce((sum, item) => sum + item.total, 0) * 100) / 100;
+  const term = termMonths && termMonths > 0 ? termMonths : DEFAULT_TERM_MONTHS;
+  return {
+    ...pricing,
+    recurringItems,
+    monthlyTotal,
+    termMonths: term,
+    trace: [...(pricing.trace || []), {
+      kind: 'recurring',
+      rule: 'Monthly charges',
+      inputs: { products: recurringItems.length, termMonths: termMonths ?? null },
+      result: `${formatAmount(monthlyTotal)}/mo for ${term} months${term !== termMonths ? ' (default term)' : ''}, not included in the one-time total`,
+    }],
+  };
+}
+
+// Total contract value: the one-time total plus the monthly charges over the contract term
+export function calculateContractValue(totalCost: number, monthlyTotal: number, termMonths: number): number {
+  return Math.round((totalCost + monthlyTotal * termMonths) * 100) / 100;
+}
+
+export interface CombinedTotals {
+  totalCost: number;
+  monthlyTotal: number;
+  contractValue: number;
+}
+
+// Totals of several quotes priced together, such as the services of a proposal. Each quote's
+// monthly charges run for its own contract term.
+export function calculateCombinedTotals(quotes: { totalCost: string | null; monthlyTotal: string | null; termMonths: number | null }[]): CombinedTotals {
+  const totals = quotes.reduce(
+    (sum, quote) => {
+      const totalCost = parseFloat(quote.totalCost || '0');
+      const monthlyTotal = parseFloat(quote.monthlyTotal || '0');
+      return {
+        totalCost: sum.totalCost + totalCost,
+        monthlyTotal: sum.monthlyTotal + monthlyTotal,
+        contractValue: sum.contractValue + calculateContractValue(totalCost, monthlyTotal, quote.termMonths || 0),
+      };
+    },
+    { totalCost: 0, monthlyTotal: 0, contractValue: 0 }
+  );
+
+  return {
+    totalCost: Math.round(totals.totalCost * 100) / 100,
+    monthlyTotal: Math.round(totals.monthlyTotal * 100) / 100,
+    contractValue: Math.round(totals.contractValue * 100) / 100,
   };
-}
\ No newline at end of file
+}
+
+// Add a trip or mileage line item for travel to the site. Travel is added after the organization
+// price multiplier, so partners pay the same travel rates.
+export function applyTravel(pricing: PricingBreakdown, travel: TravelCharge | null): PricingBreakdown {
+  if (!travel) {
+    return pricing;
+  }
+
+  // No charge is added; the trace and the missing travel cost flag the quote for a manual adjustment
+  if (travel.manual) {
+    return {
+      ...pricing,
+      travelMiles: travel.miles,
+      trace: [...(pricing.trace || []), {
+        kind: 'travel',
+        rule: 'Travel to enter manually',
+        inputs: { miles: travel.miles, manual: true },
+        result: `Site located only to its state or province (roughly ${travel.miles} mi away): travel is not charged automatically. Add it as a manual adjustment.`,
+      }],
+    };
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const distance = `${travel.miles} mi`;
+  const item: PricingLineItem = travel.chargeType === 'trip'
+    ? { description: `Trip Charge (${distance})`, quantity: 1, unit: 'each', unitPrice: travel.rate, total: round(travel.rate), category: 'travel', taxable: false }
+    : { description: `Travel Mileage (${distance} each way)`, quantity: travel.miles * 2, unit: 'mi', unitPrice: travel.rate, total: round(travel.miles * 2 * travel.rate), category: 'travel', taxable: false };
+
+  return {
+    ...pricing,
+    travelMiles: travel.miles,
+    travelCost: item.total,
+    totalCost: round(pricing.totalCost + item.total),
+    lineItems: [...pricing.lineItems, item],
+    trace: [...(pricing.trace || []), {
+      kind: 'travel',
+      rule: travel.chargeType === 'trip' ? 'Trip charge' : 'Travel mileage',
+      inputs: { miles: travel.miles, chargeType: travel.chargeType, rate: travel.rate },
+      result: travel.chargeType === 'trip'
+        ? `Travel band for ${distance} from the base location: flat ${formatAmount(item.total)}`
+        : `${item.quantity} round-trip mi × ${formatAmount(travel.rate)} = ${formatAmount(item.total)}`,
+    }],
+  };
+}
+
+// Append discount and adjustment line items to a breakdown. Percentage discounts apply to the
+// subtotal of the priced items, and the total never drops below zero.
+export function applyAdjustments(pricing: PricingBreakdown, adjustments: PricingAdjustment[]): PricingBreakdown {
+  const pricedItems = pricing.lineItems.filter((item) => item.category !== 'adjustment');
+  const pricedTrace = (pricing.trace || []).filter((step) => step.kind !== 'adjustment');
+  if (adjustments.length === 0) {
+    return { ...pricing, lineItems: pricedItems, trace: pricedTrace };
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const subtotal = round(pricedItems.reduce((sum, item) => sum + item.total, 0));
+  let totalCost = subtotal;
+  const adjustmentTrace: PricingTraceStep[] = [];
+
+  const adjustmentItems: PricingLineItem[] = adjustments.map((adjustment) => {
+    let amount = adjustment.type === 'percent'
+      ? -round(subtotal * adjustment.value / 100)
+      : adjustment.type === 'fixed'
+        ? -round(adjustment.value)
+        : round(adjustment.value);
+    const capped = amount < -totalCost;
+    amount = Math.max(amount, -totalCost);
+    totalCost = round(totalCost + amount);
+    adjustmentTrace.push({
+      kind: 'adjustment',
+      rule: adjustment.description,
+      inputs: { type: adjustment.type, value: adjustment.value },
+      result: `${adjustment.type === 'percent' ? `${adjustment.value}% of ${formatAmount(subtotal)} = ` : ''}${formatAmount(amount)}${capped ? ' (limited so the total does not drop below zero)' : ''}`,
+    });
+    return { description: adjustment.description, quantity: 1, unit: 'each', unitPrice: amount, total: amount, category: 'adjustment', taxable: false };
+  });
+
+  return { ...pricing, totalCost, lineItems: [...pricedItems, ...adjustmentItems], trace: [...pricedTrace, ...adjustmentTrace] };
+}
+
+// Add sales tax to a breakdown. Hardware is taxed, labor only where the region taxes it, and
+// discounts reduce the taxable amount in proportion to the subtotal they discount.
+export function applyTax(pricing: PricingBreakdown, rule: TaxRule): PricingBreakdown {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const pricedItems = pricing.lineItems.filter((item) => item.category !== 'adjustment');
+  const pricedSubtotal = pricedItems.reduce((sum, item) => sum + item.total, 0);
+  const subtotal = pricing.totalCost;
+
+  let taxableAmount = pricedItems
+    .filter((item) => item.taxable || (rule.laborTaxable && item.category.startsWith('labor')))
+    .reduce((sum, item) => sum + item.total, 0);
+  if (pricedSubtotal > 0 && subtotal < pricedSubtotal) {
+    taxableAmount = taxableAmount * Math.max(subtotal, 0) / pricedSubtotal;
+  }
+
+  const taxRate = rule.exempt ? 0 : rule.rate;
+  const taxAmount = round(taxableAmount * taxRate / 100);
+
+  return {
+    ...pricing,
+    subtotal,
+    taxRegion: rule.region,
+    taxRate,
+    taxAmount,
+    totalCost: round(subtotal + taxAmount),
+    trace: [...(pricing.trace || []).filter((step) => step.kind !== 'tax'), {
+      kind: 'tax',
+      rule: 'Sales tax',
+      inputs: { region: rule.region, rate: rule.rate, laborTaxable: rule.laborTaxable, exempt: rule.exempt, taxableAmount: round(taxableAmount) },
+      result: rule.exempt
+        ? 'Customer is tax exempt: no tax'
+        : `${taxRate}% of ${formatAmount(taxableAmount)} taxable (${rule.laborTaxable ? 'hardware and labor' : 'hardware only'}) = ${formatAmount(taxAmount)}`,
+    }],
+  };
+}
@@ -0,0 +1,152 @@
+import type { InsertProduct, Product } from '@shared/schema';
+import { storage } from '../storage';
+import { RATE_CARD_PARAMETERS, type CatalogItem } from './pricingEngine';
+import { ValidationError } from '../errors';
+
+export interface ProductInput {
+  sku?: string;
+  name?: string;
+  description?: string | null;
+  cost?: string | number;
+  sellPrice?: string | number;
+  billingPeriod?: string;
+  serviceTypes?: string[];
+  isActive?: boolean;
+}
+
+// A catalog product chosen on an assessment
+export interface CatalogSelection {
+  productId: number;
+  quantity: number;
+}
+
+// Catalog product as shown to partners, without our cost
+export type PartnerProduct = Omit<Product, 'cost'>;
+
+const SKU_PATTERN = /^[A-Z0-9][A-Z0-9._-]{1,39}$/;
+
+export class ProductService {
+  /**
+   * Validate and normalize product settings
+   */
+  validateProduct(input: ProductInput): InsertProduct {
+    const sku = (input.sku || '').trim().toUpperCase();
+    if (!SKU_PATTERN.test(sku)) {
+      throw new ValidationError('SKU must be 2-40 letters, digits, dots, dashes or underscores');
+    }
+
+    const name = input.name?.trim();
+    if (!name) {
+      throw new ValidationError('Product name is required');
+    }
+
+    const cost = parseFloat(String(input.cost));
+    if (!Number.isFinite(cost) || cost < 0) {
+      throw new ValidationError('Cost must be zero or more');
+    }
+
+    const sellPrice = parseFloat(String(input.sellPrice));
+    if (!Number.isFinite(sellPrice) || sellPrice <= 0) {
+      throw new ValidationError('Sell price must be greater than zero');
+    }
+
+    if (input.billingPeriod !== undefined && input.billingPeriod !== 'one_time' && input.billingPeriod !== 'monthly') {
+      throw new ValidationError('Billing period must be one_time or monthly');
+    }
+
+    const validServiceTypes = Object.keys(RATE_CARD_PARAMETERS);
+    const serviceTypes = Array.isArray(input.serviceTypes) ? Array.from(new Set(input.serviceTypes)) : [];
+    if (serviceTypes.length === 0 || serviceTypes.some((type) => !validServiceTypes.includes(type))) {
+      throw new ValidationError(`Choose at least one service type: ${validServiceTypes.join(', ')}`);
+    }
+
+    return {
+      sku,
+      name,
+      description: input.description?.trim() || null,
+      cost: cost.toFixed(2),
+      sellPrice: sellPrice.toFixed(2),
+      billingPeriod: input.billingPeriod ?? 'one_time',
+      serviceTypes,
+      isActive: input.isActive ?? true,
+    };
+  }
+
+  /**
+   * Get every product in the catalog, including inactive ones
+   */
+  async getProducts(): Promise<Product[]> {
+    return await storage.getProducts();
+  }
+
+  /**
+   * Active products partners can add to an assessment of a service type
+   */
+  async getPartnerProducts(serviceType?: string): Promise<PartnerProduct[]> {
+    const products = await storage.getProducts();
+    return products
+      .filter((product) => product.isActive && (!serviceType || product.serviceTypes.includes(serviceType)))
+      .map(({ cost, ...product }) => product);
+  }
+
+  /**
+   * Add a product to the catalog
+   */
+  async createProduct(input: ProductInput): Promise<Product> {
+    const product = this.validateProduct(input);
+    if (await storage.getProductBySku(product.sku)) {
+      throw new ValidationError(`SKU ${product.sku} already exists`);
+    }
+
+    const created = await storage.createProduct(product);
+    console.log(`📦 Product ${created.sku} added to the catalog`);
+    return created;
+  }
+
+  /**
+   * Update a product. Quotes already priced keep the price they were issued with.
+   */
+  async updateProduct(id: number, input: ProductInput): Promise<Product> {
+    const product = this.validateProduct(input);
+    const existing = await storage.getProductBySku(product.sku);
+    if (existing && existing.id !== id) {
+      throw new ValidationError(`SKU ${product.sku} already exists`);
+    }
+
+    const updated = await storage.updateProduct(id, product);
+    if (!updated) {
+      throw new ValidationError('Product not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Resolve the catalog products chosen on an assessment for pricing. Products that are
+   * inactive, removed or not offered for the service type are left out.
+   */
+  async resolveCatalogItems(selections: CatalogSelection[] | null | undefined, serviceType: string): Promise<CatalogItem[]> {
+    const chosen = (selections || []).filter((item) => Number.isInteger(item.quantity) && item.quantity > 0);
+    if (chosen.length === 0) {
+      return [];
+    }
+
+    const products = await storage.getProductsByIds(chosen.map((item) => item.productId));
+    const items: CatalogItem[] = [];
+    chosen.forEach((item) => {
+      const product = products.find((p) => p.id === item.productId);
+      if (product && product.isActive && product.serviceTypes.includes(serviceType)) {
+        items.push({
+          productId: product.id,
+          sku: product.sku,
+          name: product.name,
+          quantity: item.quantity,
+          unitPrice: parseFloat(product.sellPrice),
+          billingPeriod: product.billingPeriod,
+        });
+      }
+    });
+    return items;
+  }
+}
+
+export const productService = new ProductService();
@@ -0,0 +1,399 @@
+import { insertAssessmentSchema, type Assessment, type InsertAssessment, type InsertProject, type Project } from '@shared/schema';
+import { ZodError } from 'zod';
+import { storage } from '../storage';
+import { calculateCombinedTotals, RATE_CARD_PARAMETERS, type CombinedTotals } from './pricingEngine';
+import { quoteService } from './quoteService';
+import { ValidationError } from '../errors';
+
+export interface ProjectInput {
+  name?: string;
+  serviceType?: string;
+  salesExecutiveName?: string;
+  salesExecutiveEmail?: string;
+  salesExecutivePhone?: string | null;
+  customerCompanyName?: string;
+  customerContactName?: string;
+  customerEmail?: string;
+  customerPhone?: string | null;
+  industry?: string | null;
+  taxExempt?: boolean;
+}
+
+// A site with its pricing: the issued quote when there is one, otherwise a live estimate
+export interface ProjectSite {
+  assessment: Assessment;
+  quoteId: number | null;
+  quoteNumber: string | null;
+  quoteStatus: string | null;
+  totalCost: string | null; // null when the site could not be priced
+  monthlyTotal: string | null;
+  termMonths: number | null;
+}
+
+export interface ProjectDetails extends Project, CombinedTotals {
+  sites: ProjectSite[];
+}
+
+export interface SiteImportRowError {
+  row: number; // line in the CSV, counting the header as line 1
+  message: string;
+}
+
+export interface SiteImportResult {
+  sites: Assessment[];
+  errors: SiteImportRowError[];
+}
+
+// Details every site shares, copied from the project onto each site's assessment
+const SHARED_FIELDS = [
+  'serviceType',
+  'salesExecutiveName',
+  'salesExecutiveEmail',
+  'salesExecutivePhone',
+  'customerCompanyName',
+  'customerContactName',
+  'customerEmail',
+  'customerPhone',
+  'industry',
+  'taxExempt',
+] as const;
+
+// Per-site answers a site import can set. Headers match the field name in any case, with or
+// without spaces and underscores, so "Site Address" and site_address both work.
+const SITE_COLUMNS: Record<string, 'text' | 'integer' | 'boolean'> = {
+  siteName: 'text',
+  siteAddress: 'text',
+  buildingType: 'text',
+  coverageArea: 'integer',
+  floors: 'integer',
+  deviceCount: 'integer',
+  powerAvailable: 'boolean',
+  ethernetRequired: 'boolean',
+  ceilingMount: 'boolean',
+  outdoorCoverage: 'boolean',
+  networkSignal: 'text',
+  signalStrength: 'text',
+  connectionUsage: 'text',
+  routerLocation: 'text',
+  antennaCable: 'text',
+  deviceConnectionAssistance: 'text',
+  lowSignalAntennaCable: 'text',
+  antennaType: 'text',
+  antennaInstallationLocation: 'text',
+  routerMounting: 'text',
+  dualWanSupport: 'text',
+  ceilingHeight: 'text',
+  ceilingType: 'text',
+  routerMake: 'text',
+  routerModel: 'text',
+  routerCount: 'integer',
+  cableFootage: 'text',
+  interferenceSources: 'text',
+  specialRequirements: 'text',
+  cameraSolutionType: 'text',
+  numberOfCameras: 'integer',
+  removalNeeded: 'text',
+  removalVehicleCount: 'integer',
+  existingCameraSolution: 'text',
+  totalFleetSize: 'integer',
+  vehicleClass: 'text',
+  trackerType: 'text',
+  installationMethod: 'text',
+  iotTrackingPartner: 'text',
+  carrierSim: 'text',
+  additionalNotes: 'text',
+};
+
+export const SITE_IMPORT_COLUMNS = Object.keys(SITE_COLUMNS);
+const MAX_IMPORT_ROWS = 500;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const formatZodError = (error: ZodError) =>
+  error.errors.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+// Split CSV text into rows of cells. Quoted cells may contain commas, doubled quotes and line breaks.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export class ProjectService {
+  /**
+   * Validate and normalize the shared project details
+   */
+  validateProject(input: ProjectInput): Omit<InsertProject, 'userId' | 'organizationId'> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new ValidationError('Project name is required');
+    }
+
+    const serviceType = input.serviceType || 'site-assessment';
+    if (!Object.keys(RATE_CARD_PARAMETERS).includes(serviceType)) {
+      throw new ValidationError(`Service type must be one of ${Object.keys(RATE_CARD_PARAMETERS).join(', ')}`);
+    }
+
+    const salesExecutiveName = input.salesExecutiveName?.trim();
+    const customerCompanyName = input.customerCompanyName?.trim();
+    const customerContactName = input.customerContactName?.trim();
+    if (!salesExecutiveName || !customerCompanyName || !customerContactName) {
+      throw new ValidationError('Sales executive name, customer company and customer contact are required');
+    }
+
+    const salesExecutiveEmail = input.salesExecutiveEmail?.trim() || '';
+    const customerEmail = input.customerEmail?.trim() || '';
+    if (!EMAIL_PATTERN.test(salesExecutiveEmail) || !EMAIL_PATTERN.test(customerEmail)) {
+      throw new ValidationError('Enter a valid sales executive and customer email');
+    }
+
+    return {
+      name,
+      serviceType: serviceType as InsertProject['serviceType'],
+      salesExecutiveName,
+      salesExecutiveEmail,
+      salesExecutivePhone: input.salesExecutivePhone?.trim() || null,
+      customerCompanyName,
+      customerContactName,
+      customerEmail,
+      customerPhone: input.customerPhone?.trim() || null,
+      industry: input.industry?.trim() || null,
+      taxExempt: input.taxExempt ?? false,
+    };
+  }
+
+  async createProject(userId: string, input: ProjectInput): Promise<Project> {
+    const details = this.validateProject(input);
+    const organization = await storage.getOrganizationByUserId(userId);
+    const project = await storage.createProject({ ...details, userId, organizationId: organization?.id ?? null });
+    console.log(`🏬 Project ${project.name} created for ${project.customerCompanyName}`);
+    return project;
+  }
+
+  /**
+   * Get a project if it belongs to the user
+   */
+  async getProjectForUser(id: number, userId: string): Promise<Project | undefined> {
+    const project = await storage.getProject(id);
+    return project && project.userId === userId ? project : undefined;
+  }
+
+  /**
+   * Update the shared details and copy them to every site
+   */
+  async updateProject(project: Project, input: ProjectInput): Promise<Project> {
+    const details = this.validateProject(input);
+    if (details.serviceType !== project.serviceType && (await storage.getAssessmentsByProjectId(project.id)).length > 0) {
+      throw new ValidationError('The service type cannot be changed once the project has sites');
+    }
+
+    const updated = await storage.updateProject(project.id, details);
+    await storage.updateProjectSites(project.id, this.getSharedFields(updated));
+    return updated;
+  }
+
+  getSharedFields(project: Project): Partial<InsertAssessment> {
+    const shared: Partial<InsertAssessment> = {};
+    SHARED_FIELDS.forEach((field) => {
+      (shared as Record<string, unknown>)[field] = project[field];
+    });
+    return shared;
+  }
+
+  /**
+   * Add one site with its address; the technical answers are filled in from the wizard
+   */
+  async addSite(project: Project, input: { siteName?: string; siteAddress?: string }): Promise<Assessment> {
+    if (!input.siteAddress?.trim()) {
+      throw new ValidationError('Site address is required');
+    }
+
+    let site: InsertAssessment;
+    try {
+      site = this.buildSite(project, { siteName: input.siteName?.trim() || null, siteAddress: input.siteAddress.trim() });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationError(formatZodError(error));
+      }
+      throw error;
+    }
+
+    const [created] = await storage.createProjectSites(project.id, [site]);
+    return created;
+  }
+
+  /**
+   * Import sites from CSV with a header row. Nothing is imported unless every row is valid.
+   */
+  async importSites(project: Project, csv: string): Promise<SiteImportResult> {
+    const rows = parseCsv((csv || '').replace(/^\uFEFF/, '')).filter((row) => row.some((cell) => cell.trim() !== ''));
+    if (rows.length < 2) {
+      throw new ValidationError('The CSV needs a header row and at least one site');
+    }
+    if (rows.length - 1 > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Import up to ${MAX_IMPORT_ROWS} sites at a time`);
+    }
+
+    const columnsByHeader = new Map(SITE_IMPORT_COLUMNS.map((field) => [normalizeHeader(field), field]));
+    const [headerRow, ...siteRows] = rows;
+    const fields = headerRow.map((header) => columnsByHeader.get(normalizeHeader(header)));
+    const unknownHeaders = headerRow.filter((header, index) => !fields[index] && header.trim() !== '');
+    if (unknownHeaders.length > 0) {
+      throw new ValidationError(`Unknown columns: ${unknownHeaders.join(', ')}. Allowed columns: ${SITE_IMPORT_COLUMNS.join(', ')}`);
+    }
+    if (!fields.includes('siteAddress')) {
+      throw new ValidationError('The CSV needs a siteAddress column');
+    }
+
+    const sites: InsertAssessment[] = [];
+    const errors: SiteImportRowError[] = [];
+    siteRows.forEach((cells, index) => {
+      const row = index + 2;
+      try {
+        sites.push(this.buildSite(project, this.readSiteRow(headerRow, fields, cells)));
+      } catch (error) {
+        if (!(error instanceof ZodError) && !(error instanceof ValidationError)) {
+          throw error;
+        }
+        errors.push({ row, message: error instanceof ZodError ? formatZodError(error) : error.message });
+      }
+    });
+
+    if (errors.length > 0) {
+      return { sites: [], errors };
+    }
+
+    const created = await storage.createProjectSites(project.id, sites);
+    console.log(`🏬 Imported ${created.length} sites into project ${project.name}`);
+    return { sites: created, errors: [] };
+  }
+
+  /**
+   * Every site of a project with its pricing, and the totals across all sites that could be priced
+   */
+  async getProjectDetails(project: Project): Promise<ProjectDetails> {
+    const assessments = await storage.getAssessmentsByProjectId(project.id);
+    const sites: ProjectSite[] = [];
+    for (const assessment of assessments) {
+      sites.push(await this.priceSite(assessment));
+    }
+
+    const pricedSites = sites.filter((site): site is ProjectSite & { totalCost: string } => site.totalCost !== null);
+    return { ...project, ...calculateCombinedTotals(pricedSites), sites };
+  }
+
+  private buildSite(project: Project, fields: Record<string, unknown>): InsertAssessment {
+    return insertAssessmentSchema.parse({
+      ...this.getSharedFields(project),
+      ...fields,
+      userId: project.userId,
+      organizationId: project.organizationId,
+      status: 'draft',
+    });
+  }
+
+  private readSiteRow(headers: string[], fields: (string | undefined)[], cells: string[]): Record<string, unknown> {
+    const site: Record<string, unknown> = {};
+    fields.forEach((field, index) => {
+      const value = (cells[index] || '').trim();
+      if (!field || value === '') {
+        return;
+      }
+
+      switch (SITE_COLUMNS[field]) {
+        case 'integer':
+          if (!/^\d+$/.test(value)) {
+            throw new ValidationError(`${headers[index]} must be a whole number`);
+          }
+          site[field] = parseInt(value);
+          break;
+        case 'boolean':
+          if (/^(yes|y|true|1)$/i.test(value)) {
+            site[field] = true;
+          } else if (/^(no|n|false|0)$/i.test(value)) {
+            site[field] = false;
+          } else {
+            throw new ValidationError(`${headers[index]} must be yes or no`);
+          }
+          break;
+        default:
+          site[field] = value;
+      }
+    });
+
+    if (!site.siteAddress) {
+      throw new ValidationError('Site address is required');
+    }
+    return site;
+  }
+
+  private async priceSite(assessment: Assessment): Promise<ProjectSite> {
+    const quote = await storage.getQuoteByAssessmentId(assessment.id);
+    if (quote) {
+      return {
+        assessment,
+        quoteId: quote.id,
+        quoteNumber: quote.quoteNumber,
+        quoteStatus: quote.status,
+        totalCost: quote.totalCost,
+        monthlyTotal: quote.monthlyTotal,
+        termMonths: quote.termMonths,
+      };
+    }
+
+    try {
+      const { pricing } = await quoteService.priceAssessment(assessment);
+      return {
+        assessment,
+        quoteId: null,
+        quoteNumber: null,
+        quoteStatus: null,
+        totalCost: pricing.totalCost.toFixed(2),
+        monthlyTotal: pricing.monthlyTotal ? pricing.monthlyTotal.toFixed(2) : null,
+        termMonths: pricing.termMonths ?? null,
+      };
+    } catch (error) {
+      console.warn(`⚠️ Could not price site ${assessment.id} of project ${assessment.projectId}:`, error);
+      return { assessment, quoteId: null, quoteNumber: null, quoteStatus: null, totalCost: null, monthlyTotal: null, termMonths: null };
+    }
+  }
+}
+
+export const projectService = new ProjectService();
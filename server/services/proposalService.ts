@@ -0,0 +1,227 @@
+import type { Assessment, Proposal, ProposalSignature, Quote } from '@shared/schema';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import { calculateCombinedTotals, type CombinedTotals, type PricingLineItem } from './pricingEngine';
+import { quoteService } from './quoteService';
+import { quoteNumberService } from './quoteNumberService';
+import { quoteSignatureService, type SignatureAudit, type ValidSignature } from './quoteSignatureService';
+import { generateProposalPDF, type QuoteData } from './pdfGenerator';
+import { ValidationError } from '../errors';
+
+// A quote in a proposal, with its assessment and priced items
+export type ProposalQuote = Quote & {
+  assessment: Assessment;
+  lineItems: PricingLineItem[];
+  recurringItems: PricingLineItem[];
+};
+
+export interface ProposalDetails extends Proposal, CombinedTotals {
+  quotes: ProposalQuote[];
+}
+
+export class ProposalService {
+  /**
+   * Combine the quotes of several assessments for the same customer into a proposal
+   */
+  async createProposal(userId: string, assessmentIds: number[]): Promise<Proposal> {
+    const ids = Array.from(new Set((Array.isArray(assessmentIds) ? assessmentIds : []).map(Number)));
+    if (ids.length < 2 || ids.some((id) => !Number.isInteger(id))) {
+      throw new ValidationError('Choose at least two quotes to combine');
+    }
+
+    const assessments: Assessment[] = [];
+    for (const id of ids) {
+      const assessment = await storage.getAssessment(id);
+      if (!assessment || assessment.userId !== userId) {
+        throw new ValidationError('Assessment not found');
+      }
+      assessments.push(assessment);
+    }
+
+    const customerEmail = assessments[0].customerEmail.trim().toLowerCase();
+    if (assessments.some((assessment) => assessment.customerEmail.trim().toLowerCase() !== customerEmail)) {
+      throw new ValidationError('All quotes in a proposal must be for the same customer email');
+    }
+
+    for (const assessment of assessments) {
+      const quote = await storage.getQuoteByAssessmentId(assessment.id);
+      if (!quote) {
+        throw new ValidationError('Generate a quote for every assessment before combining them');
+      }
+      if (assessment.proposalId) {
+        throw new ValidationError(`Quote ${quote.quoteNumber} is already part of a proposal`);
+      }
+      if (quoteService.isExpired(quote)) {
+        throw new ValidationError(`Quote ${quote.quoteNumber} has expired. Extend or re-issue it first.`);
+      }
+      if (quote.status !== 'pending') {
+        throw new ValidationError(`Quote ${quote.quoteNumber} has already been ${quote.status}`);
+      }
+      if ((await storage.getQuoteOptions(quote.id)).length > 0) {
+        throw new ValidationError(`Quote ${quote.quoteNumber} offers options for the customer to choose from and must be sent on its own`);
+      }
+    }
+
+    const [first] = assessments;
+    const proposal = await storage.createProposal(
+      {
+        proposalNumber: await quoteNumberService.generateProposalNumber(),
+        userId,
+        organizationId: first.organizationId,
+        customerCompanyName: first.customerCompanyName,
+        customerContactName: first.customerContactName,
+        customerEmail: first.customerEmail,
+        status: 'pending',
+      },
+      ids
+    );
+    console.log(`📑 Proposal ${proposal.proposalNumber} created with ${ids.length} quotes for ${proposal.customerCompanyName}`);
+    return proposal;
+  }
+
+  /**
+   * Get a proposal if it belongs to the user
+   */
+  async getProposalForUser(id: number, userId: string): Promise<Proposal | undefined> {
+    const proposal = await storage.getProposal(id);
+    return proposal && proposal.userId === userId ? proposal : undefined;
+  }
+
+  /**
+   * The quotes in a proposal, in the order they were created, and their combined totals
+   */
+  async getProposalDetails(proposal: Proposal): Promise<ProposalDetails> {
+    const assessments = await storage.getAssessmentsByProposalId(proposal.id);
+    const quotes: ProposalQuote[] = [];
+    for (const assessment of assessments) {
+      // Quotes deleted after the proposal was created are left out
+      const quote = await storage.getQuoteByAssessmentId(assessment.id);
+      if (quote) {
+        quotes.push({
+          ...quote,
+          assessment,
+          lineItems: await quoteService.getLineItems(quote),
+          recurringItems: await quoteService.getRecurringItems(quote.id),
+        });
+      }
+    }
+
+    return { ...proposal, ...calculateCombinedTotals(quotes), quotes };
+  }
+
+  async getProposalsForUser(userId: string): Promise<ProposalDetails[]> {
+    const proposals = await storage.getProposalsByUserId(userId);
+    return await Promise.all(proposals.map((proposal) => this.getProposalDetails(proposal)));
+  }
+
+  /**
+   * A proposal can no longer be approved once any of its quotes has expired
+   */
+  isExpired(details: ProposalDetails): boolean {
+    return details.quotes.some((quote) => quoteService.isExpired(quote));
+  }
+
+  /**
+   * Generate the combined PDF and store its path on the proposal
+   */
+  async generatePdf(details: ProposalDetails, organizationName: string): Promise<string> {
+    const sections = await this.buildPdfSections(details, organizationName);
+    const pdfPath = await generateProposalPDF({ proposal: details, sections, organizationName });
+    await storage.updateProposal(details.id, { pdfUrl: path.relative(process.cwd(), pdfPath) });
+    return `/api/files/pdf/${path.basename(pdfPath)}`;
+  }
+
+  /**
+   * Approve every pending quote in the proposal with the customer's signature, sign the proposal PDF and
+   * produce the signed proposal. The hash covers the stored proposal PDF the customer was shown.
+   */
+  async signProposal(details: ProposalDetails, signature: ValidSignature, audit: SignatureAudit, organizationName: string): Promise<ProposalSignature> {
+    // The stored proposal PDF is the one the customer can download; one is generated only if it is missing
+    if (!details.pdfUrl || !fs.existsSync(path.resolve(process.cwd(), details.pdfUrl))) {
+      await this.generatePdf(details, organizationName);
+    }
+    const proposal = await storage.getProposal(details.id);
+    if (!proposal?.pdfUrl) {
+      throw new Error('Proposal PDF not found');
+    }
+    const proposalPdfHash = createHash('sha256')
+      .update(fs.readFileSync(path.resolve(process.cwd(), proposal.pdfUrl)))
+      .digest('hex');
+
+    // A quote answered by a concurrent approval stops this one
+    for (const quote of details.quotes.filter((q) => q.status === 'pending')) {
+      await quoteSignatureService.approveQuote(quote, signature, { audit, organizationName });
+    }
+
+    const recorded = await storage.createProposalSignature({
+      proposalId: proposal.id,
+      ...signature,
+      termsAcceptedAt: new Date(),
+      ipAddress: audit.ipAddress,
+      userAgent: audit.userAgent,
+      proposalPdfHash,
+    });
+    console.log(`✍️ Proposal ${proposal.proposalNumber} signed by ${recorded.signerName} (PDF SHA-256 ${proposalPdfHash})`);
+
+    // As with quotes, a failed signed copy is logged rather than undoing the approval
+    try {
+      const sections = await this.buildPdfSections(details, organizationName);
+      const pdfPath = await generateProposalPDF({ proposal, sections, organizationName, signature: recorded });
+      return await storage.updateProposalSignature(recorded.id, { signedPdfUrl: `/api/files/pdf/${path.basename(pdfPath)}` });
+    } catch (pdfError) {
+      console.error(`❌ Failed to generate signed PDF for proposal ${proposal.proposalNumber}:`, pdfError);
+      return recorded;
+    }
+  }
+
+  /**
+   * Get the signature of a proposal, if it has been signed
+   */
+  async getSignature(proposalId: number): Promise<ProposalSignature | undefined> {
+    return await storage.getProposalSignature(proposalId);
+  }
+
+  private async buildPdfSections(details: ProposalDetails, organizationName: string): Promise<QuoteData[]> {
+    const sections: QuoteData[] = [];
+    for (const quote of details.quotes) {
+      const revision = await storage.getLatestQuoteRevision(quote.id);
+      sections.push({
+        assessment: quote.assessment,
+        quote,
+        lineItems: quote.lineItems,
+        recurringItems: quote.recurringItems,
+        organizationName,
+        revisionLetter: revision?.revisionLetter,
+      });
+    }
+    return sections;
+  }
+
+  /**
+   * Record the customer's decision. Every pending quote in the proposal is approved or rejected with it.
+   */
+  async respondToProposal(details: ProposalDetails, action: 'approve' | 'reject'): Promise<ProposalDetails> {
+    const status = action === 'approve' ? 'approved' : 'rejected';
+
+    for (const quote of details.quotes.filter((q) => q.status === 'pending')) {
+      await storage.updateQuote(quote.id, { status });
+
+      // Commission is recorded per quote, as for quotes approved on their own
+      if (action === 'approve') {
+        try {
+          await quoteService.recordCommission(quote.id);
+        } catch (commissionError) {
+          console.error(`❌ Failed to record commission for quote ${quote.quoteNumber}:`, commissionError);
+        }
+      }
+    }
+
+    const updated = await storage.updateProposal(details.id, { status });
+    console.log(`📑 Proposal ${updated.proposalNumber} ${status} with ${details.quotes.length} quotes`);
+    return await this.getProposalDetails(updated);
+  }
+}
+
+export const proposalService = new ProposalService();
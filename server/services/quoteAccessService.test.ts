@@ -0,0 +1,78 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { QuoteAccessToken } from '@shared/schema';
+import { storage } from '../storage';
+import { ACCESS_TOKEN_VALIDITY_DAYS, quoteAccessService } from './quoteAccessService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function accessToken(fields: Partial<QuoteAccessToken>): QuoteAccessToken {
+  return {
+    id: 1,
+    quoteId: 12,
+    token: 'abc',
+    expiresAt: new Date(Date.now() + DAY),
+    revokedAt: null,
+    createdBy: 'user-1',
+    createdAt: new Date(),
+    ...fields,
+  } as QuoteAccessToken;
+}
+
+describe('quoteAccessService.resolveToken', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('resolves an unexpired token to its quote', async () => {
+    mock.method(storage, 'getQuoteAccessToken', async () => accessToken({}));
+    assert.equal(await quoteAccessService.resolveToken('abc'), 12);
+  });
+
+  it('resolves nothing for an expired token', async () => {
+    mock.method(storage, 'getQuoteAccessToken', async () => accessToken({ expiresAt: new Date(Date.now() - 1000) }));
+    assert.equal(await quoteAccessService.resolveToken('abc'), undefined);
+  });
+
+  it('resolves nothing for a revoked token', async () => {
+    mock.method(storage, 'getQuoteAccessToken', async () => accessToken({ revokedAt: new Date() }));
+    assert.equal(await quoteAccessService.resolveToken('abc'), undefined);
+  });
+
+  it('resolves nothing for an unknown token', async () => {
+    mock.method(storage, 'getQuoteAccessToken', async () => undefined);
+    assert.equal(await quoteAccessService.resolveToken('abc'), undefined);
+  });
+});
+
+describe('quoteAccessService.getShareToken', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('reuses the active token', async () => {
+    const active = accessToken({});
+    mock.method(storage, 'getActiveQuoteAccessToken', async () => active);
+    const create = mock.method(storage, 'createQuoteAccessToken', async () => accessToken({}));
+
+    assert.equal(await quoteAccessService.getShareToken(12, 'user-1'), active);
+    assert.equal(create.mock.callCount(), 0);
+  });
+
+  it(`issues a token valid for ${ACCESS_TOKEN_VALIDITY_DAYS} days when there is none`, async () => {
+    mock.method(storage, 'getActiveQuoteAccessToken', async () => undefined);
+    const create = mock.method(storage, 'createQuoteAccessToken', async (fields: Partial<QuoteAccessToken>) => accessToken(fields));
+
+    const issued = await quoteAccessService.getShareToken(12, 'user-1');
+    const validDays = (issued.expiresAt.getTime() - Date.now()) / DAY;
+    assert.ok(validDays > ACCESS_TOKEN_VALIDITY_DAYS - 1 && validDays <= ACCESS_TOKEN_VALIDITY_DAYS + 1);
+    assert.equal(create.mock.calls[0].arguments[0].quoteId, 12);
+  });
+
+  it('revokes earlier tokens when reissuing', async () => {
+    const revoke = mock.method(storage, 'revokeQuoteAccessTokens', async () => {});
+    const getActive = mock.method(storage, 'getActiveQuoteAccessToken', async () => accessToken({}));
+    mock.method(storage, 'createQuoteAccessToken', async (fields: Partial<QuoteAccessToken>) => accessToken(fields));
+
+    const issued = await quoteAccessService.getShareToken(12, 'user-1', true);
+    assert.equal(revoke.mock.callCount(), 1);
+    assert.equal(getActive.mock.callCount(), 0);
+    assert.notEqual(issued.token, 'abc');
+  });
+});
@@ -0,0 +1,108 @@
+import { randomBytes } from 'crypto';
+import type { ProposalAccessToken, QuoteAccessToken } from '@shared/schema';
+import { storage } from '../storage';
+
+// How long a customer portal link works before the partner has to share a new one
+export const ACCESS_TOKEN_VALIDITY_DAYS = 30;
+
+export class QuoteAccessService {
+  /**
+   * Get the quote's active customer access token, issuing one if it has none.
+   * Reissuing revokes every earlier token so old links stop working.
+   */
+  async getShareToken(quoteId: number, userId: string, reissue = false): Promise<QuoteAccessToken> {
+    const now = new Date();
+
+    if (reissue) {
+      await storage.revokeQuoteAccessTokens(quoteId);
+    } else {
+      const active = await storage.getActiveQuoteAccessToken(quoteId, now);
+      if (active) {
+        return active;
+      }
+    }
+
+    const accessToken = await storage.createQuoteAccessToken({
+      quoteId,
+      token: this.generateToken(),
+      expiresAt: this.calculateExpiry(now),
+      createdBy: userId,
+    });
+    console.log(`🔑 Issued customer access token for quote ${quoteId}, valid until ${accessToken.expiresAt.toISOString()}`);
+    return accessToken;
+  }
+
+  /**
+   * Revoke all of the quote's customer access tokens
+   */
+  async revokeTokens(quoteId: number): Promise<void> {
+    await storage.revokeQuoteAccessTokens(quoteId);
+    console.log(`🔒 Revoked customer access tokens for quote ${quoteId}`);
+  }
+
+  /**
+   * Resolve a customer portal token to its quote id. Unknown, revoked and expired tokens resolve to nothing.
+   */
+  async resolveToken(token: string): Promise<number | undefined> {
+    const accessToken = await storage.getQuoteAccessToken(token);
+    return accessToken && this.isUsable(accessToken) ? accessToken.quoteId : undefined;
+  }
+
+  /**
+   * Get the proposal's active customer access token, issuing one if it has none.
+   * Reissuing revokes every earlier token so old links stop working.
+   */
+  async getProposalShareToken(proposalId: number, userId: string, reissue = false): Promise<ProposalAccessToken> {
+    const now = new Date();
+
+    if (reissue) {
+      await storage.revokeProposalAccessTokens(proposalId);
+    } else {
+      const active = await storage.getActiveProposalAccessToken(proposalId, now);
+      if (active) {
+        return active;
+      }
+    }
+
+    const accessToken = await storage.createProposalAccessToken({
+      proposalId,
+      token: this.generateToken(),
+      expiresAt: this.calculateExpiry(now),
+      createdBy: userId,
+    });
+    console.log(`🔑 Issued customer access token for proposal ${proposalId}, valid until ${accessToken.expiresAt.toISOString()}`);
+    return accessToken;
+  }
+
+  /**
+   * Revoke all of the proposal's customer access tokens
+   */
+  async revokeProposalTokens(proposalId: number): Promise<void> {
+    await storage.revokeProposalAccessTokens(proposalId);
+    console.log(`🔒 Revoked customer access tokens for proposal ${proposalId}`);
+  }
+
+  /**
+   * Resolve a proposal link token to its proposal id. Unknown, revoked and expired tokens resolve to nothing.
+   */
+  async resolveProposalToken(token: string): Promise<number | undefined> {
+    const accessToken = await storage.getProposalAccessToken(token);
+    return accessToken && this.isUsable(accessToken) ? accessToken.proposalId : undefined;
+  }
+
+  private generateToken(): string {
+    return randomBytes(24).toString('base64url');
+  }
+
+  private calculateExpiry(from: Date): Date {
+    const expiresAt = new Date(from);
+    expiresAt.setDate(expiresAt.getDate() + ACCESS_TOKEN_VALIDITY_DAYS);
+    return expiresAt;
+  }
+
+  private isUsable(accessToken: Pick<QuoteAccessToken, 'revokedAt' | 'expiresAt'>): boolean {
+    return !accessToken.revokedAt && accessToken.expiresAt > new Date();
+  }
+}
+
+export const quoteAccessService = new QuoteAccessService();
@@ -0,0 +1,213 @@
+import type { ApprovalRule, Assessment, InsertApprovalRule, Quote } from '@shared/schema';
+import { storage } from '../storage';
+import { quoteCommentService } from './quoteCommentService';
+import { ValidationError } from '../errors';
+
+export interface ApprovalRuleInput {
+  ruleType?: string;
+  threshold?: string | number;
+  isActive?: boolean;
+}
+
+type ApprovalRuleType = ApprovalRule['ruleType'];
+
+// Priced charges of a quote or one of its options, enough to measure its discount
+interface PricedCharges {
+  label: string | null; // option name, null for the quote itself
+  lineItems: { category: string; total: number }[];
+  totalCost: number;
+}
+
+const RULE_TYPES: ApprovalRuleType[] = ['discount_percent', 'discount_amount', 'total_amount'];
+
+const formatAmount = (value: number) => `$${value.toFixed(2)}`;
+
+export class QuoteApprovalService {
+  /**
+   * Get the approval rules in the order they were added
+   */
+  async getRules(): Promise<ApprovalRule[]> {
+    return await storage.getApprovalRules();
+  }
+
+  /**
+   * Validate and replace the full set of approval rules. They apply the next time a quote is priced.
+   */
+  async replaceRules(input: ApprovalRuleInput[]): Promise<ApprovalRule[]> {
+    if (!Array.isArray(input)) {
+      throw new ValidationError('Approval rules must be a list');
+    }
+
+    const rules: InsertApprovalRule[] = input.map((rule) => {
+      if (!RULE_TYPES.includes(rule.ruleType as ApprovalRuleType)) {
+        throw new ValidationError('Rule type must be discount_percent, discount_amount or total_amount');
+      }
+      const ruleType = rule.ruleType as ApprovalRuleType;
+
+      const threshold = parseFloat(String(rule.threshold));
+      if (!Number.isFinite(threshold) || threshold <= 0) {
+        throw new ValidationError('Each rule needs a threshold greater than zero');
+      }
+      if (ruleType === 'discount_percent' && threshold >= 100) {
+        throw new ValidationError('A discount percentage threshold must be below 100%');
+      }
+
+      return { ruleType, threshold: threshold.toFixed(2), isActive: rule.isActive ?? true };
+    });
+
+    const saved = await storage.replaceApprovalRules(rules);
+    console.log(`🛂 Quote approval rules updated (${saved.length} rules)`);
+    return saved;
+  }
+
+  /**
+   * Check a quote against the approval rules after its pricing changed. A match sends the quote to
+   * pending_approval, replacing any earlier decision; otherwise it is an ordinary pending quote.
+   * Options are checked too, since the customer can choose any of them.
+   */
+  async evaluateQuote(quote: Quote): Promise<Quote> {
+    if (quote.status !== 'pending' && quote.status !== 'pending_approval') {
+      return quote;
+    }
+
+    const rules = (await storage.getApprovalRules()).filter((rule) => rule.isActive);
+    const reasons = rules.length > 0 ? await this.getReasons(quote, rules) : [];
+
+    if (reasons.length === 0) {
+      if (quote.status === 'pending' && !quote.approvalStatus) {
+        return quote;
+      }
+      const clearedQuote = await storage.updateQuote(quote.id, {
+        status: 'pending',
+        approvalStatus: null,
+        approvalReasons: null,
+        approvalNote: null,
+        approvalDecidedBy: null,
+        approvalDecidedAt: null,
+      });
+      if (quote.status === 'pending_approval') {
+        this.sendHeldComments(clearedQuote);
+      }
+      return clearedQuote;
+    }
+
+    console.log(`🛂 Quote ${quote.quoteNumber} needs approval: ${reasons.join('; ')}`);
+    return await storage.updateQuote(quote.id, {
+      status: 'pending_approval',
+      approvalStatus: 'requested',
+      approvalReasons: reasons,
+      approvalNote: null,
+      approvalDecidedBy: null,
+      approvalDecidedAt: null,
+    });
+  }
+
+  /**
+   * Quotes waiting for an admin decision, oldest first
+   */
+  async getQueue(): Promise<(Quote & { assessment: Assessment; organizationName: string | null })[]> {
+    return await storage.getQuotesAwaitingApproval();
+  }
+
+  /**
+   * Sign off the pricing of a quote so it can be sent to the customer
+   */
+  async approveQuote(quoteId: number, userId: string, note?: string | null): Promise<Quote> {
+    const quote = await this.getQuoteAwaitingDecision(quoteId);
+    const updatedQuote = await storage.updateQuote(quote.id, {
+      status: 'pending',
+      approvalStatus: 'approved',
+      approvalNote: note?.trim() || null,
+      approvalDecidedBy: userId,
+      approvalDecidedAt: new Date(),
+    });
+
+    console.log(`✅ Quote ${quote.quoteNumber} pricing approved`);
+    this.sendHeldComments(updatedQuote);
+    return updatedQuote;
+  }
+
+  /**
+   * Turn down the pricing of a quote. It stays out of the customer portal until the partner
+   * changes the pricing, which checks it against the rules again.
+   */
+  async rejectQuote(quoteId: number, userId: string, note?: string | null): Promise<Quote> {
+    const quote = await this.getQuoteAwaitingDecision(quoteId);
+    if (!note?.trim()) {
+      throw new ValidationError('A reason is required to reject a quote');
+    }
+
+    const updatedQuote = await storage.updateQuote(quote.id, {
+      approvalStatus: 'rejected',
+      approvalNote: note.trim(),
+      approvalDecidedBy: userId,
+      approvalDecidedAt: new Date(),
+    });
+
+    console.log(`❌ Quote ${quote.quoteNumber} pricing rejected`);
+    await quoteCommentService.dropHeldNotifications(quote.id);
+    return updatedQuote;
+  }
+
+  // Comments the partner left while the pricing awaited approval can now reach the customer (async, don't block the decision)
+  private sendHeldComments(quote: Quote): void {
+    (async () => {
+      try {
+        await quoteCommentService.sendHeldNotifications(quote.id);
+      } catch (emailError) {
+        console.error(`❌ Failed to send held comment notifications for quote ${quote.quoteNumber}:`, emailError);
+      }
+    })();
+  }
+
+  private async getQuoteAwaitingDecision(quoteId: number): Promise<Quote> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new ValidationError('Quote not found');
+    }
+    if (quote.status !== 'pending_approval' || quote.approvalStatus !== 'requested') {
+      throw new ValidationError('This quote is not waiting for approval');
+    }
+    return quote;
+  }
+
+  private async getReasons(quote: Quote, rules: ApprovalRule[]): Promise<string[]> {
+    const storedItems = await storage.getQuoteLineItems(quote.id);
+    const options = await storage.getQuoteOptions(quote.id);
+    const priced: PricedCharges[] = [
+      {
+        label: null,
+        lineItems: storedItems.map((item) => ({ category: item.category, total: parseFloat(item.total) })),
+        totalCost: parseFloat(quote.totalCost),
+      },
+      ...options.map((option) => ({ label: option.name, lineItems: option.lineItems, totalCost: parseFloat(option.totalCost) })),
+    ];
+
+    const reasons: string[] = [];
+    for (const charges of priced) {
+      const prefix = charges.label ? `Option "${charges.label}": ` : '';
+      const listPrice = charges.lineItems
+        .filter((item) => item.category !== 'adjustment')
+        .reduce((sum, item) => sum + item.total, 0);
+      const discount = Math.max(
+        -charges.lineItems.filter((item) => item.category === 'adjustment').reduce((sum, item) => sum + item.total, 0),
+        0
+      );
+      const discountPercent = listPrice > 0 ? discount / listPrice * 100 : 0;
+
+      for (const rule of rules) {
+        const threshold = parseFloat(rule.threshold);
+        if (rule.ruleType === 'discount_percent' && discountPercent > threshold) {
+          reasons.push(`${prefix}Discount of ${discountPercent.toFixed(1)}% is over ${threshold}% of list price`);
+        } else if (rule.ruleType === 'discount_amount' && discount > threshold) {
+          reasons.push(`${prefix}Discount of ${formatAmount(discount)} is over ${formatAmount(threshold)}`);
+        } else if (rule.ruleType === 'total_amount' && charges.totalCost > threshold) {
+          reasons.push(`${prefix}Total of ${formatAmount(charges.totalCost)} is over ${formatAmount(threshold)}`);
+        }
+      }
+    }
+    return reasons;
+  }
+}
+
+export const quoteApprovalService = new QuoteApprovalService();
@@ -0,0 +1,122 @@
+import type { Assessment, Quote, QuoteChangeItem, QuoteChangeRequest } from '@shared/schema';
+import { storage } from '../storage';
+import { emailService } from './emailService';
+import { ValidationError } from '../errors';
+
+export interface ChangeItemInput {
+  category?: string;
+  details?: string;
+}
+
+export const CHANGE_CATEGORY_LABELS: Record<QuoteChangeItem['category'], string> = {
+  hardware: 'Hardware / Equipment',
+  installation: 'Installation',
+  scope: 'Scope of Work',
+  pricing: 'Pricing',
+  schedule: 'Schedule',
+  other: 'Other',
+};
+
+const MAX_CHANGE_ITEMS = 20;
+const MAX_DETAILS_LENGTH = 2000;
+
+// Wizard page where the partner edits the assessment behind a quote and re-quotes it
+const getAssessmentPath = (assessment: Assessment): string => {
+  switch (assessment.serviceType) {
+    case 'fleet-tracking':
+      return `/fleet-tracking/${assessment.id}`;
+    case 'fleet-camera':
+      return `/fleet-camera/${assessment.id}`;
+    default:
+      return `/assessment/${assessment.id}`;
+  }
+};
+
+export class QuoteChangeRequestService {
+  /**
+   * Check the change notes sent with a request for changes
+   */
+  validate(input: ChangeItemInput[] | undefined): QuoteChangeItem[] {
+    if (!Array.isArray(input) || input.length === 0) {
+      throw new ValidationError('Please describe at least one change');
+    }
+    if (input.length > MAX_CHANGE_ITEMS) {
+      throw new ValidationError(`Please list no more than ${MAX_CHANGE_ITEMS} changes`);
+    }
+
+    return input.map((item, index) => {
+      if (!item?.category || !Object.keys(CHANGE_CATEGORY_LABELS).includes(item.category)) {
+        throw new ValidationError(`Change ${index + 1}: choose what the change is about`);
+      }
+      const details = item.details?.trim();
+      if (!details) {
+        throw new ValidationError(`Change ${index + 1}: describe the change`);
+      }
+      if (details.length > MAX_DETAILS_LENGTH) {
+        throw new ValidationError(`Change ${index + 1}: descriptions are limited to ${MAX_DETAILS_LENGTH} characters`);
+      }
+      return { category: item.category as QuoteChangeItem['category'], details };
+    });
+  }
+
+  /**
+   * Move a pending quote to changes_requested with the customer's change notes and email the sales executive.
+   * `origin` is the app's base URL, used for the link to the re-quote flow.
+   */
+  async requestChanges(quote: Quote & { assessment: Assessment }, items: QuoteChangeItem[], requestedBy: string, origin: string): Promise<Quote> {
+    if (quote.status !== 'pending') {
+      throw new ValidationError(`This quote has already been ${quote.status}`);
+    }
+
+    const changeRequest: QuoteChangeRequest = {
+      items,
+      requestedBy,
+      requestedAt: new Date().toISOString(),
+    };
+    const updatedQuote = await storage.updateQuote(quote.id, {
+      status: 'changes_requested',
+      changeRequest,
+    });
+    console.log(`📝 Changes requested on quote ${quote.quoteNumber}: ${items.map((item) => item.category).join(', ')}`);
+
+    // Tell the sales executive (async, don't block the response)
+    (async () => {
+      try {
+        await this.notify(quote, changeRequest, `${origin}${getAssessmentPath(quote.assessment)}`);
+      } catch (emailError) {
+        console.error(`❌ Failed to send change request notification for quote ${quote.quoteNumber}:`, emailError);
+      }
+    })();
+
+    return updatedQuote;
+  }
+
+  /**
+   * Revision note summarizing the changes a new revision addresses
+   */
+  describe(changeRequest: QuoteChangeRequest): string {
+    return `Changes requested by ${changeRequest.requestedBy}: ${changeRequest.items.map((item) => `${CHANGE_CATEGORY_LABELS[item.category]} - ${item.details}`).join('; ')}`;
+  }
+
+  private async notify(quote: Quote & { assessment: Assessment }, changeRequest: QuoteChangeRequest, link: string): Promise<void> {
+    const { assessment } = quote;
+    if (!assessment.salesExecutiveEmail) {
+      console.log(`📧 No sales executive email for quote ${quote.quoteNumber}, skipping change request notification`);
+      return;
+    }
+
+    const result = await emailService.sendChangeRequestNotification({
+      recipientEmail: assessment.salesExecutiveEmail,
+      recipientName: assessment.salesExecutiveName || undefined,
+      customerName: changeRequest.requestedBy,
+      quoteNumber: quote.quoteNumber,
+      changes: changeRequest.items.map((item) => ({ label: CHANGE_CATEGORY_LABELS[item.category], details: item.details })),
+      link,
+    });
+    if (!result.success) {
+      console.error(`❌ Change request notification for quote ${quote.quoteNumber} not sent:`, result.error);
+    }
+  }
+}
+
+export const quoteChangeRequestService = new QuoteChangeRequestService();
@@ -0,0 +1,140 @@
+import type { Assessment, Quote, QuoteComment } from '@shared/schema';
+import { storage } from '../storage';
+import { emailService } from './emailService';
+import { quoteAccessService } from './quoteAccessService';
+import { ValidationError } from '../errors';
+
+export type CommentAuthorType = 'customer' | 'partner';
+
+export interface CommentAuthor {
+  type: CommentAuthorType;
+  name: string;
+  userId?: string; // partner comments only
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+
+export class QuoteCommentService {
+  /**
+   * Get the comment thread of a quote, oldest first
+   */
+  async getComments(quoteId: number): Promise<QuoteComment[]> {
+    return await storage.getQuoteComments(quoteId);
+  }
+
+  /**
+   * Add a comment to a quote's thread and email the other side.
+   * `origin` is the app's base URL, used for the link in the notification.
+   * The customer isn't emailed while the quote's pricing awaits approval; see sendHeldNotifications.
+   */
+  async addComment(quote: Quote & { assessment: Assessment }, author: CommentAuthor, message: string | undefined, origin: string): Promise<QuoteComment> {
+    const text = message?.trim();
+    if (!text) {
+      throw new ValidationError('Comment cannot be empty');
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      throw new ValidationError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    const notificationHeld = author.type === 'partner' && quote.status === 'pending_approval';
+    const comment = await storage.createQuoteComment({
+      quoteId: quote.id,
+      authorType: author.type,
+      authorName: author.name,
+      authorUserId: author.userId ?? null,
+      message: text,
+      notificationHeld,
+      notificationOrigin: notificationHeld ? origin : null,
+    });
+
+    if (notificationHeld) {
+      console.log(`📧 Comment on quote ${quote.quoteNumber} held while its pricing awaits approval`);
+      return comment;
+    }
+
+    // Notify the other side (async, don't block the comment)
+    (async () => {
+      try {
+        await this.notify(quote, comment, origin);
+      } catch (emailError) {
+        console.error(`❌ Failed to send comment notification for quote ${quote.quoteNumber}:`, emailError);
+      }
+    })();
+
+    return comment;
+  }
+
+  /**
+   * Email the customer the partner comments held while the quote's pricing awaited approval,
+   * linking to the app the comment was written in
+   */
+  async sendHeldNotifications(quoteId: number): Promise<void> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      return;
+    }
+
+    for (const comment of await storage.releaseHeldQuoteComments(quoteId)) {
+      if (!comment.notificationOrigin) {
+        console.log(`📧 No link for held comment on quote ${quote.quoteNumber}, skipping notification`);
+        continue;
+      }
+      try {
+        await this.notify(quote, comment, comment.notificationOrigin);
+      } catch (emailError) {
+        console.error(`❌ Failed to send comment notification for quote ${quote.quoteNumber}:`, emailError);
+      }
+    }
+  }
+
+  /**
+   * Stop holding the partner comments written about pricing an admin turned down, without emailing them.
+   * They stay in the thread.
+   */
+  async dropHeldNotifications(quoteId: number): Promise<void> {
+    const dropped = await storage.releaseHeldQuoteComments(quoteId);
+    if (dropped.length > 0) {
+      console.log(`📧 Dropped ${dropped.length} held comment notifications for quote ${quoteId}`);
+    }
+  }
+
+  // Customer comments go to the sales executive; partner comments go to the customer with their portal link
+  private async notify(quote: Quote & { assessment: Assessment }, comment: QuoteComment, origin: string): Promise<void> {
+    const { assessment } = quote;
+    let recipient: { email: string | null; name: string | null; link: string };
+
+    if (comment.authorType === 'customer') {
+      recipient = {
+        email: assessment.salesExecutiveEmail,
+        name: assessment.salesExecutiveName,
+        link: `${origin}/`,
+      };
+    } else {
+      const accessToken = await quoteAccessService.getShareToken(quote.id, comment.authorUserId || assessment.userId);
+      recipient = {
+        email: assessment.customerEmail,
+        name: assessment.customerContactName,
+        link: `${origin}/customer/${accessToken.token}`,
+      };
+    }
+
+    if (!recipient.email) {
+      console.log(`📧 No recipient email for comment on quote ${quote.quoteNumber}, skipping notification`);
+      return;
+    }
+
+    const result = await emailService.sendQuoteCommentNotification({
+      recipientEmail: recipient.email,
+      recipientName: recipient.name || undefined,
+      authorName: comment.authorName,
+      quoteNumber: quote.quoteNumber,
+      message: comment.message,
+      link: recipient.link,
+    });
+    if (!result.success) {
+      console.error(`❌ Comment notification for quote ${quote.quoteNumber} not sent:`, result.error);
+    }
+  }
+}
+
+export const quoteCommentService = new QuoteCommentService();
@@ -0,0 +1,41 @@
+import { storage } from '../storage';
+
+// How often open quotes are checked for expiry
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export class QuoteExpiryService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Move open quotes past their expiry date to the expired status
+   */
+  async expireOverdueQuotes(): Promise<number> {
+    const expired = await storage.expirePendingQuotes(new Date());
+    if (expired.length > 0) {
+      console.log(`⏰ Expired ${expired.length} quote(s): ${expired.map((quote) => quote.quoteNumber).join(', ')}`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Run the expiry check now and then on a fixed interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = async () => {
+      try {
+        await this.expireOverdueQuotes();
+      } catch (error) {
+        console.error('❌ Quote expiry check failed:', error);
+      }
+    };
+
+    run();
+    this.timer = setInterval(run, EXPIRY_CHECK_INTERVAL_MS);
+  }
+}
+
+export const quoteExpiryService = new QuoteExpiryService();
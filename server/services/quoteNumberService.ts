@@ -0,0 +1,136 @@
+import type { Organization } from '@shared/schema';
+import { storage } from '../storage';
+import { ValidationError } from '../errors';
+
+export const DEFAULT_QUOTE_NUMBER_PREFIX = 'Q';
+export const DEFAULT_QUOTE_NUMBER_FORMAT = '{PREFIX}-{YYYY}-{SEQ:4}';
+export const PROPOSAL_NUMBER_PREFIX = 'PR';
+
+export interface QuoteNumberingSettings {
+  quoteNumberPrefix?: string | null;
+  quoteNumberFormat?: string | null;
+}
+
+// Tokens allowed in a quote number format
+const TOKEN_PATTERN = /\{(PREFIX|YYYY|YY|MM|SEQ(?::(\d))?)\}/g;
+const PREFIX_PATTERN = /^[A-Z0-9]{1,10}$/;
+const LITERAL_PATTERN = /^[A-Z0-9\-_/.]*$/i;
+
+// Numbers already taken (e.g. by quotes numbered before sequences existed) are skipped
+const MAX_ATTEMPTS = 20;
+
+export class QuoteNumberService {
+  /**
+   * Generate the next quote number for an organization
+   */
+  async generate(organization?: Pick<Organization, 'quoteNumberPrefix' | 'quoteNumberFormat'>, date: Date = new Date()): Promise<string> {
+    const { scope, padding } = this.renderScope(organization || {}, date);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const sequence = await storage.nextQuoteNumberSequence(scope);
+      const quoteNumber = scope.replace('#', String(sequence).padStart(padding, '0'));
+      if (!(await storage.getQuoteByNumber(quoteNumber))) {
+        return quoteNumber;
+      }
+      console.warn(`⚠️ Quote number ${quoteNumber} already in use, trying the next one`);
+    }
+
+    throw new Error(`Unable to allocate a quote number for ${scope}`);
+  }
+
+  /**
+   * Generate the next proposal number (PR-2025-0001). Proposals are numbered the same way for every organization.
+   */
+  async generateProposalNumber(date: Date = new Date()): Promise<string> {
+    const { scope, padding } = this.renderScope({ quoteNumberPrefix: PROPOSAL_NUMBER_PREFIX }, date);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const sequence = await storage.nextQuoteNumberSequence(scope);
+      const proposalNumber = scope.replace('#', String(sequence).padStart(padding, '0'));
+      if (!(await storage.getProposalByNumber(proposalNumber))) {
+        return proposalNumber;
+      }
+      console.warn(`⚠️ Proposal number ${proposalNumber} already in use, trying the next one`);
+    }
+
+    throw new Error(`Unable to allocate a proposal number for ${scope}`);
+  }
+
+  /**
+   * Example of the first number a numbering setup would produce
+   */
+  preview(settings: QuoteNumberingSettings, date: Date = new Date()): string {
+    const { scope, padding } = this.renderScope(settings, date);
+    return scope.replace('#', '1'.padStart(padding, '0'));
+  }
+
+  /**
+   * Validate and normalize numbering settings. Empty values fall back to the defaults.
+   */
+  validate(settings: QuoteNumberingSettings): Required<QuoteNumberingSettings> {
+    const prefix = settings.quoteNumberPrefix?.trim().toUpperCase() || null;
+    const format = settings.quoteNumberFormat?.trim() || null;
+
+    if (prefix && !PREFIX_PATTERN.test(prefix)) {
+      throw new ValidationError('Prefix must be 1-10 letters or digits');
+    }
+
+    if (format) {
+      const sequenceTokens = format.match(/\{SEQ(?::\d)?\}/g) || [];
+      if (sequenceTokens.length !== 1) {
+        throw new ValidationError('Format must contain exactly one {SEQ} or {SEQ:n} token');
+      }
+      if (!LITERAL_PATTERN.test(format.replace(TOKEN_PATTERN, ''))) {
+        throw new ValidationError('Format may only contain {PREFIX}, {YYYY}, {YY}, {MM}, {SEQ:n}, letters, digits and - _ / .');
+      }
+      if (format.replace(TOKEN_PATTERN, '').includes('#')) {
+        throw new ValidationError('Format may not contain #');
+      }
+    }
+
+    return { quoteNumberPrefix: prefix, quoteNumberFormat: format };
+  }
+
+  /**
+   * Update an organization's quote numbering settings
+   */
+  async updateOrganizationNumbering(organizationId: number, settings: QuoteNumberingSettings): Promise<Organization> {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization) {
+      throw new ValidationError('Organization not found');
+    }
+
+    const numbering = this.validate(settings);
+    const updated = await storage.updateOrganizationQuoteNumbering(organizationId, numbering);
+    console.log(`🔢 Quote numbering for ${organization.name} set to ${this.preview(numbering)}`);
+    return updated;
+  }
+
+  // Render everything except the counter. The result ("ACME-2025-#") is also the sequence scope,
+  // so organizations that render the same pattern share a counter and can never collide.
+  private renderScope(settings: QuoteNumberingSettings, date: Date): { scope: string; padding: number } {
+    const prefix = settings.quoteNumberPrefix || DEFAULT_QUOTE_NUMBER_PREFIX;
+    const format = settings.quoteNumberFormat || DEFAULT_QUOTE_NUMBER_FORMAT;
+    let padding = 1;
+
+    const scope = format.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+      switch (name) {
+        case 'PREFIX':
+          return prefix;
+        case 'YYYY':
+          return String(date.getFullYear());
+        case 'YY':
+          return String(date.getFullYear()).slice(-2);
+        case 'MM':
+          return String(date.getMonth() + 1).padStart(2, '0');
+        default:
+          padding = width ? parseInt(width) : 1;
+          return '#';
+      }
+    });
+
+    return { scope, padding };
+  }
+}
+
+export const quoteNumberService = new QuoteNumberService();
@@ -0,0 +1,153 @@
+import { insertAssessmentSchema, QUOTE_OPTION_SCOPE_FIELDS, type Assessment, type Quote, type QuoteOption, type QuoteOptionScope } from '@shared/schema';
+import { ZodError } from 'zod';
+import { storage } from '../storage';
+import { quoteService } from './quoteService';
+import { quoteApprovalService } from './quoteApprovalService';
+import { ValidationError } from '../errors';
+
+export interface QuoteOptionInput {
+  name?: string;
+  description?: string | null;
+  scope?: Record<string, unknown>;
+}
+
+// Good, better, best and one more
+const MAX_OPTIONS = 4;
+
+type QuoteWithAssessment = Quote & { assessment: Assessment };
+
+export class QuoteOptionService {
+  /**
+   * Get the options offered on a quote, in display order
+   */
+  async getOptions(quoteId: number): Promise<QuoteOption[]> {
+    return await storage.getQuoteOptions(quoteId);
+  }
+
+  /**
+   * Add an option to a pending quote. Answers the option does not set are taken from the assessment.
+   */
+  async createOption(quote: QuoteWithAssessment, input: QuoteOptionInput): Promise<QuoteOption> {
+    this.assertEditable(quote);
+
+    const options = await storage.getQuoteOptions(quote.id);
+    if (options.length >= MAX_OPTIONS) {
+      throw new ValidationError(`A quote can offer up to ${MAX_OPTIONS} options`);
+    }
+
+    const name = this.validateName(input.name, options);
+    const scope = { ...this.getBaseScope(quote.assessment), ...this.parseScope(input.scope) };
+    const { pricing, rateCardVersion } = await quoteService.priceOption(quote, quote.assessment, scope);
+
+    const option = await storage.createQuoteOption({
+      quoteId: quote.id,
+      name,
+      description: input.description?.trim() || null,
+      scope,
+      ...quoteService.buildOptionPricingFields(pricing, rateCardVersion.id),
+      sortOrder: options.length,
+    });
+    await quoteApprovalService.evaluateQuote(await storage.updateQuote(quote.id, { pdfUrl: null }));
+
+    console.log(`🧩 Option "${option.name}" added to quote ${quote.quoteNumber}: $${option.totalCost}`);
+    return option;
+  }
+
+  /**
+   * Rename an option or change its answers and re-price it
+   */
+  async updateOption(quote: QuoteWithAssessment, option: QuoteOption, input: QuoteOptionInput): Promise<QuoteOption> {
+    this.assertEditable(quote);
+
+    const others = (await storage.getQuoteOptions(quote.id)).filter((other) => other.id !== option.id);
+    const name = this.validateName(input.name, others);
+    const scope = { ...option.scope, ...this.parseScope(input.scope) };
+    const { pricing, rateCardVersion } = await quoteService.priceOption(quote, quote.assessment, scope);
+
+    const updated = await storage.updateQuoteOption(option.id, {
+      name,
+      description: input.description?.trim() || null,
+      scope,
+      ...quoteService.buildOptionPricingFields(pricing, rateCardVersion.id),
+    });
+    await quoteApprovalService.evaluateQuote(await storage.updateQuote(quote.id, { pdfUrl: null }));
+    return updated;
+  }
+
+  async deleteOption(quote: QuoteWithAssessment, option: QuoteOption): Promise<void> {
+    this.assertEditable(quote);
+    await storage.deleteQuoteOption(option.id);
+    await quoteApprovalService.evaluateQuote(await storage.updateQuote(quote.id, { pdfUrl: null }));
+  }
+
+  /**
+   * Find the option the customer chose on approval. Its answers and stored pricing become the
+   * quote's when the approval is recorded.
+   */
+  async getChosenOption(quote: QuoteWithAssessment, optionId: unknown): Promise<QuoteOption> {
+    const id = typeof optionId === 'string' ? Number(optionId) : optionId;
+    if (typeof id !== 'number' || !Number.isInteger(id)) {
+      throw new ValidationError('Please choose one of the options offered on this quote');
+    }
+
+    const option = await storage.getQuoteOption(id);
+    if (!option || option.quoteId !== quote.id) {
+      throw new ValidationError('Please choose one of the options offered on this quote');
+    }
+    return option;
+  }
+
+  private assertEditable(quote: QuoteWithAssessment): void {
+    if (!quoteService.isOpen(quote)) {
+      throw new ValidationError('Options can only be changed on pending quotes');
+    }
+    if (quote.assessment.proposalId) {
+      throw new ValidationError('Quotes in a combined proposal cannot offer options. Ungroup the proposal first.');
+    }
+  }
+
+  private validateName(name: string | undefined, others: QuoteOption[]): string {
+    const trimmed = name?.trim();
+    if (!trimmed) {
+      throw new ValidationError('Option name is required');
+    }
+    if (trimmed.length > 60) {
+      throw new ValidationError('Option name must be 60 characters or fewer');
+    }
+    if (others.some((other) => other.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new ValidationError(`This quote already has an option named ${trimmed}`);
+    }
+    return trimmed;
+  }
+
+  private getBaseScope(assessment: Assessment): QuoteOptionScope {
+    const scope: Record<string, unknown> = {};
+    QUOTE_OPTION_SCOPE_FIELDS.forEach((field) => {
+      scope[field] = assessment[field];
+    });
+    return scope as QuoteOptionScope;
+  }
+
+  // Keep only the answers an option may change, validated like assessment data
+  private parseScope(input: Record<string, unknown> | undefined): QuoteOptionScope {
+    let parsed;
+    try {
+      parsed = insertAssessmentSchema.partial().parse(input || {});
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationError(error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+      }
+      throw error;
+    }
+
+    const scope: Record<string, unknown> = {};
+    QUOTE_OPTION_SCOPE_FIELDS.forEach((field) => {
+      if (parsed[field] !== undefined) {
+        scope[field] = parsed[field];
+      }
+    });
+    return scope as QuoteOptionScope;
+  }
+}
+
+export const quoteOptionService = new QuoteOptionService();
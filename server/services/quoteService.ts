@@ -0,0 +1,745 @@
+import type { Assessment, InsertAssessment, InsertQuote, InsertQuoteOption, Quote, QuoteAdjustment, QuoteLineItem, QuoteOption, QuoteOptionScope, QuoteRecurringItem, QuoteRevision, QuoteSignature, RateCardVersion } from '@shared/schema';
+import path from 'path';
+import { storage, type QuoteOptionApproval } from '../storage';
+import {
+  applyAdjustments,
+  applyPriceMultiplier,
+  applyRecurring,
+  applyTax,
+  applyTravel,
+  buildLineItems,
+  calculatePricing,
+  type PricingAdjustment,
+  type PricingAssessment,
+  type PricingBreakdown,
+  type PricingLineItem,
+} from './pricingEngine';
+import { rateCardService } from './rateCardService';
+import { partnerPricingService } from './partnerPricingService';
+import { taxService } from './taxService';
+import { travelService } from './travelService';
+import { vehicleClassService } from './vehicleClassService';
+import { productService } from './productService';
+import { quoteApprovalService } from './quoteApprovalService';
+import { quoteChangeRequestService } from './quoteChangeRequestService';
+import { generateQuotePDF, type QuoteData } from './pdfGenerator';
+import { ValidationError } from '../errors';
+
+// What pricing reads of an assessment: its answers, site address, tax status, catalog products and owner.
+// Saved assessments carry an id, which tax exemption checks use to find the certificate.
+export type PricingInput = PricingAssessment &
+  Pick<Assessment, 'siteAddress' | 'taxExempt' | 'catalogItems' | 'termMonths' | 'userId' | 'organizationId'> & { id?: number };
+
+export interface PricedAssessment {
+  pricing: PricingBreakdown;
+  rateCardVersion: RateCardVersion;
+  validityDays: number;
+}
+
+export interface LineItemChange {
+  description: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: PricingLineItem | null;
+  after: PricingLineItem | null;
+}
+
+export interface RequotePreview {
+  quoteId: number;
+  quoteNumber: string;
+  currentTotal: number;
+  proposedTotal: number;
+  totalChange: number;
+  hasChanges: boolean;
+  rateCardVersionNumber: number;
+  lineItems: LineItemChange[];
+}
+
+export interface RepriceOptions {
+  notes?: string;
+  userId?: string;
+}
+
+// Quote columns snapshotted into each revision
+type QuoteRevisionColumns = Pick<Quote, 'id' | 'totalCost' | 'taxAmount' | 'hourlyRate' | 'rateCardVersionId' | 'pdfUrl'>;
+
+// Quote columns needed to itemize quotes created before line items were stored
+type QuotePricingColumns = Pick<Quote,
+  'id' | 'surveyCost' | 'installationCost' | 'configurationCost' | 'trainingCost' | 'hardwareCost' |
+  'removalCost' | 'totalCost' | 'surveyHours' | 'installationHours' | 'configurationHours' |
+  'removalHours' | 'laborHoldHours' | 'laborHoldCost' | 'hourlyRate'>;
+
+export class QuoteService {
+  /**
+   * Price an assessment and its catalog products against the active rate
+   * card version and the owning organization's pricing overrides, add
+   * travel from the organization base, then apply any quote adjustments
+   * and the sales tax for the site. Monthly products are priced separately
+   * as recurring charges.
+   */
+  async priceAssessment(assessment: PricingInput, adjustments: PricingAdjustment[] = []): Promise<PricedAssessment> {
+    const { version, values } = await rateCardService.getRateCard(assessment.serviceType);
+
+    let priceMultiplier = 1;
+    const organization = await partnerPricingService.getOrganizationForAssessment(assessment);
+    if (organization) {
+      const override = await partnerPricingService.getPricingOverride(organization.id, assessment.serviceType || 'site-assessment');
+      if (override.hourlyRate !== null) {
+        values.hourlyRate = override.hourlyRate;
+      }
+      priceMultiplier = override.priceMultiplier;
+    }
+
+    const catalogItems = await productService.resolveCatalogItems(assessment.catalogItems, assessment.serviceType || 'site-assessment');
+    const pricing = applyTravel(
+      applyPriceMultiplier(calculatePricing(assessment, values, catalogItems, await vehicleClassService.getPricingRules()), priceMultiplier),
+      await travelService.getTravelCharge(assessment, organization)
+    );
+    const taxedPricing = applyTax(applyAdjustments(pricing, adjustments), await taxService.getTaxRule(assessment));
+    return {
+      pricing: applyRecurring(taxedPricing, catalogItems, assessment.termMonths),
+      rateCardVersion: version,
+      validityDays: values.quoteValidityDays,
+    };
+  }
+
+  /**
+   * Price unsaved assessment data without creating a quote. The user's own
+   * organization is used for pricing overrides.
+   */
+  async previewPricing(data: Partial<InsertAssessment>, userId: string): Promise<PricedAssessment> {
+    return await this.priceAssessment({
+      serviceType: null,
+      routerCount: null,
+      cableFootage: null,
+      connectionUsage: null,
+      deviceCount: null,
+      installationMethod: null,
+      vehicleClass: null,
+      vehicleDetails: null,
+      removalNeeded: null,
+      removalVehicleCount: null,
+      numberOfCameras: null,
+      cameraSolutionType: null,
+      siteAddress: '',
+      taxExempt: null,
+      catalogItems: null,
+      termMonths: null,
+      ...data,
+      userId,
+      organizationId: null,
+    });
+  }
+
+  /**
+   * Expiry date for a quote issued now with the given validity
+   */
+  calculateExpiry(validityDays: number, from: Date = new Date()): Date {
+    return new Date(from.getTime() + validityDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Whether a quote can no longer be approved
+   */
+  isExpired(quote: Pick<Quote, 'status' | 'expiresAt'>): boolean {
+    return quote.status === 'expired' || (!!quote.expiresAt && new Date(quote.expiresAt) <= new Date());
+  }
+
+  /**
+   * Whether a quote can still be re-priced or adjusted: pending, waiting for internal approval,
+   * or sent back by the customer with changes
+   */
+  isOpen(quote: Pick<Quote, 'status'>): boolean {
+    return quote.status === 'pending' || quote.status === 'pending_approval' || quote.status === 'changes_requested';
+  }
+
+  /**
+   * The open status an expired quote returns to when it is extended or re-issued. Expiry keeps the
+   * approval decision and change request, so a quote still waiting on either goes back to waiting.
+   */
+  private getUnexpiredStatus(quote: Pick<Quote, 'approvalStatus' | 'changeRequest'>): string {
+    if (quote.approvalStatus === 'requested' || quote.approvalStatus === 'rejected') {
+      return 'pending_approval';
+    }
+    return quote.changeRequest ? 'changes_requested' : 'pending';
+  }
+
+  /**
+   * A new revision answers the customer's change request, so the quote goes back to them as pending.
+   * Returns the quote fields to reset and the revision notes, which list the changes addressed.
+   */
+  private reopenChangedQuote(quote: Quote, notes: string): { fields: Partial<InsertQuote>; notes: string } {
+    if (quote.status !== 'changes_requested') {
+      return { fields: {}, notes };
+    }
+    return {
+      fields: { status: 'pending', changeRequest: null },
+      notes: quote.changeRequest ? `${notes}. ${quoteChangeRequestService.describe(quote.changeRequest)}` : notes,
+    };
+  }
+
+  /**
+   * Map a pricing breakdown onto the quote pricing columns
+   */
+  buildPricingFields(pricing: PricingBreakdown, rateCardVersionId: number): Omit<InsertQuote, 'assessmentId' | 'quoteNumber'> {
+    return {
+      surveyCost: pricing.surveyCost.toString(),
+      installationCost: pricing.installationCost.toString(),
+      configurationCost: pricing.configurationCost.toString(),
+      trainingCost: pricing.trainingCost.toString(),
+      hardwareCost: pricing.hardwareCost.toString(),
+      removalCost: pricing.removalCost ? pricing.removalCost.toString() : null,
+      surveyHours: pricing.surveyHours.toString(),
+      installationHours: pricing.installationHours.toString(),
+      configurationHours: pricing.configurationHours.toString(),
+      removalHours: pricing.removalHours ? pricing.removalHours.toString() : null,
+      laborHoldHours: pricing.laborHoldHours.toString(),
+      laborHoldCost: pricing.laborHoldCost.toString(),
+      hourlyRate: pricing.hourlyRate.toString(),
+      travelMiles: pricing.travelMiles ?? null,
+      travelCost: pricing.travelCost !== undefined ? pricing.travelCost.toString() : null,
+      monthlyTotal: pricing.monthlyTotal !== undefined ? pricing.monthlyTotal.toString() : null,
+      termMonths: pricing.termMonths ?? null,
+      pricingTrace: pricing.trace ?? null,
+      vehicleLabor: pricing.vehicleLabor ?? null,
+      ...this.buildTaxFields(pricing),
+      rateCardVersionId,
+    };
+  }
+
+  /**
+   * Map the subtotal and sales tax of a breakdown onto the quote tax columns
+   */
+  buildTaxFields(pricing: PricingBreakdown): Pick<InsertQuote, 'totalCost' | 'subtotal' | 'taxRegion' | 'taxRate' | 'taxAmount'> {
+    return {
+      totalCost: pricing.totalCost.toString(),
+      subtotal: pricing.subtotal !== undefined ? pricing.subtotal.toString() : null,
+      taxRegion: pricing.taxRegion ?? null,
+      taxRate: pricing.taxRate !== undefined ? pricing.taxRate.toString() : null,
+      taxAmount: pricing.taxAmount !== undefined ? pricing.taxAmount.toString() : null,
+    };
+  }
+
+  /**
+   * Re-price a pending quote against the current rate card version
+   */
+  async repriceQuote(quoteId: number, options: RepriceOptions = {}): Promise<Quote> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+    if (!this.isOpen(quote)) {
+      throw new ValidationError('Only pending quotes can be re-priced');
+    }
+
+    await this.ensureOriginalRevision(quote);
+
+    const { pricing, rateCardVersion, validityDays } = await this.priceAssessment(quote.assessment, await this.getPricingAdjustments(quoteId));
+    const reopened = this.reopenChangedQuote(quote, options.notes || 'Re-priced');
+
+    // Clear the stored PDF so it is regenerated with the new pricing; the new revision gets a fresh validity period
+    const updatedQuote = await storage.updateQuote(quoteId, {
+      ...this.buildPricingFields(pricing, rateCardVersion.id),
+      ...reopened.fields,
+      pdfUrl: null,
+      expiresAt: this.calculateExpiry(validityDays),
+    });
+    await this.saveLineItems(quoteId, pricing.lineItems);
+    await this.saveRecurringItems(quoteId, pricing.recurringItems || []);
+    const revision = await this.recordRevision(updatedQuote, pricing.lineItems, reopened.notes, options.userId);
+
+    await storage.updateAssessment(quote.assessmentId, {
+      totalCost: pricing.totalCost.toString(),
+    });
+    await this.repriceOptions(updatedQuote, quote.assessment);
+
+    console.log(`💲 Quote ${quote.quoteNumber} re-priced as rev ${revision.revisionLetter} with rate card version ${rateCardVersion.versionNumber}: $${pricing.totalCost}`);
+    return await quoteApprovalService.evaluateQuote(updatedQuote);
+  }
+
+  /**
+   * Re-apply the discounts and adjustments of a pending quote to its priced line items,
+   * record the result as a new revision and regenerate the PDF
+   */
+  async applyQuoteAdjustments(quoteId: number, organizationName: string, options: RepriceOptions = {}): Promise<{ quote: Quote; lineItems: PricingLineItem[]; pdfUrl: string }> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+    if (!this.isOpen(quote)) {
+      throw new ValidationError('Only pending quotes can be adjusted');
+    }
+
+    await this.ensureOriginalRevision(quote);
+
+    // Re-apply adjustments and tax to the priced line items as they stand
+    const pricedItems = (await this.getLineItems(quote)).filter((item) => item.category !== 'adjustment');
+    const subtotal = Math.round(pricedItems.reduce((sum, item) => sum + item.total, 0) * 100) / 100;
+    const pricing = applyTax(
+      applyAdjustments(
+        { ...deriveBreakdown(quote), totalCost: subtotal, lineItems: pricedItems, trace: quote.pricingTrace ?? undefined },
+        await this.getPricingAdjustments(quoteId)
+      ),
+      await taxService.getTaxRule(quote.assessment)
+    );
+
+    const reopened = this.reopenChangedQuote(quote, options.notes || 'Adjusted');
+    const adjustedQuote = await storage.updateQuote(quoteId, {
+      ...this.buildTaxFields(pricing),
+      ...reopened.fields,
+      pricingTrace: pricing.trace ?? null,
+      pdfUrl: null,
+    });
+    await this.saveLineItems(quoteId, pricing.lineItems);
+    const revision = await this.recordRevision(adjustedQuote, pricing.lineItems, reopened.notes, options.userId);
+
+    await storage.updateAssessment(quote.assessmentId, {
+      totalCost: pricing.totalCost.toString(),
+    });
+    await this.repriceOptions(adjustedQuote, quote.assessment);
+    const updatedQuote = await quoteApprovalService.evaluateQuote(adjustedQuote);
+
+    console.log(`🏷️ Quote ${quote.quoteNumber} adjusted as rev ${revision.revisionLetter}: $${pricing.totalCost}`);
+
+    const pdfUrl = await this.generatePdf({ ...updatedQuote, assessment: quote.assessment }, organizationName);
+    return { quote: { ...updatedQuote, pdfUrl }, lineItems: pricing.lineItems, pdfUrl };
+  }
+
+  /**
+   * Price the assessment of a quote with the answers and products of one of its options,
+   * applying the quote's discounts and adjustments
+   */
+  async priceOption(quote: Pick<Quote, 'id'>, assessment: Assessment, scope: QuoteOptionScope): Promise<PricedAssessment> {
+    return await this.priceAssessment({ ...assessment, ...scope }, await this.getPricingAdjustments(quote.id));
+  }
+
+  /**
+   * Map an option's pricing onto the quote option pricing columns
+   */
+  buildOptionPricingFields(pricing: PricingBreakdown, rateCardVersionId: number): Pick<InsertQuoteOption, 'subtotal' | 'taxAmount' | 'totalCost' | 'monthlyTotal' | 'termMonths' | 'lineItems' | 'recurringItems' | 'pricingFields'> {
+    return {
+      subtotal: pricing.subtotal !== undefined ? pricing.subtotal.toString() : null,
+      taxAmount: pricing.taxAmount !== undefined ? pricing.taxAmount.toString() : null,
+      totalCost: pricing.totalCost.toString(),
+      monthlyTotal: pricing.monthlyTotal !== undefined ? pricing.monthlyTotal.toString() : null,
+      termMonths: pricing.termMonths ?? null,
+      lineItems: pricing.lineItems,
+      recurringItems: pricing.recurringItems || [],
+      pricingFields: this.buildPricingFields(pricing, rateCardVersionId),
+    };
+  }
+
+  /**
+   * Re-price every option of a quote so they stay in line with the quote's rate card and adjustments
+   */
+  async repriceOptions(quote: Pick<Quote, 'id'>, assessment: Assessment): Promise<void> {
+    const options = await storage.getQuoteOptions(quote.id);
+    for (const option of options) {
+      const { pricing, rateCardVersion } = await this.priceOption(quote, assessment, option.scope);
+      await storage.updateQuoteOption(option.id, this.buildOptionPricingFields(pricing, rateCardVersion.id));
+    }
+  }
+
+  /**
+   * The writes that give a quote the stored pricing of the option the customer chose, as a new revision.
+   * The option is not re-priced, so the quote keeps the price the customer saw and signed for. The
+   * caller writes them together with the approval.
+   */
+  async buildOptionApproval(quote: Quote & { assessment: Assessment }, option: QuoteOption, notes: string): Promise<QuoteOptionApproval> {
+    await this.ensureOriginalRevision(quote);
+
+    const pricedQuote = {
+      ...option.pricingFields,
+      subtotal: option.subtotal,
+      taxAmount: option.taxAmount,
+      totalCost: option.totalCost,
+      monthlyTotal: option.monthlyTotal,
+      termMonths: option.termMonths,
+      pdfUrl: null,
+    };
+
+    return {
+      optionId: option.id,
+      quote: pricedQuote,
+      lineItems: this.toLineItemRows(option.lineItems),
+      recurringItems: this.toRecurringItemRows(option.recurringItems),
+      revision: this.buildRevision({
+        id: quote.id,
+        totalCost: option.totalCost,
+        taxAmount: option.taxAmount,
+        hourlyRate: option.pricingFields?.hourlyRate ?? quote.hourlyRate,
+        rateCardVersionId: option.pricingFields?.rateCardVersionId ?? quote.rateCardVersionId,
+        pdfUrl: null,
+      }, option.lineItems, notes),
+      assessment: { ...option.scope, totalCost: option.totalCost },
+    };
+  }
+
+  /**
+   * Get the discounts and adjustments applied to a quote, in the order they were added
+   */
+  async getAdjustments(quoteId: number): Promise<QuoteAdjustment[]> {
+    return await storage.getQuoteAdjustments(quoteId);
+  }
+
+  /**
+   * Snapshot the current pricing of a quote as its next revision
+   */
+  async recordRevision(quote: QuoteRevisionColumns, lineItems: PricingLineItem[], notes: string, userId?: string): Promise<QuoteRevision> {
+    return await storage.createQuoteRevision(this.buildRevision(quote, lineItems, notes, userId));
+  }
+
+  private buildRevision(quote: QuoteRevisionColumns, lineItems: PricingLineItem[], notes: string, userId?: string): QuoteOptionApproval['revision'] {
+    return {
+      quoteId: quote.id,
+      totalCost: quote.totalCost,
+      taxAmount: quote.taxAmount,
+      hourlyRate: quote.hourlyRate,
+      rateCardVersionId: quote.rateCardVersionId,
+      lineItems,
+      pdfUrl: quote.pdfUrl,
+      notes,
+      createdBy: userId,
+    };
+  }
+
+  /**
+   * Get the revisions of a quote, oldest first
+   */
+  async getRevisions(quoteId: number): Promise<QuoteRevision[]> {
+    return await storage.getQuoteRevisions(quoteId);
+  }
+
+  /**
+   * Compare a pending quote with the price of its assessment as it stands now
+   */
+  async previewRequote(quoteId: number): Promise<RequotePreview> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+
+    const currentItems = await this.getLineItems(quote);
+    const { pricing, rateCardVersion } = await this.priceAssessment(quote.assessment, await this.getPricingAdjustments(quoteId));
+    const lineItems = diffLineItems(currentItems, pricing.lineItems);
+
+    const currentTotal = parseFloat(quote.totalCost) || 0;
+    const totalChange = Math.round((pricing.totalCost - currentTotal) * 100) / 100;
+
+    return {
+      quoteId: quote.id,
+      quoteNumber: quote.quoteNumber,
+      currentTotal,
+      proposedTotal: pricing.totalCost,
+      totalChange,
+      hasChanges: totalChange !== 0 || lineItems.some((item) => item.change !== 'unchanged'),
+      rateCardVersionNumber: rateCardVersion.versionNumber,
+      lineItems,
+    };
+  }
+
+  /**
+   * Re-price a pending quote after its assessment changed and regenerate its PDF
+   */
+  async requoteQuote(quoteId: number, organizationName: string, options: RepriceOptions = {}): Promise<{ quote: Quote; lineItems: PricingLineItem[]; pdfUrl: string }> {
+    await this.repriceQuote(quoteId, options);
+
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+
+    const pdfUrl = await this.generatePdf(quote, organizationName);
+    const lineItems = await this.getLineItems(quote);
+    return { quote: { ...quote, pdfUrl }, lineItems, pdfUrl };
+  }
+
+  /**
+   * Extend the validity of an open or expired quote without changing its price
+   */
+  async extendQuote(quoteId: number, days?: number): Promise<Quote> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+    if (!this.isOpen(quote) && quote.status !== 'expired') {
+      throw new ValidationError('Only open or expired quotes can be extended');
+    }
+
+    const validityDays = days ?? (await rateCardService.getRateCard(quote.assessment.serviceType)).values.quoteValidityDays;
+    if (!Number.isFinite(validityDays) || validityDays <= 0) {
+      throw new ValidationError('Validity must be a positive number of days');
+    }
+
+    const updatedQuote = await storage.updateQuote(quoteId, {
+      status: quote.status === 'expired' ? this.getUnexpiredStatus(quote) : quote.status,
+      expiresAt: this.calculateExpiry(validityDays),
+    });
+
+    console.log(`📅 Quote ${quote.quoteNumber} extended by ${validityDays} days`);
+    return updatedQuote;
+  }
+
+  /**
+   * Re-issue an expired quote as a new revision priced with the current rate card
+   */
+  async reissueQuote(quoteId: number, organizationName: string, userId: string): Promise<{ quote: Quote; lineItems: PricingLineItem[]; pdfUrl: string }> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+    if (quote.status !== 'expired') {
+      throw new ValidationError('Only expired quotes can be re-issued');
+    }
+
+    // Fails on a missing exemption certificate before the quote is reopened
+    await taxService.isExempt(quote.assessment);
+
+    await storage.updateQuote(quoteId, { status: this.getUnexpiredStatus(quote) });
+    return await this.requoteQuote(quoteId, organizationName, { notes: 'Re-issued after expiry', userId });
+  }
+
+  /**
+   * Generate the PDF of the latest quote revision and store its path on the quote
+   */
+  async generatePdf(quote: Quote & { assessment: Assessment }, organizationName: string): Promise<string> {
+    const revision = await storage.getLatestQuoteRevision(quote.id);
+    const pdfPath = await generateQuotePDF(await this.buildPdfData(quote, organizationName, revision));
+
+    const pdfUrl = path.relative(process.cwd(), pdfPath);
+    await storage.updateQuote(quote.id, { pdfUrl });
+    if (revision) {
+      await storage.updateQuoteRevision(revision.id, { pdfUrl });
+    }
+
+    return `/api/files/pdf/${path.basename(pdfPath)}`;
+  }
+
+  /**
+   * Generate the signed copy of the latest quote revision: the quote PDF followed by the signature page and audit certificate
+   */
+  async generateSignedPdf(quote: Quote & { assessment: Assessment }, organizationName: string, signature: QuoteSignature): Promise<string> {
+    const revision = await storage.getLatestQuoteRevision(quote.id);
+    const pdfPath = await generateQuotePDF({ ...await this.buildPdfData(quote, organizationName, revision), signature });
+    return `/api/files/pdf/${path.basename(pdfPath)}`;
+  }
+
+  private async buildPdfData(quote: Quote & { assessment: Assessment }, organizationName: string, revision?: QuoteRevision): Promise<QuoteData> {
+    return {
+      assessment: quote.assessment,
+      quote,
+      lineItems: await this.getLineItems(quote),
+      recurringItems: await this.getRecurringItems(quote.id),
+      options: await storage.getQuoteOptions(quote.id),
+      organizationName,
+      revisionLetter: revision?.revisionLetter,
+    };
+  }
+
+  /**
+   * Store the line items of a quote, replacing any existing ones
+   */
+  async saveLineItems(quoteId: number, lineItems: PricingLineItem[]): Promise<QuoteLineItem[]> {
+    return await storage.replaceQuoteLineItems(quoteId, this.toLineItemRows(lineItems));
+  }
+
+  private toLineItemRows(lineItems: PricingLineItem[]): QuoteOptionApproval['lineItems'] {
+    return lineItems.map((item, index) => ({
+      description: item.description,
+      quantity: item.quantity.toString(),
+      unit: item.unit,
+      unitPrice: item.unitPrice.toString(),
+      total: item.total.toString(),
+      category: item.category,
+      taxable: item.taxable,
+      sku: item.sku ?? null,
+      productId: item.productId ?? null,
+      sortOrder: index,
+    }));
+  }
+
+  /**
+   * Store the monthly charges of a quote, replacing any existing ones
+   */
+  async saveRecurringItems(quoteId: number, recurringItems: PricingLineItem[]): Promise<QuoteRecurringItem[]> {
+    return await storage.replaceQuoteRecurringItems(quoteId, this.toRecurringItemRows(recurringItems));
+  }
+
+  private toRecurringItemRows(recurringItems: PricingLineItem[]): QuoteOptionApproval['recurringItems'] {
+    return recurringItems.map((item, index) => ({
+      description: item.description,
+      sku: item.sku ?? null,
+      productId: item.productId ?? null,
+      quantity: item.quantity.toString(),
+      unitPrice: item.unitPrice.toString(),
+      total: item.total.toString(),
+      sortOrder: index,
+    }));
+  }
+
+  /**
+   * Get the monthly charges of a quote
+   */
+  async getRecurringItems(quoteId: number): Promise<PricingLineItem[]> {
+    const stored = await storage.getQuoteRecurringItems(quoteId);
+    return stored.map((item) => ({
+      description: item.description,
+      quantity: parseFloat(item.quantity),
+      unit: 'each',
+      unitPrice: parseFloat(item.unitPrice),
+      total: parseFloat(item.total),
+      category: 'recurring',
+      taxable: false,
+      sku: item.sku,
+      productId: item.productId,
+    }));
+  }
+
+  /**
+   * Get the line items of a quote. Quotes created before line items were
+   * stored are itemized from their cost columns.
+   */
+  async getLineItems(quote: QuotePricingColumns): Promise<PricingLineItem[]> {
+    const stored = await storage.getQuoteLineItems(quote.id);
+    return stored.length > 0 ? stored.map(toPricingLineItem) : deriveLegacyLineItems(quote);
+  }
+
+  /**
+   * Get the line items for several quotes at once, keyed by quote id
+   */
+  async getLineItemsForQuotes(quotes: QuotePricingColumns[]): Promise<Map<number, PricingLineItem[]>> {
+    const stored = await storage.getQuoteLineItemsByQuoteIds(quotes.map((quote) => quote.id));
+    const lineItemsByQuote = new Map<number, PricingLineItem[]>();
+
+    for (const item of stored) {
+      const items = lineItemsByQuote.get(item.quoteId) || [];
+      items.push(toPricingLineItem(item));
+      lineItemsByQuote.set(item.quoteId, items);
+    }
+    for (const quote of quotes) {
+      if (!lineItemsByQuote.has(quote.id)) {
+        lineItemsByQuote.set(quote.id, deriveLegacyLineItems(quote));
+      }
+    }
+
+    return lineItemsByQuote;
+  }
+
+  // Quotes created before revisions were tracked keep their original pricing as rev A
+  private async ensureOriginalRevision(quote: QuoteRevisionColumns & QuotePricingColumns): Promise<void> {
+    if (!(await storage.getLatestQuoteRevision(quote.id))) {
+      await this.recordRevision(quote, await this.getLineItems(quote), 'Original quote');
+    }
+  }
+
+  private async getPricingAdjustments(quoteId: number): Promise<PricingAdjustment[]> {
+    const adjustments = await storage.getQuoteAdjustments(quoteId);
+    return adjustments.map(toPricingAdjustment);
+  }
+
+  /**
+   * Calculate and store the partner commission for an approved quote
+   */
+  async recordCommission(quoteId: number): Promise<Quote | undefined> {
+    const quote = await storage.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+
+    const organization = await partnerPricingService.getOrganizationForAssessment(quote.assessment);
+    if (!organization) {
+      console.warn(`⚠️ No organization found for quote ${quote.quoteNumber}, skipping commission`);
+      return undefined;
+    }
+
+    const commission = partnerPricingService.calculateCommission(quote, organization);
+    const updatedQuote = await storage.updateQuote(quoteId, {
+      commissionRate: commission.commissionRate.toFixed(2),
+      commissionBasis: commission.commissionBasis,
+      commissionAmount: commission.commissionAmount.toFixed(2),
+    });
+
+    console.log(`💰 Commission for quote ${quote.quoteNumber}: $${commission.commissionAmount} (${commission.commissionRate}% of ${commission.commissionBasis})`);
+    return updatedQuote;
+  }
+}
+
+function toPricingLineItem(item: QuoteLineItem): PricingLineItem {
+  return {
+    description: item.description,
+    quantity: parseFloat(item.quantity),
+    unit: item.unit,
+    unitPrice: parseFloat(item.unitPrice),
+    total: parseFloat(item.total),
+    category: item.category,
+    taxable: item.taxable,
+    sku: item.sku,
+    productId: item.productId,
+  };
+}
+
+function toPricingAdjustment(adjustment: QuoteAdjustment): PricingAdjustment {
+  return {
+    type: adjustment.type as PricingAdjustment['type'],
+    description: adjustment.description,
+    value: parseFloat(adjustment.value),
+  };
+}
+
+// Match line items by category and description to show what a re-quote changes
+function diffLineItems(before: PricingLineItem[], after: PricingLineItem[]): LineItemChange[] {
+  const key = (item: PricingLineItem) => `${item.category}:${item.description}`;
+  const remaining = new Map(before.map((item) => [key(item), item]));
+
+  const changes: LineItemChange[] = after.map((item) => {
+    const previous = remaining.get(key(item)) || null;
+    remaining.delete(key(item));
+
+    if (!previous) {
+      return { description: item.description, change: 'added', before: null, after: item };
+    }
+    const changed = previous.quantity !== item.quantity ||
+      previous.unitPrice !== item.unitPrice ||
+      previous.total !== item.total;
+    return { description: item.description, change: changed ? 'changed' : 'unchanged', before: previous, after: item };
+  });
+
+  for (const item of Array.from(remaining.values())) {
+    changes.push({ description: item.description, change: 'removed', before: item, after: null });
+  }
+
+  return changes;
+}
+
+// Read the cost and hour columns of a quote back into a breakdown
+function deriveBreakdown(quote: QuotePricingColumns): Omit<PricingBreakdown, 'lineItems'> {
+  const num = (value: string | null) => parseFloat(value || '0') || 0;
+  return {
+    surveyCost: num(quote.surveyCost),
+    installationCost: num(quote.installationCost),
+    configurationCost: num(quote.configurationCost),
+    trainingCost: num(quote.trainingCost),
+    hardwareCost: num(quote.hardwareCost),
+    removalCost: num(quote.removalCost) || undefined,
+    totalCost: num(quote.totalCost),
+    surveyHours: num(quote.surveyHours),
+    installationHours: num(quote.installationHours),
+    configurationHours: num(quote.configurationHours),
+    removalHours: num(quote.removalHours) || undefined,
+    laborHoldHours: num(quote.laborHoldHours),
+    laborHoldCost: num(quote.laborHoldCost),
+    hourlyRate: num(quote.hourlyRate),
+  };
+}
+
+// Itemize a legacy quote from its fixed cost columns
+function deriveLegacyLineItems(quote: QuotePricingColumns): PricingLineItem[] {
+  const breakdown = deriveBreakdown(quote);
+  const hardwareCost = breakdown.hardwareCost;
+  const hardwareItems: PricingLineItem[] = hardwareCost > 0
+    ? [{ description: 'Hardware & Materials', quantity: 1, unit: 'each', unitPrice: hardwareCost, total: hardwareCost, category: 'hardware', taxable: true }]
+    : [];
+
+  return buildLineItems(breakdown, hardwareItems);
+}
+
+export const quoteService = new QuoteService();
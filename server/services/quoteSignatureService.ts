@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Assessment, Quote, QuoteOption, QuoteSignature } from '@shared/schema';
+import { storage } from '../storage';
+import { quoteService } from './quoteService';
+import { ValidationError } from '../errors';
+
+export interface SignatureInput {
+  signerName?: string;
+  signerTitle?: string;
+  signatureType?: string;
+  signatureData?: string;
+  termsAccepted?: boolean;
+}
+
+// Request details recorded in the audit certificate
+export interface SignatureAudit {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export type ValidSignature = Required<Omit<SignatureInput, 'termsAccepted'>>;
+
+export interface QuoteApprovalDetails {
+  option?: QuoteOption;
+  audit: SignatureAudit;
+  organizationName: string;
+}
+
+type QuoteWithAssessment = Quote & { assessment: Assessment };
+
+const DRAWN_SIGNATURE_PREFIX = 'data:image/png;base64,';
+
+// Drawn signatures are small canvas PNGs; anything larger is not a signature
+const MAX_DRAWN_SIGNATURE_LENGTH = 500_000;
+
+export class QuoteSignatureService {
+  /**
+   * Check the signer details, signature and terms acceptance sent with an approval
+   */
+  validate(input: SignatureInput | undefined): ValidSignature {
+    const signerName = input?.signerName?.trim();
+    const signerTitle = input?.signerTitle?.trim();
+    const signatureData = input?.signatureData?.trim();
+
+    if (!signerName) {
+      throw new ValidationError('Please enter your full name');
+    }
+    if (!signerTitle) {
+      throw new ValidationError('Please enter your title');
+    }
+    if (input?.signatureType !== 'drawn' && input?.signatureType !== 'typed') {
+      throw new ValidationError('Please draw or type your signature');
+    }
+    if (!signatureData) {
+      throw new ValidationError('Please draw or type your signature');
+    }
+    if (input.signatureType === 'drawn' && (!signatureData.startsWith(DRAWN_SIGNATURE_PREFIX) || signatureData.length > MAX_DRAWN_SIGNATURE_LENGTH)) {
+      throw new ValidationError('The drawn signature could not be read. Please draw it again.');
+    }
+    if (input.termsAccepted !== true) {
+      throw new ValidationError('Please accept the terms and conditions to approve');
+    }
+
+    return { signerName, signerTitle, signatureType: input.signatureType, signatureData };
+  }
+
+  /**
+   * Approve a quote with the customer's signature against the quote PDF they were shown, and produce the signed copy.
+   * The chosen option's pricing, the approved status and the signature are recorded together, and only if the
+   * quote has not changed since its PDF was hashed.
+   */
+  async approveQuote(quote: QuoteWithAssessment, signature: ValidSignature, approval: QuoteApprovalDetails): Promise<{ quote: Quote; signature: QuoteSignature }> {
+    const { pdfQuote, quotePdfHash } = await this.freezePdf(quote, approval.organizationName);
+
+    const option = approval.option
+      ? await quoteService.buildOptionApproval(quote, approval.option, `Customer chose option "${approval.option.name}"`)
+      : undefined;
+
+    const result = await storage.approveQuote(quote.id, {
+      expectedUpdatedAt: pdfQuote.updatedAt,
+      option,
+      signature: {
+        quoteId: quote.id,
+        ...signature,
+        termsAcceptedAt: new Date(),
+        ipAddress: approval.audit.ipAddress,
+        userAgent: approval.audit.userAgent,
+        quotePdfHash,
+      },
+    });
+    if (result.status === 'conflict') {
+      throw new ValidationError('This quote has changed or has already been answered. Please reload it and try again.');
+    }
+    if (approval.option) {
+      console.log(`🧩 Customer chose option "${approval.option.name}" on quote ${quote.quoteNumber}`);
+    }
+    console.log(`✍️ Quote ${quote.quoteNumber} signed by ${result.signature.signerName} (PDF SHA-256 ${quotePdfHash})`);
+
+    // The signature stands on its own; a failed signed copy is logged rather than undoing the approval
+    try {
+      const approvedQuote = await storage.getQuote(quote.id);
+      if (!approvedQuote) {
+        throw new Error('Quote not found');
+      }
+      if (option) {
+        // The quote PDF now shows the chosen option only
+        await quoteService.generatePdf(approvedQuote, approval.organizationName);
+      }
+      const signedPdfUrl = await quoteService.generateSignedPdf(approvedQuote, approval.organizationName, result.signature);
+      return { quote: result.quote, signature: await storage.updateQuoteSignature(result.signature.id, { signedPdfUrl }) };
+    } catch (pdfError) {
+      console.error(`❌ Failed to generate signed PDF for quote ${quote.quoteNumber}:`, pdfError);
+      return result;
+    }
+  }
+
+  /**
+   * Hash the stored quote PDF the customer can download. A quote without one, e.g. just re-priced,
+   * gets its PDF generated first so the signature covers a document they can retrieve.
+   */
+  private async freezePdf(quote: QuoteWithAssessment, organizationName: string): Promise<{ pdfQuote: Quote; quotePdfHash: string }> {
+    let pdfQuote: Quote | undefined = quote;
+    if (!quote.pdfUrl || !fs.existsSync(path.resolve(process.cwd(), quote.pdfUrl))) {
+      await quoteService.generatePdf(quote, organizationName);
+      pdfQuote = await storage.getQuote(quote.id);
+    }
+    if (!pdfQuote?.pdfUrl) {
+      throw new Error('Quote PDF not found');
+    }
+
+    const quotePdfHash = createHash('sha256')
+      .update(fs.readFileSync(path.resolve(process.cwd(), pdfQuote.pdfUrl)))
+      .digest('hex');
+    return { pdfQuote, quotePdfHash };
+  }
+
+  /**
+   * Get the signature of a quote, if it has been signed
+   */
+  async getSignature(quoteId: number): Promise<QuoteSignature | undefined> {
+    return await storage.getQuoteSignature(quoteId);
+  }
+}
+
+export const quoteSignatureService = new QuoteSignatureService();
@@ -0,0 +1,157 @@
+import type { RateCardEntry, RateCardVersion } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  RATE_CARD_PARAMETERS,
+  getDefaultRateCard,
+  type RateCardServiceType,
+  type RateCardValues,
+} from './pricingEngine';
+import { ValidationError } from '../errors';
+
+export interface RateCardChange {
+  serviceType: RateCardServiceType;
+  parameterKey: string;
+  value: number | string;
+}
+
+export interface NewRateCardVersion {
+  changes: RateCardChange[];
+  effectiveFrom?: string | Date;
+  notes?: string;
+}
+
+export interface ActiveRateCard {
+  version: RateCardVersion;
+  values: RateCardValues;
+}
+
+export class RateCardService {
+  /**
+   * Create the initial rate card version from the default pricing parameters
+   */
+  async ensureDefaults(): Promise<void> {
+    const versions = await storage.getRateCardVersions();
+    if (versions.length > 0) {
+      return;
+    }
+
+    console.log('💲 Seeding initial rate card version with default values');
+    await storage.createRateCardVersion(
+      { effectiveFrom: new Date(0), notes: 'Initial rate card' },
+      this.buildEntries({})
+    );
+  }
+
+  /**
+   * Get all rate card versions, newest first
+   */
+  async getVersions(): Promise<RateCardVersion[]> {
+    await this.ensureDefaults();
+    return await storage.getRateCardVersions();
+  }
+
+  /**
+   * Get the version currently used to price new quotes
+   */
+  async getActiveVersion(): Promise<RateCardVersion> {
+    await this.ensureDefaults();
+    const version = await storage.getActiveRateCardVersion();
+    if (!version) {
+      throw new Error('No active rate card version found');
+    }
+    return version;
+  }
+
+  /**
+   * Get the entries of a single rate card version
+   */
+  async getEntries(versionId: number): Promise<RateCardEntry[]> {
+    return await storage.getRateCardEntries(versionId);
+  }
+
+  /**
+   * Get rate card values for a service type from a specific version
+   */
+  async getRateCardForVersion(versionId: number, serviceType: string | null | undefined): Promise<RateCardValues> {
+    const type = (serviceType || 'site-assessment') as RateCardServiceType;
+    const rateCard = getDefaultRateCard(type);
+
+    const entries = await storage.getRateCardEntries(versionId, type);
+    for (const entry of entries) {
+      const value = parseFloat(entry.value);
+      if (!isNaN(value)) {
+        rateCard[entry.parameterKey] = value;
+      }
+    }
+
+    return rateCard;
+  }
+
+  /**
+   * Get the active rate card version and its values for a service type
+   */
+  async getRateCard(serviceType: string | null | undefined): Promise<ActiveRateCard> {
+    const version = await this.getActiveVersion();
+    const values = await this.getRateCardForVersion(version.id, serviceType);
+    return { version, values };
+  }
+
+  /**
+   * Create a new immutable rate card version from the latest version plus the given changes
+   */
+  async createVersion(data: NewRateCardVersion, userId: string): Promise<RateCardVersion> {
+    const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : new Date();
+    if (isNaN(effectiveFrom.getTime())) {
+      throw new ValidationError('Invalid effective date');
+    }
+
+    const overrides: Record<string, string> = {};
+    for (const change of data.changes) {
+      const parameter = RATE_CARD_PARAMETERS[change.serviceType]?.find((param) => param.key === change.parameterKey);
+      if (!parameter) {
+        throw new ValidationError(`Unknown rate card parameter ${change.serviceType}/${change.parameterKey}`);
+      }
+      const value = typeof change.value === 'number' ? change.value : parseFloat(change.value);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new ValidationError(`Invalid value for ${parameter.label}`);
+      }
+      overrides[`${change.serviceType}:${change.parameterKey}`] = value.toFixed(2);
+    }
+
+    // New versions start from the most recently created version, not the active one,
+    // so that scheduled future versions are carried forward
+    await this.ensureDefaults();
+    const [latest] = await storage.getRateCardVersions();
+    const latestEntries = latest ? await storage.getRateCardEntries(latest.id) : [];
+    for (const entry of latestEntries) {
+      const key = `${entry.serviceType}:${entry.parameterKey}`;
+      if (!(key in overrides)) {
+        overrides[key] = entry.value;
+      }
+    }
+
+    const version = await storage.createRateCardVersion(
+      { effectiveFrom, notes: data.notes || null, createdBy: userId },
+      this.buildEntries(overrides)
+    );
+
+    console.log(`💲 Rate card version ${version.versionNumber} created by ${userId}, effective ${effectiveFrom.toISOString()}`);
+    return version;
+  }
+
+  // Build a full set of entries from the parameter definitions, applying stored values
+  private buildEntries(values: Record<string, string>) {
+    return (Object.keys(RATE_CARD_PARAMETERS) as RateCardServiceType[]).flatMap((serviceType) =>
+      RATE_CARD_PARAMETERS[serviceType].map((param) => ({
+        serviceType,
+        parameterKey: param.key,
+        label: param.label,
+        value: values[`${serviceType}:${param.key}`] ?? param.defaultValue.toFixed(2),
+        unit: param.unit,
+        description: param.description,
+      }))
+    );
+  }
+}
+
+export const rateCardService = new RateCardService();
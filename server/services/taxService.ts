@@ -0,0 +1,199 @@
+import type { Assessment, InsertTaxRate, TaxRate } from '@shared/schema';
+import { storage } from '../storage';
+import type { TaxRule } from './pricingEngine';
+import { ValidationError } from '../errors';
+
+// Statewide and provincial base rates used to seed the tax rate table. Local and county
+// taxes are not included; admins adjust the rates from the admin dashboard.
+const DEFAULT_TAX_RATES: InsertTaxRate[] = [
+  { region: 'AL', country: 'US', name: 'Alabama', rate: '4.000', laborTaxable: false },
+  { region: 'AK', country: 'US', name: 'Alaska', rate: '0.000', laborTaxable: false },
+  { region: 'AZ', country: 'US', name: 'Arizona', rate: '5.600', laborTaxable: false },
+  { region: 'AR', country: 'US', name: 'Arkansas', rate: '6.500', laborTaxable: false },
+  { region: 'CA', country: 'US', name: 'California', rate: '7.250', laborTaxable: false },
+  { region: 'CO', country: 'US', name: 'Colorado', rate: '2.900', laborTaxable: false },
+  { region: 'CT', country: 'US', name: 'Connecticut', rate: '6.350', laborTaxable: false },
+  { region: 'DE', country: 'US', name: 'Delaware', rate: '0.000', laborTaxable: false },
+  { region: 'DC', country: 'US', name: 'District of Columbia', rate: '6.000', laborTaxable: false },
+  { region: 'FL', country: 'US', name: 'Florida', rate: '6.000', laborTaxable: false },
+  { region: 'GA', country: 'US', name: 'Georgia', rate: '4.000', laborTaxable: false },
+  { region: 'HI', country: 'US', name: 'Hawaii', rate: '4.000', laborTaxable: true },
+  { region: 'ID', country: 'US', name: 'Idaho', rate: '6.000', laborTaxable: false },
+  { region: 'IL', country: 'US', name: 'Illinois', rate: '6.250', laborTaxable: false },
+  { region: 'IN', country: 'US', name: 'Indiana', rate: '7.000', laborTaxable: false },
+  { region: 'IA', country: 'US', name: 'Iowa', rate: '6.000', laborTaxable: false },
+  { region: 'KS', country: 'US', name: 'Kansas', rate: '6.500', laborTaxable: false },
+  { region: 'KY', country: 'US', name: 'Kentucky', rate: '6.000', laborTaxable: false },
+  { region: 'LA', country: 'US', name: 'Louisiana', rate: '5.000', laborTaxable: false },
+  { region: 'ME', country: 'US', name: 'Maine', rate: '5.500', laborTaxable: false },
+  { region: 'MD', country: 'US', name: 'Maryland', rate: '6.000', laborTaxable: false },
+  { region: 'MA', country: 'US', name: 'Massachusetts', rate: '6.250', laborTaxable: false },
+  { region: 'MI', country: 'US', name: 'Michigan', rate: '6.000', laborTaxable: false },
+  { region: 'MN', country: 'US', name: 'Minnesota', rate: '6.875', laborTaxable: false },
+  { region: 'MS', country: 'US', name: 'Mississippi', rate: '7.000', laborTaxable: false },
+  { region: 'MO', country: 'US', name: 'Missouri', rate: '4.225', laborTaxable: false },
+  { region: 'MT', country: 'US', name: 'Montana', rate: '0.000', laborTaxable: false },
+  { region: 'NE', country: 'US', name: 'Nebraska', rate: '5.500', laborTaxable: false },
+  { region: 'NV', country: 'US', name: 'Nevada', rate: '6.850', laborTaxable: false },
+  { region: 'NH', country: 'US', name: 'New Hampshire', rate: '0.000', laborTaxable: false },
+  { region: 'NJ', country: 'US', name: 'New Jersey', rate: '6.625', laborTaxable: false },
+  { region: 'NM', country: 'US', name: 'New Mexico', rate: '4.875', laborTaxable: true },
+  { region: 'NY', country: 'US', name: 'New York', rate: '4.000', laborTaxable: false },
+  { region: 'NC', country: 'US', name: 'North Carolina', rate: '4.750', laborTaxable: false },
+  { region: 'ND', country: 'US', name: 'North Dakota', rate: '5.000', laborTaxable: false },
+  { region: 'OH', country: 'US', name: 'Ohio', rate: '5.750', laborTaxable: false },
+  { region: 'OK', country: 'US', name: 'Oklahoma', rate: '4.500', laborTaxable: false },
+  { region: 'OR', country: 'US', name: 'Oregon', rate: '0.000', laborTaxable: false },
+  { region: 'PA', country: 'US', name: 'Pennsylvania', rate: '6.000', laborTaxable: false },
+  { region: 'RI', country: 'US', name: 'Rhode Island', rate: '7.000', laborTaxable: false },
+  { region: 'SC', country: 'US', name: 'South Carolina', rate: '6.000', laborTaxable: false },
+  { region: 'SD', country: 'US', name: 'South Dakota', rate: '4.200', laborTaxable: true },
+  { region: 'TN', country: 'US', name: 'Tennessee', rate: '7.000', laborTaxable: false },
+  { region: 'TX', country: 'US', name: 'Texas', rate: '6.250', laborTaxable: false },
+  { region: 'UT', country: 'US', name: 'Utah', rate: '4.850', laborTaxable: false },
+  { region: 'VT', country: 'US', name: 'Vermont', rate: '6.000', laborTaxable: false },
+  { region: 'VA', country: 'US', name: 'Virginia', rate: '5.300', laborTaxable: false },
+  { region: 'WA', country: 'US', name: 'Washington', rate: '6.500', laborTaxable: false },
+  { region: 'WV', country: 'US', name: 'West Virginia', rate: '6.000', laborTaxable: true },
+  { region: 'WI', country: 'US', name: 'Wisconsin', rate: '5.000', laborTaxable: false },
+  { region: 'WY', country: 'US', name: 'Wyoming', rate: '4.000', laborTaxable: false },
+  { region: 'AB', country: 'CA', name: 'Alberta', rate: '5.000', laborTaxable: true },
+  { region: 'BC', country: 'CA', name: 'British Columbia', rate: '12.000', laborTaxable: true },
+  { region: 'MB', country: 'CA', name: 'Manitoba', rate: '12.000', laborTaxable: true },
+  { region: 'NB', country: 'CA', name: 'New Brunswick', rate: '15.000', laborTaxable: true },
+  { region: 'NL', country: 'CA', name: 'Newfoundland and Labrador', rate: '15.000', laborTaxable: true },
+  { region: 'NS', country: 'CA', name: 'Nova Scotia', rate: '14.000', laborTaxable: true },
+  { region: 'NT', country: 'CA', name: 'Northwest Territories', rate: '5.000', laborTaxable: true },
+  { region: 'NU', country: 'CA', name: 'Nunavut', rate: '5.000', laborTaxable: true },
+  { region: 'ON', country: 'CA', name: 'Ontario', rate: '13.000', laborTaxable: true },
+  { region: 'PE', country: 'CA', name: 'Prince Edward Island', rate: '15.000', laborTaxable: true },
+  { region: 'QC', country: 'CA', name: 'Quebec', rate: '14.975', laborTaxable: true },
+  { region: 'SK', country: 'CA', name: 'Saskatchewan', rate: '11.000', laborTaxable: true },
+  { region: 'YT', country: 'CA', name: 'Yukon', rate: '5.000', laborTaxable: true },
+];
+
+// First letter of a Canadian postal code to province (X is shared by NT and NU)
+const POSTAL_CODE_PROVINCES: Record<string, string> = {
+  A: 'NL', B: 'NS', C: 'PE', E: 'NB', G: 'QC', H: 'QC', J: 'QC', K: 'ON', L: 'ON',
+  M: 'ON', N: 'ON', P: 'ON', R: 'MB', S: 'SK', T: 'AB', V: 'BC', X: 'NT', Y: 'YT',
+};
+
+const CANADIAN_POSTAL_CODE = /\b([ABCEGHJ-NPRSTVXY])\d[A-Z] ?\d[A-Z]\d\b/;
+
+export class TaxService {
+  /**
+   * Seed the tax rate table with the default rates for any missing region
+   */
+  async ensureDefaults(): Promise<void> {
+    const rates = await storage.getTaxRates();
+    if (rates.length >= DEFAULT_TAX_RATES.length) {
+      return;
+    }
+
+    console.log('🧾 Seeding default sales tax rates');
+    await storage.createTaxRates(DEFAULT_TAX_RATES);
+  }
+
+  /**
+   * Get all tax rates, US states first
+   */
+  async getRates(): Promise<TaxRate[]> {
+    await this.ensureDefaults();
+    return await storage.getTaxRates();
+  }
+
+  /**
+   * Update the rate for a single state or province
+   */
+  async updateRate(region: string, input: { rate?: string | number; laborTaxable?: boolean }): Promise<TaxRate> {
+    const rate = parseFloat(String(input.rate));
+    if (!Number.isFinite(rate) || rate < 0 || rate > 30) {
+      throw new ValidationError('Tax rate must be a percentage between 0 and 30');
+    }
+
+    const updated = await storage.updateTaxRate(region.toUpperCase(), {
+      rate: rate.toFixed(3),
+      laborTaxable: !!input.laborTaxable,
+    });
+    if (!updated) {
+      throw new ValidationError(`Unknown tax region ${region}`);
+    }
+
+    console.log(`🧾 Tax rate for ${updated.name} set to ${updated.rate}%`);
+    return updated;
+  }
+
+  /**
+   * Find the state or province of an address. Looks for a two-letter code, then a
+   * full region name, then a Canadian postal code.
+   */
+  resolveRegion(address: string | null | undefined, rates: TaxRate[]): TaxRate | undefined {
+    if (!address) {
+      return undefined;
+    }
+    const byRegion = new Map(rates.map((rate) => [rate.region, rate]));
+    const postalCode = address.toUpperCase().match(CANADIAN_POSTAL_CODE);
+
+    // "Austin, TX 78701" - the code closest to the end of the address wins. With a Canadian
+    // postal code only provinces count, so a trailing "CA" is not read as California.
+    const tokens = address.split(/[\s,]+/).reverse();
+    for (const token of tokens) {
+      const rate = byRegion.get(token.replace(/\./g, ''));
+      if (rate && (!postalCode || rate.country === 'CA')) {
+        return rate;
+      }
+    }
+
+    // "Austin, Texas" - the name ending last wins, and the longer name on a tie ("West Virginia")
+    const lowerAddress = address.toLowerCase();
+    let match: TaxRate | undefined;
+    let matchEnd = -1;
+    for (const rate of rates) {
+      const index = lowerAddress.lastIndexOf(rate.name.toLowerCase());
+      const end = index + rate.name.length;
+      if (index >= 0 && (end > matchEnd || (end === matchEnd && rate.name.length > (match?.name.length || 0)))) {
+        match = rate;
+        matchEnd = end;
+      }
+    }
+    if (match) {
+      return match;
+    }
+
+    return postalCode ? byRegion.get(POSTAL_CODE_PROVINCES[postalCode[1]]) : undefined;
+  }
+
+  /**
+   * Sales tax that applies to an assessment's site
+   */
+  async getTaxRule(assessment: Pick<Assessment, 'siteAddress' | 'taxExempt'> & { id?: number }): Promise<TaxRule> {
+    const rates = await this.getRates();
+    const taxRate = this.resolveRegion(assessment.siteAddress, rates);
+
+    return {
+      region: taxRate?.region ?? null,
+      rate: taxRate ? parseFloat(taxRate.rate) : 0,
+      laborTaxable: taxRate?.laborTaxable ?? false,
+      exempt: await this.isExempt(assessment),
+    };
+  }
+
+  /**
+   * Whether an assessment is priced without tax. Exemption needs an uploaded tax_certificate file:
+   * a saved assessment marked exempt without one can't be quoted, and unsaved data (the running
+   * estimate) is taxed until the certificate is on file.
+   */
+  async isExempt(assessment: Pick<Assessment, 'taxExempt'> & { id?: number }): Promise<boolean> {
+    if (!assessment.taxExempt || assessment.id === undefined) {
+      return false;
+    }
+
+    const files = await storage.getFilesByAssessmentId(assessment.id);
+    if (!files.some((file) => file.fileType === 'tax_certificate')) {
+      throw new ValidationError('Upload the tax exemption certificate for this customer, or clear the tax exempt option, before generating the quote');
+    }
+    return true;
+  }
+}
+
+export const taxService = new TaxService();
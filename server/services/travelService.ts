@@ -0,0 +1,136 @@
+import type { Assessment, InsertTravelBand, Organization, TravelBand } from '@shared/schema';
+import { storage } from '../storage';
+import type { TravelCharge } from './pricingEngine';
+import { geocodingService, type GeocodeResult } from './geocodingService';
+import { ValidationError } from '../errors';
+
+export interface TravelBandInput {
+  minMiles?: string | number;
+  maxMiles?: string | number | null;
+  chargeType?: string;
+  rate?: string | number;
+}
+
+export class TravelService {
+  /**
+   * Get the travel bands, nearest first
+   */
+  async getBands(): Promise<TravelBand[]> {
+    return await storage.getTravelBands();
+  }
+
+  /**
+   * Validate and replace the full set of travel bands. Bands may leave gaps but must not overlap.
+   */
+  async replaceBands(input: TravelBandInput[]): Promise<TravelBand[]> {
+    if (!Array.isArray(input)) {
+      throw new ValidationError('Travel bands must be a list');
+    }
+
+    const bands: InsertTravelBand[] = input.map((band) => {
+      const minMiles = parseInt(String(band.minMiles));
+      if (!Number.isInteger(minMiles) || minMiles < 0) {
+        throw new ValidationError('Band start must be a whole number of miles');
+      }
+
+      let maxMiles: number | null = null;
+      if (band.maxMiles !== undefined && band.maxMiles !== null && band.maxMiles !== '') {
+        maxMiles = parseInt(String(band.maxMiles));
+        if (!Number.isInteger(maxMiles) || maxMiles <= minMiles) {
+          throw new ValidationError(`Band starting at ${minMiles} mi must end after it starts`);
+        }
+      }
+
+      if (band.chargeType !== 'trip' && band.chargeType !== 'mileage') {
+        throw new ValidationError('Charge type must be trip or mileage');
+      }
+
+      const rate = parseFloat(String(band.rate));
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw new ValidationError(`Band starting at ${minMiles} mi needs a rate greater than zero`);
+      }
+
+      return { minMiles, maxMiles, chargeType: band.chargeType, rate: rate.toFixed(2) };
+    });
+
+    bands.sort((a, b) => a.minMiles - b.minMiles);
+    for (let i = 1; i < bands.length; i++) {
+      const previous = bands[i - 1];
+      if (previous.maxMiles === null || previous.maxMiles === undefined || previous.maxMiles > bands[i].minMiles) {
+        throw new ValidationError(`Band starting at ${bands[i].minMiles} mi overlaps the band before it`);
+      }
+    }
+
+    const saved = await storage.replaceTravelBands(bands);
+    console.log(`🚚 Travel bands updated (${saved.length} bands)`);
+    return saved;
+  }
+
+  /**
+   * Set the base location travel is measured from. Clearing the address removes travel
+   * charges for the organization.
+   */
+  async updateBaseLocation(organizationId: number, baseAddress: string | null | undefined): Promise<{ organization: Organization; location: GeocodeResult | null }> {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization) {
+      throw new ValidationError('Organization not found');
+    }
+
+    const address = baseAddress?.trim() || null;
+    const location = address ? await geocodingService.geocode(address) : undefined;
+    if (address && (!location || location.precision !== 'city')) {
+      throw new ValidationError('Base location must include a listed city and its state or province, e.g. "Austin, TX"');
+    }
+
+    const updated = await storage.updateOrganizationBaseLocation(organizationId, {
+      baseAddress: address,
+      baseLatitude: location ? location.latitude.toFixed(6) : null,
+      baseLongitude: location ? location.longitude.toFixed(6) : null,
+    });
+    console.log(`🚚 Base location for ${organization.name} set to ${location?.placeName ?? 'none'}`);
+    return { organization: updated, location: location ?? null };
+  }
+
+  /**
+   * Travel charge for an assessment's site, or null when the organization has no base
+   * location, the site cannot be located, or no travel band covers the distance. A site
+   * placed only within its state or province is left for the partner to charge manually.
+   */
+  async getTravelCharge(assessment: Pick<Assessment, 'siteAddress'>, organization: Organization | undefined): Promise<TravelCharge | null> {
+    if (!organization || organization.baseLatitude === null || organization.baseLongitude === null) {
+      return null;
+    }
+
+    const bands = await storage.getTravelBands();
+    if (bands.length === 0) {
+      return null;
+    }
+
+    const site = await geocodingService.geocode(assessment.siteAddress);
+    if (!site) {
+      return null;
+    }
+
+    const miles = geocodingService.drivingDistance(
+      { latitude: parseFloat(organization.baseLatitude), longitude: parseFloat(organization.baseLongitude) },
+      site
+    );
+    if (site.precision === 'region') {
+      return { manual: true, miles };
+    }
+
+    const band = bands.find((b) => miles >= b.minMiles && (b.maxMiles === null || miles < b.maxMiles));
+    if (!band) {
+      return null;
+    }
+
+    return {
+      manual: false,
+      miles,
+      chargeType: band.chargeType,
+      rate: parseFloat(band.rate),
+    };
+  }
+}
+
+export const travelService = new TravelService();
@@ -0,0 +1,109 @@
+import type { InsertVehicleClass, VehicleClass } from '@shared/schema';
+import { storage } from '../storage';
+import type { VehicleClassRule } from './pricingEngine';
+import { ValidationError } from '../errors';
+
+export const INSTALLATION_METHODS = ['obd-port', 'hardwired', 'magnetic'];
+export const CAMERA_SOLUTION_TYPES = ['driver-facing', 'front-facing', 'driver-front-combo', 'rear-facing', 'trailer', 'aux-multi-camera'];
+
+// Starting multipliers used to seed the vehicle class table. Larger vehicles take longer to wire,
+// and rear and trailer cameras need cable runs the length of the vehicle.
+const DEFAULT_VEHICLE_CLASSES: InsertVehicleClass[] = [
+  {
+    code: 'light-duty', name: 'Light Duty', sortOrder: 1,
+    installationMultipliers: { 'obd-port': 1, hardwired: 1, magnetic: 1 },
+    cameraMultipliers: { 'driver-facing': 1, 'front-facing': 1, 'driver-front-combo': 1, 'rear-facing': 1.25, trailer: 1.5, 'aux-multi-camera': 1.25 },
+  },
+  {
+    code: 'van', name: 'Van', sortOrder: 2,
+    installationMultipliers: { 'obd-port': 1, hardwired: 1.25, magnetic: 1 },
+    cameraMultipliers: { 'driver-facing': 1, 'front-facing': 1, 'driver-front-combo': 1.25, 'rear-facing': 1.5, trailer: 1.5, 'aux-multi-camera': 1.5 },
+  },
+  {
+    code: 'box-truck', name: 'Box Truck', sortOrder: 3,
+    installationMultipliers: { 'obd-port': 1.25, hardwired: 1.5, magnetic: 1 },
+    cameraMultipliers: { 'driver-facing': 1.25, 'front-facing': 1.25, 'driver-front-combo': 1.5, 'rear-facing': 2, trailer: 2, 'aux-multi-camera': 2 },
+  },
+  {
+    code: 'heavy-duty', name: 'Heavy Duty', sortOrder: 4,
+    installationMultipliers: { 'obd-port': 1.5, hardwired: 2, magnetic: 1.25 },
+    cameraMultipliers: { 'driver-facing': 1.5, 'front-facing': 1.5, 'driver-front-combo': 1.75, 'rear-facing': 2, trailer: 2.5, 'aux-multi-camera': 2.5 },
+  },
+  {
+    code: 'trailer', name: 'Trailer', sortOrder: 5,
+    installationMultipliers: { 'obd-port': 1, hardwired: 1.5, magnetic: 1 },
+    cameraMultipliers: { 'driver-facing': 1, 'front-facing': 1, 'driver-front-combo': 1, 'rear-facing': 1.5, trailer: 2, 'aux-multi-camera': 2 },
+  },
+  {
+    code: 'equipment', name: 'Equipment', sortOrder: 6,
+    installationMultipliers: { 'obd-port': 1.5, hardwired: 2, magnetic: 1.25 },
+    cameraMultipliers: { 'driver-facing': 1.5, 'front-facing': 1.5, 'driver-front-combo': 1.75, 'rear-facing': 2, trailer: 2, 'aux-multi-camera': 2.5 },
+  },
+];
+
+export class VehicleClassService {
+  /**
+   * Seed the vehicle class table with the default multipliers for any missing class
+   */
+  async ensureDefaults(): Promise<void> {
+    const classes = await storage.getVehicleClasses();
+    if (classes.length >= DEFAULT_VEHICLE_CLASSES.length) {
+      return;
+    }
+
+    console.log('🚚 Seeding default vehicle classes');
+    await storage.createVehicleClasses(DEFAULT_VEHICLE_CLASSES);
+  }
+
+  /**
+   * Get all vehicle classes, smallest first
+   */
+  async getClasses(): Promise<VehicleClass[]> {
+    await this.ensureDefaults();
+    return await storage.getVehicleClasses();
+  }
+
+  /**
+   * Update the labor multipliers of a single vehicle class
+   */
+  async updateClass(code: string, input: { installationMultipliers?: Record<string, unknown>; cameraMultipliers?: Record<string, unknown> }): Promise<VehicleClass> {
+    const updated = await storage.updateVehicleClass(code, {
+      installationMultipliers: this.parseMultipliers(input.installationMultipliers, INSTALLATION_METHODS),
+      cameraMultipliers: this.parseMultipliers(input.cameraMultipliers, CAMERA_SOLUTION_TYPES),
+    });
+    if (!updated) {
+      throw new ValidationError(`Unknown vehicle class ${code}`);
+    }
+
+    console.log(`🚚 Labor multipliers for ${updated.name} vehicles updated`);
+    return updated;
+  }
+
+  /**
+   * Vehicle classes in the form the pricing engine uses
+   */
+  async getPricingRules(): Promise<VehicleClassRule[]> {
+    const classes = await this.getClasses();
+    return classes.map(({ code, name, installationMultipliers, cameraMultipliers }) => ({
+      code,
+      name,
+      installationMultipliers,
+      cameraMultipliers,
+    }));
+  }
+
+  // Every key needs a multiplier between 0.1 and 10
+  private parseMultipliers(input: Record<string, unknown> | undefined, keys: string[]): Record<string, number> {
+    const multipliers: Record<string, number> = {};
+    for (const key of keys) {
+      const value = parseFloat(String(input?.[key]));
+      if (!Number.isFinite(value) || value < 0.1 || value > 10) {
+        throw new ValidationError(`The ${key} multiplier must be a number between 0.1 and 10`);
+      }
+      multipliers[key] = value;
+    }
+    return multipliers;
+  }
+}
+
+export const vehicleClassService = new VehicleClassService();
@@ -2,6 +2,7 @@ import crypto from 'crypto';
 import type { Request } from 'express';
 import { storage } from '../storage';
 import { hubspotService } from './hubspotService';
+import { quoteService } from './quoteService';
 
 export interface HubSpotWebhookPayload {
   eventId: number;
@@ -277,6 +278,11 @@ export class WebhookService {
           if (newStatus !== quote.status) {
             await storage.updateQuote(quote.id, { status: newStatus });
             console.log(`🔄 Updated quote ${quote.quoteNumber} status to ${newStatus}`);
+
+            // Record the partner commission when the deal is won
+            if (newStatus === 'approved') {
+              await quoteService.recordCommission(quote.id);
+            }
           }
         }
       } catch (error) {
@@ -3,9 +3,31 @@ import {
   organizations,
   assessments,
   quotes,
+  quoteLineItems,
+  quoteRecurringItems,
+  proposals,
+  projects,
+  quoteRevisions,
+  quoteOptions,
+  quoteNumberSequences,
+  quoteAdjustments,
+  quoteAccessTokens,
+  proposalAccessTokens,
+  quoteSignatures,
+  proposalSignatures,
+  quoteComments,
+  promoCodes,
+  taxRates,
+  travelBands,
+  vehicleClasses,
+  approvalRules,
+  products,
   uploadedFiles,
   partnerInvitations,
   signupAnalytics,
+  rateCardVersions,
+  rateCardEntries,
+  organizationPricingOverrides,
   type User,
   type UpsertUser,
   type Organization,
@@ -14,17 +36,88 @@ import {
   type InsertAssessment,
   type Quote,
   type InsertQuote,
+  type QuoteLineItem,
+  type InsertQuoteLineItem,
+  type QuoteRecurringItem,
+  type InsertQuoteRecurringItem,
+  type Proposal,
+  type InsertProposal,
+  type Project,
+  type InsertProject,
+  type QuoteRevision,
+  type InsertQuoteRevision,
+  type QuoteOption,
+  type InsertQuoteOption,
+  type QuoteAdjustment,
+  type InsertQuoteAdjustment,
+  type QuoteAccessToken,
+  type InsertQuoteAccessToken,
+  type ProposalAccessToken,
+  type InsertProposalAccessToken,
+  type QuoteSignature,
+  type InsertQuoteSignature,
+  type ProposalSignature,
+  type InsertProposalSignature,
+  type QuoteComment,
+  type InsertQuoteComment,
+  type PromoCode,
+  type InsertPromoCode,
+  type TaxRate,
+  type InsertTaxRate,
+  type TravelBand,
+  type InsertTravelBand,
+  type VehicleClass,
+  type InsertVehicleClass,
+  type ApprovalRule,
+  type InsertApprovalRule,
+  type Product,
+  type InsertProduct,
   type UploadedFile,
   type InsertUploadedFile,
   type PartnerInvitation,
   type InsertPartnerInvitation,
   type SignupAnalytics,
   type InsertSignupAnalytics,
+  type RateCardVersion,
+  type InsertRateCardVersion,
+  type RateCardEntry,
+  type InsertRateCardEntry,
+  type OrganizationPricingOverride,
+  type InsertOrganizationPricingOverride,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, or, sql, lte, gt, inArray, asc, isNull, isNotNull, getTableColumns } from "drizzle-orm";
 
 // Interface for storage operations
+// Outcome of redeeming a promo code on a quote
+export type PromoCodeRedemption =
+  | { status: 'redeemed'; promoCode: PromoCode; adjustment: QuoteAdjustment }
+  | { status: 'already_applied' | 'limit_reached' };
+
+// The chosen option's pricing, written to the quote when the customer approves it
+export interface QuoteOptionApproval {
+  optionId: number;
+  quote: Partial<InsertQuote>;
+  lineItems: Omit<InsertQuoteLineItem, "quoteId">[];
+  recurringItems: Omit<InsertQuoteRecurringItem, "quoteId">[];
+  revision: Omit<InsertQuoteRevision, "revisionNumber" | "revisionLetter">;
+  assessment: Partial<InsertAssessment>;
+}
+
+// A signed approval; expectedUpdatedAt is the version of the quote whose PDF was signed
+export interface QuoteApproval {
+  expectedUpdatedAt: Date | null;
+  option?: QuoteOptionApproval;
+  signature: InsertQuoteSignature;
+}
+
+// Outcome of approving a quote; a conflict means it was answered in the meantime
+export type QuoteApprovalResult =
+  | { status: 'approved'; quote: Quote; signature: QuoteSignature }
+  | { status: 'conflict' };
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export interface IStorage {
   // User operations
   // (IMPORTANT) these user operations are mandatory for Replit Auth.
@@ -42,12 +135,22 @@ export interface IStorage {
     totalAssessments: number;
     totalQuotes: number;
     monthlyRevenue: number;
+    monthlyRecurringRevenue: number;
   }>;
   
   // Organization operations
   createOrganization(org: InsertOrganization): Promise<Organization>;
+  getOrganization(id: number): Promise<Organization | undefined>;
   getOrganizationByUserId(userId: string): Promise<Organization | undefined>;
   updateOrganizationStatus(id: number, status: string): Promise<Organization>;
+  updateOrganizationPricing(id: number, pricing: Pick<InsertOrganization, "commission" | "partnerType">): Promise<Organization>;
+  updateOrganizationQuoteNumbering(id: number, numbering: Pick<InsertOrganization, "quoteNumberPrefix" | "quoteNumberFormat">): Promise<Organization>;
+  updateOrganizationBaseLocation(id: number, location: Pick<InsertOrganization, "baseAddress" | "baseLatitude" | "baseLongitude">): Promise<Organization>;
+  
+  // Organization pricing override operations
+  getOrganizationPricingOverrides(organizationId: number): Promise<OrganizationPricingOverride[]>;
+  upsertOrganizationPricingOverride(override: InsertOrganizationPricingOverride): Promise<OrganizationPricingOverride>;
+  deleteOrganizationPricingOverride(organizationId: number, serviceType: string): Promise<void>;
   
   // Assessment operations
   createAssessment(assessment: InsertAssessment): Promise<Assessment>;
@@ -56,17 +159,125 @@ export interface IStorage {
   getAssessmentsByUserId(userId: string): Promise<Assessment[]>;
   getAssessmentsByEmail(email: string): Promise<Assessment[]>;
   getAssessmentsByHubSpotContactId(contactId: string): Promise<Assessment[]>;
+  moveFleetInstallationMethods(): Promise<Assessment[]>;
   
   // Quote operations
   createQuote(quote: InsertQuote): Promise<Quote>;
   updateQuote(id: number, quote: Partial<InsertQuote>): Promise<Quote>;
+  expirePendingQuotes(asOf: Date): Promise<Quote[]>;
   getQuote(id: number): Promise<(Quote & { assessment: Assessment }) | undefined>;
   getQuotesByUserId(userId: string): Promise<(Quote & { assessment: Assessment })[]>;
+  getQuotesAwaitingApproval(): Promise<(Quote & { assessment: Assessment; organizationName: string | null })[]>;
   getQuoteByAssessmentId(assessmentId: number): Promise<Quote | undefined>;
+  getQuoteByNumber(quoteNumber: string): Promise<Quote | undefined>;
+  nextQuoteNumberSequence(scope: string): Promise<number>;
   getAllQuotes(): Promise<Quote[]>;
   getQuotesByHubSpotDealId(dealId: string): Promise<Quote[]>;
   deleteQuote(id: number): Promise<void>;
   
+  // Quote line item operations
+  getQuoteLineItems(quoteId: number): Promise<QuoteLineItem[]>;
+  getQuoteLineItemsByQuoteIds(quoteIds: number[]): Promise<QuoteLineItem[]>;
+  replaceQuoteLineItems(quoteId: number, items: Omit<InsertQuoteLineItem, "quoteId">[]): Promise<QuoteLineItem[]>;
+  getQuoteRecurringItems(quoteId: number): Promise<QuoteRecurringItem[]>;
+  replaceQuoteRecurringItems(quoteId: number, items: Omit<InsertQuoteRecurringItem, "quoteId">[]): Promise<QuoteRecurringItem[]>;
+
+  // Proposal operations
+  createProposal(proposal: InsertProposal, assessmentIds: number[]): Promise<Proposal>;
+  getProposal(id: number): Promise<Proposal | undefined>;
+  getProposalByNumber(proposalNumber: string): Promise<Proposal | undefined>;
+  getProposalsByUserId(userId: string): Promise<Proposal[]>;
+  getAssessmentsByProposalId(proposalId: number): Promise<Assessment[]>;
+  updateProposal(id: number, proposal: Partial<InsertProposal>): Promise<Proposal>;
+  deleteProposal(id: number): Promise<void>;
+
+  // Multi-site project operations
+  createProject(project: InsertProject): Promise<Project>;
+  getProject(id: number): Promise<Project | undefined>;
+  getProjectsByUserId(userId: string): Promise<(Project & { siteCount: number })[]>;
+  updateProject(id: number, project: Partial<InsertProject>): Promise<Project>;
+  createProjectSites(projectId: number, sites: InsertAssessment[]): Promise<Assessment[]>;
+  getAssessmentsByProjectId(projectId: number): Promise<Assessment[]>;
+  updateProjectSites(projectId: number, shared: Partial<InsertAssessment>): Promise<void>;
+
+  // Quote revision operations
+  getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]>;
+  getLatestQuoteRevision(quoteId: number): Promise<QuoteRevision | undefined>;
+  createQuoteRevision(revision: Omit<InsertQuoteRevision, "revisionNumber" | "revisionLetter">): Promise<QuoteRevision>;
+  updateQuoteRevision(id: number, revision: Partial<InsertQuoteRevision>): Promise<QuoteRevision>;
+
+  // Quote option operations
+  getQuoteOptions(quoteId: number): Promise<QuoteOption[]>;
+  getQuoteOption(id: number): Promise<QuoteOption | undefined>;
+  createQuoteOption(option: InsertQuoteOption): Promise<QuoteOption>;
+  updateQuoteOption(id: number, option: Partial<InsertQuoteOption>): Promise<QuoteOption>;
+  deleteQuoteOption(id: number): Promise<void>;
+
+  // Quote adjustment operations
+  getQuoteAdjustments(quoteId: number): Promise<QuoteAdjustment[]>;
+  createQuoteAdjustment(adjustment: InsertQuoteAdjustment): Promise<QuoteAdjustment>;
+  deleteQuoteAdjustment(id: number): Promise<void>;
+
+  // Customer access token operations
+  createQuoteAccessToken(accessToken: InsertQuoteAccessToken): Promise<QuoteAccessToken>;
+  getQuoteAccessToken(token: string): Promise<QuoteAccessToken | undefined>;
+  getActiveQuoteAccessToken(quoteId: number, asOf: Date): Promise<QuoteAccessToken | undefined>;
+  revokeQuoteAccessTokens(quoteId: number): Promise<void>;
+  createProposalAccessToken(accessToken: InsertProposalAccessToken): Promise<ProposalAccessToken>;
+  getProposalAccessToken(token: string): Promise<ProposalAccessToken | undefined>;
+  getActiveProposalAccessToken(proposalId: number, asOf: Date): Promise<ProposalAccessToken | undefined>;
+  revokeProposalAccessTokens(proposalId: number): Promise<void>;
+
+  // Quote signature operations
+  getQuoteSignature(quoteId: number): Promise<QuoteSignature | undefined>;
+  createQuoteSignature(signature: InsertQuoteSignature): Promise<QuoteSignature>;
+  updateQuoteSignature(id: number, signature: Partial<InsertQuoteSignature>): Promise<QuoteSignature>;
+  approveQuote(quoteId: number, approval: QuoteApproval): Promise<QuoteApprovalResult>;
+
+  // Proposal signature operations
+  getProposalSignature(proposalId: number): Promise<ProposalSignature | undefined>;
+  createProposalSignature(signature: InsertProposalSignature): Promise<ProposalSignature>;
+  updateProposalSignature(id: number, signature: Partial<InsertProposalSignature>): Promise<ProposalSignature>;
+
+  // Quote comment operations
+  getQuoteComments(quoteId: number): Promise<QuoteComment[]>;
+  createQuoteComment(comment: InsertQuoteComment): Promise<QuoteComment>;
+  releaseHeldQuoteComments(quoteId: number): Promise<QuoteComment[]>;
+
+  // Promo code operations
+  getPromoCodes(): Promise<PromoCode[]>;
+  getPromoCode(id: number): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promoCode: InsertPromoCode & { createdBy?: string }): Promise<PromoCode>;
+  updatePromoCode(id: number, promoCode: Partial<InsertPromoCode>): Promise<PromoCode>;
+  redeemPromoCodeOnQuote(promoCodeId: number, adjustment: InsertQuoteAdjustment, asOf: Date): Promise<PromoCodeRedemption>;
+  releasePromoCode(id: number): Promise<void>;
+
+  // Tax rate operations
+  getTaxRates(): Promise<TaxRate[]>;
+  createTaxRates(rates: InsertTaxRate[]): Promise<void>;
+  updateTaxRate(region: string, rate: Pick<InsertTaxRate, "rate" | "laborTaxable">): Promise<TaxRate | undefined>;
+
+  // Travel band operations
+  getTravelBands(): Promise<TravelBand[]>;
+  replaceTravelBands(bands: InsertTravelBand[]): Promise<TravelBand[]>;
+
+  // Vehicle class operations
+  getVehicleClasses(): Promise<VehicleClass[]>;
+  createVehicleClasses(classes: InsertVehicleClass[]): Promise<void>;
+  updateVehicleClass(code: string, multipliers: Pick<InsertVehicleClass, "installationMultipliers" | "cameraMultipliers">): Promise<VehicleClass | undefined>;
+
+  // Quote approval rule operations
+  getApprovalRules(): Promise<ApprovalRule[]>;
+  replaceApprovalRules(rules: InsertApprovalRule[]): Promise<ApprovalRule[]>;
+
+  // Product catalog operations
+  getProducts(): Promise<Product[]>;
+  getProductsByIds(ids: number[]): Promise<Product[]>;
+  getProductBySku(sku: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  
   // File operations
   createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile>;
   getFilesByAssessmentId(assessmentId: number): Promise<UploadedFile[]>;
@@ -83,6 +294,16 @@ export interface IStorage {
   // Analytics operations
   trackSignupEvent(analytics: InsertSignupAnalytics): Promise<SignupAnalytics>;
   getSignupAnalytics(startDate?: Date, endDate?: Date): Promise<SignupAnalytics[]>;
+  
+  // Rate card operations
+  getRateCardVersions(): Promise<RateCardVersion[]>;
+  getRateCardVersion(id: number): Promise<RateCardVersion | undefined>;
+  getActiveRateCardVersion(asOf?: Date): Promise<RateCardVersion | undefined>;
+  createRateCardVersion(
+    version: Omit<InsertRateCardVersion, "versionNumber">,
+    entries: Omit<InsertRateCardEntry, "versionId">[]
+  ): Promise<RateCardVersion>;
+  getRateCardEntries(versionId: number, serviceType?: string): Promise<RateCardEntry[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -144,6 +365,7 @@ export class DatabaseStorage implements IStorage {
     totalAssessments: number;
     totalQuotes: number;
     monthlyRevenue: number;
+    monthlyRecurringRevenue: number;
   }> {
     const [userCount] = await db.select({ count: sql<number>`cast(count(*) as int)` }).from(users);
     const [pendingCount] = await db
@@ -168,12 +390,21 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
+    // Monthly recurring revenue across all approved quotes, reported apart from one-time revenue
+    const [recurringResult] = await db
+      .select({
+        total: sql<number>`cast(coalesce(sum(cast(monthly_total as decimal)), 0) as decimal)`
+      })
+      .from(quotes)
+      .where(eq(quotes.status, 'approved'));
+
     return {
       totalPartners: userCount?.count || 0,
       pendingPartners: pendingCount?.count || 0,
       totalAssessments: assessmentCount?.count || 0,
       totalQuotes: quoteCount?.count || 0,
       monthlyRevenue: Number(revenueResult?.total || 0),
+      monthlyRecurringRevenue: Number(recurringResult?.total || 0),
     };
   }
 
@@ -186,6 +417,14 @@ export class DatabaseStorage implements IStorage {
     return organization;
   }
 
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, id));
+    return organization;
+  }
+
   async getOrganizationByUserId(userId: string): Promise<Organization | undefined> {
     const [organization] = await db
       .select()
@@ -207,6 +446,70 @@ export class DatabaseStorage implements IStorage {
     return organization;
   }
 
+  async updateOrganizationPricing(id: number, pricing: Pick<InsertOrganization, "commission" | "partnerType">): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set(pricing)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async updateOrganizationQuoteNumbering(id: number, numbering: Pick<InsertOrganization, "quoteNumberPrefix" | "quoteNumberFormat">): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set(numbering)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async updateOrganizationBaseLocation(id: number, location: Pick<InsertOrganization, "baseAddress" | "baseLatitude" | "baseLongitude">): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set(location)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  // Organization pricing override operations
+  async getOrganizationPricingOverrides(organizationId: number): Promise<OrganizationPricingOverride[]> {
+    return await db
+      .select()
+      .from(organizationPricingOverrides)
+      .where(eq(organizationPricingOverrides.organizationId, organizationId))
+      .orderBy(organizationPricingOverrides.id);
+  }
+
+  async upsertOrganizationPricingOverride(override: InsertOrganizationPricingOverride): Promise<OrganizationPricingOverride> {
+    const [saved] = await db
+      .insert(organizationPricingOverrides)
+      .values(override)
+      .onConflictDoUpdate({
+        target: [organizationPricingOverrides.organizationId, organizationPricingOverrides.serviceType],
+        set: {
+          hourlyRate: override.hourlyRate,
+          priceMultiplier: override.priceMultiplier,
+          updatedBy: override.updatedBy,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteOrganizationPricingOverride(organizationId: number, serviceType: string): Promise<void> {
+    await db
+      .delete(organizationPricingOverrides)
+      .where(
+        and(
+          eq(organizationPricingOverrides.organizationId, organizationId),
+          eq(organizationPricingOverrides.serviceType, serviceType as OrganizationPricingOverride["serviceType"])
+        )
+      );
+  }
+
   // Assessment operations
   async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
     const [newAssessment] = await db
@@ -257,6 +560,18 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(assessments.createdAt));
   }
 
+  async moveFleetInstallationMethods(): Promise<Assessment[]> {
+    return await db
+      .update(assessments)
+      .set({ installationMethod: sql`${assessments.ceilingType}`, ceilingType: null })
+      .where(and(
+        eq(assessments.serviceType, 'fleet-tracking'),
+        isNotNull(assessments.ceilingType),
+        isNull(assessments.installationMethod)
+      ))
+      .returning();
+  }
+
   // Quote operations
   async createQuote(quote: InsertQuote): Promise<Quote> {
     const [newQuote] = await db
@@ -275,6 +590,14 @@ export class DatabaseStorage implements IStorage {
     return updatedQuote;
   }
 
+  async expirePendingQuotes(asOf: Date): Promise<Quote[]> {
+    return await db
+      .update(quotes)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(inArray(quotes.status, ['pending', 'pending_approval', 'changes_requested']), lte(quotes.expiresAt, asOf)))
+      .returning();
+  }
+
   async getQuote(id: number): Promise<(Quote & { assessment: Assessment }) | undefined> {
     const [result] = await db
       .select({
@@ -295,9 +618,30 @@ export class DatabaseStorage implements IStorage {
         laborHoldHours: quotes.laborHoldHours,
         laborHoldCost: quotes.laborHoldCost,
         hourlyRate: quotes.hourlyRate,
+        subtotal: quotes.subtotal,
+        taxRegion: quotes.taxRegion,
+        taxRate: quotes.taxRate,
+        taxAmount: quotes.taxAmount,
+        travelMiles: quotes.travelMiles,
+        travelCost: quotes.travelCost,
+        monthlyTotal: quotes.monthlyTotal,
+        termMonths: quotes.termMonths,
+        pricingTrace: quotes.pricingTrace,
+        vehicleLabor: quotes.vehicleLabor,
         status: quotes.status,
         pdfUrl: quotes.pdfUrl,
         emailSent: quotes.emailSent,
+        expiresAt: quotes.expiresAt,
+        rateCardVersionId: quotes.rateCardVersionId,
+        approvalStatus: quotes.approvalStatus,
+        approvalReasons: quotes.approvalReasons,
+        approvalNote: quotes.approvalNote,
+        approvalDecidedBy: quotes.approvalDecidedBy,
+        approvalDecidedAt: quotes.approvalDecidedAt,
+        changeRequest: quotes.changeRequest,
+        commissionRate: quotes.commissionRate,
+        commissionBasis: quotes.commissionBasis,
+        commissionAmount: quotes.commissionAmount,
         createdAt: quotes.createdAt,
         updatedAt: quotes.updatedAt,
         assessment: assessments,
@@ -328,9 +672,30 @@ export class DatabaseStorage implements IStorage {
         laborHoldHours: quotes.laborHoldHours,
         laborHoldCost: quotes.laborHoldCost,
         hourlyRate: quotes.hourlyRate,
+        subtotal: quotes.subtotal,
+        taxRegion: quotes.taxRegion,
+        taxRate: quotes.taxRate,
+        taxAmount: quotes.taxAmount,
+        travelMiles: quotes.travelMiles,
+        travelCost: quotes.travelCost,
+        monthlyTotal: quotes.monthlyTotal,
+        termMonths: quotes.termMonths,
+        pricingTrace: quotes.pricingTrace,
+        vehicleLabor: quotes.vehicleLabor,
         status: quotes.status,
         pdfUrl: quotes.pdfUrl,
         emailSent: quotes.emailSent,
+        expiresAt: quotes.expiresAt,
+        rateCardVersionId: quotes.rateCardVersionId,
+        approvalStatus: quotes.approvalStatus,
+        approvalReasons: quotes.approvalReasons,
+        approvalNote: quotes.approvalNote,
+        approvalDecidedBy: quotes.approvalDecidedBy,
+        approvalDecidedAt: quotes.approvalDecidedAt,
+        changeRequest: quotes.changeRequest,
+        commissionRate: quotes.commissionRate,
+        commissionBasis: quotes.commissionBasis,
+        commissionAmount: quotes.commissionAmount,
         createdAt: quotes.createdAt,
         updatedAt: quotes.updatedAt,
         assessment: assessments,
@@ -341,6 +706,20 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(quotes.createdAt));
   }
 
+  async getQuotesAwaitingApproval(): Promise<(Quote & { assessment: Assessment; organizationName: string | null })[]> {
+    return await db
+      .select({
+        ...getTableColumns(quotes),
+        assessment: assessments,
+        organizationName: organizations.name,
+      })
+      .from(quotes)
+      .innerJoin(assessments, eq(quotes.assessmentId, assessments.id))
+      .leftJoin(organizations, eq(assessments.organizationId, organizations.id))
+      .where(and(eq(quotes.status, 'pending_approval'), eq(quotes.approvalStatus, 'requested')))
+      .orderBy(asc(quotes.updatedAt));
+  }
+
   async getQuoteByAssessmentId(assessmentId: number): Promise<Quote | undefined> {
     const [quote] = await db
       .select()
@@ -349,6 +728,31 @@ export class DatabaseStorage implements IStorage {
     return quote;
   }
 
+  async getQuoteByNumber(quoteNumber: string): Promise<Quote | undefined> {
+    const [quote] = await db
+      .select()
+      .from(quotes)
+      .where(eq(quotes.quoteNumber, quoteNumber));
+    return quote;
+  }
+
+  // Increment and return the counter for a scope in a single statement, so concurrent
+  // callers never receive the same value
+  async nextQuoteNumberSequence(scope: string): Promise<number> {
+    const [sequence] = await db
+      .insert(quoteNumberSequences)
+      .values({ scope, lastValue: 1 })
+      .onConflictDoUpdate({
+        target: quoteNumberSequences.scope,
+        set: {
+          lastValue: sql`${quoteNumberSequences.lastValue} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return sequence.lastValue;
+  }
+
   async getAllQuotes(): Promise<Quote[]> {
     return await db
       .select()
@@ -387,10 +791,699 @@ export class DatabaseStorage implements IStorage {
       .where(eq(uploadedFiles.id, id));
   }
 
+  // Deleting a quote removes its adjustments, so a promo code redeemed on it is released
   async deleteQuote(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const redeemed = await tx
+        .select({ promoCodeId: quoteAdjustments.promoCodeId })
+        .from(quoteAdjustments)
+        .where(and(eq(quoteAdjustments.quoteId, id), isNotNull(quoteAdjustments.promoCodeId)));
+      for (const { promoCodeId } of redeemed) {
+        await tx
+          .update(promoCodes)
+          .set({ redemptionCount: sql`greatest(${promoCodes.redemptionCount} - 1, 0)` })
+          .where(eq(promoCodes.id, promoCodeId!));
+      }
+
+      await tx
+        .delete(quotes)
+        .where(eq(quotes.id, id));
+    });
+  }
+
+  // Quote line item operations
+  async getQuoteLineItems(quoteId: number): Promise<QuoteLineItem[]> {
+    return await db
+      .select()
+      .from(quoteLineItems)
+      .where(eq(quoteLineItems.quoteId, quoteId))
+      .orderBy(asc(quoteLineItems.sortOrder), asc(quoteLineItems.id));
+  }
+
+  async getQuoteLineItemsByQuoteIds(quoteIds: number[]): Promise<QuoteLineItem[]> {
+    if (quoteIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(quoteLineItems)
+      .where(inArray(quoteLineItems.quoteId, quoteIds))
+      .orderBy(asc(quoteLineItems.quoteId), asc(quoteLineItems.sortOrder), asc(quoteLineItems.id));
+  }
+
+  async replaceQuoteLineItems(quoteId: number, items: Omit<InsertQuoteLineItem, "quoteId">[]): Promise<QuoteLineItem[]> {
+    return await db.transaction((tx) => replaceLineItems(tx, quoteId, items));
+  }
+
+  // Quote recurring item operations
+  async getQuoteRecurringItems(quoteId: number): Promise<QuoteRecurringItem[]> {
+    return await db
+      .select()
+      .from(quoteRecurringItems)
+      .where(eq(quoteRecurringItems.quoteId, quoteId))
+      .orderBy(asc(quoteRecurringItems.sortOrder), asc(quoteRecurringItems.id));
+  }
+
+  async replaceQuoteRecurringItems(quoteId: number, items: Omit<InsertQuoteRecurringItem, "quoteId">[]): Promise<QuoteRecurringItem[]> {
+    return await db.transaction((tx) => replaceRecurringItems(tx, quoteId, items));
+  }
+
+  // Proposal operations
+  async createProposal(proposal: InsertProposal, assessmentIds: number[]): Promise<Proposal> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(proposals).values(proposal).returning();
+      await tx
+        .update(assessments)
+        .set({ proposalId: created.id, updatedAt: new Date() })
+        .where(inArray(assessments.id, assessmentIds));
+      return created;
+    });
+  }
+
+  async getProposal(id: number): Promise<Proposal | undefined> {
+    const [proposal] = await db.select().from(proposals).where(eq(proposals.id, id));
+    return proposal;
+  }
+
+  async getProposalByNumber(proposalNumber: string): Promise<Proposal | undefined> {
+    const [proposal] = await db.select().from(proposals).where(eq(proposals.proposalNumber, proposalNumber));
+    return proposal;
+  }
+
+  async getProposalsByUserId(userId: string): Promise<Proposal[]> {
+    return await db
+      .select()
+      .from(proposals)
+      .where(eq(proposals.userId, userId))
+      .orderBy(desc(proposals.createdAt));
+  }
+
+  async getAssessmentsByProposalId(proposalId: number): Promise<Assessment[]> {
+    return await db
+      .select()
+      .from(assessments)
+      .where(eq(assessments.proposalId, proposalId))
+      .orderBy(asc(assessments.id));
+  }
+
+  async updateProposal(id: number, proposal: Partial<InsertProposal>): Promise<Proposal> {
+    const [updated] = await db
+      .update(proposals)
+      .set({ ...proposal, updatedAt: new Date() })
+      .where(eq(proposals.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Ungroup the assessments and remove the proposal; their quotes are kept
+  async deleteProposal(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(assessments).set({ proposalId: null }).where(eq(assessments.proposalId, id));
+      await tx.delete(proposals).where(eq(proposals.id, id));
+    });
+  }
+
+  // Multi-site project operations
+  async createProject(project: InsertProject): Promise<Project> {
+    const [created] = await db.insert(projects).values(project).returning();
+    return created;
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectsByUserId(userId: string): Promise<(Project & { siteCount: number })[]> {
+    return await db
+      .select({
+        ...getTableColumns(projects),
+        siteCount: sql<number>`count(${assessments.id})::int`,
+      })
+      .from(projects)
+      .leftJoin(assessments, eq(assessments.projectId, projects.id))
+      .where(eq(projects.userId, userId))
+      .groupBy(projects.id)
+      .orderBy(desc(projects.createdAt));
+  }
+
+  async updateProject(id: number, project: Partial<InsertProject>): Promise<Project> {
+    const [updated] = await db
+      .update(projects)
+      .set({ ...project, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createProjectSites(projectId: number, sites: InsertAssessment[]): Promise<Assessment[]> {
+    if (sites.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(assessments)
+      .values(sites.map((site) => ({ ...site, projectId })))
+      .returning();
+  }
+
+  async getAssessmentsByProjectId(projectId: number): Promise<Assessment[]> {
+    return await db
+      .select()
+      .from(assessments)
+      .where(eq(assessments.projectId, projectId))
+      .orderBy(asc(assessments.id));
+  }
+
+  // Copy the shared customer and sales executive details to every site of a project
+  async updateProjectSites(projectId: number, shared: Partial<InsertAssessment>): Promise<void> {
     await db
-      .delete(quotes)
-      .where(eq(quotes.id, id));
+      .update(assessments)
+      .set({ ...shared, updatedAt: new Date() })
+      .where(eq(assessments.projectId, projectId));
+  }
+
+  // Quote revision operations
+  async getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]> {
+    return await db
+      .select()
+      .from(quoteRevisions)
+      .where(eq(quoteRevisions.quoteId, quoteId))
+      .orderBy(asc(quoteRevisions.revisionNumber));
+  }
+
+  async getLatestQuoteRevision(quoteId: number): Promise<QuoteRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(quoteRevisions)
+      .where(eq(quoteRevisions.quoteId, quoteId))
+      .orderBy(desc(quoteRevisions.revisionNumber))
+      .limit(1);
+    return revision;
+  }
+
+  async createQuoteRevision(revision: Omit<InsertQuoteRevision, "revisionNumber" | "revisionLetter">): Promise<QuoteRevision> {
+    return await db.transaction((tx) => insertQuoteRevision(tx, revision));
+  }
+
+  async updateQuoteRevision(id: number, revision: Partial<InsertQuoteRevision>): Promise<QuoteRevision> {
+    const [updated] = await db
+      .update(quoteRevisions)
+      .set(revision)
+      .where(eq(quoteRevisions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Quote option operations
+  async getQuoteOptions(quoteId: number): Promise<QuoteOption[]> {
+    return await db
+      .select()
+      .from(quoteOptions)
+      .where(eq(quoteOptions.quoteId, quoteId))
+      .orderBy(asc(quoteOptions.sortOrder), asc(quoteOptions.id));
+  }
+
+  async getQuoteOption(id: number): Promise<QuoteOption | undefined> {
+    const [option] = await db.select().from(quoteOptions).where(eq(quoteOptions.id, id));
+    return option;
+  }
+
+  async createQuoteOption(option: InsertQuoteOption): Promise<QuoteOption> {
+    const [created] = await db
+      .insert(quoteOptions)
+      .values(option)
+      .returning();
+    return created;
+  }
+
+  async updateQuoteOption(id: number, option: Partial<InsertQuoteOption>): Promise<QuoteOption> {
+    const [updated] = await db
+      .update(quoteOptions)
+      .set({ ...option, updatedAt: new Date() })
+      .where(eq(quoteOptions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteQuoteOption(id: number): Promise<void> {
+    await db
+      .delete(quoteOptions)
+      .where(eq(quoteOptions.id, id));
+  }
+
+  // Quote adjustment operations
+  async getQuoteAdjustments(quoteId: number): Promise<QuoteAdjustment[]> {
+    return await db
+      .select()
+      .from(quoteAdjustments)
+      .where(eq(quoteAdjustments.quoteId, quoteId))
+      .orderBy(asc(quoteAdjustments.id));
+  }
+
+  async createQuoteAdjustment(adjustment: InsertQuoteAdjustment): Promise<QuoteAdjustment> {
+    const [created] = await db
+      .insert(quoteAdjustments)
+      .values(adjustment)
+      .returning();
+    return created;
+  }
+
+  async deleteQuoteAdjustment(id: number): Promise<void> {
+    await db
+      .delete(quoteAdjustments)
+      .where(eq(quoteAdjustments.id, id));
+  }
+
+  // Customer access token operations
+  async createQuoteAccessToken(accessToken: InsertQuoteAccessToken): Promise<QuoteAccessToken> {
+    const [created] = await db
+      .insert(quoteAccessTokens)
+      .values(accessToken)
+      .returning();
+    return created;
+  }
+
+  async getQuoteAccessToken(token: string): Promise<QuoteAccessToken | undefined> {
+    const [accessToken] = await db
+      .select()
+      .from(quoteAccessTokens)
+      .where(eq(quoteAccessTokens.token, token));
+    return accessToken;
+  }
+
+  async getActiveQuoteAccessToken(quoteId: number, asOf: Date): Promise<QuoteAccessToken | undefined> {
+    const [accessToken] = await db
+      .select()
+      .from(quoteAccessTokens)
+      .where(and(
+        eq(quoteAccessTokens.quoteId, quoteId),
+        isNull(quoteAccessTokens.revokedAt),
+        gt(quoteAccessTokens.expiresAt, asOf),
+      ))
+      .orderBy(desc(quoteAccessTokens.createdAt))
+      .limit(1);
+    return accessToken;
+  }
+
+  async revokeQuoteAccessTokens(quoteId: number): Promise<void> {
+    await db
+      .update(quoteAccessTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(quoteAccessTokens.quoteId, quoteId), isNull(quoteAccessTokens.revokedAt)));
+  }
+
+  async createProposalAccessToken(accessToken: InsertProposalAccessToken): Promise<ProposalAccessToken> {
+    const [created] = await db
+      .insert(proposalAccessTokens)
+      .values(accessToken)
+      .returning();
+    return created;
+  }
+
+  async getProposalAccessToken(token: string): Promise<ProposalAccessToken | undefined> {
+    const [accessToken] = await db
+      .select()
+      .from(proposalAccessTokens)
+      .where(eq(proposalAccessTokens.token, token));
+    return accessToken;
+  }
+
+  async getActiveProposalAccessToken(proposalId: number, asOf: Date): Promise<ProposalAccessToken | undefined> {
+    const [accessToken] = await db
+      .select()
+      .from(proposalAccessTokens)
+      .where(and(
+        eq(proposalAccessTokens.proposalId, proposalId),
+        isNull(proposalAccessTokens.revokedAt),
+        gt(proposalAccessTokens.expiresAt, asOf),
+      ))
+      .orderBy(desc(proposalAccessTokens.createdAt))
+      .limit(1);
+    return accessToken;
+  }
+
+  async revokeProposalAccessTokens(proposalId: number): Promise<void> {
+    await db
+      .update(proposalAccessTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(proposalAccessTokens.proposalId, proposalId), isNull(proposalAccessTokens.revokedAt)));
+  }
+
+  // Quote signature operations
+  async getQuoteSignature(quoteId: number): Promise<QuoteSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(quoteSignatures)
+      .where(eq(quoteSignatures.quoteId, quoteId));
+    return signature;
+  }
+
+  async createQuoteSignature(signature: InsertQuoteSignature): Promise<QuoteSignature> {
+    const [created] = await db
+      .insert(quoteSignatures)
+      .values(signature)
+      .returning();
+    return created;
+  }
+
+  async updateQuoteSignature(id: number, signature: Partial<InsertQuoteSignature>): Promise<QuoteSignature> {
+    const [updated] = await db
+      .update(quoteSignatures)
+      .set(signature)
+      .where(eq(quoteSignatures.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Approve a quote the customer signed: the chosen option's pricing, the approved status and the
+  // signature are written together. The quote row is locked so a second approval sees the first,
+  // and a quote changed since its PDF was signed is a conflict.
+  async approveQuote(quoteId: number, approval: QuoteApproval): Promise<QuoteApprovalResult> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [locked] = await tx
+          .select({ status: quotes.status, assessmentId: quotes.assessmentId, updatedAt: quotes.updatedAt })
+          .from(quotes)
+          .where(eq(quotes.id, quoteId))
+          .for('update');
+        if (
+          !locked ||
+          (locked.status !== 'pending' && locked.status !== 'changes_requested') ||
+          locked.updatedAt?.getTime() !== approval.expectedUpdatedAt?.getTime()
+        ) {
+          return { status: 'conflict' as const };
+        }
+
+        const { option } = approval;
+        if (option) {
+          // Mark the chosen option and clear the others
+          await tx
+            .update(quoteOptions)
+            .set({ selected: sql`${quoteOptions.id} = ${option.optionId}`, updatedAt: new Date() })
+            .where(eq(quoteOptions.quoteId, quoteId));
+          await replaceLineItems(tx, quoteId, option.lineItems);
+          await replaceRecurringItems(tx, quoteId, option.recurringItems);
+          await insertQuoteRevision(tx, option.revision);
+          await tx
+            .update(assessments)
+            .set({ ...option.assessment, updatedAt: new Date() })
+            .where(eq(assessments.id, locked.assessmentId));
+        }
+
+        const [approvedQuote] = await tx
+          .update(quotes)
+          .set({ ...option?.quote, status: 'approved', updatedAt: new Date() })
+          .where(eq(quotes.id, quoteId))
+          .returning();
+        const [signature] = await tx
+          .insert(quoteSignatures)
+          .values(approval.signature)
+          .returning();
+        return { status: 'approved' as const, quote: approvedQuote, signature };
+      });
+    } catch (error) {
+      // A signature recorded by an earlier approval
+      if (isUniqueViolation(error)) {
+        return { status: 'conflict' };
+      }
+      throw error;
+    }
+  }
+
+  // Proposal signature operations
+  async getProposalSignature(proposalId: number): Promise<ProposalSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(proposalSignatures)
+      .where(eq(proposalSignatures.proposalId, proposalId));
+    return signature;
+  }
+
+  async createProposalSignature(signature: InsertProposalSignature): Promise<ProposalSignature> {
+    const [created] = await db
+      .insert(proposalSignatures)
+      .values(signature)
+      .returning();
+    return created;
+  }
+
+  async updateProposalSignature(id: number, signature: Partial<InsertProposalSignature>): Promise<ProposalSignature> {
+    const [updated] = await db
+      .update(proposalSignatures)
+      .set(signature)
+      .where(eq(proposalSignatures.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Quote comment operations
+  async getQuoteComments(quoteId: number): Promise<QuoteComment[]> {
+    return await db
+      .select()
+      .from(quoteComments)
+      .where(eq(quoteComments.quoteId, quoteId))
+      .orderBy(asc(quoteComments.createdAt), asc(quoteComments.id));
+  }
+
+  async createQuoteComment(comment: InsertQuoteComment): Promise<QuoteComment> {
+    const [created] = await db
+      .insert(quoteComments)
+      .values(comment)
+      .returning();
+    return created;
+  }
+
+  async releaseHeldQuoteComments(quoteId: number): Promise<QuoteComment[]> {
+    return await db
+      .update(quoteComments)
+      .set({ notificationHeld: false })
+      .where(and(eq(quoteComments.quoteId, quoteId), eq(quoteComments.notificationHeld, true)))
+      .returning();
+  }
+
+  // Promo code operations
+  async getPromoCodes(): Promise<PromoCode[]> {
+    return await db
+      .select()
+      .from(promoCodes)
+      .orderBy(desc(promoCodes.createdAt));
+  }
+
+  async getPromoCode(id: number): Promise<PromoCode | undefined> {
+    const [promoCode] = await db
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.id, id));
+    return promoCode;
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const [promoCode] = await db
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.code, code));
+    return promoCode;
+  }
+
+  async createPromoCode(promoCode: InsertPromoCode & { createdBy?: string }): Promise<PromoCode> {
+    const [created] = await db
+      .insert(promoCodes)
+      .values(promoCode)
+      .returning();
+    return created;
+  }
+
+  async updatePromoCode(id: number, promoCode: Partial<InsertPromoCode>): Promise<PromoCode> {
+    const [updated] = await db
+      .update(promoCodes)
+      .set(promoCode)
+      .where(eq(promoCodes.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Count a redemption only while the code is active, unexpired and under its limit. The check and
+  // the increment are one statement, so concurrent redemptions cannot exceed the limit.
+  // Locks the quote row so concurrent requests can't both add a promo code; the unique index on
+  // quote_adjustments backs this up. Nothing is redeemed unless the adjustment is added.
+  async redeemPromoCodeOnQuote(promoCodeId: number, adjustment: InsertQuoteAdjustment, asOf: Date): Promise<PromoCodeRedemption> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: quotes.id }).from(quotes).where(eq(quotes.id, adjustment.quoteId)).for('update');
+
+      const [existing] = await tx
+        .select({ id: quoteAdjustments.id })
+        .from(quoteAdjustments)
+        .where(and(eq(quoteAdjustments.quoteId, adjustment.quoteId), isNotNull(quoteAdjustments.promoCodeId)));
+      if (existing) {
+        return { status: 'already_applied' as const };
+      }
+
+      const [promoCode] = await tx
+        .update(promoCodes)
+        .set({ redemptionCount: sql`${promoCodes.redemptionCount} + 1` })
+        .where(and(
+          eq(promoCodes.id, promoCodeId),
+          eq(promoCodes.isActive, true),
+          or(isNull(promoCodes.expiresAt), gt(promoCodes.expiresAt, asOf)),
+          or(isNull(promoCodes.maxRedemptions), sql`${promoCodes.redemptionCount} < ${promoCodes.maxRedemptions}`),
+        ))
+        .returning();
+      if (!promoCode) {
+        return { status: 'limit_reached' as const };
+      }
+
+      const [created] = await tx
+        .insert(quoteAdjustments)
+        .values({ ...adjustment, promoCodeId })
+        .returning();
+      return { status: 'redeemed' as const, promoCode, adjustment: created };
+    });
+  }
+
+  async releasePromoCode(id: number): Promise<void> {
+    await db
+      .update(promoCodes)
+      .set({ redemptionCount: sql`greatest(${promoCodes.redemptionCount} - 1, 0)` })
+      .where(eq(promoCodes.id, id));
+  }
+
+  // Tax rate operations
+  async getTaxRates(): Promise<TaxRate[]> {
+    return await db
+      .select()
+      .from(taxRates)
+      .orderBy(desc(taxRates.country), asc(taxRates.name));
+  }
+
+  async createTaxRates(rates: InsertTaxRate[]): Promise<void> {
+    if (rates.length === 0) {
+      return;
+    }
+    await db
+      .insert(taxRates)
+      .values(rates)
+      .onConflictDoNothing();
+  }
+
+  async updateTaxRate(region: string, rate: Pick<InsertTaxRate, "rate" | "laborTaxable">): Promise<TaxRate | undefined> {
+    const [updated] = await db
+      .update(taxRates)
+      .set({ ...rate, updatedAt: new Date() })
+      .where(eq(taxRates.region, region))
+      .returning();
+    return updated;
+  }
+
+  // Travel band operations
+  async getTravelBands(): Promise<TravelBand[]> {
+    return await db
+      .select()
+      .from(travelBands)
+      .orderBy(asc(travelBands.minMiles));
+  }
+
+  async replaceTravelBands(bands: InsertTravelBand[]): Promise<TravelBand[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(travelBands);
+      if (bands.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(travelBands)
+        .values(bands)
+        .returning();
+    });
+  }
+
+  // Vehicle class operations
+  async getVehicleClasses(): Promise<VehicleClass[]> {
+    return await db
+      .select()
+      .from(vehicleClasses)
+      .orderBy(asc(vehicleClasses.sortOrder));
+  }
+
+  async createVehicleClasses(classes: InsertVehicleClass[]): Promise<void> {
+    if (classes.length === 0) {
+      return;
+    }
+    await db
+      .insert(vehicleClasses)
+      .values(classes)
+      .onConflictDoNothing();
+  }
+
+  async updateVehicleClass(code: string, multipliers: Pick<InsertVehicleClass, "installationMultipliers" | "cameraMultipliers">): Promise<VehicleClass | undefined> {
+    const [updated] = await db
+      .update(vehicleClasses)
+      .set({ ...multipliers, updatedAt: new Date() })
+      .where(eq(vehicleClasses.code, code))
+      .returning();
+    return updated;
+  }
+
+  // Quote approval rule operations
+  async getApprovalRules(): Promise<ApprovalRule[]> {
+    return await db
+      .select()
+      .from(approvalRules)
+      .orderBy(asc(approvalRules.id));
+  }
+
+  async replaceApprovalRules(rules: InsertApprovalRule[]): Promise<ApprovalRule[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(approvalRules);
+      if (rules.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(approvalRules)
+        .values(rules)
+        .returning();
+    });
+  }
+
+  // Product catalog operations
+  async getProducts(): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .orderBy(asc(products.sku));
+  }
+
+  async getProductsByIds(ids: number[]): Promise<Product[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(products)
+      .where(inArray(products.id, ids));
+  }
+
+  async getProductBySku(sku: string): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(eq(products.sku, sku));
+    return product;
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const [created] = await db
+      .insert(products)
+      .values(product)
+      .returning();
+    return created;
+  }
+
+  async updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [updated] = await db
+      .update(products)
+      .set({ ...product, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    return updated;
   }
 
   // Partner invitation operations
@@ -460,6 +1553,123 @@ export class DatabaseStorage implements IStorage {
     
     return await query.orderBy(desc(signupAnalytics.timestamp));
   }
+
+  // Rate card operations
+  async getRateCardVersions(): Promise<RateCardVersion[]> {
+    return await db
+      .select()
+      .from(rateCardVersions)
+      .orderBy(desc(rateCardVersions.versionNumber));
+  }
+
+  async getRateCardVersion(id: number): Promise<RateCardVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(rateCardVersions)
+      .where(eq(rateCardVersions.id, id));
+    return version;
+  }
+
+  async getActiveRateCardVersion(asOf: Date = new Date()): Promise<RateCardVersion | undefined> {
+    // The active version is the most recent one whose effective date has passed
+    const [version] = await db
+      .select()
+      .from(rateCardVersions)
+      .where(lte(rateCardVersions.effectiveFrom, asOf))
+      .orderBy(desc(rateCardVersions.effectiveFrom), desc(rateCardVersions.versionNumber))
+      .limit(1);
+    return version;
+  }
+
+  async createRateCardVersion(
+    version: Omit<InsertRateCardVersion, "versionNumber">,
+    entries: Omit<InsertRateCardEntry, "versionId">[]
+  ): Promise<RateCardVersion> {
+    return await db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ versionNumber: rateCardVersions.versionNumber })
+        .from(rateCardVersions)
+        .orderBy(desc(rateCardVersions.versionNumber))
+        .limit(1);
+
+      const [created] = await tx
+        .insert(rateCardVersions)
+        .values({ ...version, versionNumber: (latest?.versionNumber || 0) + 1 })
+        .returning();
+
+      if (entries.length > 0) {
+        await tx
+          .insert(rateCardEntries)
+          .values(entries.map((entry) => ({ ...entry, versionId: created.id })));
+      }
+
+      return created;
+    });
+  }
+
+  async getRateCardEntries(versionId: number, serviceType?: string): Promise<RateCardEntry[]> {
+    const conditions = [eq(rateCardEntries.versionId, versionId)];
+    if (serviceType) {
+      conditions.push(eq(rateCardEntries.serviceType, serviceType as RateCardEntry["serviceType"]));
+    }
+    return await db
+      .select()
+      .from(rateCardEntries)
+      .where(and(...conditions))
+      .orderBy(rateCardEntries.id);
+  }
+}
+
+async function insertQuoteRevision(tx: Transaction, revision: Omit<InsertQuoteRevision, "revisionNumber" | "revisionLetter">): Promise<QuoteRevision> {
+  const [latest] = await tx
+    .select({ revisionNumber: quoteRevisions.revisionNumber })
+    .from(quoteRevisions)
+    .where(eq(quoteRevisions.quoteId, revision.quoteId))
+    .orderBy(desc(quoteRevisions.revisionNumber))
+    .limit(1);
+
+  const revisionNumber = (latest?.revisionNumber || 0) + 1;
+  const [created] = await tx
+    .insert(quoteRevisions)
+    .values({ ...revision, revisionNumber, revisionLetter: toRevisionLetter(revisionNumber) })
+    .returning();
+  return created;
+}
+
+async function replaceLineItems(tx: Transaction, quoteId: number, items: Omit<InsertQuoteLineItem, "quoteId">[]): Promise<QuoteLineItem[]> {
+  await tx.delete(quoteLineItems).where(eq(quoteLineItems.quoteId, quoteId));
+  if (items.length === 0) {
+    return [];
+  }
+  return await tx
+    .insert(quoteLineItems)
+    .values(items.map((item) => ({ ...item, quoteId })))
+    .returning();
+}
+
+async function replaceRecurringItems(tx: Transaction, quoteId: number, items: Omit<InsertQuoteRecurringItem, "quoteId">[]): Promise<QuoteRecurringItem[]> {
+  await tx.delete(quoteRecurringItems).where(eq(quoteRecurringItems.quoteId, quoteId));
+  if (items.length === 0) {
+    return [];
+  }
+  return await tx
+    .insert(quoteRecurringItems)
+    .values(items.map((item) => ({ ...item, quoteId })))
+    .returning();
+}
+
+// Postgres unique_violation
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === '23505';
+}
+
+// Revision 1 is "A", 26 is "Z", 27 is "AA"
+function toRevisionLetter(revisionNumber: number): string {
+  let letter = '';
+  for (let n = revisionNumber; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
 }
 
 export const storage = new DatabaseStorage();
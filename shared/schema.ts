@@ -9,10 +9,11 @@ import {
   integer,
   boolean,
   decimal,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -50,9 +51,37 @@ export const organizations = pgTable("organizations", {
   partnerStatus: varchar("partner_status").default("pending").notNull(), // pending, approved, suspended
   partnerType: varchar("partner_type").default("installer").notNull(), // installer, sales_agent, reseller
   commission: decimal("commission", { precision: 5, scale: 2 }).default("0.00"),
+  // Quote numbering, e.g. prefix "ACME" with format "{PREFIX}-{YYYY}-{SEQ:4}"; defaults apply when null
+  quoteNumberPrefix: varchar("quote_number_prefix"),
+  quoteNumberFormat: varchar("quote_number_format"),
+  // Service base location that travel charges are measured from, geocoded when it is saved
+  baseAddress: text("base_address"),
+  baseLatitude: decimal("base_latitude", { precision: 9, scale: 6 }),
+  baseLongitude: decimal("base_longitude", { precision: 9, scale: 6 }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A customer with many sites, e.g. a retail chain or franchise. Each site is an assessment with its own
+// address and technical answers; the customer and sales executive details are shared.
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  name: text("name").notNull(),
+  serviceType: varchar("service_type", { enum: ["site-assessment", "fleet-tracking", "fleet-camera"] }).default("site-assessment").notNull(),
+  salesExecutiveName: text("sales_executive_name").notNull(),
+  salesExecutiveEmail: varchar("sales_executive_email").notNull(),
+  salesExecutivePhone: varchar("sales_executive_phone"),
+  customerCompanyName: text("customer_company_name").notNull(),
+  customerContactName: text("customer_contact_name").notNull(),
+  customerEmail: varchar("customer_email").notNull(),
+  customerPhone: varchar("customer_phone"),
+  industry: varchar("industry"),
+  taxExempt: boolean("tax_exempt").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const assessments = pgTable("assessments", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -74,6 +103,7 @@ export const assessments = pgTable("assessments", {
   siteAddress: text("site_address").notNull(),
   industry: varchar("industry"),
   preferredInstallationDate: timestamp("preferred_installation_date"),
+  taxExempt: boolean("tax_exempt").default(false), // certificate uploaded as a tax_certificate file
   
   // Site Assessment
   buildingType: varchar("building_type"),
@@ -118,11 +148,24 @@ export const assessments = pgTable("assessments", {
   vehicleMake: varchar("vehicle_make"),
   vehicleModel: varchar("vehicle_model"),
   // Vehicle details arrays for multiple vehicles
-  vehicleDetails: text("vehicle_details"), // JSON array of {year, make, model}
+  vehicleDetails: text("vehicle_details"), // JSON array of {year, make, model, vehicleClass}
+  vehicleClass: varchar("vehicle_class"), // fleet default for vehicles without their own class; also set on fleet camera assessments
   trackerType: varchar("tracker_type"),
+  installationMethod: varchar("installation_method"), // obd-port, hardwired, magnetic
   iotTrackingPartner: varchar("iot_tracking_partner"),
   carrierSim: varchar("carrier_sim"),
   
+  // Hardware added from the product catalog
+  catalogItems: jsonb("catalog_items").$type<{ productId: number; quantity: number }[]>(),
+  termMonths: integer("term_months"), // contract term for monthly products
+
+  // Proposal combining this assessment's quote with other services for the same customer
+  proposalId: integer("proposal_id").references(() => proposals.id, { onDelete: "set null" }),
+
+  // Multi-site project this assessment is a site of; customer and sales executive details come from the project
+  projectId: integer("project_id").references(() => projects.id),
+  siteName: text("site_name"), // e.g. store number, for sites in a project
+
   // Quote Info
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }),
   additionalNotes: text("additional_notes"),
@@ -135,6 +178,35 @@ export const assessments = pgTable("assessments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One pricing rule applied when a quote was priced, with the inputs it used and what it produced
+export interface PricingTraceStep {
+  kind: 'labor' | 'hardware' | 'multiplier' | 'travel' | 'adjustment' | 'tax' | 'recurring';
+  rule: string;
+  inputs: Record<string, string | number | boolean | null>;
+  result: string;
+}
+
+// Installation labor for one vehicle of a fleet, from the labor multiplier of its vehicle class
+export interface VehicleLaborLine {
+  vehicle: string; // e.g. "Vehicle 2: 2019 Freightliner Cascadia"
+  vehicleClass: string | null; // class name, null when neither the vehicle nor the fleet has one
+  multiplier: number;
+  hours: number;
+}
+
+// One change the customer asked for when requesting changes to a quote
+export interface QuoteChangeItem {
+  category: 'hardware' | 'installation' | 'scope' | 'pricing' | 'schedule' | 'other';
+  details: string;
+}
+
+// The customer's open request for changes, cleared when the partner issues a new revision
+export interface QuoteChangeRequest {
+  items: QuoteChangeItem[];
+  requestedBy: string;
+  requestedAt: string; // ISO timestamp
+}
+
 export const quotes = pgTable("quotes", {
   id: serial("id").primaryKey(),
   assessmentId: integer("assessment_id").notNull().references(() => assessments.id),
@@ -157,10 +229,48 @@ export const quotes = pgTable("quotes", {
   laborHoldHours: decimal("labor_hold_hours", { precision: 5, scale: 2 }),
   laborHoldCost: decimal("labor_hold_cost", { precision: 10, scale: 2 }),
   hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
+  travelMiles: integer("travel_miles"), // estimated one-way driving distance from the organization base
+  travelCost: decimal("travel_cost", { precision: 10, scale: 2 }),
   
-  status: varchar("status").default("pending"), // pending, approved, rejected
+  // Sales tax. The total cost is the subtotal plus tax; quotes created before tax was tracked have no subtotal.
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
+  taxRegion: varchar("tax_region"), // state or province code taken from the site address
+  taxRate: decimal("tax_rate", { precision: 6, scale: 3 }), // percent
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }),
+  
+  // Recurring charges billed monthly for the contract term, on top of the one-time total cost
+  monthlyTotal: decimal("monthly_total", { precision: 10, scale: 2 }),
+  termMonths: integer("term_months"),
+  
+  // Rules applied to reach the price, in order. Quotes priced before this was recorded have none.
+  pricingTrace: jsonb("pricing_trace").$type<PricingTraceStep[]>(),
+
+  // Installation hours per vehicle for fleet quotes
+  vehicleLabor: jsonb("vehicle_labor").$type<VehicleLaborLine[]>(),
+  
+  status: varchar("status").default("pending"), // pending, pending_approval, changes_requested, approved, rejected, expired
   pdfUrl: text("pdf_url"),
   emailSent: boolean("email_sent").default(false),
+  expiresAt: timestamp("expires_at"), // pending quotes past this date are expired by the scheduled job
+  
+  // Rate card version the quote was priced with
+  rateCardVersionId: integer("rate_card_version_id").references(() => rateCardVersions.id),
+  
+  // Internal sign-off for quotes matching an approval rule. The quote stays pending_approval, and out of
+  // the customer portal, until an admin approves the pricing.
+  approvalStatus: varchar("approval_status", { enum: ["requested", "approved", "rejected"] }),
+  approvalReasons: jsonb("approval_reasons").$type<string[]>(), // the rules the pricing matched
+  approvalNote: text("approval_note"),
+  approvalDecidedBy: varchar("approval_decided_by").references(() => users.id),
+  approvalDecidedAt: timestamp("approval_decided_at"),
+  
+  // Changes the customer asked for; set while the quote is changes_requested
+  changeRequest: jsonb("change_request").$type<QuoteChangeRequest>(),
+  
+  // Partner commission, calculated when the quote is approved
+  commissionRate: decimal("commission_rate", { precision: 5, scale: 2 }),
+  commissionBasis: varchar("commission_basis"), // labor, total
+  commissionAmount: decimal("commission_amount", { precision: 10, scale: 2 }),
   
   // HubSpot integration fields
   hubspotDealId: varchar("hubspot_deal_id"),
@@ -169,18 +279,354 @@ export const quotes = pgTable("quotes", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Itemized charges on a quote
+export const quoteLineItems = pgTable("quote_line_items", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  unit: varchar("unit").notNull(), // hours, ft, each, mi
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  category: varchar("category").notNull(), // labor, labor_hold, hardware, travel, adjustment
+  taxable: boolean("taxable").default(false).notNull(),
+  sku: varchar("sku"), // set for catalog products
+  productId: integer("product_id").references(() => products.id),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Monthly charges on a quote, such as platform fees, SIM and data plans. They are not part of the
+// one-time total, so discounts and sales tax do not apply to them.
+export const quoteRecurringItems = pgTable("quote_recurring_items", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  sku: varchar("sku"),
+  productId: integer("product_id").references(() => products.id),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // per month
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // per month
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Several quotes for one customer, usually for different services, sent as one combined quote.
+// The customer approves or rejects the proposal as a whole; each quote keeps its own pricing and SOW.
+export const proposals = pgTable("proposals", {
+  id: serial("id").primaryKey(),
+  proposalNumber: varchar("proposal_number").notNull().unique(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  customerCompanyName: text("customer_company_name").notNull(),
+  customerContactName: text("customer_contact_name").notNull(),
+  customerEmail: varchar("customer_email").notNull(),
+  status: varchar("status").default("pending").notNull(), // pending, approved, rejected
+  pdfUrl: text("pdf_url"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Numbered revisions of a quote (rev A, B, C...). Each keeps the pricing and PDF it was issued with;
+// the quote row always holds the latest revision.
+export const quoteRevisions = pgTable(
+  "quote_revisions",
+  {
+    id: serial("id").primaryKey(),
+    quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+    revisionNumber: integer("revision_number").notNull(),
+    revisionLetter: varchar("revision_letter").notNull(), // A, B, C... AA
+    totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
+    hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
+    rateCardVersionId: integer("rate_card_version_id").references(() => rateCardVersions.id),
+    taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }),
+    lineItems: jsonb("line_items").$type<{
+      description: string;
+      quantity: number;
+      unit: string;
+      unitPrice: number;
+      total: number;
+      category: string;
+      taxable: boolean;
+      sku?: string | null;
+    }[]>().notNull(),
+    pdfUrl: text("pdf_url"),
+    notes: text("notes"),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_quote_revision_number").on(table.quoteId, table.revisionNumber)],
+);
+
+// Assessment answers a quote option can change, on top of its catalog products and contract term
+export const QUOTE_OPTION_SCOPE_FIELDS = [
+  'connectionUsage',
+  'lowSignalAntennaCable',
+  'antennaType',
+  'antennaInstallationLocation',
+  'antennaCable',
+  'dualWanSupport',
+  'routerMake',
+  'routerModel',
+  'routerCount',
+  'cableFootage',
+  'deviceCount',
+  'cameraSolutionType',
+  'numberOfCameras',
+  'trackerType',
+  'catalogItems',
+  'termMonths',
+] as const;
+
+export type QuoteOptionScope = Partial<Pick<typeof assessments.$inferSelect, typeof QUOTE_OPTION_SCOPE_FIELDS[number]>>;
+
+// Alternative scopes offered on one quote, e.g. good/better/best. Each option is priced like the quote
+// with its own answers and products; the one the customer picks becomes the quote's approved scope.
+export const quoteOptions = pgTable("quote_options", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  scope: jsonb("scope").$type<QuoteOptionScope>().notNull(),
+
+  // Pricing of the option, refreshed whenever the quote is re-priced
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }),
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
+  monthlyTotal: decimal("monthly_total", { precision: 10, scale: 2 }),
+  termMonths: integer("term_months"),
+  lineItems: jsonb("line_items").$type<(typeof quoteRevisions.$inferSelect)['lineItems']>().notNull(),
+  recurringItems: jsonb("recurring_items").$type<(typeof quoteRevisions.$inferSelect)['lineItems']>().notNull(),
+  pricingFields: jsonb("pricing_fields").$type<Partial<typeof quotes.$inferInsert>>(), // quote pricing columns copied to the quote when the option is chosen
+
+  selected: boolean("selected").default(false).notNull(), // chosen by the customer on approval
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Discount codes managed by admins. A code can be limited to a number of redemptions and an expiry date.
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: varchar("code").notNull().unique(),
+  description: text("description"),
+  discountType: varchar("discount_type").notNull(), // percent, fixed
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(),
+  maxRedemptions: integer("max_redemptions"), // null for unlimited
+  redemptionCount: integer("redemption_count").default(0).notNull(),
+  expiresAt: timestamp("expires_at"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Discounts and manual adjustments applied to a quote. They are re-applied whenever
+// the quote is re-priced and appear as line items with the "adjustment" category.
+export const quoteAdjustments = pgTable(
+  "quote_adjustments",
+  {
+    id: serial("id").primaryKey(),
+    quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+    type: varchar("type").notNull(), // percent, fixed, manual
+    description: text("description").notNull(),
+    value: decimal("value", { precision: 10, scale: 2 }).notNull(), // percent off, amount off, or signed amount for manual adjustments
+    reason: text("reason"), // required for manual adjustments
+    promoCodeId: integer("promo_code_id").references(() => promoCodes.id), // set when the discount came from a promo code
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  // A quote can carry one promo code
+  (table) => [uniqueIndex("IDX_quote_adjustment_promo_code").on(table.quoteId).where(sql`${table.promoCodeId} is not null`)],
+);
+
+// Random tokens in customer portal links. A quote has at most one active token; reissuing revokes the old one.
+export const quoteAccessTokens = pgTable("quote_access_tokens", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  token: varchar("token").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Random tokens in combined proposal links, issued and revoked like quote access tokens
+export const proposalAccessTokens = pgTable("proposal_access_tokens", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+  token: varchar("token").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Customer e-signature captured when a quote is approved, with the audit trail printed on the signed PDF
+export const quoteSignatures = pgTable("quote_signatures", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().unique().references(() => quotes.id, { onDelete: "cascade" }),
+  signerName: text("signer_name").notNull(),
+  signerTitle: text("signer_title").notNull(),
+  signatureType: varchar("signature_type").notNull(), // drawn, typed
+  signatureData: text("signature_data").notNull(), // PNG data URL for drawn signatures, the typed text otherwise
+  termsAcceptedAt: timestamp("terms_accepted_at").notNull(),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  quotePdfHash: varchar("quote_pdf_hash").notNull(), // SHA-256 of the quote PDF that was signed
+  signedPdfUrl: text("signed_pdf_url"), // quote PDF with the signature page and audit certificate
+  signedAt: timestamp("signed_at").defaultNow().notNull(),
+});
+
+// The customer's signature on a combined proposal. Each quote in it is signed as well; this covers the proposal PDF.
+export const proposalSignatures = pgTable("proposal_signatures", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").notNull().unique().references(() => proposals.id, { onDelete: "cascade" }),
+  signerName: text("signer_name").notNull(),
+  signerTitle: text("signer_title").notNull(),
+  signatureType: varchar("signature_type").notNull(), // drawn, typed
+  signatureData: text("signature_data").notNull(),
+  termsAcceptedAt: timestamp("terms_accepted_at").notNull(),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  proposalPdfHash: varchar("proposal_pdf_hash").notNull(), // SHA-256 of the proposal PDF that was signed
+  signedPdfUrl: text("signed_pdf_url"), // proposal PDF with the signature page and audit certificate
+  signedAt: timestamp("signed_at").defaultNow().notNull(),
+});
+
+// Messages between the customer and the partner about a quote, in one thread
+export const quoteComments = pgTable("quote_comments", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  authorType: varchar("author_type").notNull(), // customer, partner
+  authorName: text("author_name").notNull(),
+  authorUserId: varchar("author_user_id").references(() => users.id), // set for partner comments
+  message: text("message").notNull(),
+  notificationHeld: boolean("notification_held").default(false).notNull(), // partner comments on a quote awaiting pricing approval, emailed once it no longer does
+  notificationOrigin: text("notification_origin"), // app base URL for the link in a held notification
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const uploadedFiles = pgTable("uploaded_files", {
   id: serial("id").primaryKey(),
   assessmentId: integer("assessment_id").notNull().references(() => assessments.id),
   fileName: text("file_name").notNull(),
   originalName: text("original_name").notNull(),
-  fileType: varchar("file_type").notNull(), // photo, document
+  fileType: varchar("file_type").notNull(), // photo, document, tax_certificate
   mimeType: varchar("mime_type").notNull(),
   fileSize: integer("file_size").notNull(),
   filePath: text("file_path").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Quote number counters, one per rendered number pattern (e.g. "ACME-2025-#"),
+// so a yearly format starts a new counter each year
+export const quoteNumberSequences = pgTable("quote_number_sequences", {
+  scope: varchar("scope").primaryKey(),
+  lastValue: integer("last_value").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Sales tax rates by US state or Canadian province code, seeded with statewide base rates
+export const taxRates = pgTable("tax_rates", {
+  region: varchar("region").primaryKey(), // e.g. CA, TX, ON
+  country: varchar("country").notNull(), // US, CA
+  name: varchar("name").notNull(),
+  rate: decimal("rate", { precision: 6, scale: 3 }).notNull(), // percent
+  laborTaxable: boolean("labor_taxable").default(false).notNull(), // whether installation labor is taxed as well as hardware
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Travel charge bands by one-way distance from the organization base to the site.
+// Sites closer than the lowest band, or beyond all bands, have no travel charge.
+export const travelBands = pgTable("travel_bands", {
+  id: serial("id").primaryKey(),
+  minMiles: integer("min_miles").notNull(),
+  maxMiles: integer("max_miles"), // exclusive; null for no upper limit
+  chargeType: varchar("charge_type", { enum: ["trip", "mileage"] }).notNull(), // flat trip charge or per round-trip mile
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Vehicle classes a fleet is made up of. Each vehicle's installation labor is the rate card hours times
+// its class multiplier for the installation method (fleet tracking) or camera solution type (fleet camera).
+export const vehicleClasses = pgTable("vehicle_classes", {
+  code: varchar("code").primaryKey(), // e.g. light-duty, heavy-duty
+  name: varchar("name").notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  installationMultipliers: jsonb("installation_multipliers").$type<Record<string, number>>().notNull(), // by installation method
+  cameraMultipliers: jsonb("camera_multipliers").$type<Record<string, number>>().notNull(), // by camera solution type
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Thresholds that send a quote to admins for sign-off before it can reach the customer. A quote needs
+// approval when its discount is over a percentage or amount of the list price, or its total is over an amount.
+export const approvalRules = pgTable("approval_rules", {
+  id: serial("id").primaryKey(),
+  ruleType: varchar("rule_type", { enum: ["discount_percent", "discount_amount", "total_amount"] }).notNull(),
+  threshold: decimal("threshold", { precision: 10, scale: 2 }).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Hardware product catalog managed by admins. Partners add products to a quote from the assessment wizard.
+export const products = pgTable("products", {
+  id: serial("id").primaryKey(),
+  sku: varchar("sku").notNull().unique(),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  cost: decimal("cost", { precision: 10, scale: 2 }).notNull(), // our cost, never shown to partners or customers
+  sellPrice: decimal("sell_price", { precision: 10, scale: 2 }).notNull(), // per month for monthly products
+  billingPeriod: varchar("billing_period", { enum: ["one_time", "monthly"] }).default("one_time").notNull(),
+  serviceTypes: jsonb("service_types").$type<string[]>().notNull(), // compatible service types
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Rate card versions. Each change to the rate card creates a new immutable version.
+export const rateCardVersions = pgTable("rate_card_versions", {
+  id: serial("id").primaryKey(),
+  versionNumber: integer("version_number").notNull().unique(),
+  effectiveFrom: timestamp("effective_from").defaultNow().notNull(),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Rate card pricing parameters for a version, editable from the admin dashboard
+export const rateCardEntries = pgTable(
+  "rate_card_entries",
+  {
+    id: serial("id").primaryKey(),
+    versionId: integer("version_id").notNull().references(() => rateCardVersions.id, { onDelete: "cascade" }),
+    serviceType: varchar("service_type", { enum: ["site-assessment", "fleet-tracking", "fleet-camera"] }).notNull(),
+    parameterKey: varchar("parameter_key").notNull(), // e.g. hourlyRate, cablePricePerFoot
+    label: text("label").notNull(),
+    value: decimal("value", { precision: 10, scale: 2 }).notNull(),
+    unit: varchar("unit"), // usd_per_hour, usd_per_foot, hours, vehicles, devices
+    description: text("description"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_rate_card_version_service_parameter").on(table.versionId, table.serviceType, table.parameterKey)],
+);
+
+// Per-organization pricing overrides. A row with service type "all" applies to every service;
+// service-specific rows take precedence over it.
+export const organizationPricingOverrides = pgTable(
+  "organization_pricing_overrides",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    serviceType: varchar("service_type", { enum: ["all", "site-assessment", "fleet-tracking", "fleet-camera"] }).notNull(),
+    hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }), // replaces the rate card hourly rate when set
+    priceMultiplier: decimal("price_multiplier", { precision: 5, scale: 3 }).default("1.000").notNull(),
+    updatedBy: varchar("updated_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_org_pricing_override_service").on(table.organizationId, table.serviceType)],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   organizations: many(organizations),
@@ -193,6 +639,7 @@ export const organizationsRelations = relations(organizations, ({ one, many }) =
     references: [users.id],
   }),
   assessments: many(assessments),
+  pricingOverrides: many(organizationPricingOverrides),
 }));
 
 export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
@@ -204,15 +651,127 @@ export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
     fields: [assessments.organizationId],
     references: [organizations.id],
   }),
+  proposal: one(proposals, {
+    fields: [assessments.proposalId],
+    references: [proposals.id],
+  }),
+  project: one(projects, {
+    fields: [assessments.projectId],
+    references: [projects.id],
+  }),
   quotes: many(quotes),
   files: many(uploadedFiles),
 }));
 
-export const quotesRelations = relations(quotes, ({ one }) => ({
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  user: one(users, {
+    fields: [projects.userId],
+    references: [users.id],
+  }),
+  sites: many(assessments),
+}));
+
+export const proposalsRelations = relations(proposals, ({ one, many }) => ({
+  user: one(users, {
+    fields: [proposals.userId],
+    references: [users.id],
+  }),
+  assessments: many(assessments),
+  accessTokens: many(proposalAccessTokens),
+  signature: one(proposalSignatures),
+}));
+
+export const quotesRelations = relations(quotes, ({ one, many }) => ({
   assessment: one(assessments, {
     fields: [quotes.assessmentId],
     references: [assessments.id],
   }),
+  lineItems: many(quoteLineItems),
+  revisions: many(quoteRevisions),
+  options: many(quoteOptions),
+  adjustments: many(quoteAdjustments),
+  accessTokens: many(quoteAccessTokens),
+  signature: one(quoteSignatures),
+  comments: many(quoteComments),
+  rateCardVersion: one(rateCardVersions, {
+    fields: [quotes.rateCardVersionId],
+    references: [rateCardVersions.id],
+  }),
+}));
+
+export const quoteLineItemsRelations = relations(quoteLineItems, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteLineItems.quoteId],
+    references: [quotes.id],
+  }),
+}));
+
+export const quoteRevisionsRelations = relations(quoteRevisions, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteRevisions.quoteId],
+    references: [quotes.id],
+  }),
+  rateCardVersion: one(rateCardVersions, {
+    fields: [quoteRevisions.rateCardVersionId],
+    references: [rateCardVersions.id],
+  }),
+}));
+
+export const quoteOptionsRelations = relations(quoteOptions, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteOptions.quoteId],
+    references: [quotes.id],
+  }),
+}));
+
+export const promoCodesRelations = relations(promoCodes, ({ many }) => ({
+  adjustments: many(quoteAdjustments),
+}));
+
+export const quoteAdjustmentsRelations = relations(quoteAdjustments, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteAdjustments.quoteId],
+    references: [quotes.id],
+  }),
+  promoCode: one(promoCodes, {
+    fields: [quoteAdjustments.promoCodeId],
+    references: [promoCodes.id],
+  }),
+}));
+
+export const quoteAccessTokensRelations = relations(quoteAccessTokens, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteAccessTokens.quoteId],
+    references: [quotes.id],
+  }),
+}));
+
+export const proposalAccessTokensRelations = relations(proposalAccessTokens, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [proposalAccessTokens.proposalId],
+    references: [proposals.id],
+  }),
+}));
+
+export const quoteSignaturesRelations = relations(quoteSignatures, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteSignatures.quoteId],
+    references: [quotes.id],
+  }),
+}));
+
+export const proposalSignaturesRelations = relations(proposalSignatures, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [proposalSignatures.proposalId],
+    references: [proposals.id],
+  }),
+}));
+
+export const quoteCommentsRelations = relations(quoteComments, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteComments.quoteId],
+    references: [quotes.id],
+  }),
 }));
 
 export const uploadedFilesRelations = relations(uploadedFiles, ({ one }) => ({
@@ -222,6 +781,25 @@ export const uploadedFilesRelations = relations(uploadedFiles, ({ one }) => ({
   }),
 }));
 
+export const rateCardVersionsRelations = relations(rateCardVersions, ({ many }) => ({
+  entries: many(rateCardEntries),
+  quotes: many(quotes),
+}));
+
+export const organizationPricingOverridesRelations = relations(organizationPricingOverrides, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationPricingOverrides.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const rateCardEntriesRelations = relations(rateCardEntries, ({ one }) => ({
+  version: one(rateCardVersions, {
+    fields: [rateCardEntries.versionId],
+    references: [rateCardVersions.id],
+  }),
+}));
+
 // Partner invitations tracking table
 export const partnerInvitations = pgTable("partner_invitations", {
   id: serial("id").primaryKey(),
@@ -268,11 +846,60 @@ export const signupAnalyticsRelations = relations(signupAnalytics, ({ one }) =>
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users);
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({ id: true, createdAt: true });
-export const insertAssessmentSchema = createInsertSchema(assessments).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertQuoteSchema = createInsertSchema(quotes).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAssessmentSchema = createInsertSchema(assessments, {
+  catalogItems: z.array(z.object({ productId: z.number().int(), quantity: z.number().int().positive() })).nullish(),
+}).omit({ id: true, proposalId: true, projectId: true, createdAt: true, updatedAt: true });
+export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertProposalSchema = createInsertSchema(proposals).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertQuoteSchema = createInsertSchema(quotes, {
+  pricingTrace: z.array(z.object({
+    kind: z.enum(['labor', 'hardware', 'multiplier', 'travel', 'adjustment', 'tax', 'recurring']),
+    rule: z.string(),
+    inputs: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+    result: z.string(),
+  })).nullish(),
+  approvalReasons: z.array(z.string()).nullish(),
+  vehicleLabor: z.array(z.object({
+    vehicle: z.string(),
+    vehicleClass: z.string().nullable(),
+    multiplier: z.number(),
+    hours: z.number(),
+  })).nullish(),
+  changeRequest: z.object({
+    items: z.array(z.object({
+      category: z.enum(['hardware', 'installation', 'scope', 'pricing', 'schedule', 'other']),
+      details: z.string(),
+    })),
+    requestedBy: z.string(),
+    requestedAt: z.string(),
+  }).nullish(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertQuoteLineItemSchema = createInsertSchema(quoteLineItems).omit({ id: true, createdAt: true });
+export const insertQuoteRecurringItemSchema = createInsertSchema(quoteRecurringItems).omit({ id: true, createdAt: true });
+export const insertQuoteRevisionSchema = createInsertSchema(quoteRevisions).omit({ id: true, createdAt: true });
+export const insertPromoCodeSchema = createInsertSchema(promoCodes).omit({ id: true, redemptionCount: true, createdAt: true });
+export const insertQuoteAdjustmentSchema = createInsertSchema(quoteAdjustments).omit({ id: true, createdAt: true });
+export const insertQuoteAccessTokenSchema = createInsertSchema(quoteAccessTokens).omit({ id: true, createdAt: true });
+export const insertProposalAccessTokenSchema = createInsertSchema(proposalAccessTokens).omit({ id: true, createdAt: true });
+export const insertQuoteSignatureSchema = createInsertSchema(quoteSignatures).omit({ id: true, signedAt: true });
+export const insertProposalSignatureSchema = createInsertSchema(proposalSignatures).omit({ id: true, signedAt: true });
+export const insertQuoteCommentSchema = createInsertSchema(quoteComments).omit({ id: true, createdAt: true });
 export const insertUploadedFileSchema = createInsertSchema(uploadedFiles).omit({ id: true, createdAt: true });
 export const insertPartnerInvitationSchema = createInsertSchema(partnerInvitations).omit({ id: true, createdAt: true });
 export const insertSignupAnalyticsSchema = createInsertSchema(signupAnalytics).omit({ id: true, timestamp: true });
+export const insertOrganizationPricingOverrideSchema = createInsertSchema(organizationPricingOverrides).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertTaxRateSchema = createInsertSchema(taxRates).omit({ updatedAt: true });
+export const insertTravelBandSchema = createInsertSchema(travelBands).omit({ id: true, createdAt: true });
+export const insertVehicleClassSchema = createInsertSchema(vehicleClasses, {
+  installationMultipliers: z.record(z.number()),
+  cameraMultipliers: z.record(z.number()),
+}).omit({ updatedAt: true });
+export const insertApprovalRuleSchema = createInsertSchema(approvalRules).omit({ id: true, createdAt: true });
+export const insertProductSchema = createInsertSchema(products, {
+  serviceTypes: z.array(z.string()),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertRateCardVersionSchema = createInsertSchema(rateCardVersions).omit({ id: true, createdAt: true });
+export const insertRateCardEntrySchema = createInsertSchema(rateCardEntries).omit({ id: true, createdAt: true });
 
 // Types
 export type UpsertUser = typeof users.$inferInsert;
@@ -282,10 +909,59 @@ export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type Assessment = typeof assessments.$inferSelect;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type Quote = typeof quotes.$inferSelect;
+// The quote fields sent to the customer portal. Commission, approval notes, the pricing trace and the
+// rate card version are internal.
+export type CustomerQuote = Pick<Quote,
+  'id' | 'assessmentId' | 'quoteNumber' | 'status' | 'totalCost' | 'subtotal' | 'taxRegion' | 'taxRate' | 'taxAmount' |
+  'monthlyTotal' | 'termMonths' | 'travelMiles' | 'travelCost' | 'vehicleLabor' | 'changeRequest' | 'pdfUrl' |
+  'expiresAt' | 'createdAt' | 'updatedAt'>;
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type QuoteLineItem = typeof quoteLineItems.$inferSelect;
+export type InsertQuoteLineItem = z.infer<typeof insertQuoteLineItemSchema>;
+export type QuoteRecurringItem = typeof quoteRecurringItems.$inferSelect;
+export type InsertQuoteRecurringItem = z.infer<typeof insertQuoteRecurringItemSchema>;
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Proposal = typeof proposals.$inferSelect;
+export type InsertProposal = z.infer<typeof insertProposalSchema>;
+export type QuoteNumberSequence = typeof quoteNumberSequences.$inferSelect;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+export type InsertQuoteRevision = typeof quoteRevisions.$inferInsert;
+export type QuoteOption = typeof quoteOptions.$inferSelect;
+export type InsertQuoteOption = typeof quoteOptions.$inferInsert;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type QuoteAdjustment = typeof quoteAdjustments.$inferSelect;
+export type InsertQuoteAdjustment = z.infer<typeof insertQuoteAdjustmentSchema>;
+export type QuoteAccessToken = typeof quoteAccessTokens.$inferSelect;
+export type InsertQuoteAccessToken = z.infer<typeof insertQuoteAccessTokenSchema>;
+export type ProposalAccessToken = typeof proposalAccessTokens.$inferSelect;
+export type InsertProposalAccessToken = z.infer<typeof insertProposalAccessTokenSchema>;
+export type QuoteSignature = typeof quoteSignatures.$inferSelect;
+export type InsertQuoteSignature = z.infer<typeof insertQuoteSignatureSchema>;
+export type ProposalSignature = typeof proposalSignatures.$inferSelect;
+export type InsertProposalSignature = z.infer<typeof insertProposalSignatureSchema>;
+export type QuoteComment = typeof quoteComments.$inferSelect;
+export type InsertQuoteComment = z.infer<typeof insertQuoteCommentSchema>;
 export type UploadedFile = typeof uploadedFiles.$inferSelect;
 export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
 export type PartnerInvitation = typeof partnerInvitations.$inferSelect;
 export type InsertPartnerInvitation = z.infer<typeof insertPartnerInvitationSchema>;
 export type SignupAnalytics = typeof signupAnalytics.$inferSelect;
 export type InsertSignupAnalytics = z.infer<typeof insertSignupAnalyticsSchema>;
+export type TaxRate = typeof taxRates.$inferSelect;
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type TravelBand = typeof travelBands.$inferSelect;
+export type InsertTravelBand = z.infer<typeof insertTravelBandSchema>;
+export type VehicleClass = typeof vehicleClasses.$inferSelect;
+export type InsertVehicleClass = z.infer<typeof insertVehicleClassSchema>;
+export type ApprovalRule = typeof approvalRules.$inferSelect;
+export type InsertApprovalRule = z.infer<typeof insertApprovalRuleSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type RateCardVersion = typeof rateCardVersions.$inferSelect;
+export type InsertRateCardVersion = z.infer<typeof insertRateCardVersionSchema>;
+export type RateCardEntry = typeof rateCardEntries.$inferSelect;
+export type InsertRateCardEntry = z.infer<typeof insertRateCardEntrySchema>;
+export type OrganizationPricingOverride = typeof organizationPricingOverrides.$inferSelect;
+export type InsertOrganizationPricingOverride = z.infer<typeof insertOrganizationPricingOverrideSchema>;